@@ -12,9 +12,11 @@ async function loadHealth() {
 async function bulkScrape() {
   showLoading('Bulk scraping all sports... This may take a while.');
   try {
-    const response = await fetch(apiUrl(`/api/fetch-all-sports?_=${Date.now()}`), { cache: 'no-store' });
+    // Only the summary is needed here, so ask for the smallest page.
+    const response = await fetch(apiUrl(`/api/fetch-all-sports?limit=1&refresh=true&_=${Date.now()}`), { cache: 'no-store' });
     const data = await response.json();
-    showToast(`Scraped ${data.count} sports. ${data.errors?.length || 0} errors.`,
+    if (!response.ok) throw new Error(data.error || `HTTP ${response.status}`);
+    showToast(`Scraped ${data.total} games across ${data.sports} sports. ${data.errors?.length || 0} errors.`,
       data.errors?.length ? 'info' : 'success');
     loadHealth();
   } catch (error) {
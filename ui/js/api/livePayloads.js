@@ -267,3 +267,49 @@ function applyLiveGamesPayload(payload) {
     }
   }
 }
+
+function mergeGamesPatch(games, patch) {
+  const removed = new Set((Array.isArray(patch?.removed) ? patch.removed : []).map(String));
+  const changedById = new Map();
+  (Array.isArray(patch?.changed) ? patch.changed : []).forEach(c => {
+    if (c && c.id !== null && c.id !== undefined) changedById.set(String(c.id), c.fields || {});
+  });
+
+  const next = [];
+  const seen = new Set();
+  (Array.isArray(games) ? games : []).forEach(g => {
+    const sid = getServerGameId(g);
+    const key = sid !== null && sid !== undefined ? String(sid) : null;
+    if (key && removed.has(key)) return;
+    if (key) seen.add(key);
+
+    const fields = key ? changedById.get(key) : null;
+    if (!fields) {
+      next.push(g);
+      return;
+    }
+    const updated = { ...g };
+    for (const [k, v] of Object.entries(fields)) {
+      if (v === null) delete updated[k];
+      else updated[k] = v;
+    }
+    next.push(updated);
+  });
+
+  (Array.isArray(patch?.added) ? patch.added : []).forEach(g => {
+    const sid = getServerGameId(g);
+    if (sid !== null && sid !== undefined && seen.has(String(sid))) return;
+    next.push(g);
+  });
+
+  return next;
+}
+
+function gamesPatchToPayload(patch) {
+  return {
+    sportId: patch?.sportId,
+    sportName: patch?.sportName,
+    data: mergeGamesPatch(currentGames, patch),
+    last_updated: patch?.last_updated
+  };
+}
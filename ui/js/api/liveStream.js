@@ -79,6 +79,13 @@ function startLiveStream(sportId) {
     applyLiveGamesPayload(payload);
   };
 
+  const gamesPatchListener = (evt) => {
+    if (currentMode !== 'live') return;
+    const payload = safeJsonParse(evt?.data);
+    if (!payload) return;
+    applyLiveGamesPayload(gamesPatchToPayload(payload));
+  };
+
   const oddsListener = (evt) => {
     if (currentMode !== 'live') return;
     liveStreamHasOddsSse = true;
@@ -147,6 +154,9 @@ function startLiveStream(sportId) {
   es.addEventListener('games', gamesListener);
   liveStreamListeners.push({ type: 'games', listener: gamesListener });
 
+  es.addEventListener('games_patch', gamesPatchListener);
+  liveStreamListeners.push({ type: 'games_patch', listener: gamesPatchListener });
+
   es.addEventListener('odds', oddsListener);
   liveStreamListeners.push({ type: 'odds', listener: oddsListener });
 
@@ -66,6 +66,13 @@ function startPrematchStream(sportId) {
     applyPrematchGamesPayload(payload);
   };
 
+  const gamesPatchListener = (evt) => {
+    if (currentMode !== 'prematch') return;
+    const payload = safeJsonParse(evt?.data);
+    if (!payload) return;
+    applyPrematchGamesPayload(gamesPatchToPayload(payload));
+  };
+
   const oddsListener = (evt) => {
     if (currentMode !== 'prematch') return;
     prematchStreamHasOddsSse = true;
@@ -92,6 +99,9 @@ function startPrematchStream(sportId) {
   es.addEventListener('games', gamesListener);
   prematchStreamListeners.push({ type: 'games', listener: gamesListener });
 
+  es.addEventListener('games_patch', gamesPatchListener);
+  prematchStreamListeners.push({ type: 'games_patch', listener: gamesPatchListener });
+
   es.addEventListener('odds', oddsListener);
   prematchStreamListeners.push({ type: 'odds', listener: oddsListener });
 
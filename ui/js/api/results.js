@@ -181,14 +181,22 @@ async function loadResultGames(sportId, sportName) {
   currentSport = { id: sportId, name: sportName };
 
   try {
-    const response = await fetch(apiUrl(`/api/results/games/${sportId}?${getResultsDateParams()}&_=${Date.now()}`), { cache: 'no-store' });
-    const data = await response.json();
-    
-    if (!data.success) {
-      throw new Error(data.error || 'Failed to load results');
-    }
+    // Results are paged; follow the cursor until the whole window is loaded.
+    const games = [];
+    let data = null;
+    let cursor = null;
+    do {
+      const cursorParam = cursor ? `&cursor=${encodeURIComponent(cursor)}` : '';
+      const response = await fetch(apiUrl(`/api/results/games/${sportId}?${getResultsDateParams()}&limit=1000${cursorParam}&_=${Date.now()}`), { cache: 'no-store' });
+      data = await response.json();
 
-    const games = data.games || [];
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to load results');
+      }
+
+      games.push(...(data.games || []));
+      cursor = data.next_cursor;
+    } while (cursor);
     
     // Update sidebar count with actual game count
     if (sportsCountsResults instanceof Map) {
@@ -396,21 +404,17 @@ async function showResultDetails(gameId, rowEl) {
   if (settlements.length === 0) {
     html += '<p class="no-settlements">No settlement data available</p>';
   } else {
-    // Group settlements by market name
-    const grouped = {};
+    const outcomeLabels = { won: '✓', lost: '✗', void: '↺', 'half-won': '½✓', 'half-lost': '½✗' };
     for (const s of settlements) {
-      if (!grouped[s.market]) {
-        grouped[s.market] = [];
-      }
-      grouped[s.market].push(...s.winners);
-    }
-    
-    for (const [market, winners] of Object.entries(grouped)) {
+      // Settled selections carry an outcome; unlinked markets only list their winners.
+      const selections = Array.isArray(s.selections) && s.selections.length
+        ? s.selections
+        : (s.winners || []).map(name => ({ name, outcome: 'won' }));
       html += `
         <div class="settlement-item">
-          <div class="settlement-market">${market}</div>
+          <div class="settlement-market">${s.market}</div>
           <div class="settlement-winners">
-            ${winners.map(w => `<span class="winner-badge">✓ ${w}</span>`).join('')}
+            ${selections.map(sel => `<span class="winner-badge outcome-${sel.outcome}">${outcomeLabels[sel.outcome] || ''} ${sel.name}</span>`).join('')}
           </div>
         </div>
       `;
@@ -1,39 +1,76 @@
-function hydrateGameStatsInDetails(isLive, statsContainer, serverGameId, team1, team2, game) {
-  // For live games, show live match statistics from game.stats
-  if (isLive && game?.stats && statsContainer) {
-    const stats = game.stats;
-    
-    // Define which stats to show and their display names
-    const statConfig = [
-      { key: 'dangerous_attack', label: 'Dangerous Attacks' },
-      { key: 'shot_on_target', label: 'Shots on Target' },
-      { key: 'shot_blocked', label: 'Shots Blocked' },
-      { key: 'corner', label: 'Corners' },
-      { key: 'goal', label: 'Goals' },
-      { key: 'foul', label: 'Fouls' },
-      { key: 'offside', label: 'Offsides' },
-      { key: 'yellow_card', label: 'Yellow Cards' },
-      { key: 'red_card', label: 'Red Cards' },
-      { key: 'goalkeeper_save', label: 'Saves' },
-      { key: 'free_kick', label: 'Free Kicks' },
-      { key: 'throw_in', label: 'Throw-ins' },
-      { key: 'substitution', label: 'Substitutions' },
-      { key: 'wicet', label: 'Wickets' }, // Cricket
-      { key: 'over', label: 'Overs' }, // Cricket
-      { key: 'possession', label: 'Possession %' },
-      { key: 'attack', label: 'Attacks' },
-    ];
-    
-    const statRows = statConfig
-      .filter(({ key }) => stats[key] && (stats[key].team1_value !== undefined || stats[key].team2_value !== undefined))
-      .map(({ key, label }) => {
-        const t1 = stats[key].team1_value ?? 0;
-        const t2 = stats[key].team2_value ?? 0;
-        const total = (Number(t1) || 0) + (Number(t2) || 0);
-        const pct1 = total > 0 ? Math.round((Number(t1) / total) * 100) : 50;
-        const pct2 = 100 - pct1;
-        
-        return `
+// Normalized stats from /api/game-stats, refetched at most every 10s per game
+const GAME_STATS_REFRESH_MS = 10000;
+const gameStatsCache = new Map();
+
+function loadGameStats(serverGameId) {
+  const key = String(serverGameId);
+  const cached = gameStatsCache.get(key);
+  if (cached && Date.now() - cached.fetchedAt < GAME_STATS_REFRESH_MS) return cached.promise;
+
+  const promise = fetch(apiUrl(`/api/game-stats?gameId=${encodeURIComponent(key)}`))
+    .then(r => (r.ok ? r.json() : null))
+    .catch(e => {
+      console.error('Stats fetch error:', e);
+      return null;
+    });
+  gameStatsCache.set(key, { fetchedAt: Date.now(), promise });
+  return promise;
+}
+
+// Labels for the Swarm keys that land in `stats.other`, in display order
+const OTHER_STAT_LABELS = {
+  goal: 'Goals',
+  goalkeeper_save: 'Saves',
+  free_kick: 'Free Kicks',
+  throw_in: 'Throw-ins',
+  substitution: 'Substitutions',
+  penalty: 'Penalties',
+  wicet: 'Wickets', // Cricket
+  wicket: 'Wickets', // Cricket
+  over: 'Overs', // Cricket
+};
+
+function otherStatLabel(key) {
+  if (OTHER_STAT_LABELS[key]) return OTHER_STAT_LABELS[key];
+  const words = key.replace(/_/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function otherStatConfig(other) {
+  if (!other || typeof other !== 'object') return [];
+  const known = Object.keys(OTHER_STAT_LABELS);
+  const rank = (key) => (known.includes(key) ? known.indexOf(key) : known.length);
+  return Object.keys(other)
+    .sort((a, b) => rank(a) - rank(b) || a.localeCompare(b))
+    .map(key => ({ pair: other[key], label: otherStatLabel(key) }));
+}
+
+function renderGameStatRows(stats) {
+  const statConfig = [
+    { pair: stats.attacks?.dangerous, label: 'Dangerous Attacks' },
+    { pair: stats.attacks?.total, label: 'Attacks' },
+    { pair: stats.shots?.on_target, label: 'Shots on Target' },
+    { pair: stats.shots?.off_target, label: 'Shots off Target' },
+    { pair: stats.shots?.blocked, label: 'Shots Blocked' },
+    { pair: stats.corners, label: 'Corners' },
+    { pair: stats.fouls, label: 'Fouls' },
+    { pair: stats.offsides, label: 'Offsides' },
+    { pair: stats.cards?.yellow, label: 'Yellow Cards' },
+    { pair: stats.cards?.red, label: 'Red Cards' },
+    { pair: stats.possession, label: 'Possession %' },
+    ...otherStatConfig(stats.other),
+  ];
+
+  return statConfig
+    .filter(({ pair }) => pair)
+    .map(({ pair, label }) => {
+      const t1 = pair.team1 ?? 0;
+      const t2 = pair.team2 ?? 0;
+      const total = t1 + t2;
+      const pct1 = total > 0 ? Math.round((t1 / total) * 100) : 50;
+      const pct2 = 100 - pct1;
+
+      return `
           <div class="live-stat-row">
             <span class="live-stat-value left">${t1}</span>
             <div class="live-stat-bar-container">
@@ -44,96 +81,51 @@ function hydrateGameStatsInDetails(isLive, statsContainer, serverGameId, team1,
             <span class="live-stat-value right">${t2}</span>
           </div>
         `;
-      })
-      .join('');
-    
-    // Period/Half scores
-    let periodScoresHtml = '';
-    const periodScores = [];
-    for (let i = 1; i <= 10; i++) {
-      const setKey = `score_set${i}`;
-      if (stats[setKey]) {
-        const t1 = stats[setKey].team1_value ?? '-';
-        const t2 = stats[setKey].team2_value ?? '-';
-        periodScores.push({ period: i, t1, t2 });
-      }
-    }
-    if (periodScores.length > 0) {
-      const periodLabels = periodScores.length === 2 ? ['1H', '2H'] : periodScores.map((_, i) => `P${i + 1}`);
-      periodScoresHtml = `
+    })
+    .join('');
+}
+
+function renderPeriodScores(stats, team1, team2) {
+  const periods = Array.isArray(stats.periods) ? stats.periods : [];
+  if (!periods.length) return '';
+  const total = (side) => stats.score?.[side] ?? periods.reduce((sum, p) => sum + (p[side] ?? 0), 0);
+
+  return `
         <div class="period-scores-box">
           <div class="period-scores-header">
             <span class="team-name">${team1}</span>
-            ${periodLabels.map(l => `<span class="period-label">${l}</span>`).join('')}
+            ${periods.map(p => `<span class="period-label">${p.label}</span>`).join('')}
             <span class="team-name">${team2}</span>
           </div>
           <div class="period-scores-row">
-            <span class="period-total">${periodScores.reduce((sum, p) => sum + (Number(p.t1) || 0), 0)}</span>
-            ${periodScores.map(p => `<span class="period-score">${p.t1}-${p.t2}</span>`).join('')}
-            <span class="period-total">${periodScores.reduce((sum, p) => sum + (Number(p.t2) || 0), 0)}</span>
+            <span class="period-total">${total('team1')}</span>
+            ${periods.map(p => `<span class="period-score">${p.team1 ?? '-'}-${p.team2 ?? '-'}</span>`).join('')}
+            <span class="period-total">${total('team2')}</span>
           </div>
         </div>
       `;
+}
+
+function hydrateGameStatsInDetails(isLive, statsContainer, serverGameId, team1, team2, game) {
+  if (!statsContainer || !serverGameId) return;
+
+  if (!isLive) {
+    statsContainer.innerHTML = '<div class="stats-loading">Loading stats...</div>';
+  }
+
+  loadGameStats(serverGameId).then(stats => {
+    // The details panel may have moved on to another game meanwhile
+    if (!statsContainer.isConnected) return;
+    const statRows = stats ? renderGameStatRows(stats) : '';
+    const periodScoresHtml = stats ? renderPeriodScores(stats, team1, team2) : '';
+    const eventsHtml = isLive ? renderLiveEvents(game, team1, team2) : '';
+
+    if (!statRows && !periodScoresHtml && !eventsHtml) {
+      statsContainer.innerHTML = isLive ? '' : '<div class="stats-empty">No stats available</div>';
+      return;
     }
-    
-    // Live events timeline
-    let eventsHtml = '';
-    const liveEvents = game?.live_events;
-    if (Array.isArray(liveEvents) && liveEvents.length > 0) {
-      // Event type mapping
-      const eventTypes = {
-        '1': { icon: '⚽', name: 'Goal' },
-        '2': { icon: '🟨', name: 'Yellow Card' },
-        '3': { icon: '🟥', name: 'Red Card' },
-        '4': { icon: '🚩', name: 'Corner' },
-        '5': { icon: '⚽', name: 'Penalty' },
-        '6': { icon: '🔄', name: 'Substitution' },
-        '7': { icon: '🏥', name: 'Injury' },
-        '8': { icon: '⏱️', name: 'Half Time' },
-        '9': { icon: '🏁', name: 'Full Time' },
-        '10': { icon: '🎯', name: 'Shot on Target' },
-        '11': { icon: '❌', name: 'Shot off Target' },
-        '12': { icon: '🧤', name: 'Save' },
-        '13': { icon: '🚫', name: 'Offside' },
-        '14': { icon: '⚠️', name: 'Foul' },
-        '20': { icon: '⚡', name: 'Dangerous Attack' },
-        '328': { icon: '📺', name: 'VAR Review' },
-      };
-      
-      // Sort by time descending (most recent first)
-      const sortedEvents = [...liveEvents]
-        .filter(e => e.type_id && eventTypes[e.type_id])
-        .sort((a, b) => (b.time || 0) - (a.time || 0))
-        .slice(0, 15); // Show last 15 events
-      
-      if (sortedEvents.length > 0) {
-        const eventItems = sortedEvents.map(e => {
-          const eventType = eventTypes[e.type_id] || { icon: '•', name: 'Event' };
-          const teamName = e.side === '1' ? team1 : e.side === '2' ? team2 : '';
-          const minute = e.current_minute || '';
-          
-          return `
-            <div class="live-event-item">
-              <span class="live-event-time">${minute}</span>
-              <span class="live-event-icon">${eventType.icon}</span>
-              <span class="live-event-text">
-                ${eventType.name}${teamName ? ` - <span class="live-event-team">${teamName}</span>` : ''}
-              </span>
-            </div>
-          `;
-        }).join('');
-        
-        eventsHtml = `
-          <div class="live-events-box">
-            <div class="live-events-title">Match Events</div>
-            ${eventItems}
-          </div>
-        `;
-      }
-    }
-    
-    if (statRows || periodScoresHtml || eventsHtml) {
-      statsContainer.innerHTML = `
+
+    statsContainer.innerHTML = `
         ${periodScoresHtml}
         ${statRows ? `
         <div class="live-stats-box">
@@ -149,56 +141,64 @@ function hydrateGameStatsInDetails(isLive, statsContainer, serverGameId, team1,
         ` : ''}
         ${eventsHtml}
       `;
-    } else {
-      statsContainer.innerHTML = '';
+  });
+}
+
+function renderLiveEvents(game, team1, team2) {
+  let eventsHtml = '';
+  const liveEvents = game?.live_events;
+  if (Array.isArray(liveEvents) && liveEvents.length > 0) {
+    // Event type mapping
+    const eventTypes = {
+      '1': { icon: '⚽', name: 'Goal' },
+      '2': { icon: '🟨', name: 'Yellow Card' },
+      '3': { icon: '🟥', name: 'Red Card' },
+      '4': { icon: '🚩', name: 'Corner' },
+      '5': { icon: '⚽', name: 'Penalty' },
+      '6': { icon: '🔄', name: 'Substitution' },
+      '7': { icon: '🏥', name: 'Injury' },
+      '8': { icon: '⏱️', name: 'Half Time' },
+      '9': { icon: '🏁', name: 'Full Time' },
+      '10': { icon: '🎯', name: 'Shot on Target' },
+      '11': { icon: '❌', name: 'Shot off Target' },
+      '12': { icon: '🧤', name: 'Save' },
+      '13': { icon: '🚫', name: 'Offside' },
+      '14': { icon: '⚠️', name: 'Foul' },
+      '20': { icon: '⚡', name: 'Dangerous Attack' },
+      '328': { icon: '📺', name: 'VAR Review' },
+    };
+    
+    // Sort by time descending (most recent first)
+    const sortedEvents = [...liveEvents]
+      .filter(e => e.type_id && eventTypes[e.type_id])
+      .sort((a, b) => (b.time || 0) - (a.time || 0))
+      .slice(0, 15); // Show last 15 events
+    
+    if (sortedEvents.length > 0) {
+      const eventItems = sortedEvents.map(e => {
+        const eventType = eventTypes[e.type_id] || { icon: '•', name: 'Event' };
+        const teamName = e.side === '1' ? team1 : e.side === '2' ? team2 : '';
+        const minute = e.current_minute || '';
+        
+        return `
+          <div class="live-event-item">
+            <span class="live-event-time">${minute}</span>
+            <span class="live-event-icon">${eventType.icon}</span>
+            <span class="live-event-text">
+              ${eventType.name}${teamName ? ` - <span class="live-event-team">${teamName}</span>` : ''}
+            </span>
+          </div>
+        `;
+      }).join('');
+      
+      eventsHtml = `
+        <div class="live-events-box">
+          <div class="live-events-title">Match Events</div>
+          ${eventItems}
+        </div>
+      `;
     }
-    return;
-  }
-  
-  // For prematch games, fetch stats from API
-  if (!isLive && statsContainer && serverGameId) {
-    statsContainer.innerHTML = '<div class="stats-loading">Loading stats...</div>';
-    fetch(apiUrl(`/api/game-stats?gameId=${serverGameId}`))
-      .then(r => r.json())
-      .then(data => {
-        if (data.error || !data.stats) {
-          statsContainer.innerHTML = '<div class="stats-empty">No stats available</div>';
-          return;
-        }
-        const home = data.stats.home;
-        const away = data.stats.away;
-
-        if (!home && !away) {
-          statsContainer.innerHTML = '';
-          return;
-        }
-
-        const renderTeamStats = (stats, name) => {
-          if (!stats) return `<div class="team-stat-empty">-</div>`;
-          const formHtml = (stats.form || []).map(r =>
-            `<span class="stat-result stat-${r.toLowerCase()}">${r}</span>`
-          ).join('');
-
-          return `
-                      <div class="team-stat-box">
-                          <div class="stat-team-name">${name}</div>
-                          <div class="stat-position">Pos: ${stats.position || '-'}</div>
-                          <div class="stat-points"> Pts: ${stats.points || '-'}</div>
-                          <div class="stat-form">${formHtml}</div>
-                      </div>
-                  `;
-        };
-
-        statsContainer.innerHTML = `
-                  <div class="stats-box">
-                      ${renderTeamStats(home, team1)}
-                      ${renderTeamStats(away, team2)}
-                  </div>
-              `;
-      })
-      .catch(e => {
-        console.error('Stats fetch error:', e);
-        statsContainer.innerHTML = '';
-      });
   }
+
+  return eventsHtml;
 }
@@ -1,11 +1,31 @@
 type DurableObjectState = {
   storage: DurableObjectStorage;
+  acceptWebSocket(ws: WebSocket, tags?: string[]): void;
+  getWebSockets(tag?: string): WebSocket[];
 };
 
 type DurableObjectStorage = {
   get<T>(key: string): Promise<T | undefined>;
   put<T>(key: string, value: T): Promise<void>;
+  delete(keys: string[]): Promise<number>;
+  list<T>(options?: { prefix?: string }): Promise<Map<string, T>>;
   setAlarm(scheduledTime: number): Promise<void>;
+  getAlarm(): Promise<number | null>;
+  // Only on classes created with `new_sqlite_classes`.
+  sql?: SqlStorage;
+};
+
+type SqlStorageValue = ArrayBuffer | string | number | null;
+
+type SqlStorageCursor<T extends Record<string, SqlStorageValue>> = Iterable<T> & {
+  toArray(): T[];
+  one(): T;
+  readonly rowsRead: number;
+  readonly rowsWritten: number;
+};
+
+type SqlStorage = {
+  exec<T extends Record<string, SqlStorageValue>>(query: string, ...bindings: unknown[]): SqlStorageCursor<T>;
 };
 
 type DurableObjectId = {
@@ -25,6 +45,20 @@ interface Response {
   webSocket?: WebSocket;
 }
 
+interface ResponseInit {
+  webSocket?: WebSocket | null;
+}
+
+interface WebSocket {
+  accept(): void;
+  serializeAttachment(value: unknown): void;
+  deserializeAttachment(): unknown;
+}
+
+declare const WebSocketPair: {
+  new (): { 0: WebSocket; 1: WebSocket };
+};
+
 type ExecutionContext = {
   waitUntil(promise: Promise<unknown>): void;
   passThroughOnException(): void;
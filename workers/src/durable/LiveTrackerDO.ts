@@ -1,13 +1,66 @@
 import type { Env } from '../env.js';
+import { getReconnectDelayMs } from '../lib/backoff.js';
+import {
+  createTrackerTimeline,
+  fitTrackerTimeline,
+  recordTrackerEntry,
+  restoreTrackerTimeline,
+  TRACKER_TIMELINE_MAX_EVENTS,
+  trackerCatchUpEntries,
+  type StoredTrackerTimeline,
+  type TrackerEntry,
+  type TrackerTimeline
+} from '../lib/liveTracker.js';
+import {
+  createReplayLog,
+  getLastEventId,
+  getReplayEntries,
+  nextEventId,
+  recordReplayEntry,
+  type SseReplayLog
+} from '../lib/sseReplay.js';
+import {
+  archiveTrackerEvents,
+  ensureTrackerArchiveSchema,
+  parseReplaySpeed,
+  pruneTrackerArchive,
+  readTrackerArchive,
+  replayDelayMs,
+  summarizeTrackerArchive,
+  TRACKER_ARCHIVE_RETENTION_MS
+} from '../lib/trackerArchive.js';
+import { createTrackerFeedContext, normalizeTrackerFrame, type TrackerEvent, type TrackerFeedContext } from '../lib/trackerEvents.js';
 
 type Client = {
   id: string;
   writer: WritableStreamDefaultWriter<Uint8Array>;
   abortSignal: AbortSignal;
+  // Debug clients also get each upstream frame as it arrived.
+  debug: boolean;
 };
 
+/** One upstream frame as SSE: its typed events, and with the raw `frame` first for debug clients. */
+type EncodedFrame = { events: Uint8Array; debug: Uint8Array };
+
 const encoder = new TextEncoder();
 
+const TRACKER_TIMELINE_KEY = 'tracker_timeline';
+// The events after the stored snapshot, one value per persist.
+const TRACKER_TIMELINE_CHUNK_PREFIX = 'tracker_timeline_chunk:';
+// A stored timeline older than this belongs to a game that is long over.
+const TRACKER_TIMELINE_RETENTION_MS = 6 * 60 * 60 * 1000;
+const TRACKER_PERSIST_DELAY_MS = 2000;
+const TRACKER_REPLAY_PAGE_SIZE = 200;
+
+// A featured game's tracker stays connected without clients while its lease runs.
+const TRACKER_WARM_KEY = 'tracker_warm';
+const TRACKER_WARM_CHECK_MS = 30000;
+const TRACKER_WARM_DEFAULT_LEASE_MS = 3 * 60 * 1000;
+const TRACKER_WARM_MIN_LEASE_MS = 10000;
+const TRACKER_WARM_MAX_LEASE_MS = 10 * 60 * 1000;
+
+type WarmLease = { gameId: string; untilMs: number };
+
 function sseHeaders(): Headers {
   const headers = new Headers();
   headers.set('Content-Type', 'text/event-stream');
@@ -17,18 +70,50 @@ function sseHeaders(): Headers {
   return headers;
 }
 
-function encodeSseEvent(event: string | null, data: unknown): Uint8Array {
+function encodeSseEvent(event: string | null, data: unknown, id: string | null = null): Uint8Array {
   const json = JSON.stringify(data);
+  const idLine = id ? `id: ${id}\n` : '';
   if (event) {
-    return encoder.encode(`event: ${event}\ndata: ${json}\n\n`);
+    return encoder.encode(`${idLine}event: ${event}\ndata: ${json}\n\n`);
   }
-  return encoder.encode(`data: ${json}\n\n`);
+  return encoder.encode(`${idLine}data: ${json}\n\n`);
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.byteLength, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.byteLength;
+  }
+  return out;
+}
+
+function encodeTrackerEvent(gameId: string, ts: number, sport: string | null, { kind, ...event }: TrackerEvent, id: string | null): Uint8Array {
+  return encodeSseEvent(kind, { gameId, ts, sport, ...event }, id);
+}
+
+function encodeTrackerFrame(gameId: string, entry: TrackerEntry, sport: string | null, events: TrackerEvent[]): EncodedFrame {
+  const id = entry.id || null;
+  const bytes = concatBytes(events.map((event) => encodeTrackerEvent(gameId, entry.ts, sport, event, id)));
+  return { events: bytes, debug: concatBytes([encodeSseEvent('frame', entry.payload, id), bytes]) };
 }
 
 function encodeSseComment(text: string): Uint8Array {
   return encoder.encode(`: ${text}\n\n`);
 }
 
+function errorResponse(status: number, error: string): Response {
+  return new Response(JSON.stringify({ error }), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+function timelineChunkKey(seq: number): string {
+  return `${TRACKER_TIMELINE_CHUNK_PREFIX}${String(seq).padStart(10, '0')}`;
+}
+
 function nowSec(): number {
   return Math.floor(Date.now() / 1000);
 }
@@ -49,6 +134,32 @@ export class LiveTrackerDO {
   private lastReportAtMs = 0;
   private lastMessageAtIso: string | null = null;
 
+  private eventLog: SseReplayLog = createReplayLog();
+  // Same ids as `eventLog`, with the raw frames debug clients get.
+  private debugLog: SseReplayLog = { ...this.eventLog, entries: [] };
+  private feedContext: TrackerFeedContext = createTrackerFeedContext();
+
+  // Latest snapshot plus everything since, replayed to clients that join late.
+  private timeline: TrackerTimeline | null = null;
+  private awaitingSnapshot = false;
+  private persistTimer: number | null = null;
+  // Stored chunks oldest first, those of an earlier snapshot still to delete, the
+  // entries not stored yet, and whether a new snapshot must replace the stored head.
+  private timelineChunks: Array<{ seq: number; count: number }> = [];
+  private staleTimelineChunks: number[] = [];
+  private nextTimelineChunkSeq = 0;
+  private unpersistedEntries: TrackerEntry[] = [];
+  private timelineHeadDirty = false;
+
+  private reconnectTimer: number | null = null;
+  private reconnectAttempts = 0;
+
+  private archiveReady = false;
+  private archiveAlarmArmed = false;
+
+  private warmLease: WarmLease | null = null;
+  private warmLeaseLoaded = false;
+
   constructor(state: DurableObjectState, env: Env) {
     this.state = state;
     this.env = env;
@@ -115,15 +226,17 @@ export class LiveTrackerDO {
     }
   }
 
-  private async broadcast(bytes: Uint8Array): Promise<void> {
+  private async broadcast(bytes: Uint8Array, debugBytes = bytes): Promise<void> {
     const dead: string[] = [];
     for (const [id, client] of this.clients.entries()) {
       if (client.abortSignal.aborted) {
         dead.push(id);
         continue;
       }
+      const out = client.debug ? debugBytes : bytes;
+      if (out.byteLength === 0) continue;
       try {
-        await client.writer.write(bytes);
+        await client.writer.write(out);
       } catch {
         dead.push(id);
       }
@@ -151,9 +264,7 @@ export class LiveTrackerDO {
           void this.broadcast(encodeSseComment(`ping ${Date.now()}`));
           this.pruneDisconnectedClients();
           if (this.clients.size === 0) {
-            this.stopHeartbeat();
-            this.closeUpstream();
-            void this.report({ gameId, force: true, sseClients: 0, upstreamConnected: false });
+            this.releaseUpstream(gameId);
           } else {
             void this.report({ gameId });
           }
@@ -162,9 +273,7 @@ export class LiveTrackerDO {
           console.error('Error in heartbeat:', error);
           // If broadcast fails consistently, stop heartbeat to prevent resource waste
           if (this.clients.size === 0) {
-            this.stopHeartbeat();
-            this.closeUpstream();
-            void this.report({ gameId, force: true, sseClients: 0, upstreamConnected: false });
+            this.releaseUpstream(gameId);
           }
         }
       }, 15000) as unknown as number;
@@ -176,6 +285,14 @@ export class LiveTrackerDO {
     }
   }
 
+  /** The last client left: drop the upstream, unless the game is featured and kept warm. */
+  private releaseUpstream(gameId: string): void {
+    this.stopHeartbeat();
+    if (this.isWarm()) return;
+    this.closeUpstream();
+    void this.report({ gameId, force: true, sseClients: 0, upstreamConnected: false });
+  }
+
   private stopHeartbeat(): void {
     if (this.heartbeatTimer == null) return;
     try {
@@ -189,14 +306,258 @@ export class LiveTrackerDO {
     }
   }
 
+  private async ensureTimelineLoaded(gameId: string): Promise<TrackerTimeline> {
+    if (this.timeline) return this.timeline;
+    const [head, stored] = await Promise.all([
+      this.state.storage.get<StoredTrackerTimeline>(TRACKER_TIMELINE_KEY),
+      this.state.storage.list<TrackerEntry[]>({ prefix: TRACKER_TIMELINE_CHUNK_PREFIX })
+    ]);
+    if (!this.timeline) {
+      const chunks = Array.from(stored, ([key, entries]) => ({ seq: Number(key.slice(TRACKER_TIMELINE_CHUNK_PREFIX.length)), entries }));
+      const restored = head && head.gameId === String(gameId) ? restoreTrackerTimeline(head, chunks) : null;
+      const fresh = restored !== null && Date.now() - restored.updatedAtMs <= TRACKER_TIMELINE_RETENTION_MS;
+      const firstSeq = fresh ? head?.chunkSeq ?? 0 : Infinity;
+      this.timeline = fresh ? restored : createTrackerTimeline(String(gameId));
+      this.timelineChunks = chunks.filter((c) => c.seq >= firstSeq).sort((a, b) => a.seq - b.seq).map((c) => ({ seq: c.seq, count: c.entries.length }));
+      this.staleTimelineChunks = chunks.filter((c) => c.seq < firstSeq).map((c) => c.seq);
+      this.nextTimelineChunkSeq = chunks.reduce((next, c) => Math.max(next, c.seq + 1), 0);
+    }
+    return this.timeline;
+  }
+
+  /** The SQLite event archive, or `null` where storage has no SQL. */
+  private trackerArchive(): SqlStorage | null {
+    const sql = this.state.storage.sql;
+    if (!sql) return null;
+    if (!this.archiveReady) {
+      ensureTrackerArchiveSchema(sql);
+      this.archiveReady = true;
+    }
+    return sql;
+  }
+
+  private archiveFrame(gameId: string, ts: number, sport: string | null, events: TrackerEvent[], isSnapshot: boolean): void {
+    const sql = this.trackerArchive();
+    if (!sql || !events.length) return;
+    try {
+      archiveTrackerEvents(sql, String(gameId), ts, sport, events, isSnapshot);
+    } catch (e) {
+      console.error('Failed to archive tracker events:', e);
+      return;
+    }
+    if (!this.archiveAlarmArmed) {
+      this.archiveAlarmArmed = true;
+      void this.scheduleAlarm(ts + TRACKER_ARCHIVE_RETENTION_MS);
+    }
+  }
+
+  /** Bring the alarm forward to `at`; a sooner one already set is kept. */
+  private async scheduleAlarm(at: number): Promise<void> {
+    try {
+      const alarmAt = await this.state.storage.getAlarm();
+      if (alarmAt == null || alarmAt > at) await this.state.storage.setAlarm(at);
+    } catch (e) {
+      console.error('Failed to schedule tracker alarm:', e);
+    }
+  }
+
+  private async ensureWarmLeaseLoaded(): Promise<WarmLease | null> {
+    if (!this.warmLeaseLoaded) {
+      const stored = await this.state.storage.get<WarmLease>(TRACKER_WARM_KEY);
+      if (!this.warmLeaseLoaded) {
+        this.warmLease = stored ?? null;
+        this.warmLeaseLoaded = true;
+      }
+    }
+    return this.warmLease;
+  }
+
+  private isWarm(): boolean {
+    return this.warmLease !== null && this.warmLease.untilMs > Date.now();
+  }
+
+  /**
+   * Drops archived events past retention, and keeps a featured game's upstream up until
+   * its lease runs out. The tracker reconnects on its own while warm; the alarm restarts
+   * one that lost its connection to an eviction.
+   */
+  async alarm(): Promise<void> {
+    const due: number[] = [];
+    const sql = this.trackerArchive();
+    if (sql) {
+      const oldest = pruneTrackerArchive(sql, Date.now() - TRACKER_ARCHIVE_RETENTION_MS);
+      if (oldest !== null) due.push(oldest + TRACKER_ARCHIVE_RETENTION_MS);
+    }
+
+    const lease = await this.ensureWarmLeaseLoaded();
+    if (lease && this.isWarm()) {
+      await this.ensureTimelineLoaded(lease.gameId);
+      if (!this.upstream && this.reconnectTimer == null) void this.ensureUpstream(lease.gameId);
+      due.push(Math.min(lease.untilMs, Date.now() + TRACKER_WARM_CHECK_MS));
+    } else if (lease) {
+      this.warmLease = null;
+      await this.state.storage.delete([TRACKER_WARM_KEY]);
+      this.pruneDisconnectedClients();
+      if (this.clients.size === 0) this.closeUpstream();
+    }
+
+    if (due.length) await this.state.storage.setAlarm(Math.min(...due));
+  }
+
+  /** Called for featured games: renew the lease and connect upstream without waiting for a client. */
+  private async handleWarm(url: URL, gameId: string): Promise<Response> {
+    const requested = Number(url.searchParams.get('leaseMs'));
+    const leaseMs = Number.isFinite(requested) && requested > 0
+      ? Math.min(Math.max(requested, TRACKER_WARM_MIN_LEASE_MS), TRACKER_WARM_MAX_LEASE_MS)
+      : TRACKER_WARM_DEFAULT_LEASE_MS;
+    const lease: WarmLease = { gameId: String(gameId), untilMs: Date.now() + leaseMs };
+    this.warmLease = lease;
+    this.warmLeaseLoaded = true;
+    await this.state.storage.put(TRACKER_WARM_KEY, lease);
+    await this.scheduleAlarm(Math.min(lease.untilMs, Date.now() + TRACKER_WARM_CHECK_MS));
+
+    const timeline = await this.ensureTimelineLoaded(gameId);
+    if (!this.upstream && this.reconnectTimer == null) void this.ensureUpstream(gameId);
+
+    return new Response(
+      JSON.stringify({
+        gameId: String(gameId),
+        warm_until: new Date(lease.untilMs).toISOString(),
+        upstream_connected: this.upstreamConnected,
+        sse_clients: this.clients.size,
+        timeline: { snapshot: timeline.snapshot !== null, events: timeline.events.length }
+      }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+
+  private schedulePersist(): void {
+    if (this.persistTimer != null) return;
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      void this.persistTimeline();
+    }, TRACKER_PERSIST_DELAY_MS) as unknown as number;
+  }
+
+  /**
+   * Write what changed since the last persist: a new snapshot replaces the head and
+   * drops the chunks of the previous one, then the entries since go out as one chunk.
+   * The oldest chunks are dropped once the rest still hold the timeline's event cap.
+   */
+  private async persistTimeline(): Promise<void> {
+    if (this.persistTimer != null) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    if (!this.timeline) return;
+
+    const deletes = this.staleTimelineChunks.map(timelineChunkKey);
+    this.staleTimelineChunks = [];
+    let head: StoredTrackerTimeline | null | undefined;
+    if (this.timelineHeadDirty) {
+      this.timelineHeadDirty = false;
+      deletes.push(...this.timelineChunks.map((c) => timelineChunkKey(c.seq)));
+      this.timelineChunks = [];
+      const fitted = fitTrackerTimeline({ ...this.timeline, events: [] });
+      head = fitted ? { ...fitted, chunkSeq: this.nextTimelineChunkSeq } : null;
+    }
+
+    const entries = this.unpersistedEntries;
+    this.unpersistedEntries = [];
+    const chunk = entries.length ? { seq: this.nextTimelineChunkSeq++, count: entries.length } : null;
+    if (chunk) this.timelineChunks.push(chunk);
+    let kept = this.timelineChunks.reduce((n, c) => n + c.count, 0);
+    while (this.timelineChunks.length > 1 && kept - this.timelineChunks[0].count >= TRACKER_TIMELINE_MAX_EVENTS) {
+      const dropped = this.timelineChunks.shift()!;
+      kept -= dropped.count;
+      deletes.push(timelineChunkKey(dropped.seq));
+    }
+
+    try {
+      if (head === null) deletes.push(TRACKER_TIMELINE_KEY);
+      else if (head) await this.state.storage.put(TRACKER_TIMELINE_KEY, head);
+      if (chunk) await this.state.storage.put(timelineChunkKey(chunk.seq), entries);
+      if (deletes.length) await this.state.storage.delete(deletes);
+    } catch (e) {
+      console.error('Failed to persist tracker timeline:', e);
+    }
+  }
+
+  /**
+   * Log one upstream frame under a fresh id. Frames without typed events are logged
+   * empty, so ids stay contiguous and a resume after one still replays.
+   */
+  private recordUpstreamMessage(gameId: string, payload: unknown): EncodedFrame {
+    const entry: TrackerEntry = { id: nextEventId(this.eventLog), ts: Date.now(), payload };
+    this.debugLog.seq = this.eventLog.seq;
+    // The subscription asks for a snapshot, so the first message after each one is it.
+    const isSnapshot = this.awaitingSnapshot;
+    this.awaitingSnapshot = false;
+    if (isSnapshot) this.feedContext = createTrackerFeedContext();
+
+    const events = normalizeTrackerFrame(payload, this.feedContext);
+    this.archiveFrame(gameId, entry.ts, this.feedContext.sport, events, isSnapshot);
+    const frame = encodeTrackerFrame(String(gameId), entry, this.feedContext.sport, events);
+    recordReplayEntry(this.eventLog, frame.events);
+    recordReplayEntry(this.debugLog, frame.debug);
+    if (this.timeline) {
+      recordTrackerEntry(this.timeline, entry, isSnapshot);
+      if (isSnapshot) {
+        this.timelineHeadDirty = true;
+        this.unpersistedEntries = [];
+      } else {
+        this.unpersistedEntries.push(entry);
+      }
+      this.schedulePersist();
+    }
+    return frame;
+  }
+
+  private scheduleReconnect(gameId: string): void {
+    if (this.reconnectTimer != null) return;
+    const delayMs = getReconnectDelayMs(this.reconnectAttempts);
+    this.reconnectAttempts += 1;
+    void this.broadcast(encodeSseEvent('reconnecting', { gameId: String(gameId), attempt: this.reconnectAttempts, delay_ms: delayMs }));
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.pruneDisconnectedClients();
+      if (this.clients.size === 0 && !this.isWarm()) return;
+      void this.ensureUpstream(gameId);
+    }, delayMs) as unknown as number;
+  }
+
+  /** The upstream went away on its own: retry while clients remain. */
+  private handleUpstreamLost(ws: WebSocket, gameId: string): void {
+    if (this.upstream !== ws) return;
+    this.upstreamConnected = false;
+    this.upstream = null;
+    this.upstreamConnecting = null;
+    void this.report({ gameId, force: true, sseClients: this.clients.size, upstreamConnected: false });
+
+    this.pruneDisconnectedClients();
+    if (this.clients.size > 0 || this.isWarm()) {
+      this.scheduleReconnect(gameId);
+    } else {
+      void this.broadcast(encodeSseEvent('end', { gameId: String(gameId) }));
+    }
+  }
+
   private closeUpstream(): void {
+    if (this.reconnectTimer != null) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.reconnectAttempts = 0;
+    if (this.persistTimer != null) void this.persistTimeline();
     if (!this.upstream) return;
+    const ws = this.upstream;
+    this.upstream = null;
     try {
-      this.upstream.close();
+      ws.close();
     } catch {
       // ignore
     }
-    this.upstream = null;
     this.upstreamConnected = false;
     this.upstreamConnecting = null;
     
@@ -223,6 +584,7 @@ export class LiveTrackerDO {
 
       ws.addEventListener('open', () => {
         this.upstreamConnected = true;
+        this.awaitingSnapshot = true;
         void this.report({ gameId, force: true, sseClients: this.clients.size, upstreamConnected: true });
 
         try {
@@ -263,23 +625,21 @@ export class LiveTrackerDO {
           payload = { raw: typeof evt.data === 'string' ? evt.data : String(evt.data) };
         }
 
-        void this.broadcast(encodeSseEvent(null, payload));
+        this.reconnectAttempts = 0;
+        const frame = this.recordUpstreamMessage(gameId, payload);
+        void this.broadcast(frame.events, frame.debug);
         void this.report({ gameId });
       });
 
       ws.addEventListener('error', () => {
         void this.broadcast(encodeSseEvent('error', { error: 'WebSocket error' }));
+        // A socket that never opened may not follow up with `close`.
+        if (ws.readyState === WebSocket.CLOSED) this.handleUpstreamLost(ws, gameId);
       });
 
       ws.addEventListener('close', () => {
-        this.upstreamConnected = false;
-        this.upstream = null;
-        this.upstreamConnecting = null;
-        void this.broadcast(encodeSseEvent('end', { gameId: String(gameId) }));
-        void this.report({ gameId, force: true, sseClients: this.clients.size, upstreamConnected: false });
+        this.handleUpstreamLost(ws, gameId);
       });
-
-      await this.broadcast(encodeSseEvent('ready', { gameId: String(gameId) }));
     })();
 
     try {
@@ -289,22 +649,113 @@ export class LiveTrackerDO {
     }
   }
 
+  /**
+   * Send `ready` and the catch-up (missed events for a known `Last-Event-ID`, else the
+   * snapshot and the timeline since, normalized again from the start), then add the
+   * client to live broadcasts. The writes are queued before the client is registered,
+   * so nothing can overtake them.
+   */
+  private attachClient(client: Client, gameId: string, lastEventId: string | null): void {
+    const timeline = this.timeline ?? createTrackerTimeline(String(gameId));
+    const replay = getReplayEntries(client.debug ? this.debugLog : this.eventLog, lastEventId);
+    const catchUp = replay ? null : trackerCatchUpEntries(timeline);
+
+    const frames = [
+      encodeSseEvent('ready', {
+        gameId: String(gameId),
+        upstream_connected: this.upstreamConnected,
+        catch_up: catchUp ? { snapshot: timeline.snapshot !== null, events: timeline.events.length, truncated: timeline.truncated } : null
+      })
+    ];
+    if (replay) frames.push(...replay);
+    const context = createTrackerFeedContext();
+    for (const entry of catchUp ?? []) {
+      const events = normalizeTrackerFrame(entry.payload, context);
+      const frame = encodeTrackerFrame(String(gameId), entry, context.sport, events);
+      frames.push(client.debug ? frame.debug : frame.events);
+    }
+    for (const bytes of frames) {
+      if (bytes.byteLength > 0) client.writer.write(bytes).catch(() => null);
+    }
+
+    this.clients.set(client.id, client);
+    this.startHeartbeat(gameId);
+    void this.report({ gameId, force: true, sseClients: this.clients.size, upstreamConnected: this.upstreamConnected });
+
+    if (!this.upstream && this.reconnectTimer == null) {
+      void this.ensureUpstream(gameId);
+    }
+  }
+
+  /**
+   * Stream the archived events back, spaced as they arrived divided by `speed`. Ids are
+   * archive sequence numbers, so a reconnecting client resumes where it stopped.
+   */
+  private handleReplay(request: Request, gameId: string): Response {
+    const url = new URL(request.url);
+    const sql = this.trackerArchive();
+    if (!sql) return errorResponse(503, 'Tracker archive is not available');
+    const speed = parseReplaySpeed(url.searchParams.get('speed'));
+    if (speed === null) return errorResponse(400, 'speed must be a positive number');
+    const lastSeq = Number(getLastEventId(request));
+    const afterSeq = Number.isInteger(lastSeq) && lastSeq > 0 ? lastSeq : 0;
+
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const writer = writable.getWriter();
+    const signal = request.signal;
+
+    const run = async () => {
+      let sent = 0;
+      try {
+        await writer.write(encodeSseEvent('ready', { gameId, speed, ...summarizeTrackerArchive(sql, gameId) }));
+        let cursor = afterSeq;
+        let prevTs: number | null = null;
+        for (;;) {
+          const page = readTrackerArchive(sql, gameId, cursor, TRACKER_REPLAY_PAGE_SIZE);
+          for (const row of page) {
+            const delayMs = replayDelayMs(prevTs, row.ts, speed);
+            if (delayMs > 0) await new Promise((resolve) => setTimeout(resolve, delayMs));
+            if (signal.aborted) return;
+            await writer.write(encodeTrackerEvent(gameId, row.ts, row.sport, row.event, String(row.seq)));
+            prevTs = row.ts;
+            cursor = row.seq;
+            sent += 1;
+          }
+          if (page.length < TRACKER_REPLAY_PAGE_SIZE) break;
+        }
+        await writer.write(encodeSseEvent('end', { gameId, events: sent }));
+      } catch {
+        // the client went away
+      } finally {
+        try {
+          await writer.close();
+        } catch {
+          // ignore
+        }
+      }
+    };
+    setTimeout(() => void run(), 0);
+
+    return new Response(readable, { status: 200, headers: sseHeaders() });
+  }
+
   async fetch(request: Request): Promise<Response> {
     const url = new URL(request.url);
     const gameId = url.searchParams.get('gameId');
-    if (!gameId) {
-      return new Response(JSON.stringify({ error: 'gameId is required' }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json' }
-      });
-    }
+    if (!gameId) return errorResponse(400, 'gameId is required');
+
+    if (url.pathname.endsWith('/replay')) return this.handleReplay(request, gameId);
+    if (request.method === 'POST' && url.pathname === '/internal/warm') return this.handleWarm(url, gameId);
+
+    await this.ensureTimelineLoaded(gameId);
+    await this.ensureWarmLeaseLoaded();
 
     const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
     const writer = writable.getWriter();
 
     const id = crypto.randomUUID();
-    const client: Client = { id, writer, abortSignal: request.signal };
-    this.clients.set(id, client);
+    const debug = url.searchParams.get('debug');
+    const client: Client = { id, writer, abortSignal: request.signal, debug: debug === '1' || debug === 'true' };
 
     request.signal.addEventListener('abort', () => {
       const existing = this.clients.get(id);
@@ -319,18 +770,11 @@ export class LiveTrackerDO {
       }
     });
 
-    this.startHeartbeat(gameId);
-    void this.report({ gameId, force: true, sseClients: this.clients.size, upstreamConnected: this.upstreamConnected });
-
-    if (this.clients.size === 1) {
-      void this.ensureUpstream(gameId);
-    } else if (this.upstreamConnected) {
-      try {
-        await writer.write(encodeSseEvent('ready', { gameId: String(gameId) }));
-      } catch {
-        // ignore
-      }
-    }
+    const lastEventId = getLastEventId(request);
+    setTimeout(() => {
+      if (request.signal.aborted) return;
+      this.attachClient(client, gameId, lastEventId);
+    }, 0);
 
     return new Response(readable, {
       status: 200,
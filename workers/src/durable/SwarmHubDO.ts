@@ -1,12 +1,168 @@
 import type { Env } from '../env.js';
+import { getReconnectDelayMs } from '../lib/backoff.js';
 import { getCountsFp, getGameFp, getOddsFp, getSportFp } from '../lib/fingerprints.js';
-import { buildOddsArrFromMarket, getSportMainMarketTypePriority, pickPreferredMarketFromEmbedded } from '../lib/odds.js';
-import { parseGamesFromData } from '../lib/parseGamesFromData.js';
-import { extractSportsCountsFromSwarm } from '../lib/swarmCounts.js';
+import { diffGameRows, isEmptyGamesPatch, type GameRowState } from '../lib/gamesPatch.js';
+import { normalizeGameStats, type GameStats } from '../lib/gameStats.js';
+import {
+  bulkSnapshotNdjsonLines,
+  pageBulkSnapshot,
+  parseBulkCursor,
+  parseBulkLimit,
+  toBulkSnapshotGame,
+  type BulkSnapshot,
+  type BulkSnapshotError,
+  type BulkSnapshotGame
+} from '../lib/bulkSnapshot.js';
+import { buildMarketBook, type MarketBook } from '../lib/marketBook.js';
+import {
+  createConsistencyState,
+  expireConsistency,
+  extractMatchState,
+  observeSwarmScore,
+  observeTrackerGoal,
+  parseConsistencyWindowMs,
+  sameMatchState,
+  setConsistencySport,
+  type ConsistencyEvent,
+  type MatchState
+} from '../lib/matchCenter.js';
+import {
+  buildOddsArrFromMarket,
+  computeMarketProbabilities,
+  getSportMainMarketTypePriority,
+  pickPreferredMarketFromEmbedded,
+  type MarketProbabilities,
+  type OddsArrEntry
+} from '../lib/odds.js';
+import {
+  isMarginProfileId,
+  MAX_MARGIN_PROFILES,
+  parseMarginProfile,
+  parseOddsFormat,
+  createOddsPresentationWriter,
+  type MarginProfile,
+  type OddsWriterOptions
+} from '../lib/oddsFormat.js';
+import {
+  annotateOddsMovement,
+  appendOddsHistory,
+  diffSelectionPrices,
+  ODDS_HISTORY_RETENTION_MS,
+  pricesFromMarketBook,
+  pricesFromOddsArr,
+  pruneOddsHistory,
+  type OddsChange,
+  type OddsHistoryBucket,
+  type OddsMovement
+} from '../lib/oddsHistory.js';
+import {
+  DEFAULT_FEATURED_TRACKERS_CONFIG,
+  isFeaturedTrackersEnabled,
+  parseFeaturedTrackersConfig,
+  selectFeaturedTrackerGames,
+  type FeaturedTrackerGame,
+  type FeaturedTrackersConfig
+} from '../lib/featuredTrackers.js';
+import { parseGamesFromData, type ParsedGame } from '../lib/parseGamesFromData.js';
+import {
+  buildSearchIndex,
+  collectHierarchyEntries,
+  collectTeamEntries,
+  parseSearchLimit,
+  parseSearchTypes,
+  SEARCH_MIN_QUERY_LENGTH,
+  searchIndex,
+  type ActiveTeamGame,
+  type SearchEntry,
+  type SearchIndex
+} from '../lib/search.js';
+import {
+  COORDINATOR_SHARD,
+  gameShardName,
+  getTopicShardName,
+  getTopicStreamPath,
+  sportShardName,
+  SWARM_SHARD_HEADER
+} from '../lib/sharding.js';
+import {
+  archiveResultDay,
+  archiveSettlement,
+  ensureResultsArchiveSchema,
+  getArchiveStatus,
+  isResultDayArchived,
+  parseScoreFilter,
+  pendingSettlementGameIds,
+  settlementBatchSize,
+  queryArchivedGames,
+  readArchivedResultDay,
+  readArchivedSettlement
+} from '../lib/resultsArchive.js';
+import {
+  filterResultGames,
+  isResultDayFinal,
+  pageResultGames,
+  parseResultsCursor,
+  parseResultsLimit,
+  RESULTS_DAY_SEC,
+  RESULTS_MAX_DAYS,
+  splitResultDays
+} from '../lib/resultsHistory.js';
+import {
+  buildSettlementCatalog,
+  getSettlementCatalogFp,
+  normalizeSettlements,
+  resolveFinalScore,
+  type SettlementCatalog
+} from '../lib/settlement.js';
+import { createSseFrameDecoder, encodeSseEvent, type ClientWriter, type EncodedSseEvent, type SseFrame } from '../lib/sseFrames.js';
+import {
+  appendCaptureLine,
+  CAPTURE_DEFAULT_DURATION_MS,
+  CAPTURE_MAX_DURATION_MS,
+  CAPTURE_MAX_SEGMENTS,
+  CAPTURE_META_KEY,
+  captureSegmentKey,
+  encodeCaptureLine,
+  type CaptureDirection,
+  type CaptureMeta,
+  type CaptureStopReason
+} from '../lib/swarmCapture.js';
+import {
+  getSwarmResponseError,
+  schemaIssueKey,
+  swarmCollectionValues,
+  unwrapSwarmData,
+  validateSwarmData,
+  validateSwarmResponse,
+  type SchemaIssue,
+  type SwarmCommand,
+  type SwarmCommands,
+  type SwarmData,
+  type SwarmGame,
+  type SwarmGetParams,
+  type SwarmMarket,
+  type SwarmRequest,
+  type SwarmResponse,
+  type SwarmResultGame,
+  type SwarmSport
+} from '../lib/swarmProtocol.js';
+import { createReplayLog, currentEventId, getLastEventId, getReplayEntries, invalidateReplayLog, nextEventId, recordReplayEntry, type SseReplayLog } from '../lib/sseReplay.js';
+import {
+  annotateHierarchyCounts,
+  extractCountsTreeFromSwarm,
+  extractSportsCountsFromSwarm,
+  getCountsTreeFp,
+  mergeCountsTree,
+  type CountsTree,
+  type ModeGameCounts
+} from '../lib/swarmCounts.js';
+import { formatTopic, MAX_TOPICS_PER_SESSION, parseTopic, type StreamTopic } from '../lib/topics.js';
+import type { TrackerIncident } from '../lib/trackerEvents.js';
 
 type JsonValue = string | number | boolean | null | { [key: string]: JsonValue } | JsonValue[];
 
 type Pending = {
+  command: SwarmCommand;
   resolve: (value: unknown) => void;
   reject: (err: unknown) => void;
   timeoutId: number;
@@ -19,22 +175,50 @@ type HierarchyCache = {
 
 type Client = {
   id: string;
-  writer: WritableStreamDefaultWriter<Uint8Array>;
+  writer: ClientWriter;
   abortSignal: AbortSignal;
 };
 
+type TopicEntry = {
+  detach: (() => void) | null;
+  closed: boolean;
+};
+
+// A connection carrying several topics: a /api/ws socket or a /api/stream response.
+type TopicSession = {
+  id: string;
+  topics: Map<string, TopicEntry>;
+  send(message: Record<string, unknown>): void;
+  createWriter(topic: string): ClientWriter;
+  persist(): void;
+};
+
+type WsAttachment = {
+  sessionId: string;
+  topics: string[];
+};
+
 type SubscriptionEntry = {
+  params: SwarmGetParams;
   state: Record<string, unknown>;
   onEmit: (data: unknown) => void;
 };
 
  type OddsCacheEntry = {
-  odds: unknown;
+  odds: OddsMovement[] | null;
   markets_count: number;
   fp: string;
   updatedAtMs: number;
  };
 
+ // One game's entry in an `odds` event; probabilities follow the order of `odds`.
+ type OddsUpdate = {
+  gameId: unknown;
+  odds: unknown;
+  markets_count: number;
+  probabilities: MarketProbabilities | null;
+ };
+
  type MarketTypeCacheEntry = {
   cachedAtMs: number;
   types: string[];
@@ -52,6 +236,8 @@ type SportStreamGroup = {
   lastFp: string;
   lastOddsFp: string;
   lastGamesPayload: unknown | null;
+  lastGamesSnapshotAtMs: number;
+  gameRows: Map<string, GameRowState>;
   lastOddsPayload: unknown | null;
   lastOddsSnapshotAtMs: number;
   oddsInFlight: boolean;
@@ -65,6 +251,7 @@ type SportStreamGroup = {
   oddsSubid: string | null;
   oddsSubscribing: boolean;
   oddsTypePriority: string[] | null;
+  eventLog: SseReplayLog;
 };
 
 type GameStreamGroup = {
@@ -76,7 +263,9 @@ type GameStreamGroup = {
   subscribing: boolean;
   lastFp: string;
   lastPayload: unknown | null;
+  lastMarketsPayload: unknown | null;
   cleanupTimer: number | null;
+  eventLog: SseReplayLog;
 };
 
 type CompetitionOddsGroup = {
@@ -89,6 +278,7 @@ type CompetitionOddsGroup = {
   subid: string | null;
   cleanupTimer: number | null;
   oddsCache: Map<string, OddsCacheEntry>;
+  eventLog: SseReplayLog;
 };
 
 const encoder = new TextEncoder();
@@ -97,7 +287,51 @@ const encoder = new TextEncoder();
  const ODDS_POLL_INTERVAL_MS = 2500;
  const ODDS_SNAPSHOT_REBUILD_MS = 15000;
  const ODDS_REFRESH_AFTER_MS = 60000;
+ const GAMES_SNAPSHOT_REBUILD_MS = 60000;
  const GROUP_GRACE_MS = 30000;
+ // How often a match center checks for goals one feed has not confirmed.
+ const MATCH_CENTER_CHECK_MS = 5000;
+ const ODDS_HISTORY_FLUSH_MS = 1000;
+ const ODDS_HISTORY_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+ // Per game, when its history was last written; refreshed at most once per purge interval.
+ const ODDS_HISTORY_TOUCHED_PREFIX = 'odds_history_touched:';
+ // Before per-game keys, one object listed every game; purged games are moved out of it.
+ const LEGACY_ODDS_HISTORY_INDEX_KEY = 'odds_history_index';
+ const CAPTURE_FLUSH_MS = 2000;
+ const MARGIN_PROFILE_TTL_MS = 60000;
+ const MARGIN_PROFILE_IDS_KEY = 'margin_profile_ids';
+ const GAME_STATS_LIVE_TTL_MS = 10000;
+ const GAME_STATS_TTL_MS = 5 * 60 * 1000;
+ const GAME_STATS_CACHE_MAX_SIZE = 500;
+ const BULK_SNAPSHOT_TTL_MS = 60000;
+ const BULK_SNAPSHOT_CONCURRENCY = 4;
+ const SEARCH_TEAMS_TTL_MS = 15000;
+ // `/api/hierarchy?withCounts=1` keeps the counts subscriptions this long without stream clients.
+ const COUNTS_TREE_LINGER_MS = 5 * 60 * 1000;
+ // Sport shards push their active games to the coordinator on change, at most every
+ // ACTIVE_GAMES_PUSH_MS, and again every ACTIVE_GAMES_REFRESH_MS while they list any;
+ // the coordinator forgets a shard it has not heard from in ACTIVE_GAMES_STALE_MS.
+ const ACTIVE_GAMES_PUSH_MS = 2000;
+ const ACTIVE_GAMES_REFRESH_MS = 60000;
+ const ACTIVE_GAMES_STALE_MS = 2 * ACTIVE_GAMES_REFRESH_MS;
+ const SETTLEMENT_CATALOG_INDEX_KEY = 'settlement_catalog_index';
+ const SETTLEMENT_CATALOG_RETENTION_MS = 3 * 24 * 60 * 60 * 1000;
+ const SETTLEMENT_CATALOG_SAVE_MS = 15000;
+ const SETTLEMENT_CATALOG_MAX_BYTES = 120 * 1024;
+ const RESULT_DAY_LIVE_TTL_MS = 60000;
+ const RESULTS_ARCHIVE_ARMED_KEY = 'results_archive_armed';
+ const RESULTS_ARCHIVE_NEXT_RUN_KEY = 'results_archive_next_run';
+ const RESULTS_ARCHIVE_INTERVAL_MS = 60 * 60 * 1000;
+ const RESULTS_ARCHIVE_BACKFILL_DAYS = 3;
+ const RESULTS_ARCHIVE_LAST_RUN_KEY = 'results_archive_last_run';
+ // Settlements per run grow with the backlog, so it drains within about a day of runs.
+ const RESULTS_ARCHIVE_SETTLEMENTS_PER_RUN = 200;
+ const RESULTS_ARCHIVE_MAX_SETTLEMENTS_PER_RUN = 1000;
+ const RESULTS_ARCHIVE_DRAIN_RUNS = 24;
+ const FEATURED_TRACKERS_KEY = 'featured_trackers';
+ const FEATURED_TRACKERS_INTERVAL_MS = 60000;
+ // Each refresh renews this lease, so a tracker dropped from the list disconnects on its own.
+ const FEATURED_TRACKER_LEASE_MS = 3 * 60 * 1000;
  
  // WebSocket connection timeout - 30 seconds as per Requirements 3.1
  const WS_CONNECTION_TIMEOUT_MS = 30000;
@@ -110,6 +344,74 @@ const encoder = new TextEncoder();
  const MAX_CLIENTS_PER_DO = 10000; // Maximum concurrent clients per Durable Object
  const MAX_SUBSCRIPTIONS = 1000; // Maximum concurrent subscriptions
  const MAX_PENDING_REQUESTS = 100; // Maximum concurrent pending requests
+ const MAX_SCHEMA_DRIFT_KEYS = 200; // Distinct drift keys tracked in metrics
+
+// Game, market and event fields for a single game's full market book.
+const GAME_DETAIL_WHAT = {
+  game: [
+    'id',
+    'stats',
+    'info',
+    'is_neutral_venue',
+    'add_info_name',
+    'text_info',
+    'markets_count',
+    'type',
+    'start_ts',
+    'is_stat_available',
+    'team1_id',
+    'team1_name',
+    'team2_id',
+    'team2_name',
+    'last_event',
+    'live_events',
+    'match_length',
+    'sport_alias',
+    'sportcast_id',
+    'region_alias',
+    'is_blocked',
+    'show_type',
+    'game_number'
+  ],
+  market: [
+    'id',
+    'game_id',
+    'group_id',
+    'group_name',
+    'group_order',
+    'type',
+    'name_template',
+    'sequence',
+    'point_sequence',
+    'name',
+    'order',
+    'display_key',
+    'display_sub_key',
+    'col_count',
+    'express_id',
+    'extra_info',
+    'cashout',
+    'is_new',
+    'has_early_payout',
+    'prematch_express_id',
+    'main_order',
+    'base'
+  ],
+  event: [
+    'id',
+    'market_id',
+    'type_1',
+    'type',
+    'price',
+    'name',
+    'base',
+    'home_value',
+    'away_value',
+    'display_column',
+    'order',
+    'is_blocked'
+  ]
+};
 
 function sseHeaders(): Headers {
   const headers = new Headers();
@@ -120,18 +422,107 @@ function sseHeaders(): Headers {
   return headers;
 }
 
-function encodeSseEvent(event: string | null, data: unknown): Uint8Array {
-  const json = JSON.stringify(data);
-  if (event) {
-    return encoder.encode(`event: ${event}\ndata: ${json}\n\n`);
-  }
-  return encoder.encode(`data: ${json}\n\n`);
+/** The events of a chunk: its own `frame`, or the SSE bytes decoded when it has none. */
+function chunkFrames(chunk: EncodedSseEvent, decode: (chunk: Uint8Array) => SseFrame[]): SseFrame[] {
+  return chunk.frame ? [chunk.frame] : decode(chunk);
+}
+
+// Assigns the next id in the stream's log and keeps the bytes for Last-Event-ID replay
+function encodeLoggedSseEvent(log: SseReplayLog, event: string, data: unknown): EncodedSseEvent {
+  const bytes = encodeSseEvent(event, data, nextEventId(log));
+  recordReplayEntry(log, bytes);
+  return bytes;
 }
 
 function encodeSseComment(text: string): Uint8Array {
   return encoder.encode(`: ${text}\n\n`);
 }
 
+function sendWsMessage(ws: WebSocket, message: unknown): boolean {
+  try {
+    ws.send(JSON.stringify(message));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Adapts a WebSocket topic to the SSE client writer so it can join the existing
+// stream groups: each event is sent on as a JSON message.
+function createWsTopicWriter(ws: WebSocket, topic: string): ClientWriter {
+  const decode = createSseFrameDecoder();
+  return {
+    async write(chunk: EncodedSseEvent): Promise<void> {
+      for (const frame of chunkFrames(chunk, decode)) {
+        ws.send(JSON.stringify({ type: 'event', topic, event: frame.event, id: frame.id, data: frame.data }));
+      }
+    },
+    close(): void {
+      // the socket belongs to the session, not to a single topic
+    }
+  };
+}
+
+function createSseTopicWriter(writer: ClientWriter, topic: string): ClientWriter {
+  const decode = createSseFrameDecoder();
+  return {
+    async write(chunk: EncodedSseEvent): Promise<void> {
+      for (const frame of chunkFrames(chunk, decode)) {
+        await writer.write(encodeSseEvent(frame.event, { topic, id: frame.id, data: frame.data }));
+      }
+    },
+    close(): void {
+      // the response belongs to the session, not to a single topic
+    }
+  };
+}
+
+/** A group client that gets each event as emitted; only bytes piped in from another DO are decoded. */
+function createEventClient(abortSignal: AbortSignal, onEvent: (frame: SseFrame) => void): Client {
+  const decode = createSseFrameDecoder();
+  return {
+    id: crypto.randomUUID(),
+    abortSignal,
+    writer: {
+      async write(chunk: EncodedSseEvent): Promise<void> {
+        for (const frame of chunkFrames(chunk, decode)) onEvent(frame);
+      },
+      close(): void {
+        // nothing to close: the listener owns no stream
+      }
+    }
+  };
+}
+
+function marginProfileKey(id: string): string {
+  return `margin_profile:${id}`;
+}
+
+function findGameInData(data: SwarmData | null, gameId: string): SwarmGame | null {
+  const gamesNode = data?.game;
+  if (!gamesNode || typeof gamesNode !== 'object') return null;
+  const games = swarmCollectionValues(gamesNode);
+  if (Array.isArray(gamesNode)) {
+    return games.find((g) => String(g.id) === String(gameId)) || null;
+  }
+  const direct = gamesNode[String(gameId)];
+  if (direct) return direct;
+  if (games.length === 1 && Object.keys(gamesNode).length === 1) return games[0];
+  return games.find((g) => String(g.id) === String(gameId)) || null;
+}
+
+/** Sports of a hierarchy response by id. */
+function hierarchySports(hierarchy: unknown): Map<string, SwarmSport> {
+  const sports = new Map<string, SwarmSport>();
+  const node = unwrapSwarmData(hierarchy)?.sport;
+  if (!node || typeof node !== 'object') return sports;
+  for (const [key, sport] of Object.entries(node)) {
+    if (!sport || typeof sport !== 'object') continue;
+    sports.set(String(sport.id ?? key), sport);
+  }
+  return sports;
+}
+
 function json(data: JsonValue, init: ResponseInit = {}): Response {
   const headers = new Headers(init.headers);
   headers.set('Content-Type', 'application/json');
@@ -139,18 +530,6 @@ function json(data: JsonValue, init: ResponseInit = {}): Response {
   return new Response(JSON.stringify(data), { ...init, headers });
 }
 
-function unwrapSwarmData(raw: unknown): unknown {
-  if (!raw || typeof raw !== 'object') return raw;
-  const obj = raw as Record<string, unknown>;
-  const data = obj.data;
-  if (data && typeof data === 'object') {
-    const d = data as Record<string, unknown>;
-    if (d.data && typeof d.data === 'object') return d.data;
-    return data;
-  }
-  return raw;
-}
-
 function nowSec(): number {
   return Math.floor(Date.now() / 1000);
 }
@@ -163,6 +542,9 @@ export class SwarmHubDO {
   private state: DurableObjectState;
   private env: Env;
 
+  // Set from the routing header on every request; hibernated sockets only exist on the coordinator.
+  private shardName = COORDINATOR_SHARD;
+
   private wsUrl = 'wss://eu-swarm-newm.vmemkhhgjigrjefb.com';
   private partnerId = 1777;
 
@@ -179,8 +561,19 @@ export class SwarmHubDO {
   private wsMessageTimestampsIndex = 0;
   private wsMessageTimestampsCount = 0;
 
+  // Known Swarm fields that arrived with an unexpected type, keyed by `entity.field:type`
+  private schemaDriftTotal = 0;
+  private schemaDriftByKey: Map<string, number> = new Map();
+  private lastSchemaDriftAtIso: string | null = null;
+
   private subscriptions: Map<string, SubscriptionEntry> = new Map();
 
+  private reconnectTimer: number | null = null;
+  private reconnecting = false;
+  private reconnectAttempts = 0;
+  private reconnectsTotal = 0;
+  private lastResyncAtIso: string | null = null;
+
   private countsClients: Map<string, Client> = new Map();
   private countsHeartbeatTimer: number | null = null;
   private countsLiveSubid: string | null = null;
@@ -189,6 +582,15 @@ export class SwarmHubDO {
   private countsLastPrematchFp = '';
   private countsLivePayload: unknown = null;
   private countsPrematchPayload: unknown = null;
+  private countsLiveTree: ModeGameCounts = new Map();
+  private countsPrematchTree: ModeGameCounts = new Map();
+  private countsTreePayload: CountsTree | null = null;
+  private countsLastTreeFp = '';
+  private countsLingerTimer: number | null = null;
+  // Sport shards follow the coordinator's counts stream rather than subscribing to Swarm.
+  private countsFeedController: AbortController | null = null;
+  private countsFeedAttempt = 0;
+  private countsEventLog: SseReplayLog = createReplayLog();
 
   private hierarchyMapsAtMs = 0;
   private hierarchySportNameById: Record<string, string> = {};
@@ -203,6 +605,51 @@ export class SwarmHubDO {
   private liveGameGroups: Map<string, GameStreamGroup> = new Map();
   private competitionOddsGroups: Map<string, CompetitionOddsGroup> = new Map();
 
+  private gameStatsCache: Map<string, { cachedAtMs: number; stats: GameStats }> = new Map();
+
+  // Kept in memory only: a snapshot is far larger than a storage value and only needs to outlive a paging session.
+  private bulkSnapshot: { snapshot: BulkSnapshot; builtAtMs: number } | null = null;
+  private bulkSnapshotBuild: Promise<BulkSnapshot> | null = null;
+
+  // Search: the hierarchy part is rebuilt when the cached hierarchy changes, teams every few seconds.
+  private searchHierarchy: { cachedAtMs: number; index: SearchIndex } | null = null;
+  private searchTeams: { index: SearchIndex; builtAtMs: number } | null = null;
+
+  // Coordinator: the active games each sport shard last pushed.
+  private activeGamesByShard: Map<string, { games: ActiveTeamGame[]; receivedAtMs: number }> = new Map();
+  // Sport shards: the next push of their active games, and the refresh after the last one.
+  private activeGamesPushTimer: number | null = null;
+  private activeGamesRefreshTimer: number | null = null;
+  private activeGamesPushedAtMs = 0;
+
+  // Loaded on demand; the coordinator's storage is the source of truth.
+  private marginProfiles: Map<string, { profile: MarginProfile | null; loadedAtMs: number }> = new Map();
+
+  private pendingOddsHistory: Map<string, Record<string, OddsChange[]>> = new Map();
+  private oddsHistoryFlushTimer: number | null = null;
+  private oddsHistoryWrites: Promise<void> = Promise.resolve();
+  private oddsHistoryTouched: Map<string, number> = new Map();
+
+  private settlementCatalogSaves: Map<string, { fp: string; savedAtMs: number }> = new Map();
+  private settlementCatalogWrites: Promise<void> = Promise.resolve();
+
+  // Days that can still change (or any day, without the archive) are only cached in memory.
+  private resultDayCache: Map<string, { games: SwarmResultGame[]; cachedAtMs: number }> = new Map();
+  private resultsArchiveReady = false;
+  private resultsArchiveArmed = false;
+  private featuredTrackers: { games: FeaturedTrackerGame[]; refreshedAtMs: number } | null = null;
+
+  // Opt-in capture of raw Swarm frames; segment `capture.segments` is the one being filled.
+  private capture: CaptureMeta | null = null;
+  private captureLoaded = false;
+  private captureOpenSegment = '';
+  private captureFlushTimer: number | null = null;
+  private captureWrites: Promise<void> = Promise.resolve();
+
+  private wsSessions: Map<string, TopicSession> = new Map();
+  private wsSessionsRestored = false;
+  private streamSessions: Map<string, TopicSession> = new Map();
+
   constructor(state: DurableObjectState, env: Env) {
     this.state = state;
     this.env = env;
@@ -246,7 +693,7 @@ export class SwarmHubDO {
     const entry = this.subscriptions.get(subid);
     if (!entry) return;
     this.deepMerge(entry.state, { data: delta });
-    entry.onEmit((entry.state as any).data);
+    entry.onEmit(entry.state.data);
   }
 
   private recordWsMessage(kind: 'ok' | 'parse_error'): void {
@@ -263,6 +710,21 @@ export class SwarmHubDO {
     if (kind === 'parse_error') this.wsMessageParseErrorsTotal += 1;
   }
 
+  private recordSchemaIssues(issues: SchemaIssue[]): void {
+    if (!issues.length) return;
+    this.schemaDriftTotal += issues.length;
+    this.lastSchemaDriftAtIso = new Date().toISOString();
+    for (const issue of issues) {
+      const key = schemaIssueKey(issue);
+      const seen = this.schemaDriftByKey.get(key);
+      if (seen === undefined) {
+        if (this.schemaDriftByKey.size >= MAX_SCHEMA_DRIFT_KEYS) continue;
+        console.warn(`Swarm schema drift: ${issue.entity}.${issue.field} expected ${issue.expected}, got ${issue.actual}`);
+      }
+      this.schemaDriftByKey.set(key, (seen ?? 0) + 1);
+    }
+  }
+
   private getWsMessagesLast60s(): number {
     const now = Date.now();
     let count = 0;
@@ -335,6 +797,7 @@ export class SwarmHubDO {
       this.ws = ws;
 
       ws.addEventListener('message', (evt: MessageEvent) => {
+        this.captureFrame('in', String(evt.data));
         let message: unknown;
         try {
           message = JSON.parse(String(evt.data));
@@ -349,6 +812,7 @@ export class SwarmHubDO {
 
         if ((rid === 0 || rid === '0') && obj.data && typeof obj.data === 'object') {
           for (const [subid, delta] of Object.entries(obj.data as Record<string, unknown>)) {
+            this.recordSchemaIssues(validateSwarmData(delta));
             this.handleSubscriptionDelta(String(subid), delta);
           }
           return;
@@ -359,25 +823,31 @@ export class SwarmHubDO {
           if (!entry) return;
           clearTimeout(entry.timeoutId);
           this.pending.delete(rid);
+          this.recordSchemaIssues(validateSwarmResponse(entry.command, message));
           entry.resolve(message);
         }
       });
 
       ws.addEventListener('close', () => {
+        // A socket we already replaced must not clobber the current connection state
+        if (this.ws !== ws) return;
         this.sessionId = null;
         this.ws = null;
         this.connecting = null;
         this.rejectAllPending(new Error('Swarm WebSocket closed'));
+        this.scheduleReconnect();
       });
 
       ws.addEventListener('error', (event) => {
         console.error('Swarm WebSocket error:', event);
+        if (this.ws !== ws) return;
         
         // Ensure cleanup on all error paths
         this.sessionId = null;
         this.ws = null;
         this.connecting = null;
         this.rejectAllPending(new Error('Swarm WebSocket error'));
+        this.scheduleReconnect();
       });
 
       await new Promise<void>((resolve, reject) => {
@@ -427,12 +897,12 @@ export class SwarmHubDO {
         });
       });
 
-      const sessionResp = (await this.sendRequest('request_session', {
+      const sessionResp = await this.sendRequest('request_session', {
         site_id: this.partnerId,
         language: 'eng'
-      })) as Record<string, unknown>;
+      });
 
-      const sid = (sessionResp?.data as Record<string, unknown> | undefined)?.sid;
+      const sid = sessionResp?.data?.sid;
       if (!sid || typeof sid !== 'string') {
         throw new Error('Failed to get Swarm session id');
       }
@@ -446,7 +916,178 @@ export class SwarmHubDO {
     }
   }
 
-  private async sendRequest(command: string, params: unknown, timeoutMs = 60000): Promise<unknown> {
+  /**
+   * Schedule an upstream reconnect after an unexpected close.
+   * Only runs while there are live subscriptions to restore; otherwise the next
+   * request reconnects lazily through ensureConnection().
+   */
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer != null || this.reconnecting) return;
+    if (this.subscriptions.size === 0) {
+      this.reconnectAttempts = 0;
+      return;
+    }
+
+    const delayMs = getReconnectDelayMs(this.reconnectAttempts);
+    this.reconnectAttempts += 1;
+
+    try {
+      this.reconnectTimer = setTimeout(() => {
+        this.reconnectTimer = null;
+        void this.reconnectAndResubscribe();
+      }, delayMs) as unknown as number;
+    } catch (error) {
+      console.error('Failed to schedule Swarm reconnect:', error);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private async reconnectAndResubscribe(): Promise<void> {
+    if (this.reconnecting) return;
+    this.reconnecting = true;
+
+    try {
+      await this.ensureConnection();
+    } catch (error) {
+      console.error('Swarm reconnect failed:', error);
+      this.reconnecting = false;
+      this.scheduleReconnect();
+      return;
+    }
+
+    this.reconnectsTotal += 1;
+    this.reconnectAttempts = 0;
+
+    const previous = Array.from(this.subscriptions.entries());
+    this.subscriptions.clear();
+    this.resetGroupsForResync();
+
+    const at = new Date().toISOString();
+    this.lastResyncAtIso = at;
+    await this.broadcastToAllClients(encodeSseEvent('resync', { reason: 'upstream_reconnect', subscriptions: previous.length, at }));
+
+    let failed = 0;
+    for (const [oldSubid, entry] of previous) {
+      try {
+        const { subid, state } = await this.requestSubscription(entry.params);
+        if (!this.remapSubid(oldSubid, subid)) {
+          // Owning group was torn down while we were reconnecting
+          void this.sendRequest('unsubscribe', { subid }, 15000).catch(() => null);
+          continue;
+        }
+        this.subscriptions.set(subid, { params: entry.params, state, onEmit: entry.onEmit });
+        entry.onEmit(state.data);
+      } catch (error) {
+        failed += 1;
+        console.error('Failed to replay Swarm subscription:', error);
+        this.remapSubid(oldSubid, null);
+      }
+    }
+
+    this.reconnecting = false;
+
+    if (failed > 0) {
+      await this.broadcastToAllClients(encodeSseEvent('error', { error: `Failed to restore ${failed} upstream subscription(s)` }));
+      this.restartGroupsWithoutSubscription();
+    }
+  }
+
+  /**
+   * Point every group field that referenced an old subid at its replacement.
+   * A null replacement clears the field so the owning group can resubscribe later.
+   */
+  private remapSubid(oldSubid: string, newSubid: string | null): boolean {
+    let found = false;
+    if (this.countsLiveSubid === oldSubid) {
+      this.countsLiveSubid = newSubid;
+      found = true;
+    }
+    if (this.countsPrematchSubid === oldSubid) {
+      this.countsPrematchSubid = newSubid;
+      found = true;
+    }
+
+    for (const groups of [this.liveGroups, this.prematchGroups]) {
+      for (const group of groups.values()) {
+        if (group.gamesSubid === oldSubid) {
+          group.gamesSubid = newSubid;
+          found = true;
+        }
+        if (group.featuredOddsSubid === oldSubid) {
+          group.featuredOddsSubid = newSubid;
+          found = true;
+        }
+        if (group.oddsSubid === oldSubid) {
+          group.oddsSubid = newSubid;
+          found = true;
+        }
+      }
+    }
+    for (const group of this.liveGameGroups.values()) {
+      if (group.subid === oldSubid) {
+        group.subid = newSubid;
+        found = true;
+      }
+    }
+    for (const group of this.competitionOddsGroups.values()) {
+      if (group.subid === oldSubid) {
+        group.subid = newSubid;
+        found = true;
+      }
+    }
+    return found;
+  }
+
+  private restartGroupsWithoutSubscription(): void {
+    for (const groups of [this.liveGroups, this.prematchGroups]) {
+      for (const group of groups.values()) {
+        if (group.clients.size > 0) this.startSportGroup(group);
+      }
+    }
+    for (const group of this.liveGameGroups.values()) {
+      if (group.clients.size > 0 && !group.subid) this.startGameGroup(group);
+    }
+    for (const group of this.competitionOddsGroups.values()) {
+      if (group.clients.size > 0 && !group.subid) {
+        void this.ensureCompetitionOddsSubscription(group).catch(() => null);
+      }
+    }
+    const countsWanted = this.countsClients.size > 0 || this.hasActiveLiveSportClients() || this.countsLingerTimer != null;
+    if (this.shardName === COORDINATOR_SHARD && countsWanted && (!this.countsLiveSubid || !this.countsPrematchSubid)) {
+      void this.ensureCountsSubscriptions().catch(() => null);
+    }
+  }
+
+  /**
+   * Drop fingerprints and odds caches so the replayed subscriptions emit a
+   * complete snapshot instead of being deduplicated against pre-disconnect state.
+   */
+  private resetGroupsForResync(): void {
+    this.countsLastLiveFp = '';
+    this.countsLastPrematchFp = '';
+    this.countsLastTreeFp = '';
+
+    for (const groups of [this.liveGroups, this.prematchGroups]) {
+      for (const group of groups.values()) {
+        group.lastFp = '';
+        group.gameRows.clear();
+        group.lastOddsSnapshotAtMs = 0;
+        group.oddsCache.clear();
+      }
+    }
+    for (const group of this.liveGameGroups.values()) {
+      group.lastFp = '';
+    }
+    for (const group of this.competitionOddsGroups.values()) {
+      group.oddsCache.clear();
+    }
+  }
+
+  private async sendRequest<C extends SwarmCommand>(
+    command: C,
+    params: SwarmCommands[C]['params'],
+    timeoutMs = 60000
+  ): Promise<SwarmResponse<C>> {
     if (command !== 'request_session') {
       await this.ensureConnection();
     }
@@ -461,7 +1102,7 @@ export class SwarmHubDO {
     }
 
     const rid = crypto.randomUUID();
-    const request = { command, params, rid };
+    const request: SwarmRequest<C> = { command, params, rid };
 
     return new Promise((resolve, reject) => {
       const timeoutId = setTimeout(() => {
@@ -471,10 +1112,12 @@ export class SwarmHubDO {
         }
       }, timeoutMs) as unknown as number;
 
-      this.pending.set(rid, { resolve, reject, timeoutId });
+      this.pending.set(rid, { command, resolve: (value) => resolve(value as SwarmResponse<C>), reject, timeoutId });
 
       try {
-        this.ws?.send(JSON.stringify(request));
+        const frame = JSON.stringify(request);
+        this.captureFrame('out', frame);
+        this.ws?.send(frame);
       } catch (e) {
         clearTimeout(timeoutId);
         this.pending.delete(rid);
@@ -483,31 +1126,33 @@ export class SwarmHubDO {
     });
   }
 
-  private async subscribeGet(params: Record<string, unknown>, onEmit: (data: unknown) => void): Promise<string> {
+  private async subscribeGet(params: SwarmGetParams, onEmit: (data: unknown) => void): Promise<string> {
     // Check subscription limit to prevent resource exhaustion
     if (this.subscriptions.size >= MAX_SUBSCRIPTIONS) {
       throw new Error('Too many concurrent subscriptions');
     }
 
-    const response = (await this.sendRequest('get', { ...params, subscribe: true })) as Record<string, unknown>;
+    const { subid, state } = await this.requestSubscription(params);
+    this.subscriptions.set(subid, { params, state, onEmit });
+    onEmit(state.data);
+    return subid;
+  }
+
+  private async requestSubscription(params: SwarmGetParams): Promise<{ subid: string; state: Record<string, unknown> }> {
+    const response = await this.sendRequest('get', { ...params, subscribe: true });
     if (response?.code !== undefined && response.code !== 0) {
       const msg = response?.msg ? `: ${String(response.msg)}` : '';
       throw new Error(`get subscribe failed${msg}`);
     }
 
-    const initial = response.data as Record<string, unknown> | undefined;
-    const subid =
-      (initial as any)?.subid ??
-      (response as any)?.subid ??
-      ((response as any)?.data && typeof (response as any).data === 'object' ? (response as any).data.subid : undefined);
+    const initial = response.data;
+    const subid = initial?.subid ?? (response as Record<string, unknown>).subid;
     if (subid === undefined || subid === null || (typeof subid === 'string' && subid.trim() === '')) {
       throw new Error('subscribe did not return subid');
     }
 
-    const state = (initial as Record<string, unknown>) || {};
-    this.subscriptions.set(String(subid), { state, onEmit });
-    onEmit((state as any).data);
-    return String(subid);
+    const state: Record<string, unknown> = initial ?? {};
+    return { subid: String(subid), state };
   }
 
   private async unsubscribe(subid: string): Promise<void> {
@@ -525,11 +1170,7 @@ export class SwarmHubDO {
     if (cached) return String(cached);
 
     try {
-      const hierarchy = (await this.getHierarchy(false)) as any;
-      const h = hierarchy?.data || hierarchy;
-      const sports = h?.sport || {};
-      const s = sports[String(sportId)];
-      const alias = s?.alias;
+      const alias = hierarchySports(await this.getHierarchy(false)).get(String(sportId))?.alias;
       if (alias) return String(alias);
     } catch {
       return null;
@@ -559,24 +1200,24 @@ export class SwarmHubDO {
     if (!sportAlias) return Array.isArray(fallback) ? fallback.slice() : [];
 
     try {
-      const response = (await this.sendRequest('get_market_type', { sport_alias: String(sportAlias) }, 20000)) as any;
-      if (response && typeof response === 'object' && response.code !== undefined && response.code !== 0) {
+      const response = await this.sendRequest('get_market_type', { sport_alias: String(sportAlias) }, 20000);
+      if (response.code !== undefined && response.code !== 0) {
         return Array.isArray(fallback) ? fallback.slice() : [];
       }
 
-      const details = response?.data?.details;
+      const details = response.data?.details;
       const arr = Array.isArray(details) ? details.slice() : [];
-      arr.sort((a: any, b: any) => {
-        const ao = typeof a?.Order === 'number' ? Number(a.Order) : Number.MAX_SAFE_INTEGER;
-        const bo = typeof b?.Order === 'number' ? Number(b.Order) : Number.MAX_SAFE_INTEGER;
+      arr.sort((a, b) => {
+        const ao = typeof a?.Order === 'number' ? a.Order : Number.MAX_SAFE_INTEGER;
+        const bo = typeof b?.Order === 'number' ? b.Order : Number.MAX_SAFE_INTEGER;
         if (ao !== bo) return ao - bo;
         return String(a?.BasaltKind ?? '').localeCompare(String(b?.BasaltKind ?? ''));
       });
 
       const types = arr
-        .map((d: any) => d?.BasaltKind)
-        .filter((v: any) => v !== null && v !== undefined && String(v) !== '')
-        .map((v: any) => String(v));
+        .map((d) => d?.BasaltKind)
+        .filter((v) => v !== null && v !== undefined && String(v) !== '')
+        .map((v) => String(v));
 
       const entry: MarketTypeCacheEntry = { cachedAtMs: Date.now(), types: types.length ? types : (Array.isArray(fallback) ? fallback.slice() : []) };
       this.marketTypeCache.set(key, entry);
@@ -614,12 +1255,31 @@ export class SwarmHubDO {
     }
   }
 
-  private async broadcastAllLiveGroups(bytes: Uint8Array): Promise<void> {
-    for (const group of this.liveGroups.values()) {
+  private async broadcastToAllClients(bytes: Uint8Array): Promise<void> {
+    await this.broadcast(this.countsClients, bytes);
+    for (const groups of [this.liveGroups, this.prematchGroups]) {
+      for (const group of groups.values()) {
+        await this.broadcast(group.clients, bytes);
+      }
+    }
+    for (const group of this.liveGameGroups.values()) {
+      await this.broadcast(group.clients, bytes);
+    }
+    for (const group of this.competitionOddsGroups.values()) {
       await this.broadcast(group.clients, bytes);
     }
   }
 
+  private async broadcastAllLiveGroups(event: string, data: unknown): Promise<void> {
+    for (const group of this.liveGroups.values()) {
+      if (group.clients.size === 0) {
+        invalidateReplayLog(group.eventLog);
+        continue;
+      }
+      await this.broadcast(group.clients, encodeLoggedSseEvent(group.eventLog, event, data));
+    }
+  }
+
   private startCountsHeartbeat(): void {
     if (this.countsHeartbeatTimer != null) return;
     try {
@@ -658,6 +1318,8 @@ export class SwarmHubDO {
   }
 
   private handleCountsEmit(kind: 'live' | 'prematch', data: unknown): void {
+    this.updateCountsTree(kind, data);
+
     const counts = extractSportsCountsFromSwarm(data);
     const payload = { sports: counts.sports, total_games: counts.totalGames };
 
@@ -666,8 +1328,8 @@ export class SwarmHubDO {
       if (fp && fp === this.countsLastLiveFp) return;
       this.countsLastLiveFp = fp;
       this.countsLivePayload = payload;
-      void this.broadcast(this.countsClients, encodeSseEvent('live_counts', payload));
-      void this.broadcastAllLiveGroups(encodeSseEvent('counts', payload));
+      void this.broadcast(this.countsClients, encodeLoggedSseEvent(this.countsEventLog, 'live_counts', payload));
+      void this.broadcastAllLiveGroups('counts', payload);
       return;
     }
 
@@ -675,18 +1337,51 @@ export class SwarmHubDO {
     if (fp && fp === this.countsLastPrematchFp) return;
     this.countsLastPrematchFp = fp;
     this.countsPrematchPayload = payload;
-    void this.broadcast(this.countsClients, encodeSseEvent('prematch_counts', payload));
-    void this.broadcastAllLiveGroups(encodeSseEvent('prematch_counts', payload));
+    void this.broadcast(this.countsClients, encodeLoggedSseEvent(this.countsEventLog, 'prematch_counts', payload));
+    void this.broadcastAllLiveGroups('prematch_counts', payload);
   }
 
+  /** Games can move between competitions without changing the sport totals, so the tree has its own fingerprint. */
+  private updateCountsTree(kind: 'live' | 'prematch', data: unknown): void {
+    if (kind === 'live') this.countsLiveTree = extractCountsTreeFromSwarm(data);
+    else this.countsPrematchTree = extractCountsTreeFromSwarm(data);
+
+    const tree = mergeCountsTree(this.countsLiveTree, this.countsPrematchTree);
+    const fp = getCountsTreeFp(tree);
+    this.countsTreePayload = tree;
+    if (fp === this.countsLastTreeFp) return;
+    this.countsLastTreeFp = fp;
+    void this.broadcast(this.countsClients, encodeLoggedSseEvent(this.countsEventLog, 'tree_counts', tree));
+  }
+
+  /** The counts tree, subscribing first if nothing keeps the counts subscriptions open. */
+  private async getCountsTree(): Promise<CountsTree> {
+    if (this.countsLingerTimer != null) clearTimeout(this.countsLingerTimer);
+    this.countsLingerTimer = setTimeout(() => {
+      this.countsLingerTimer = null;
+      if (this.countsClients.size === 0 && !this.hasActiveLiveSportClients()) {
+        void this.stopCountsSubscriptions();
+      }
+    }, COUNTS_TREE_LINGER_MS) as unknown as number;
+
+    await this.ensureConnection();
+    await this.ensureCountsSubscriptions();
+    return this.countsTreePayload ?? mergeCountsTree(new Map(), new Map());
+  }
+
+  /**
+   * The all-sports counts, down to regions and competitions. They are heavy, so only
+   * the coordinator subscribes; other shards follow its counts stream.
+   */
   private async ensureCountsSubscriptions(): Promise<void> {
+    if (this.shardName !== COORDINATOR_SHARD) throw new Error('Counts are only served by the coordinator');
     if (this.countsLiveSubid && this.countsPrematchSubid) return;
 
     if (!this.countsLiveSubid) {
       this.countsLiveSubid = await this.subscribeGet(
         {
           source: 'betting',
-          what: { sport: ['id', 'name'], game: ['id'] },
+          what: { sport: ['id', 'name'], region: ['id', 'name'], competition: ['id', 'name'], game: ['id'] },
           where: { sport: { type: { '@nin': [1, 4] } }, game: { type: 1 } }
         },
         (data) => this.handleCountsEmit('live', data)
@@ -697,7 +1392,7 @@ export class SwarmHubDO {
       this.countsPrematchSubid = await this.subscribeGet(
         {
           source: 'betting',
-          what: { sport: ['id', 'name'], game: ['id'] },
+          what: { sport: ['id', 'name'], region: ['id', 'name'], competition: ['id', 'name'], game: ['id'] },
           where: {
             sport: { type: { '@nin': [1, 4] } },
             game: {
@@ -719,40 +1414,99 @@ export class SwarmHubDO {
     this.countsLastPrematchFp = '';
     this.countsLivePayload = null;
     this.countsPrematchPayload = null;
+    this.countsLiveTree = new Map();
+    this.countsPrematchTree = new Map();
+    this.countsTreePayload = null;
+    this.countsLastTreeFp = '';
 
     if (live) await this.unsubscribe(live);
     if (pre) await this.unsubscribe(pre);
   }
 
-  private async handleCountsStream(request: Request): Promise<Response> {
-    // Check client limit to prevent DoS attacks
-    if (this.countsClients.size >= MAX_CLIENTS_PER_DO) {
-      return new Response('Too many concurrent clients', { status: 429 });
+  /** Counts for live sport clients: subscribed on the coordinator, followed from it on other shards. */
+  private async ensureLiveSportCounts(): Promise<void> {
+    if (this.shardName === COORDINATOR_SHARD) {
+      if (!this.countsLiveSubid || !this.countsPrematchSubid) await this.ensureCountsSubscriptions();
+      return;
     }
+    await this.ensureCountsFeed();
+  }
 
-    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
-    const writer = writable.getWriter();
-    const id = crypto.randomUUID();
-    const client: Client = { id, writer, abortSignal: request.signal };
-    this.countsClients.set(id, client);
+  private stopLiveSportCounts(): void {
+    if (this.shardName === COORDINATOR_SHARD) {
+      void this.stopCountsSubscriptions();
+      return;
+    }
+    const controller = this.countsFeedController;
+    this.countsFeedController = null;
+    this.countsFeedAttempt = 0;
+    this.countsLivePayload = null;
+    this.countsPrematchPayload = null;
+    controller?.abort();
+  }
 
-    request.signal.addEventListener('abort', () => {
-      const existing = this.countsClients.get(id);
-      if (existing) {
-        try {
-          existing.writer.close();
-        } catch {
-          // ignore
-        }
-        this.countsClients.delete(id);
-      }
-      if (this.countsClients.size === 0) {
-        this.stopCountsHeartbeat();
-        if (!this.hasActiveLiveSportClients()) {
-          void this.stopCountsSubscriptions();
+  /**
+   * Follow the coordinator's `/api/counts-stream` and pass its counts on to the live
+   * sport groups, reconnecting with backoff while they have clients.
+   */
+  private async ensureCountsFeed(): Promise<void> {
+    if (this.countsFeedController) return;
+    const controller = new AbortController();
+    this.countsFeedController = controller;
+
+    const decode = createSseFrameDecoder();
+    const client: Client = {
+      id: crypto.randomUUID(),
+      abortSignal: controller.signal,
+      writer: {
+        write: async (chunk: Uint8Array): Promise<void> => {
+          for (const frame of decode(chunk)) {
+            if (frame.event === 'live_counts') {
+              this.countsFeedAttempt = 0;
+              this.countsLivePayload = frame.data;
+              await this.broadcastAllLiveGroups('counts', frame.data);
+            } else if (frame.event === 'prematch_counts') {
+              this.countsPrematchPayload = frame.data;
+              await this.broadcastAllLiveGroups('prematch_counts', frame.data);
+            }
+          }
+        },
+        close(): void {
+          // the feed is closed through its abort signal
         }
       }
-    });
+    };
+
+    const reconnect = () => {
+      if (this.countsFeedController !== controller) return;
+      this.countsFeedController = null;
+      if (!this.hasActiveLiveSportClients()) return;
+      const delayMs = getReconnectDelayMs(this.countsFeedAttempt++);
+      setTimeout(() => {
+        void this.ensureCountsFeed().catch(() => null);
+      }, delayMs);
+    };
+
+    try {
+      const detach = await this.attachRemoteStreamClient(
+        this.swarmShardStub(COORDINATOR_SHARD),
+        'https://internal/api/counts-stream',
+        { [SWARM_SHARD_HEADER]: COORDINATOR_SHARD },
+        client,
+        null,
+        reconnect
+      );
+      if (controller.signal.aborted) detach();
+      else controller.signal.addEventListener('abort', detach);
+    } catch (e) {
+      reconnect();
+      throw e;
+    }
+  }
+
+  private attachCountsClient(client: Client, lastEventId: string | null): void {
+    const writer = client.writer;
+    this.countsClients.set(client.id, client);
 
     if (this.countsClients.size === 1) {
       this.startCountsHeartbeat();
@@ -765,49 +1519,131 @@ export class SwarmHubDO {
 
     const initialLivePayload = this.countsLivePayload;
     const initialPrematchPayload = this.countsPrematchPayload;
+    const initialTreePayload = this.countsTreePayload;
+    const replay = getReplayEntries(this.countsEventLog, lastEventId);
+    const snapshotId = currentEventId(this.countsEventLog);
     setTimeout(() => {
       void (async () => {
         try {
           await writer.write(encodeSseComment(' '.repeat(2048)));
           await writer.write(encodeSseComment(`ready ${Date.now()}`));
+          if (replay) {
+            for (const bytes of replay) {
+              await writer.write(bytes);
+            }
+            return;
+          }
           if (initialLivePayload) {
-            await writer.write(encodeSseEvent('live_counts', initialLivePayload));
+            await writer.write(encodeSseEvent('live_counts', initialLivePayload, snapshotId));
           }
           if (initialPrematchPayload) {
-            await writer.write(encodeSseEvent('prematch_counts', initialPrematchPayload));
+            await writer.write(encodeSseEvent('prematch_counts', initialPrematchPayload, snapshotId));
+          }
+          if (initialTreePayload) {
+            await writer.write(encodeSseEvent('tree_counts', initialTreePayload, snapshotId));
           }
         } catch {
           // ignore
         }
       })();
     }, 0);
+  }
+
+  private detachCountsClient(id: string): void {
+    const existing = this.countsClients.get(id);
+    if (existing) {
+      try {
+        existing.writer.close();
+      } catch {
+        // ignore
+      }
+      this.countsClients.delete(id);
+    }
+    if (this.countsClients.size === 0) {
+      this.stopCountsHeartbeat();
+      if (!this.hasActiveLiveSportClients() && this.countsLingerTimer == null) {
+        void this.stopCountsSubscriptions();
+      }
+    }
+  }
+
+  private async handleCountsStream(request: Request): Promise<Response> {
+    // Check client limit to prevent DoS attacks
+    if (this.countsClients.size >= MAX_CLIENTS_PER_DO) {
+      return new Response('Too many concurrent clients', { status: 429 });
+    }
+
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const writer = writable.getWriter();
+    const id = crypto.randomUUID();
+    const client: Client = { id, writer, abortSignal: request.signal };
+
+    request.signal.addEventListener('abort', () => this.detachCountsClient(id));
+    this.attachCountsClient(client, getLastEventId(request));
 
     return new Response(readable, { status: 200, headers: sseHeaders() });
   }
 
   private async handleLiveSportGamesEmit(group: SportStreamGroup, rawData: unknown): Promise<void> {
-    if (!group.clients || group.clients.size === 0) return;
+    if (!group.clients || group.clients.size === 0) {
+      invalidateReplayLog(group.eventLog);
+      return;
+    }
 
     const data = unwrapSwarmData(rawData);
-    let games = parseGamesFromData(data as any, group.sportName, group.sportId);
+    let games = parseGamesFromData(data, group.sportName, group.sportId);
     games = (Array.isArray(games) ? games : []).filter((g) => {
-      const sid = (g as any)?.sport_id;
+      const sid = g.sport_id;
       if (sid === null || sid === undefined || sid === '') return true;
       return String(sid) === String(group.sportId);
     });
 
+    await this.emitSportGames(group, games);
+  }
+
+  /**
+   * Broadcast a games change as a `games_patch` (added/removed/changed rows), falling
+   * back to a full `games` snapshot on the first emit, every GAMES_SNAPSHOT_REBUILD_MS,
+   * or when the patch would touch most of the list anyway.
+   */
+  private async emitSportGames(group: SportStreamGroup, games: ParsedGame[]): Promise<boolean> {
     const fp = getSportFp(games);
-    if (fp && fp === group.lastFp && group.lastGamesPayload) return;
+    if (fp && fp === group.lastFp && group.lastGamesPayload) return false;
     group.lastFp = fp;
 
+    const now = Date.now();
+    const lastUpdated = new Date(now).toISOString();
+    const hadRows = group.gameRows.size > 0;
+    const patch = diffGameRows(group.gameRows, games);
+
     const payload = {
       sportId: group.sportId,
       sportName: group.sportName,
       data: games,
-      last_updated: new Date().toISOString()
+      last_updated: lastUpdated
     };
     group.lastGamesPayload = payload;
-    await this.broadcast(group.clients, encodeSseEvent('games', payload));
+    this.scheduleActiveGamesPush();
+
+    const touched = patch.added.length + patch.removed.length + patch.changed.length;
+    const snapshotDue = !hadRows || now - group.lastGamesSnapshotAtMs >= GAMES_SNAPSHOT_REBUILD_MS || touched > games.length / 2;
+    if (snapshotDue) {
+      group.lastGamesSnapshotAtMs = now;
+      await this.broadcast(group.clients, encodeLoggedSseEvent(group.eventLog, 'games', payload));
+      return true;
+    }
+
+    if (isEmptyGamesPatch(patch)) return true;
+    await this.broadcast(
+      group.clients,
+      encodeLoggedSseEvent(group.eventLog, 'games_patch', {
+        sportId: group.sportId,
+        sportName: group.sportName,
+        ...patch,
+        last_updated: lastUpdated
+      })
+    );
+    return true;
   }
 
   private async ensureCompetitionOddsSubscription(group: CompetitionOddsGroup): Promise<void> {
@@ -850,14 +1686,17 @@ export class SwarmHubDO {
   }
 
   private async handleCompetitionOddsEmit(group: CompetitionOddsGroup, rawData: unknown): Promise<void> {
-    if (!group.clients || group.clients.size === 0) return;
+    if (!group.clients || group.clients.size === 0) {
+      invalidateReplayLog(group.eventLog);
+      return;
+    }
 
-    const data = unwrapSwarmData(rawData) as any;
+    const data = unwrapSwarmData(rawData);
     const games = this.extractGamesFromNode(data?.game);
     if (!games.length) return;
 
     for (const g of games) {
-      const gid = (g as any)?.id ?? (g as any)?.gameId;
+      const gid = g.id ?? g.gameId;
       if (gid === null || gid === undefined || gid === '') continue;
       this.embedMarketsIntoGame(g, data, String(gid));
     }
@@ -876,25 +1715,23 @@ export class SwarmHubDO {
       if (!merged.includes(s)) merged.push(s);
     }
     const typePriority = merged.length ? merged : fallbackTypes;
-    const updates: Array<{ gameId: unknown; odds: unknown; markets_count: number }> = [];
+    const updates: OddsUpdate[] = [];
     const now = Date.now();
 
     for (const g of games) {
-      const gid = (g as any)?.id ?? (g as any)?.gameId;
+      const gid = g.id ?? g.gameId;
       if (gid === null || gid === undefined || gid === '') continue;
       const idStr = String(gid);
 
-      const marketMap = (g as any)?.market;
+      const marketMap = g.market;
       let market = pickPreferredMarketFromEmbedded(marketMap, typePriority);
       if (!market && marketMap && typeof marketMap === 'object') {
-        const markets = Object.values(marketMap as Record<string, unknown>)
-          .map((mRaw) => (mRaw && typeof mRaw === 'object' && !Array.isArray(mRaw) ? (mRaw as any) : null))
-          .filter(Boolean) as any[];
+        const markets = swarmCollectionValues(marketMap);
         markets.sort((a, b) => {
-          const ao = typeof a?.order === 'number' ? Number(a.order) : Number.MAX_SAFE_INTEGER;
-          const bo = typeof b?.order === 'number' ? Number(b.order) : Number.MAX_SAFE_INTEGER;
+          const ao = typeof a.order === 'number' ? a.order : Number.MAX_SAFE_INTEGER;
+          const bo = typeof b.order === 'number' ? b.order : Number.MAX_SAFE_INTEGER;
           if (ao !== bo) return ao - bo;
-          return String(a?.id ?? '').localeCompare(String(b?.id ?? ''));
+          return String(a.id ?? '').localeCompare(String(b.id ?? ''));
         });
         const candidate = markets.find((m) => {
           const ev = m?.event;
@@ -905,8 +1742,8 @@ export class SwarmHubDO {
       }
 
       const oddsArr = buildOddsArrFromMarket(market);
-      const marketsCount = typeof (g as any)?.markets_count === 'number'
-        ? Number((g as any).markets_count)
+      const marketsCount = typeof g.markets_count === 'number'
+        ? g.markets_count
         : (marketMap && typeof marketMap === 'object' ? Object.keys(marketMap).length : 0);
       const fp = getOddsFp(market);
 
@@ -918,43 +1755,35 @@ export class SwarmHubDO {
         continue;
       }
 
-      group.oddsCache.set(idStr, { odds: oddsArr, markets_count: marketsCount, fp, updatedAtMs: now });
-      updates.push({ gameId: gid, odds: Array.isArray(oddsArr) ? oddsArr : null, markets_count: marketsCount });
+      const odds = this.trackOddsMovement(idStr, prev?.odds, oddsArr, now);
+      group.oddsCache.set(idStr, { odds, markets_count: marketsCount, fp, updatedAtMs: now });
+      updates.push({ gameId: gid, odds, markets_count: marketsCount, probabilities: computeMarketProbabilities(odds) });
     }
 
     if (!updates.length) return;
 
     const payload = { sportId: group.sportId, competitionId: group.competitionId, updates };
-    await this.broadcast(group.clients, encodeSseEvent('odds', payload));
+    await this.broadcast(group.clients, encodeLoggedSseEvent(group.eventLog, 'odds', payload));
     
     // Clean expired cache entries to prevent memory exhaustion
     this.cleanOddsCache(group.oddsCache);
   }
 
-  private async handleCompetitionOddsStream(request: Request): Promise<Response> {
-    const url = new URL(request.url);
-
-    // Check total client limit across all groups to prevent DoS attacks
-    const totalClients = this.countsClients.size + 
+  private totalClientCount(): number {
+    return this.countsClients.size +
       Array.from(this.liveGroups.values()).reduce((sum, g) => sum + g.clients.size, 0) +
       Array.from(this.prematchGroups.values()).reduce((sum, g) => sum + g.clients.size, 0) +
       Array.from(this.liveGameGroups.values()).reduce((sum, g) => sum + g.clients.size, 0) +
       Array.from(this.competitionOddsGroups.values()).reduce((sum, g) => sum + g.clients.size, 0);
-    
-    if (totalClients >= MAX_CLIENTS_PER_DO) {
-      return new Response('Too many concurrent clients', { status: 429 });
-    }
-    const competitionId = url.searchParams.get('competitionId');
-    const sportId = url.searchParams.get('sportId');
-    const modeParam = url.searchParams.get('mode');
-
-    if (!competitionId) return json({ error: 'competitionId is required' }, { status: 400 });
-    if (!sportId) return json({ error: 'sportId is required' }, { status: 400 });
-    if (modeParam !== 'live' && modeParam !== 'prematch') return json({ error: 'mode must be live or prematch' }, { status: 400 });
+  }
 
-    const mode = modeParam as 'live' | 'prematch';
-    const sportNameParam = url.searchParams.get('sportName');
-    const sportName = sportNameParam ? String(sportNameParam) : await this.getSportName(sportId, null);
+  private async attachCompetitionOddsClient(
+    opts: { mode: 'live' | 'prematch'; competitionId: string; sportId: string; sportName: string | null },
+    client: Client,
+    lastEventId: string | null
+  ): Promise<string> {
+    const { mode, competitionId, sportId } = opts;
+    const sportName = opts.sportName ? String(opts.sportName) : await this.getSportName(sportId, null);
 
     const key = `${mode}:${String(competitionId)}`;
     let group = this.competitionOddsGroups.get(key);
@@ -968,7 +1797,8 @@ export class SwarmHubDO {
         clients: new Map(),
         subid: null,
         cleanupTimer: null,
-        oddsCache: new Map()
+        oddsCache: new Map(),
+        eventLog: createReplayLog()
       };
       this.competitionOddsGroups.set(key, group);
     } else {
@@ -980,50 +1810,35 @@ export class SwarmHubDO {
       }
     }
 
-    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
-    const writer = writable.getWriter();
-    const id = crypto.randomUUID();
-    const client: Client = { id, writer, abortSignal: request.signal };
-    group.clients.set(id, client);
+    const writer = client.writer;
+    group.clients.set(client.id, client);
 
-    request.signal.addEventListener('abort', () => {
-      const existing = group?.clients.get(id);
-      if (existing) {
-        try {
-          existing.writer.close();
-        } catch {
-          // ignore
-        }
-        group?.clients.delete(id);
-      }
-      if (group && group.clients.size === 0) {
-        if (group.cleanupTimer == null) {
-          group.cleanupTimer = setTimeout(() => {
-            if (group.clients.size === 0) {
-              const sid = group.subid;
-              group.subid = null;
-              group.oddsCache.clear();
-              this.competitionOddsGroups.delete(key);
-              if (sid) void this.unsubscribe(sid);
-            }
-          }, GROUP_GRACE_MS) as unknown as number;
-        }
-      }
-    });
-
-    setTimeout(() => {
-      void (async () => {
+    const replay = getReplayEntries(group.eventLog, lastEventId);
+    setTimeout(() => {
+      void (async () => {
         try {
           await writer.write(encodeSseComment(' '.repeat(2048)));
           await writer.write(encodeSseComment(`ready ${Date.now()}`));
 
+          if (replay) {
+            for (const bytes of replay) {
+              await writer.write(bytes);
+            }
+            return;
+          }
+
           if (group.oddsCache.size) {
-            const updates = Array.from(group.oddsCache.entries()).map(([gameId, v]) => ({
-              gameId,
-              odds: Array.isArray((v as any)?.odds) ? (v as any).odds : null,
-              markets_count: typeof (v as any)?.markets_count === 'number' ? Number((v as any).markets_count) : 0
-            }));
-            await writer.write(encodeSseEvent('odds', { sportId: group.sportId, competitionId: group.competitionId, updates }));
+            const updates: OddsUpdate[] = Array.from(group.oddsCache.entries()).map(([gameId, v]) => {
+              const odds = Array.isArray(v.odds) ? v.odds : null;
+              return {
+                gameId,
+                odds,
+                markets_count: typeof v.markets_count === 'number' ? v.markets_count : 0,
+                probabilities: computeMarketProbabilities(odds)
+              };
+            });
+            const snapshotId = currentEventId(group.eventLog);
+            await writer.write(encodeSseEvent('odds', { sportId: group.sportId, competitionId: group.competitionId, updates }, snapshotId));
           }
         } catch {
           // ignore
@@ -1037,24 +1852,83 @@ export class SwarmHubDO {
       });
     }, 0);
 
+    return key;
+  }
+
+  private detachCompetitionOddsClient(key: string, id: string): void {
+    const group = this.competitionOddsGroups.get(key);
+    if (!group) return;
+    const existing = group.clients.get(id);
+    if (existing) {
+      try {
+        existing.writer.close();
+      } catch {
+        // ignore
+      }
+      group.clients.delete(id);
+    }
+    if (group.clients.size === 0) {
+      if (group.cleanupTimer == null) {
+        group.cleanupTimer = setTimeout(() => {
+          if (group.clients.size === 0) {
+            const sid = group.subid;
+            group.subid = null;
+            group.oddsCache.clear();
+            this.competitionOddsGroups.delete(key);
+            if (sid) void this.unsubscribe(sid);
+          }
+        }, GROUP_GRACE_MS) as unknown as number;
+      }
+    }
+  }
+
+  private async handleCompetitionOddsStream(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    // Check total client limit across all groups to prevent DoS attacks
+    if (this.totalClientCount() >= MAX_CLIENTS_PER_DO) {
+      return new Response('Too many concurrent clients', { status: 429 });
+    }
+    const competitionId = url.searchParams.get('competitionId');
+    const sportId = url.searchParams.get('sportId');
+    const modeParam = url.searchParams.get('mode');
+
+    if (!competitionId) return json({ error: 'competitionId is required' }, { status: 400 });
+    if (!sportId) return json({ error: 'sportId is required' }, { status: 400 });
+    if (modeParam !== 'live' && modeParam !== 'prematch') return json({ error: 'mode must be live or prematch' }, { status: 400 });
+
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const writer = await this.createOddsWriter(url, writable.getWriter(), String(sportId));
+    if (writer instanceof Response) return writer;
+    const id = crypto.randomUUID();
+    const client: Client = { id, writer, abortSignal: request.signal };
+
+    const key = await this.attachCompetitionOddsClient(
+      { mode: modeParam, competitionId: String(competitionId), sportId: String(sportId), sportName: url.searchParams.get('sportName') },
+      client,
+      getLastEventId(request)
+    );
+    if (request.signal.aborted) {
+      this.detachCompetitionOddsClient(key, id);
+    } else {
+      request.signal.addEventListener('abort', () => this.detachCompetitionOddsClient(key, id));
+    }
+
     return new Response(readable, { status: 200, headers: sseHeaders() });
   }
 
   private async getSportName(sportId: string, fallback: string | null): Promise<string> {
     if (fallback) return fallback;
     try {
-      const hierarchy = (await this.getHierarchy(false)) as any;
-      const h = hierarchy?.data || hierarchy;
-      const sports = h?.sport || {};
-      const s = sports[String(sportId)];
-      if (s?.name) return String(s.name);
+      const name = hierarchySports(await this.getHierarchy(false)).get(String(sportId))?.name;
+      if (name) return String(name);
     } catch {
       // ignore
     }
     return String(sportId);
   }
 
-  private filterPrematchGames(games: any[]): any[] {
+  private filterPrematchGames(games: ParsedGame[]): ParsedGame[] {
     return (Array.isArray(games) ? games : []).filter((g) => {
       return g?.visible_in_prematch === 1 || [0, 2].includes(Number(g?.type));
     });
@@ -1094,6 +1968,18 @@ export class SwarmHubDO {
       const name = (c as any)?.name;
       if (name) competitionById[String(id)] = String(name);
     }
+    // The tree may also nest regions and competitions under each sport.
+    for (const s of hierarchySports(raw).values()) {
+      if (!s.region || typeof s.region !== 'object') continue;
+      for (const [rid, r] of Object.entries(s.region)) {
+        if (!r || typeof r !== 'object') continue;
+        if (r.name && !regionById[rid]) regionById[rid] = String(r.name);
+        if (!r.competition || typeof r.competition !== 'object') continue;
+        for (const [cid, c] of Object.entries(r.competition)) {
+          if (c && typeof c === 'object' && c.name && !competitionById[cid]) competitionById[cid] = String(c.name);
+        }
+      }
+    }
 
     this.hierarchyMapsAtMs = cached.cachedAtMs;
     this.hierarchySportNameById = sportById;
@@ -1332,14 +2218,17 @@ export class SwarmHubDO {
   }
 
   private async handlePrematchFeaturedOddsEmit(group: SportStreamGroup, rawData: unknown): Promise<void> {
-    if (!group.clients || group.clients.size === 0) return;
+    if (!group.clients || group.clients.size === 0) {
+      invalidateReplayLog(group.eventLog);
+      return;
+    }
 
-    const data = unwrapSwarmData(rawData) as any;
+    const data = unwrapSwarmData(rawData);
     const games = this.extractGamesFromNode(data?.game);
     if (!games.length) return;
 
     for (const g of games) {
-      const gid = (g as any)?.id ?? (g as any)?.gameId;
+      const gid = g.id ?? g.gameId;
       if (gid === null || gid === undefined || gid === '') continue;
       this.embedMarketsIntoGame(g, data, String(gid));
     }
@@ -1359,19 +2248,19 @@ export class SwarmHubDO {
     }
     const typePriority = merged.length ? merged : fallbackTypes;
 
-    const updates: Array<{ gameId: unknown; odds: unknown; markets_count: number }> = [];
+    const updates: OddsUpdate[] = [];
     const now = Date.now();
 
     for (const g of games) {
-      const gid = (g as any)?.id ?? (g as any)?.gameId;
+      const gid = g.id ?? g.gameId;
       if (gid === null || gid === undefined || gid === '') continue;
       const idStr = String(gid);
 
-      const marketMap = (g as any)?.market;
+      const marketMap = g.market;
       const market = pickPreferredMarketFromEmbedded(marketMap, typePriority);
       const oddsArr = buildOddsArrFromMarket(market);
-      const marketsCount = typeof (g as any)?.markets_count === 'number'
-        ? Number((g as any).markets_count)
+      const marketsCount = typeof g.markets_count === 'number'
+        ? g.markets_count
         : (marketMap && typeof marketMap === 'object' ? Object.keys(marketMap).length : 0);
       const fp = getOddsFp(market);
 
@@ -1383,13 +2272,14 @@ export class SwarmHubDO {
         continue;
       }
 
-      group.oddsCache.set(idStr, { odds: oddsArr, markets_count: marketsCount, fp, updatedAtMs: now });
-      updates.push({ gameId: gid, odds: Array.isArray(oddsArr) ? oddsArr : null, markets_count: marketsCount });
+      const odds = this.trackOddsMovement(idStr, prev?.odds, oddsArr, now);
+      group.oddsCache.set(idStr, { odds, markets_count: marketsCount, fp, updatedAtMs: now });
+      updates.push({ gameId: gid, odds, markets_count: marketsCount, probabilities: computeMarketProbabilities(odds) });
     }
 
     if (updates.length) {
       const payload = { sportId: group.sportId, updates };
-      await this.broadcast(group.clients, encodeSseEvent('odds', payload));
+      await this.broadcast(group.clients, encodeLoggedSseEvent(group.eventLog, 'odds', payload));
     }
 
     this.maybeRebuildOddsSnapshot(group);
@@ -1405,6 +2295,59 @@ export class SwarmHubDO {
     return false;
   }
 
+  private async fetchSportGames(sportId: string, sportName: string, mode: 'live' | 'prematch'): Promise<ParsedGame[]> {
+    const gameFields =
+      mode === 'live'
+        ? ['id', 'sport_id', 'type', 'start_ts', 'team1_name', 'team2_name', 'is_blocked', 'info', 'text_info', 'markets_count']
+        : ['id', 'sport_id', 'type', 'start_ts', 'team1_name', 'team2_name', 'is_blocked', 'visible_in_prematch', 'markets_count'];
+
+    if (!gameFields.includes('competition_id')) gameFields.push('competition_id');
+    if (!gameFields.includes('region_id')) gameFields.push('region_id');
+
+    const response = await this.sendRequest(
+      'get',
+      {
+        source: 'betting',
+        what: {
+          sport: ['id', 'name'],
+          region: ['id', 'name'],
+          competition: ['id', 'name'],
+          game: gameFields
+        },
+        where:
+          mode === 'live'
+            ? { sport: { id: Number(sportId) }, game: { type: 1 } }
+            : {
+                sport: { id: Number(sportId) },
+                game: {
+                  '@or': [{ visible_in_prematch: 1 }, { type: { '@in': [0, 2] } }]
+                }
+              }
+      },
+      15000
+    );
+
+    if (response && typeof response === 'object') {
+      const ro = response as Record<string, unknown>;
+      if (ro.code !== undefined && ro.code !== 0) {
+        const msg = ro.msg ? `: ${String(ro.msg)}` : '';
+        throw new Error(`get sport stream failed${msg}`);
+      }
+    }
+
+    const data = unwrapSwarmData(response);
+    let games = parseGamesFromData(data, sportName, sportId);
+    games = (Array.isArray(games) ? games : []).filter((g) => {
+      const sid = g.sport_id;
+      if (sid === null || sid === undefined || sid === '') return true;
+      return String(sid) === String(sportId);
+    });
+    if (mode === 'prematch') {
+      games = this.filterPrematchGames(games);
+    }
+    return games;
+  }
+
   private async pollSportGroup(group: SportStreamGroup): Promise<void> {
     if (group.clients.size === 0) {
       this.stopSportGroup(group);
@@ -1417,60 +2360,12 @@ export class SwarmHubDO {
     group.pollInFlight = true;
 
     try {
-      const gameFields =
-        group.mode === 'live'
-          ? ['id', 'sport_id', 'type', 'start_ts', 'team1_name', 'team2_name', 'is_blocked', 'info', 'text_info', 'markets_count']
-          : ['id', 'sport_id', 'type', 'start_ts', 'team1_name', 'team2_name', 'is_blocked', 'visible_in_prematch', 'markets_count'];
-
-      if (!gameFields.includes('competition_id')) gameFields.push('competition_id');
-      if (!gameFields.includes('region_id')) gameFields.push('region_id');
-
-      const response = await this.sendRequest(
-        'get',
-        {
-          source: 'betting',
-          what: {
-            sport: ['id', 'name'],
-            region: ['id', 'name'],
-            competition: ['id', 'name'],
-            game: gameFields
-          },
-          where:
-            group.mode === 'live'
-              ? { sport: { id: Number(group.sportId) }, game: { type: 1 } }
-              : {
-                  sport: { id: Number(group.sportId) },
-                  game: {
-                    '@or': [{ visible_in_prematch: 1 }, { type: { '@in': [0, 2] } }]
-                  }
-                }
-        },
-        15000
-      );
-
-      if (response && typeof response === 'object') {
-        const ro = response as Record<string, unknown>;
-        if (ro.code !== undefined && ro.code !== 0) {
-          const msg = ro.msg ? `: ${String(ro.msg)}` : '';
-          throw new Error(`get sport stream failed${msg}`);
-        }
-      }
-
-      const data = unwrapSwarmData(response);
-      let games = parseGamesFromData(data as any, group.sportName, group.sportId);
-      games = (Array.isArray(games) ? games : []).filter((g) => {
-        const sid = (g as any)?.sport_id;
-        if (sid === null || sid === undefined || sid === '') return true;
-        return String(sid) === String(group.sportId);
-      });
-      if (group.mode === 'prematch') {
-        games = this.filterPrematchGames(games);
-      }
+      const games = await this.fetchSportGames(group.sportId, group.sportName, group.mode);
 
       const nextIds: string[] = [];
       const nextIdSet = new Set<string>();
       for (const g of games) {
-        const gid = (g as any)?.id ?? (g as any)?.gameId;
+        const gid = g.id ?? g.gameId;
         if (gid === null || gid === undefined || gid === '') continue;
         const s = String(gid);
         if (nextIdSet.has(s)) continue;
@@ -1491,18 +2386,8 @@ export class SwarmHubDO {
         }
       }
 
-      const fp = getSportFp(games);
-      if (fp && fp === group.lastFp && group.lastGamesPayload) return;
-      group.lastFp = fp;
-
-      const payload = {
-        sportId: group.sportId,
-        sportName: group.sportName,
-        data: games,
-        last_updated: new Date().toISOString()
-      };
-      group.lastGamesPayload = payload;
-      await this.broadcast(group.clients, encodeSseEvent('games', payload));
+      const changed = await this.emitSportGames(group, games);
+      if (!changed) return;
 
       if (group.mode === 'prematch') {
         setTimeout(() => {
@@ -1516,70 +2401,48 @@ export class SwarmHubDO {
     }
   }
 
-  private extractGamesFromNode(gamesNode: unknown): any[] {
-    if (!gamesNode || typeof gamesNode !== 'object') return [];
-    if (Array.isArray(gamesNode)) return gamesNode as any[];
-    const vals = Object.values(gamesNode as Record<string, unknown>);
-    return vals.filter((v) => v && typeof v === 'object' && !Array.isArray(v)) as any[];
+  private extractGamesFromNode(gamesNode: SwarmData['game'] | null | undefined): SwarmGame[] {
+    return swarmCollectionValues(gamesNode);
   }
 
-  private embedMarketsIntoGame(game: any, data: any, gameId: string): void {
+  private embedMarketsIntoGame(game: SwarmGame | null | undefined, data: SwarmData | null | undefined, gameId: string): void {
     if (!game || typeof game !== 'object') return;
 
-    const marketMap: Record<string, any> = {};
-    const existingMarket = (game as any).market;
-    if (existingMarket && typeof existingMarket === 'object' && !Array.isArray(existingMarket)) {
-      for (const [k, v] of Object.entries(existingMarket as Record<string, unknown>)) {
-        if (v && typeof v === 'object' && !Array.isArray(v)) {
-          const ev = (v as any).event;
-          marketMap[String(k)] = { ...(v as any), event: (ev && typeof ev === 'object' && !Array.isArray(ev)) ? ev : {} };
-        }
+    const marketMap: Record<string, SwarmMarket> = {};
+    for (const [k, v] of Object.entries(game.market && typeof game.market === 'object' && !Array.isArray(game.market) ? game.market : {})) {
+      if (v && typeof v === 'object' && !Array.isArray(v)) {
+        const ev = v.event;
+        marketMap[String(k)] = { ...v, event: ev && typeof ev === 'object' && !Array.isArray(ev) ? ev : {} };
       }
     }
 
-    const marketsNode = data?.market;
-    const markets = marketsNode && typeof marketsNode === 'object'
-      ? (Array.isArray(marketsNode) ? marketsNode : Object.values(marketsNode as Record<string, unknown>))
-      : [];
-
-    for (const mRaw of markets) {
-      const m = mRaw && typeof mRaw === 'object' && !Array.isArray(mRaw) ? (mRaw as any) : null;
-      if (!m) continue;
-      const gid = m?.game_id ?? m?.gameId;
+    for (const m of swarmCollectionValues(data?.market)) {
+      const gid = m.game_id ?? m.gameId;
       if (gid === null || gid === undefined || gid === '') continue;
       if (String(gid) !== String(gameId)) continue;
 
-      const mid = m?.id;
+      const mid = m.id;
       if (mid === null || mid === undefined || mid === '') continue;
       const midStr = String(mid);
-      const prev = marketMap[midStr] && typeof marketMap[midStr] === 'object' ? marketMap[midStr] : {};
-      const prevEvent = prev?.event && typeof prev.event === 'object' && !Array.isArray(prev.event) ? prev.event : {};
-      marketMap[midStr] = { ...prev, ...m, event: prevEvent };
+      const prev = marketMap[midStr] ?? {};
+      marketMap[midStr] = { ...prev, ...m, event: prev.event ?? {} };
     }
 
-    const eventsNode = data?.event;
-    const events = eventsNode && typeof eventsNode === 'object'
-      ? (Array.isArray(eventsNode) ? eventsNode : Object.values(eventsNode as Record<string, unknown>))
-      : [];
-
-    for (const eRaw of events) {
-      const e = eRaw && typeof eRaw === 'object' && !Array.isArray(eRaw) ? (eRaw as any) : null;
-      if (!e) continue;
-      const mid = e?.market_id ?? e?.marketId;
+    for (const e of swarmCollectionValues(data?.event)) {
+      const mid = e.market_id ?? e.marketId;
       if (mid === null || mid === undefined || mid === '') continue;
-      const midStr = String(mid);
-      const market = marketMap[midStr];
-      if (!market || typeof market !== 'object') continue;
+      const market = marketMap[String(mid)];
+      if (!market) continue;
       if (!market.event || typeof market.event !== 'object' || Array.isArray(market.event)) market.event = {};
-      const eid = e?.id;
+      const eid = e.id;
       if (eid === null || eid === undefined || eid === '') continue;
       market.event[String(eid)] = e;
     }
 
     if (Object.keys(marketMap).length > 0) {
-      (game as any).market = marketMap;
-      if (typeof (game as any).markets_count !== 'number') {
-        (game as any).markets_count = Object.keys(marketMap).length;
+      game.market = marketMap;
+      if (typeof game.markets_count !== 'number') {
+        game.markets_count = Object.keys(marketMap).length;
       }
     }
   }
@@ -1588,11 +2451,11 @@ export class SwarmHubDO {
     const now = Date.now();
     if (group.lastOddsPayload && now - group.lastOddsSnapshotAtMs < ODDS_SNAPSHOT_REBUILD_MS) return;
 
-    const updates: Array<{ gameId: unknown; odds: unknown; markets_count: number }> = [];
+    const updates: OddsUpdate[] = [];
     const entries = Array.from(group.oddsCache.entries()).sort(([a], [b]) => String(a).localeCompare(String(b)));
     for (const [gameId, entry] of entries) {
       if (!Array.isArray(entry?.odds)) continue;
-      updates.push({ gameId, odds: entry.odds, markets_count: Number(entry.markets_count) || 0 });
+      updates.push({ gameId, odds: entry.odds, markets_count: Number(entry.markets_count) || 0, probabilities: computeMarketProbabilities(entry.odds) });
     }
 
     group.lastOddsPayload = { sportId: group.sportId, updates };
@@ -1600,14 +2463,17 @@ export class SwarmHubDO {
   }
 
   private async handleLiveSportOddsEmit(group: SportStreamGroup, rawData: unknown): Promise<void> {
-    if (!group.clients || group.clients.size === 0) return;
+    if (!group.clients || group.clients.size === 0) {
+      invalidateReplayLog(group.eventLog);
+      return;
+    }
 
-    const data = unwrapSwarmData(rawData) as any;
+    const data = unwrapSwarmData(rawData);
     const games = this.extractGamesFromNode(data?.game);
     if (!games.length) return;
 
     for (const g of games) {
-      const gid = (g as any)?.id ?? (g as any)?.gameId;
+      const gid = g.id ?? g.gameId;
       if (gid === null || gid === undefined || gid === '') continue;
       this.embedMarketsIntoGame(g, data, String(gid));
     }
@@ -1616,25 +2482,23 @@ export class SwarmHubDO {
       ? group.oddsTypePriority
       : getSportMainMarketTypePriority(group.sportName);
 
-    const updates: Array<{ gameId: unknown; odds: unknown; markets_count: number }> = [];
+    const updates: OddsUpdate[] = [];
     const now = Date.now();
 
     for (const g of games) {
-      const gid = (g as any)?.id ?? (g as any)?.gameId;
+      const gid = g.id ?? g.gameId;
       if (gid === null || gid === undefined || gid === '') continue;
       const idStr = String(gid);
 
-      const marketMap = (g as any)?.market;
+      const marketMap = g.market;
       let market = pickPreferredMarketFromEmbedded(marketMap, typePriority);
       if (!market && marketMap && typeof marketMap === 'object') {
-        const markets = Object.values(marketMap as Record<string, unknown>)
-          .map((mRaw) => (mRaw && typeof mRaw === 'object' && !Array.isArray(mRaw) ? (mRaw as any) : null))
-          .filter(Boolean) as any[];
+        const markets = swarmCollectionValues(marketMap);
         markets.sort((a, b) => {
-          const ao = typeof a?.order === 'number' ? Number(a.order) : Number.MAX_SAFE_INTEGER;
-          const bo = typeof b?.order === 'number' ? Number(b.order) : Number.MAX_SAFE_INTEGER;
+          const ao = typeof a.order === 'number' ? a.order : Number.MAX_SAFE_INTEGER;
+          const bo = typeof b.order === 'number' ? b.order : Number.MAX_SAFE_INTEGER;
           if (ao !== bo) return ao - bo;
-          return String(a?.id ?? '').localeCompare(String(b?.id ?? ''));
+          return String(a.id ?? '').localeCompare(String(b.id ?? ''));
         });
         const candidate = markets.find((m) => {
           const ev = m?.event;
@@ -1645,8 +2509,8 @@ export class SwarmHubDO {
       }
 
       const oddsArr = buildOddsArrFromMarket(market);
-      const marketsCount = typeof (g as any)?.markets_count === 'number'
-        ? Number((g as any).markets_count)
+      const marketsCount = typeof g.markets_count === 'number'
+        ? g.markets_count
         : (marketMap && typeof marketMap === 'object' ? Object.keys(marketMap).length : 0);
       const fp = getOddsFp(market);
 
@@ -1658,13 +2522,14 @@ export class SwarmHubDO {
         continue;
       }
 
-      group.oddsCache.set(idStr, { odds: oddsArr, markets_count: marketsCount, fp, updatedAtMs: now });
-      updates.push({ gameId: gid, odds: Array.isArray(oddsArr) ? oddsArr : null, markets_count: marketsCount });
+      const odds = this.trackOddsMovement(idStr, prev?.odds, oddsArr, now);
+      group.oddsCache.set(idStr, { odds, markets_count: marketsCount, fp, updatedAtMs: now });
+      updates.push({ gameId: gid, odds, markets_count: marketsCount, probabilities: computeMarketProbabilities(odds) });
     }
 
     if (updates.length) {
       const payload = { sportId: group.sportId, updates };
-      await this.broadcast(group.clients, encodeSseEvent('odds', payload));
+      await this.broadcast(group.clients, encodeLoggedSseEvent(group.eventLog, 'odds', payload));
     }
 
     this.maybeRebuildOddsSnapshot(group);
@@ -1673,6 +2538,106 @@ export class SwarmHubDO {
     this.cleanOddsCache(group.oddsCache);
   }
 
+  private async getOddsTypePriority(sportId: string, sportName: string, cached: string[] | null = null): Promise<string[]> {
+    const dynamicTypes = cached && Array.isArray(cached) && cached.length
+      ? cached
+      : await this.getMarketTypePriority(sportId, sportName);
+    const fallbackTypes = getSportMainMarketTypePriority(sportName);
+    const merged: string[] = [];
+    for (const t of (Array.isArray(dynamicTypes) ? dynamicTypes : [])) {
+      const s = String(t || '');
+      if (!s) continue;
+      if (!merged.includes(s)) merged.push(s);
+    }
+    for (const t of (Array.isArray(fallbackTypes) ? fallbackTypes : [])) {
+      const s = String(t || '');
+      if (!s) continue;
+      if (!merged.includes(s)) merged.push(s);
+    }
+    return merged.length ? merged : fallbackTypes;
+  }
+
+  /** The preferred main market of each game in `gameIds`, with its total market count. */
+  private async fetchMainMarkets(
+    gameIds: string[],
+    typePriority: string[]
+  ): Promise<Array<{ gameId: string | number; market: SwarmMarket | null; marketsCount: number }>> {
+    const whereIds = gameIds.map((s) => {
+      const n = Number(s);
+      return Number.isFinite(n) ? n : s;
+    });
+
+    const where: Record<string, unknown> = { game: { id: { '@in': whereIds } } };
+    const pri = Array.isArray(typePriority) ? typePriority.slice(0, 8).map(String) : [];
+    if (pri.length) {
+      where.market = { type: { '@in': pri } };
+    }
+
+    const response = await this.sendRequest(
+      'get',
+      {
+        source: 'betting',
+        what: {
+          game: ['id', 'markets_count'],
+          market: ['id', 'game_id', 'type', 'order', 'is_blocked', 'display_key'],
+          event: ['id', 'market_id', 'type', 'name', 'order', 'price', 'base', 'is_blocked']
+        },
+        where
+      },
+      20000
+    );
+
+    if (response && typeof response === 'object') {
+      const ro = response as Record<string, unknown>;
+      if (ro.code !== undefined && ro.code !== 0) {
+        const msg = ro.msg ? `: ${String(ro.msg)}` : '';
+        throw new Error(`get odds chunk failed${msg}`);
+      }
+    }
+
+    const data = unwrapSwarmData(response);
+    const games = this.extractGamesFromNode(data?.game);
+    const out: Array<{ gameId: string | number; market: SwarmMarket | null; marketsCount: number }> = [];
+
+    for (const g of games) {
+      const gid = g.id ?? g.gameId;
+      if (gid === null || gid === undefined || gid === '') continue;
+      this.embedMarketsIntoGame(g, data, String(gid));
+    }
+
+    for (const g of games) {
+      const gid = g.id ?? g.gameId;
+      if (gid === null || gid === undefined || gid === '') continue;
+      if (typeof gid !== 'string' && typeof gid !== 'number') continue;
+
+      const marketMap = g.market;
+      let market = pickPreferredMarketFromEmbedded(marketMap, typePriority) as SwarmMarket | null;
+      if (!market && marketMap && typeof marketMap === 'object') {
+        const markets = swarmCollectionValues(marketMap);
+
+        markets.sort((a, b) => {
+          const ao = typeof a.order === 'number' ? a.order : Number.MAX_SAFE_INTEGER;
+          const bo = typeof b.order === 'number' ? b.order : Number.MAX_SAFE_INTEGER;
+          if (ao !== bo) return ao - bo;
+          return String(a.id ?? '').localeCompare(String(b.id ?? ''));
+        });
+
+        const candidate = markets.find((m) => {
+          const ev = m.event;
+          const cnt = ev && typeof ev === 'object' && !Array.isArray(ev) ? Object.keys(ev).length : 0;
+          return cnt === 2 || cnt === 3;
+        });
+        if (candidate) market = candidate;
+      }
+
+      const marketsCount = typeof g.markets_count === 'number'
+        ? g.markets_count
+        : (marketMap && typeof marketMap === 'object' ? Object.keys(marketMap).length : 0);
+      out.push({ gameId: gid, market, marketsCount });
+    }
+    return out;
+  }
+
   private async pollSportOddsGroup(group: SportStreamGroup): Promise<void> {
     if (group.mode !== 'prematch') return;
     if (group.clients.size === 0) {
@@ -1707,105 +2672,22 @@ export class SwarmHubDO {
 
     group.oddsInFlight = true;
     try {
-      const whereIds = chunk.map((s) => {
-        const n = Number(s);
-        return Number.isFinite(n) ? n : s;
-      });
-
-      const dynamicTypes = group.oddsTypePriority && Array.isArray(group.oddsTypePriority) && group.oddsTypePriority.length
-        ? group.oddsTypePriority
-        : await this.getMarketTypePriority(group.sportId, group.sportName);
-      const fallbackTypes = getSportMainMarketTypePriority(group.sportName);
-      const merged: string[] = [];
-      for (const t of (Array.isArray(dynamicTypes) ? dynamicTypes : [])) {
-        const s = String(t || '');
-        if (!s) continue;
-        if (!merged.includes(s)) merged.push(s);
-      }
-      for (const t of (Array.isArray(fallbackTypes) ? fallbackTypes : [])) {
-        const s = String(t || '');
-        if (!s) continue;
-        if (!merged.includes(s)) merged.push(s);
-      }
-      const typePriority = merged.length ? merged : fallbackTypes;
+      const typePriority = await this.getOddsTypePriority(group.sportId, group.sportName, group.oddsTypePriority);
       group.oddsTypePriority = Array.isArray(typePriority) ? typePriority.slice(0, 20) : null;
-      const where: any = { game: { id: { '@in': whereIds } } };
-      const pri = Array.isArray(typePriority) ? typePriority.slice(0, 8).map(String) : [];
-      if (pri.length) {
-        where.market = { type: { '@in': pri } };
-      }
-
-      const response = await this.sendRequest(
-        'get',
-        {
-          source: 'betting',
-          what: {
-            game: ['id', 'markets_count'],
-            market: ['id', 'game_id', 'type', 'order', 'is_blocked', 'display_key'],
-            event: ['id', 'market_id', 'type', 'name', 'order', 'price', 'base', 'is_blocked']
-          },
-          where
-        },
-        20000
-      );
-
-      if (response && typeof response === 'object') {
-        const ro = response as Record<string, unknown>;
-        if (ro.code !== undefined && ro.code !== 0) {
-          const msg = ro.msg ? `: ${String(ro.msg)}` : '';
-          throw new Error(`get odds chunk failed${msg}`);
-        }
-      }
-
-      const data = unwrapSwarmData(response) as any;
-      const games = this.extractGamesFromNode(data?.game);
-      const updates: Array<{ gameId: unknown; odds: unknown; markets_count: number }> = [];
-
-      for (const g of games) {
-        const gid = (g as any)?.id ?? (g as any)?.gameId;
-        if (gid === null || gid === undefined || gid === '') continue;
-        this.embedMarketsIntoGame(g, data, String(gid));
-      }
+      const updates: OddsUpdate[] = [];
 
-      for (const g of games) {
-        const gid = (g as any)?.id ?? (g as any)?.gameId;
-        if (gid === null || gid === undefined || gid === '') continue;
+      for (const { gameId: gid, market, marketsCount } of await this.fetchMainMarkets(chunk, typePriority)) {
         const idStr = String(gid);
-
-        const marketMap = (g as any)?.market;
-        let market = pickPreferredMarketFromEmbedded(marketMap, typePriority);
-        if (!market && marketMap && typeof marketMap === 'object') {
-          const markets = Object.values(marketMap as Record<string, unknown>)
-            .map((mRaw) => (mRaw && typeof mRaw === 'object' && !Array.isArray(mRaw) ? (mRaw as any) : null))
-            .filter(Boolean) as any[];
-
-          markets.sort((a, b) => {
-            const ao = typeof a?.order === 'number' ? Number(a.order) : Number.MAX_SAFE_INTEGER;
-            const bo = typeof b?.order === 'number' ? Number(b.order) : Number.MAX_SAFE_INTEGER;
-            if (ao !== bo) return ao - bo;
-            return String(a?.id ?? '').localeCompare(String(b?.id ?? ''));
-          });
-
-          const candidate = markets.find((m) => {
-            const ev = m?.event;
-            const cnt = ev && typeof ev === 'object' && !Array.isArray(ev) ? Object.keys(ev).length : 0;
-            return cnt === 2 || cnt === 3;
-          });
-          if (candidate) market = candidate;
-        }
-
         const oddsArr = buildOddsArrFromMarket(market);
-        const marketsCount = typeof (g as any)?.markets_count === 'number'
-          ? Number((g as any).markets_count)
-          : (marketMap && typeof marketMap === 'object' ? Object.keys(marketMap).length : 0);
         const fp = getOddsFp(market);
 
         const prev = group.oddsCache.get(idStr);
         const prevCount = typeof prev?.markets_count === 'number' ? Number(prev.markets_count) : null;
         const shouldEmit = !prev || prev.fp !== fp || (typeof prevCount === 'number' && prevCount !== marketsCount);
         if (shouldEmit) {
-          group.oddsCache.set(idStr, { odds: oddsArr, markets_count: marketsCount, fp, updatedAtMs: now });
-          updates.push({ gameId: gid, odds: Array.isArray(oddsArr) ? oddsArr : null, markets_count: marketsCount });
+          const odds = this.trackOddsMovement(idStr, prev?.odds, oddsArr, now);
+          group.oddsCache.set(idStr, { odds, markets_count: marketsCount, fp, updatedAtMs: now });
+          updates.push({ gameId: gid, odds, markets_count: marketsCount, probabilities: computeMarketProbabilities(odds) });
         } else {
           group.oddsCache.set(idStr, { ...prev, updatedAtMs: now, markets_count: marketsCount });
         }
@@ -1813,7 +2695,7 @@ export class SwarmHubDO {
 
       if (updates.length) {
         const payload = { sportId: group.sportId, updates };
-        await this.broadcast(group.clients, encodeSseEvent('odds', payload));
+        await this.broadcast(group.clients, encodeLoggedSseEvent(group.eventLog, 'odds', payload));
       }
 
       this.maybeRebuildOddsSnapshot(group);
@@ -1827,25 +2709,13 @@ export class SwarmHubDO {
     }
   }
 
-  private async handleSportStream(request: Request, mode: 'live' | 'prematch'): Promise<Response> {
-    const url = new URL(request.url);
-    const sportId = url.searchParams.get('sportId');
-    if (!sportId) {
-      return json({ error: 'sportId is required' }, { status: 400 });
-    }
-
-    // Check total client limit across all groups to prevent DoS attacks
-    const totalClients = this.countsClients.size + 
-      Array.from(this.liveGroups.values()).reduce((sum, g) => sum + g.clients.size, 0) +
-      Array.from(this.prematchGroups.values()).reduce((sum, g) => sum + g.clients.size, 0) +
-      Array.from(this.liveGameGroups.values()).reduce((sum, g) => sum + g.clients.size, 0) +
-      Array.from(this.competitionOddsGroups.values()).reduce((sum, g) => sum + g.clients.size, 0);
-    
-    if (totalClients >= MAX_CLIENTS_PER_DO) {
-      return new Response('Too many concurrent clients', { status: 429 });
-    }
-
-    const sportNameParam = url.searchParams.get('sportName');
+  private async attachSportClient(
+    mode: 'live' | 'prematch',
+    sportId: string,
+    sportNameParam: string | null,
+    client: Client,
+    lastEventId: string | null
+  ): Promise<string> {
     const sportName = await this.getSportName(sportId, sportNameParam);
 
     const key = String(sportId);
@@ -1864,6 +2734,8 @@ export class SwarmHubDO {
         lastFp: '',
         lastOddsFp: '',
         lastGamesPayload: null,
+        lastGamesSnapshotAtMs: 0,
+        gameRows: new Map(),
         lastOddsPayload: null,
         lastOddsSnapshotAtMs: 0,
         oddsInFlight: false,
@@ -1876,129 +2748,52 @@ export class SwarmHubDO {
         featuredOddsSubscribing: false,
         oddsSubid: null,
         oddsSubscribing: false,
-        oddsTypePriority: null
+        oddsTypePriority: null,
+        eventLog: createReplayLog()
       };
       groups.set(key, group);
     } else if (!group.sportName && sportName) {
       group.sportName = sportName;
     }
 
-    if (!(group as any).oddsCache) {
-      (group as any).oddsCache = new Map();
-    }
-    if (!(group as any).oddsGameIds) {
-      (group as any).oddsGameIds = [];
-    }
-    if (typeof (group as any).gamesSubid !== 'string') {
-      (group as any).gamesSubid = null;
-    }
-    if (typeof (group as any).gamesSubscribing !== 'boolean') {
-      (group as any).gamesSubscribing = false;
-    }
-    if (typeof (group as any).featuredOddsSubid !== 'string') {
-      (group as any).featuredOddsSubid = null;
-    }
-    if (typeof (group as any).featuredOddsSubscribing !== 'boolean') {
-      (group as any).featuredOddsSubscribing = false;
-    }
-    if (typeof (group as any).oddsSubid !== 'string') {
-      (group as any).oddsSubid = null;
-    }
-    if (typeof (group as any).oddsSubscribing !== 'boolean') {
-      (group as any).oddsSubscribing = false;
-    }
-    if (!Array.isArray((group as any).oddsTypePriority)) {
-      (group as any).oddsTypePriority = null;
-    }
-    if (typeof (group as any).pollInFlight !== 'boolean') {
-      (group as any).pollInFlight = false;
-    }
-    if (typeof (group as any).oddsCursor !== 'number') {
-      (group as any).oddsCursor = 0;
-    }
-    if (typeof (group as any).oddsInFlight !== 'boolean') {
-      (group as any).oddsInFlight = false;
-    }
-    if (typeof (group as any).lastOddsSnapshotAtMs !== 'number') {
-      (group as any).lastOddsSnapshotAtMs = 0;
-    }
-
-    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
-    const writer = writable.getWriter();
-    const id = crypto.randomUUID();
-    const client: Client = { id, writer, abortSignal: request.signal };
-    group.clients.set(id, client);
+    const writer = client.writer;
+    group.clients.set(client.id, client);
 
     if (group.cleanupTimer != null) {
       clearTimeout(group.cleanupTimer);
       group.cleanupTimer = null;
     }
 
-    request.signal.addEventListener('abort', () => {
-      const existing = group?.clients.get(id);
-      if (existing) {
-        try {
-          existing.writer.close();
-        } catch {
-          // ignore
-        }
-        group?.clients.delete(id);
-      }
-      if (group && group.clients.size === 0) {
-        this.stopSportGroup(group);
-        if (group.cleanupTimer == null) {
-          group.cleanupTimer = setTimeout(() => {
-            if (group.clients.size === 0) {
-              this.stopSportGroup(group);
-              const gamesSid = (group as any).gamesSubid;
-              (group as any).gamesSubid = null;
-              (group as any).gamesSubscribing = false;
-              const featuredSid = (group as any).featuredOddsSubid;
-              (group as any).featuredOddsSubid = null;
-              (group as any).featuredOddsSubscribing = false;
-              const oddsSid = (group as any).oddsSubid;
-              (group as any).oddsSubid = null;
-              (group as any).oddsSubscribing = false;
-              (group as any).oddsTypePriority = null;
-              groups.delete(key);
-              if (gamesSid) void this.unsubscribe(String(gamesSid));
-              if (featuredSid) void this.unsubscribe(String(featuredSid));
-              if (oddsSid) void this.unsubscribe(String(oddsSid));
-              if (mode === 'live' && !this.hasActiveLiveSportClients() && this.countsClients.size === 0) {
-                void this.stopCountsSubscriptions();
-              }
-            }
-          }, GROUP_GRACE_MS) as unknown as number;
-        }
-
-        if (mode === 'live' && !this.hasActiveLiveSportClients() && this.countsClients.size === 0) {
-          void this.stopCountsSubscriptions();
-        }
-      }
-    });
-
     const initialCountsPayload = mode === 'live' ? this.countsLivePayload : null;
     const initialPrematchCountsPayload = mode === 'live' ? this.countsPrematchPayload : null;
     const initialGamesPayload = group.lastGamesPayload;
     const initialOddsPayload = group.lastOddsPayload;
+    const replay = getReplayEntries(group.eventLog, lastEventId);
+    const snapshotId = currentEventId(group.eventLog);
     setTimeout(() => {
       void (async () => {
         try {
           await writer.write(encodeSseComment(' '.repeat(2048)));
           await writer.write(encodeSseComment(`ready ${Date.now()}`));
+          if (replay) {
+            for (const bytes of replay) {
+              await writer.write(bytes);
+            }
+            return;
+          }
           if (mode === 'live') {
             if (initialCountsPayload) {
-              await writer.write(encodeSseEvent('counts', initialCountsPayload));
+              await writer.write(encodeSseEvent('counts', initialCountsPayload, snapshotId));
             }
             if (initialPrematchCountsPayload) {
-              await writer.write(encodeSseEvent('prematch_counts', initialPrematchCountsPayload));
+              await writer.write(encodeSseEvent('prematch_counts', initialPrematchCountsPayload, snapshotId));
             }
           }
           if (initialGamesPayload) {
-            await writer.write(encodeSseEvent('games', initialGamesPayload));
+            await writer.write(encodeSseEvent('games', initialGamesPayload, snapshotId));
           }
           if (initialOddsPayload) {
-            await writer.write(encodeSseEvent('odds', initialOddsPayload));
+            await writer.write(encodeSseEvent('odds', initialOddsPayload, snapshotId));
           }
         } catch {
           // ignore
@@ -2007,11 +2802,9 @@ export class SwarmHubDO {
     }, 0);
 
     if (mode === 'live') {
-      if (!this.countsLiveSubid || !this.countsPrematchSubid) {
-        setTimeout(() => {
-          void this.ensureCountsSubscriptions().catch(() => null);
-        }, 0);
-      }
+      setTimeout(() => {
+        void this.ensureLiveSportCounts().catch(() => null);
+      }, 0);
     }
 
     this.startSportGroup(group);
@@ -2019,15 +2812,90 @@ export class SwarmHubDO {
       void this.pollSportGroup(group);
     }, 0);
 
-    return new Response(readable, { status: 200, headers: sseHeaders() });
+    return key;
   }
 
-  private startGameGroup(group: GameStreamGroup): void {
-    if (group.cleanupTimer != null) {
-      clearTimeout(group.cleanupTimer);
-      group.cleanupTimer = null;
+  private detachSportClient(mode: 'live' | 'prematch', key: string, id: string): void {
+    const groups = mode === 'live' ? this.liveGroups : this.prematchGroups;
+    const group = groups.get(key);
+    if (!group) return;
+    const existing = group.clients.get(id);
+    if (existing) {
+      try {
+        existing.writer.close();
+      } catch {
+        // ignore
+      }
+      group.clients.delete(id);
     }
-    if (group.subid) return;
+    if (group.clients.size === 0) {
+      this.stopSportGroup(group);
+      if (group.cleanupTimer == null) {
+        group.cleanupTimer = setTimeout(() => {
+          if (group.clients.size === 0) {
+            this.stopSportGroup(group);
+            const gamesSid = group.gamesSubid;
+            group.gamesSubid = null;
+            group.gamesSubscribing = false;
+            const featuredSid = group.featuredOddsSubid;
+            group.featuredOddsSubid = null;
+            group.featuredOddsSubscribing = false;
+            const oddsSid = group.oddsSubid;
+            group.oddsSubid = null;
+            group.oddsSubscribing = false;
+            group.oddsTypePriority = null;
+            groups.delete(key);
+            this.scheduleActiveGamesPush();
+            if (gamesSid) void this.unsubscribe(gamesSid);
+            if (featuredSid) void this.unsubscribe(featuredSid);
+            if (oddsSid) void this.unsubscribe(oddsSid);
+            if (mode === 'live' && !this.hasActiveLiveSportClients() && this.countsClients.size === 0) {
+              this.stopLiveSportCounts();
+            }
+          }
+        }, GROUP_GRACE_MS) as unknown as number;
+      }
+
+      if (mode === 'live' && !this.hasActiveLiveSportClients() && this.countsClients.size === 0) {
+        this.stopLiveSportCounts();
+      }
+    }
+  }
+
+  private async handleSportStream(request: Request, mode: 'live' | 'prematch'): Promise<Response> {
+    const url = new URL(request.url);
+    const sportId = url.searchParams.get('sportId');
+    if (!sportId) {
+      return json({ error: 'sportId is required' }, { status: 400 });
+    }
+
+    // Check total client limit across all groups to prevent DoS attacks
+    if (this.totalClientCount() >= MAX_CLIENTS_PER_DO) {
+      return new Response('Too many concurrent clients', { status: 429 });
+    }
+
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const writer = await this.createOddsWriter(url, writable.getWriter(), String(sportId));
+    if (writer instanceof Response) return writer;
+    const id = crypto.randomUUID();
+    const client: Client = { id, writer, abortSignal: request.signal };
+
+    const key = await this.attachSportClient(mode, String(sportId), url.searchParams.get('sportName'), client, getLastEventId(request));
+    if (request.signal.aborted) {
+      this.detachSportClient(mode, key, id);
+    } else {
+      request.signal.addEventListener('abort', () => this.detachSportClient(mode, key, id));
+    }
+
+    return new Response(readable, { status: 200, headers: sseHeaders() });
+  }
+
+  private startGameGroup(group: GameStreamGroup): void {
+    if (group.cleanupTimer != null) {
+      clearTimeout(group.cleanupTimer);
+      group.cleanupTimer = null;
+    }
+    if (group.subid) return;
     if (group.subscribing) return;
     group.subscribing = true;
     setTimeout(() => {
@@ -2064,71 +2932,7 @@ export class SwarmHubDO {
     const subid = await this.subscribeGet(
       {
         source: 'betting',
-        what: {
-          game: [
-            'id',
-            'stats',
-            'info',
-            'is_neutral_venue',
-            'add_info_name',
-            'text_info',
-            'markets_count',
-            'type',
-            'start_ts',
-            'is_stat_available',
-            'team1_id',
-            'team1_name',
-            'team2_id',
-            'team2_name',
-            'last_event',
-            'live_events',
-            'match_length',
-            'sport_alias',
-            'sportcast_id',
-            'region_alias',
-            'is_blocked',
-            'show_type',
-            'game_number'
-          ],
-          market: [
-            'id',
-            'game_id',
-            'group_id',
-            'group_name',
-            'group_order',
-            'type',
-            'name_template',
-            'sequence',
-            'point_sequence',
-            'name',
-            'order',
-            'display_key',
-            'display_sub_key',
-            'col_count',
-            'express_id',
-            'extra_info',
-            'cashout',
-            'is_new',
-            'has_early_payout',
-            'prematch_express_id',
-            'main_order',
-            'base'
-          ],
-          event: [
-            'id',
-            'market_id',
-            'type_1',
-            'type',
-            'price',
-            'name',
-            'base',
-            'home_value',
-            'away_value',
-            'display_column',
-            'order',
-            'is_blocked'
-          ]
-        },
+        what: GAME_DETAIL_WHAT,
         where: { game: { id: whereId } }
       },
       (data) => {
@@ -2140,43 +2944,42 @@ export class SwarmHubDO {
   }
 
   private async handleLiveGameEmit(group: GameStreamGroup, rawData: unknown): Promise<void> {
-    const data = unwrapSwarmData(rawData) as any;
+    const data = unwrapSwarmData(rawData);
 
-    let game: any = null;
-    const gamesNode = data?.game;
-    if (gamesNode && typeof gamesNode === 'object') {
-      if (Array.isArray(gamesNode)) {
-        game = gamesNode.find((g) => g && String((g as any).id) === String(group.gameId)) || null;
-      } else {
-        game = gamesNode[String(group.gameId)] ?? gamesNode[group.gameId] ?? null;
-        if (!game) {
-          const vals = Object.values(gamesNode as Record<string, unknown>);
-          if (vals.length === 1 && vals[0] && typeof vals[0] === 'object' && !Array.isArray(vals[0])) {
-            game = vals[0];
-          } else {
-            game = vals.find((g: any) => g && typeof g === 'object' && String(g.id) === String(group.gameId)) || null;
-          }
-        }
-      }
-    }
+    let game = findGameInData(data, group.gameId);
     if (!game) {
-      const parsed = parseGamesFromData(data as any, 'Unknown', null);
-      if (Array.isArray(parsed) && parsed.length) {
-        game = parsed.find((g) => g && String((g as any)?.id ?? (g as any)?.gameId) === String(group.gameId)) || null;
-      }
+      const parsed = parseGamesFromData(data, 'Unknown', null);
+      game = parsed.find((g) => String(g.id ?? g.gameId) === String(group.gameId)) ?? null;
     }
     if (!game) return;
 
     this.embedMarketsIntoGame(game, data, group.gameId);
+    await this.publishGame(group, game);
+  }
 
+  private async publishGame(group: GameStreamGroup, game: SwarmGame | null): Promise<void> {
     const fp = getGameFp(game) || (game ? getSportFp([game]) : '');
     if (fp === group.lastFp && group.lastPayload) return;
     group.lastFp = fp;
 
-    const payload = { gameId: group.gameId, data: game, last_updated: new Date().toISOString() };
+    const lastUpdated = new Date().toISOString();
+    const payload = { gameId: group.gameId, data: game, last_updated: lastUpdated };
     group.lastPayload = payload;
-    if (group.clients.size) {
-      await this.broadcast(group.clients, encodeSseEvent('game', payload));
+    const book = buildMarketBook(game);
+    const prevBook = group.lastMarketsPayload as MarketBook | null;
+    if (prevBook && book) {
+      this.queueOddsHistory(group.gameId, diffSelectionPrices(pricesFromMarketBook(prevBook), pricesFromMarketBook(book), Date.now()));
+    }
+    group.lastMarketsPayload = book ? { ...book, gameId: group.gameId, last_updated: lastUpdated } : null;
+    if (book) this.recordSettlementCatalog(game, { ...book, gameId: group.gameId });
+
+    if (!group.clients.size) {
+      invalidateReplayLog(group.eventLog);
+      return;
+    }
+    await this.broadcast(group.clients, encodeLoggedSseEvent(group.eventLog, 'game', payload));
+    if (group.lastMarketsPayload) {
+      await this.broadcast(group.clients, encodeLoggedSseEvent(group.eventLog, 'markets', group.lastMarketsPayload));
     }
   }
 
@@ -2206,34 +3009,11 @@ export class SwarmHubDO {
         15000
       );
 
-      const data = unwrapSwarmData(response) as any;
-      let game: any = null;
-      const gamesNode = data?.game;
-      if (gamesNode && typeof gamesNode === 'object') {
-        if (Array.isArray(gamesNode)) {
-          game = gamesNode.find((g) => g && String((g as any).id) === String(group.gameId)) || null;
-        } else {
-          game = gamesNode[String(group.gameId)] ?? gamesNode[group.gameId] ?? null;
-          if (!game) {
-            const vals = Object.values(gamesNode as Record<string, unknown>);
-            if (vals.length === 1 && vals[0] && typeof vals[0] === 'object' && !Array.isArray(vals[0])) {
-              game = vals[0];
-            } else {
-              game = vals.find((g: any) => g && typeof g === 'object' && String(g.id) === String(group.gameId)) || null;
-            }
-          }
-        }
-      }
+      const data = unwrapSwarmData(response);
+      const game = findGameInData(data, group.gameId);
 
       this.embedMarketsIntoGame(game, data, group.gameId);
-
-      const fp = getGameFp(game) || (game ? getSportFp([game]) : '');
-      if (fp === group.lastFp && group.lastPayload) return;
-      group.lastFp = fp;
-
-      const payload = { gameId: group.gameId, data: game, last_updated: new Date().toISOString() };
-      group.lastPayload = payload;
-      await this.broadcast(group.clients, encodeSseEvent('game', payload));
+      await this.publishGame(group, game);
     } catch (e) {
       await this.broadcast(group.clients, encodeSseEvent('error', { error: e instanceof Error ? e.message : String(e) }));
     } finally {
@@ -2241,22 +3021,326 @@ export class SwarmHubDO {
     }
   }
 
-  private async handleLiveGameStream(request: Request): Promise<Response> {
-    const url = new URL(request.url);
-    const gameId = url.searchParams.get('gameId');
-    if (!gameId) return json({ error: 'gameId is required' }, { status: 400 });
+  private async getGameMarketBook(gameId: string): Promise<unknown | null> {
+    const group = this.liveGameGroups.get(String(gameId));
+    if (group?.lastMarketsPayload) return group.lastMarketsPayload;
 
-    // Check total client limit across all groups to prevent DoS attacks
-    const totalClients = this.countsClients.size + 
-      Array.from(this.liveGroups.values()).reduce((sum, g) => sum + g.clients.size, 0) +
-      Array.from(this.prematchGroups.values()).reduce((sum, g) => sum + g.clients.size, 0) +
-      Array.from(this.liveGameGroups.values()).reduce((sum, g) => sum + g.clients.size, 0) +
-      Array.from(this.competitionOddsGroups.values()).reduce((sum, g) => sum + g.clients.size, 0);
-    
-    if (totalClients >= MAX_CLIENTS_PER_DO) {
-      return new Response('Too many concurrent clients', { status: 429 });
+    await this.ensureConnection();
+    const gidNum = Number(gameId);
+    const whereId = Number.isFinite(gidNum) ? gidNum : String(gameId);
+    const response = await this.sendRequest(
+      'get',
+      { source: 'betting', what: GAME_DETAIL_WHAT, where: { game: { id: whereId } } },
+      15000
+    );
+
+    const data = unwrapSwarmData(response);
+    const game = findGameInData(data, gameId);
+    if (!game) return null;
+    this.embedMarketsIntoGame(game, data, gameId);
+
+    const book = buildMarketBook(game);
+    if (book) this.recordSettlementCatalog(game, { ...book, gameId: String(gameId) });
+    return book ? { ...book, gameId: String(gameId), last_updated: new Date().toISOString() } : null;
+  }
+
+  private async getGameStats(gameId: string): Promise<GameStats | null> {
+    // A streamed game is already current; no need to ask Swarm again.
+    const group = this.liveGameGroups.get(String(gameId));
+    const streamed = (group?.lastPayload as { data?: unknown } | null)?.data;
+    if (streamed) return normalizeGameStats(streamed);
+
+    const cached = this.gameStatsCache.get(String(gameId));
+    if (cached) {
+      const ttlMs = cached.stats.is_live ? GAME_STATS_LIVE_TTL_MS : GAME_STATS_TTL_MS;
+      if (Date.now() - cached.cachedAtMs <= ttlMs) return cached.stats;
+    }
+
+    await this.ensureConnection();
+    const gidNum = Number(gameId);
+    const whereId = Number.isFinite(gidNum) ? gidNum : String(gameId);
+    const response = await this.sendRequest(
+      'get',
+      { source: 'betting', what: { game: GAME_DETAIL_WHAT.game }, where: { game: { id: whereId } } },
+      15000
+    );
+
+    const stats = normalizeGameStats(findGameInData(unwrapSwarmData(response), gameId));
+    if (!stats) return null;
+
+    this.gameStatsCache.delete(String(gameId));
+    this.gameStatsCache.set(String(gameId), { cachedAtMs: Date.now(), stats });
+    // Map order is insertion order, so the first key is the least recently fetched.
+    while (this.gameStatsCache.size > GAME_STATS_CACHE_MAX_SIZE) {
+      const oldest = this.gameStatsCache.keys().next().value;
+      if (oldest === undefined) break;
+      this.gameStatsCache.delete(oldest);
+    }
+    return stats;
+  }
+
+  /** Teams of the games this shard's live and prematch streams currently list. */
+  private collectActiveTeamGames(): ActiveTeamGame[] {
+    const out: ActiveTeamGame[] = [];
+    for (const groups of [this.liveGroups, this.prematchGroups]) {
+      for (const group of groups.values()) {
+        const games = (group.lastGamesPayload as { data?: unknown } | null)?.data;
+        if (!Array.isArray(games)) continue;
+        for (const g of games as ParsedGame[]) {
+          if (g?.id === null || g?.id === undefined || !g.team1_name) continue;
+          const startTs = Number(g.start_ts);
+          const marketsCount = Number(g.markets_count);
+          out.push({
+            gameId: String(g.id),
+            mode: group.mode,
+            sportId: group.sportId,
+            sportName: group.sportName,
+            regionId: g.region_id == null ? null : String(g.region_id),
+            region: g.region || null,
+            competitionId: g.competition_id == null ? null : String(g.competition_id),
+            competition: g.competition || null,
+            team1: String(g.team1_name),
+            team2: g.team2_name ? String(g.team2_name) : null,
+            start_ts: Number.isFinite(startTs) ? startTs : null,
+            markets_count: Number.isFinite(marketsCount) ? marketsCount : null
+          });
+        }
+      }
+    }
+    return out;
+  }
+
+  private async getSearchHierarchyIndex(): Promise<SearchIndex> {
+    const hierarchy = await this.getHierarchy(false);
+    const cached = await this.state.storage.get<HierarchyCache>('hierarchy_cache');
+    const cachedAtMs = cached?.cachedAtMs ?? 0;
+    if (this.searchHierarchy && this.searchHierarchy.cachedAtMs === cachedAtMs) return this.searchHierarchy.index;
+    const index = buildSearchIndex(collectHierarchyEntries(hierarchy));
+    this.searchHierarchy = { cachedAtMs, index };
+    return index;
+  }
+
+  private getSearchTeamsIndex(): SearchIndex {
+    const current = this.searchTeams;
+    if (current && Date.now() - current.builtAtMs <= SEARCH_TEAMS_TTL_MS) return current.index;
+    const index = buildSearchIndex(collectTeamEntries(this.activeTeamGames()));
+    this.searchTeams = { index, builtAtMs: Date.now() };
+    return index;
+  }
+
+  /** This shard's active games and those the sport shards pushed and are still fresh. */
+  private activeTeamGames(): ActiveTeamGame[] {
+    const games = this.collectActiveTeamGames();
+    const now = Date.now();
+    for (const [shard, pushed] of this.activeGamesByShard) {
+      if (shard === this.shardName) continue;
+      if (now - pushed.receivedAtMs > ACTIVE_GAMES_STALE_MS) {
+        this.activeGamesByShard.delete(shard);
+        continue;
+      }
+      games.push(...pushed.games);
+    }
+    return games;
+  }
+
+  private receiveActiveGames(shard: string, games: ActiveTeamGame[]): void {
+    if (games.length) this.activeGamesByShard.set(shard, { games, receivedAtMs: Date.now() });
+    else this.activeGamesByShard.delete(shard);
+    this.searchTeams = null;
+  }
+
+  /** Queue a push of this shard's active games to the coordinator, at most every ACTIVE_GAMES_PUSH_MS. */
+  private scheduleActiveGamesPush(): void {
+    if (this.shardName === COORDINATOR_SHARD || this.activeGamesPushTimer != null) return;
+    const delayMs = Math.max(0, this.activeGamesPushedAtMs + ACTIVE_GAMES_PUSH_MS - Date.now());
+    this.activeGamesPushTimer = setTimeout(() => {
+      this.activeGamesPushTimer = null;
+      void this.pushActiveGames();
+    }, delayMs) as unknown as number;
+  }
+
+  private async pushActiveGames(): Promise<void> {
+    if (this.activeGamesRefreshTimer != null) {
+      clearTimeout(this.activeGamesRefreshTimer);
+      this.activeGamesRefreshTimer = null;
+    }
+    this.activeGamesPushedAtMs = Date.now();
+    const games = this.collectActiveTeamGames();
+    try {
+      await this.swarmShardStub(COORDINATOR_SHARD).fetch('https://internal/internal/active-games', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', [SWARM_SHARD_HEADER]: COORDINATOR_SHARD },
+        body: JSON.stringify({ shard: this.shardName, games })
+      });
+    } catch (e) {
+      console.error('Failed to push active games to the coordinator:', e);
+    }
+    // Repeated while there is anything to list, so the coordinator never finds it stale.
+    if (games.length && this.activeGamesRefreshTimer == null) {
+      this.activeGamesRefreshTimer = setTimeout(() => {
+        this.activeGamesRefreshTimer = null;
+        this.scheduleActiveGamesPush();
+      }, ACTIVE_GAMES_REFRESH_MS) as unknown as number;
+    }
+  }
+
+  private async handleSearch(url: URL): Promise<Response> {
+    const q = (url.searchParams.get('q') || '').trim();
+    if (q.length < SEARCH_MIN_QUERY_LENGTH) {
+      return json({ success: false, error: `q must be at least ${SEARCH_MIN_QUERY_LENGTH} characters` }, { status: 400 });
+    }
+    const types = parseSearchTypes(url.searchParams.get('types'));
+    if (types === undefined) {
+      return json({ success: false, error: 'types must be a comma-separated list of sport, region, competition, team' }, { status: 400 });
+    }
+    const limit = parseSearchLimit(url.searchParams.get('limit'));
+    if (limit === null) return json({ success: false, error: 'limit must be a positive integer' }, { status: 400 });
+
+    try {
+      const wantsHierarchy = !types || types.some((t) => t !== 'team');
+      const wantsTeams = !types || types.includes('team');
+      const hierarchyIndex = wantsHierarchy ? await this.getSearchHierarchyIndex() : [];
+      const teamsIndex = wantsTeams ? this.getSearchTeamsIndex() : [];
+      const hits = searchIndex([...hierarchyIndex, ...teamsIndex], q, { types, limit });
+      return json({ success: true, q, count: hits.length, hits, timestamp: new Date().toISOString() } as unknown as JsonValue);
+    } catch (e) {
+      return json({ success: false, error: e instanceof Error ? e.message : String(e) }, { status: 500 });
+    }
+  }
+
+  private async getBulkSnapshot(forceRefresh: boolean): Promise<BulkSnapshot> {
+    const current = this.bulkSnapshot;
+    if (!forceRefresh && current && Date.now() - current.builtAtMs <= BULK_SNAPSHOT_TTL_MS) return current.snapshot;
+    if (this.bulkSnapshotBuild) return this.bulkSnapshotBuild;
+
+    this.bulkSnapshotBuild = (async () => {
+      try {
+        const snapshot = await this.buildBulkSnapshot();
+        this.bulkSnapshot = { snapshot, builtAtMs: Date.now() };
+        return snapshot;
+      } finally {
+        this.bulkSnapshotBuild = null;
+      }
+    })();
+    return this.bulkSnapshotBuild;
+  }
+
+  private async buildBulkSnapshot(): Promise<BulkSnapshot> {
+    const sports = Array.from(hierarchySports(await this.getHierarchy(false)), ([id, s]) => ({ id, name: String(s.name || id), order: Number(s.order) }))
+      .sort((a, b) => (Number.isFinite(a.order) ? a.order : Infinity) - (Number.isFinite(b.order) ? b.order : Infinity) || Number(a.id) - Number(b.id));
+
+    const perSport: BulkSnapshotGame[][] = new Array(sports.length);
+    const errors: BulkSnapshotError[] = [];
+    let next = 0;
+    const worker = async () => {
+      while (next < sports.length) {
+        const idx = next++;
+        perSport[idx] = await this.fetchBulkSportGames(sports[idx].id, sports[idx].name, errors);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(BULK_SNAPSHOT_CONCURRENCY, sports.length) }, worker));
+
+    // A game can be listed both live and prematch while it kicks off; the live row wins.
+    const games: BulkSnapshotGame[] = [];
+    const seen = new Set<string>();
+    for (const g of perSport.flat()) {
+      if (seen.has(g.id)) continue;
+      seen.add(g.id);
+      games.push(g);
+    }
+
+    const order = new Map(sports.map((s, i) => [s.id, i]));
+    errors.sort((a, b) => (order.get(a.sportId) ?? 0) - (order.get(b.sportId) ?? 0));
+    return {
+      id: crypto.randomUUID(),
+      generated_at: new Date().toISOString(),
+      sports: sports.length,
+      games,
+      errors
+    };
+  }
+
+  private async fetchBulkSportGames(sportId: string, sportName: string, errors: BulkSnapshotError[]): Promise<BulkSnapshotGame[]> {
+    const out: BulkSnapshotGame[] = [];
+    for (const mode of ['live', 'prematch'] as const) {
+      let games: ParsedGame[];
+      try {
+        games = await this.fetchSportGames(sportId, sportName, mode);
+      } catch (e) {
+        errors.push({ sportId, sport: sportName, mode, error: e instanceof Error ? e.message : String(e) });
+        continue;
+      }
+      if (games.length === 0) continue;
+
+      const mainById = new Map<string, { marketType: string | null; odds: OddsArrEntry[]; probabilities: MarketProbabilities | null }>();
+      try {
+        const typePriority = await this.getOddsTypePriority(sportId, sportName);
+        const ids = games.map((g) => String(g.id));
+        for (let i = 0; i < ids.length; i += ODDS_CHUNK_SIZE) {
+          for (const { gameId, market } of await this.fetchMainMarkets(ids.slice(i, i + ODDS_CHUNK_SIZE), typePriority)) {
+            const odds = buildOddsArrFromMarket(market) ?? [];
+            mainById.set(String(gameId), {
+              marketType: market?.type == null ? null : String(market.type),
+              odds,
+              probabilities: computeMarketProbabilities(odds)
+            });
+          }
+        }
+      } catch (e) {
+        // Games without odds are still worth exporting; the gap is reported instead.
+        errors.push({ sportId, sport: sportName, mode: 'odds', error: e instanceof Error ? e.message : String(e) });
+      }
+
+      for (const g of games) {
+        const row = toBulkSnapshotGame(g, mode, sportId, mainById.get(String(g.id)) ?? null);
+        if (row) out.push(row);
+      }
+    }
+    return out;
+  }
+
+  private async handleFetchAllSports(url: URL): Promise<Response> {
+    const format = url.searchParams.get('format');
+    if (format !== null && format !== 'json' && format !== 'ndjson') {
+      return json({ error: 'format must be json or ndjson' }, { status: 400 });
+    }
+    const limit = parseBulkLimit(url.searchParams.get('limit'));
+    if (limit === null) return json({ error: 'limit must be a positive integer' }, { status: 400 });
+
+    const rawCursor = url.searchParams.get('cursor');
+    const cursor = parseBulkCursor(rawCursor);
+    if (rawCursor && !cursor) return json({ error: 'Invalid cursor' }, { status: 400 });
+    if (cursor && this.bulkSnapshot?.snapshot.id !== cursor.snapshotId) {
+      return json({ error: 'Snapshot expired; start again without a cursor' }, { status: 410 });
+    }
+
+    let snapshot: BulkSnapshot;
+    try {
+      snapshot = cursor ? this.bulkSnapshot!.snapshot : await this.getBulkSnapshot(url.searchParams.get('refresh') === 'true');
+    } catch (e) {
+      return json({ error: e instanceof Error ? e.message : String(e) }, { status: 500 });
+    }
+
+    if (format === 'ndjson') {
+      const lines = bulkSnapshotNdjsonLines(snapshot);
+      const body = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          const next = lines.next();
+          if (next.done) controller.close();
+          else controller.enqueue(encoder.encode(next.value));
+        }
+      });
+      return new Response(body, {
+        headers: { 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-store' }
+      });
     }
 
+    const resp = json(pageBulkSnapshot(snapshot, cursor?.offset ?? 0, limit) as unknown as JsonValue);
+    resp.headers.set('Cache-Control', 'no-store');
+    return resp;
+  }
+
+  private attachGameClient(gameId: string, client: Client, lastEventId: string | null): string {
     const key = String(gameId);
     let group = this.liveGameGroups.get(key);
     if (!group) {
@@ -2269,75 +3353,41 @@ export class SwarmHubDO {
         subscribing: false,
         lastFp: '',
         lastPayload: null,
-        cleanupTimer: null
+        lastMarketsPayload: null,
+        cleanupTimer: null,
+        eventLog: createReplayLog()
       };
       this.liveGameGroups.set(key, group);
     }
 
-    if (typeof (group as any).pollInFlight !== 'boolean') {
-      (group as any).pollInFlight = false;
-    }
-    if (typeof (group as any).subid !== 'string' && (group as any).subid !== null) {
-      (group as any).subid = null;
-    }
-    if (typeof (group as any).subscribing !== 'boolean') {
-      (group as any).subscribing = false;
-    }
-    if (typeof (group as any).cleanupTimer !== 'number' && (group as any).cleanupTimer !== null) {
-      (group as any).cleanupTimer = null;
-    }
-    if (typeof (group as any).lastPayload === 'undefined') {
-      (group as any).lastPayload = null;
-    }
-
-    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
-    const writer = writable.getWriter();
-    const id = crypto.randomUUID();
-    const client: Client = { id, writer, abortSignal: request.signal };
-    group.clients.set(id, client);
+    const writer = client.writer;
+    group.clients.set(client.id, client);
 
     if (group.cleanupTimer != null) {
       clearTimeout(group.cleanupTimer);
       group.cleanupTimer = null;
     }
 
-    request.signal.addEventListener('abort', () => {
-      const existing = group?.clients.get(id);
-      if (existing) {
-        try {
-          existing.writer.close();
-        } catch {
-          // ignore
-        }
-        group?.clients.delete(id);
-      }
-      if (group && group.clients.size === 0) {
-        this.stopGameGroup(group);
-        if (group.cleanupTimer == null) {
-          group.cleanupTimer = setTimeout(() => {
-            if (group.clients.size === 0) {
-              this.stopGameGroup(group);
-              const sid = (group as any).subid;
-              (group as any).subid = null;
-              (group as any).subscribing = false;
-              group.lastPayload = null;
-              group.lastFp = '';
-              this.liveGameGroups.delete(key);
-              if (sid) void this.unsubscribe(String(sid));
-            }
-          }, GROUP_GRACE_MS) as unknown as number;
-        }
-      }
-    });
-
     const initialGamePayload = group.lastPayload;
+    const initialMarketsPayload = group.lastMarketsPayload;
+    const replay = getReplayEntries(group.eventLog, lastEventId);
+    const snapshotId = currentEventId(group.eventLog);
     setTimeout(() => {
       void (async () => {
         try {
           await writer.write(encodeSseComment(' '.repeat(2048)));
           await writer.write(encodeSseComment(`ready ${Date.now()}`));
+          if (replay) {
+            for (const bytes of replay) {
+              await writer.write(bytes);
+            }
+            return;
+          }
           if (initialGamePayload) {
-            await writer.write(encodeSseEvent('game', initialGamePayload));
+            await writer.write(encodeSseEvent('game', initialGamePayload, snapshotId));
+          }
+          if (initialMarketsPayload) {
+            await writer.write(encodeSseEvent('markets', initialMarketsPayload, snapshotId));
           }
         } catch {
           // ignore
@@ -2347,6 +3397,149 @@ export class SwarmHubDO {
 
     this.startGameGroup(group);
 
+    return key;
+  }
+
+  private detachGameClient(key: string, id: string): void {
+    const group = this.liveGameGroups.get(key);
+    if (!group) return;
+    const existing = group.clients.get(id);
+    if (existing) {
+      try {
+        existing.writer.close();
+      } catch {
+        // ignore
+      }
+      group.clients.delete(id);
+    }
+    if (group.clients.size === 0) {
+      this.stopGameGroup(group);
+      if (group.cleanupTimer == null) {
+        group.cleanupTimer = setTimeout(() => {
+          if (group.clients.size === 0) {
+            this.stopGameGroup(group);
+            const sid = group.subid;
+            group.subid = null;
+            group.subscribing = false;
+            group.lastPayload = null;
+            group.lastFp = '';
+            this.liveGameGroups.delete(key);
+            if (sid) void this.unsubscribe(sid);
+          }
+        }, GROUP_GRACE_MS) as unknown as number;
+      }
+    }
+  }
+
+  private async handleLiveGameStream(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const gameId = url.searchParams.get('gameId');
+    if (!gameId) return json({ error: 'gameId is required' }, { status: 400 });
+
+    // Check total client limit across all groups to prevent DoS attacks
+    if (this.totalClientCount() >= MAX_CLIENTS_PER_DO) {
+      return new Response('Too many concurrent clients', { status: 429 });
+    }
+
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const writer = await this.createOddsWriter(url, writable.getWriter(), url.searchParams.get('sportId'));
+    if (writer instanceof Response) return writer;
+    const id = crypto.randomUUID();
+    const client: Client = { id, writer, abortSignal: request.signal };
+
+    const key = this.attachGameClient(String(gameId), client, getLastEventId(request));
+    if (request.signal.aborted) {
+      this.detachGameClient(key, id);
+    } else {
+      request.signal.addEventListener('abort', () => this.detachGameClient(key, id));
+    }
+
+    return new Response(readable, { status: 200, headers: sseHeaders() });
+  }
+
+  /**
+   * `/api/match-center`: one game's Swarm score and clock next to its tracker incidents.
+   * A goal either feed reports must be confirmed by the other within the window, and
+   * each outcome is sent as a `consistency` event so feed delays show up.
+   */
+  private async handleMatchCenter(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const gameId = url.searchParams.get('gameId');
+    if (!gameId) return json({ error: 'gameId is required' }, { status: 400 });
+    const windowMs = parseConsistencyWindowMs(url.searchParams.get('windowSec'));
+    if (windowMs === null) return json({ error: 'Invalid windowSec' }, { status: 400 });
+
+    if (this.totalClientCount() >= MAX_CLIENTS_PER_DO) {
+      return new Response('Too many concurrent clients', { status: 429 });
+    }
+
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const out = writable.getWriter();
+    const emit = (event: string, data: unknown) => {
+      void out.write(encodeSseEvent(event, data)).catch(() => null);
+    };
+    const emitConsistency = (events: ConsistencyEvent[]) => {
+      for (const event of events) emit('consistency', { gameId, ...event });
+    };
+
+    // Tracker catch-up replays incidents from before this session; only live goals are checked.
+    const startedAtMs = Date.now();
+    const consistency = createConsistencyState(windowMs);
+    let matchState: MatchState | null = null;
+
+    const gameClient = createEventClient(request.signal, (frame) => {
+      if (frame.event !== 'game' || !frame.data || typeof frame.data !== 'object') return;
+      const game = (frame.data as { data?: unknown }).data;
+      const next = extractMatchState(game);
+      if (!next || sameMatchState(next, matchState)) return;
+      setConsistencySport(consistency, (game as { sport_alias?: unknown }).sport_alias);
+      const ts = Date.now();
+      const scoreChanged = JSON.stringify(next.score) !== JSON.stringify(matchState?.score);
+      matchState = next;
+      emit('state', { gameId, ...next, ts });
+      if (scoreChanged) emitConsistency(observeSwarmScore(consistency, next.score, ts));
+    });
+
+    // Tracker events arrive as SSE from the game's LiveTrackerDO.
+    const trackerClient = createEventClient(request.signal, (frame) => {
+      if (frame.event !== 'incident' && frame.event !== 'period' && frame.event !== 'reconnecting') return;
+      emit(frame.event, frame.data);
+      if (frame.event !== 'incident' || !frame.data || typeof frame.data !== 'object') return;
+      const incident = frame.data as Partial<TrackerIncident> & { ts?: unknown; sport?: unknown };
+      setConsistencySport(consistency, incident.sport);
+      if (incident.type === 'goal' && typeof incident.ts === 'number' && incident.ts >= startedAtMs) {
+        emitConsistency(observeTrackerGoal(consistency, incident.side ?? null, incident.ts));
+      }
+    });
+
+    emit('ready', { gameId, window_ms: windowMs });
+    const key = this.attachGameClient(String(gameId), gameClient, null);
+
+    let detachTracker: (() => void) | null = null;
+    try {
+      const stub = this.env.LIVE_TRACKER.get(this.env.LIVE_TRACKER.idFromName(gameId));
+      const trackerUrl = `https://internal/api/live-tracker?gameId=${encodeURIComponent(gameId)}`;
+      detachTracker = await this.attachRemoteStreamClient(stub, trackerUrl, {}, trackerClient, null);
+    } catch (e) {
+      emit('error', { gameId, error: e instanceof Error ? e.message : String(e) });
+    }
+
+    const timer = setInterval(() => {
+      emitConsistency(expireConsistency(consistency, Date.now()));
+    }, MATCH_CENTER_CHECK_MS) as unknown as number;
+
+    const close = () => {
+      clearInterval(timer);
+      this.detachGameClient(key, gameClient.id);
+      detachTracker?.();
+      void out.close().catch(() => null);
+    };
+    if (request.signal.aborted) {
+      close();
+    } else {
+      request.signal.addEventListener('abort', close);
+    }
+
     return new Response(readable, { status: 200, headers: sseHeaders() });
   }
 
@@ -2395,6 +3588,15 @@ export class SwarmHubDO {
   }
 
   private async refreshHierarchyCache(cacheKey: string): Promise<unknown> {
+    // Shards take the hierarchy from the coordinator rather than asking Swarm themselves.
+    if (this.shardName !== COORDINATOR_SHARD) {
+      const resp = await this.swarmShardStub(COORDINATOR_SHARD).fetch('https://internal/api/hierarchy');
+      if (!resp.ok) throw new Error(`Coordinator hierarchy request failed (${resp.status})`);
+      const { cached: _cached, stale: _stale, ...data } = (await resp.json()) as Record<string, unknown>;
+      await this.state.storage.put(cacheKey, { cachedAtMs: Date.now(), data });
+      return data;
+    }
+
     await this.ensureConnection();
     const baseParams = {
       source: 'betting',
@@ -2454,61 +3656,1144 @@ export class SwarmHubDO {
     const from = fromDate ?? startOfDaySec(now);
     const to = toDate ?? from + 86400;
 
-    const response = (await this.sendRequest('get_active_competitions', {
+    const response = await this.sendRequest('get_active_competitions', {
       from_date: from,
       to_date: to
-    })) as Record<string, unknown>;
+    });
 
-    if (response?.code !== undefined && response.code !== 0) {
-      const msg = response?.msg ? `: ${String(response.msg)}` : '';
-      throw new Error(`get_active_competitions failed${msg}`);
-    }
+    const error = getSwarmResponseError('get_active_competitions', response);
+    if (error) throw error;
 
-    return (response as Record<string, unknown>)?.data;
+    return response?.data;
   }
 
-  private async getResultGames(sportId: number, fromDate?: number, toDate?: number): Promise<unknown[]> {
+  private async getResultGames(sportId: number, fromDate?: number, toDate?: number): Promise<SwarmResultGame[]> {
     await this.ensureConnection();
 
     const now = nowSec();
     const from = fromDate ?? startOfDaySec(now);
     const to = toDate ?? from + 86400;
 
-    const response = (await this.sendRequest('get_result_games', {
+    const response = await this.sendRequest('get_result_games', {
       is_date_ts: 1,
       from_date: from,
       to_date: to,
       live: 0,
       sport_id: sportId
-    })) as Record<string, unknown>;
+    });
 
-    if (response?.code !== undefined && response.code !== 0) {
-      const msg = response?.msg ? `: ${String(response.msg)}` : '';
-      throw new Error(`get_result_games failed${msg}`);
+    const error = getSwarmResponseError('get_result_games', response);
+    if (error) throw error;
+
+    const arr = response.data?.games?.game;
+    return Array.isArray(arr) ? arr : [];
+  }
+
+  /** The results archive; only the coordinator's SQLite storage holds one. */
+  private resultsArchive(): SqlStorage | null {
+    const sql = this.state.storage.sql;
+    if (!sql || this.shardName !== COORDINATOR_SHARD) return null;
+    if (!this.resultsArchiveReady) {
+      ensureResultsArchiveSchema(sql);
+      this.resultsArchiveReady = true;
+    }
+    return sql;
+  }
+
+  /** Result games of one UTC day, from the archive once the day is final. */
+  private async loadResultDay(sportId: number, daySec: number): Promise<{ games: SwarmResultGame[]; cached: boolean }> {
+    const key = `${sportId}:${daySec}`;
+    const archive = isResultDayFinal(daySec, nowSec()) ? this.resultsArchive() : null;
+
+    if (archive) {
+      const archived = readArchivedResultDay(archive, sportId, daySec);
+      if (archived) return { games: archived, cached: true };
+    } else {
+      const hit = this.resultDayCache.get(key);
+      if (hit && Date.now() - hit.cachedAtMs <= RESULT_DAY_LIVE_TTL_MS) return { games: hit.games, cached: true };
+    }
+
+    const games = await this.getResultGames(sportId, daySec, daySec + RESULTS_DAY_SEC);
+    if (archive) {
+      archiveResultDay(archive, sportId, daySec, games);
+      return { games, cached: false };
+    }
+
+    const now = Date.now();
+    for (const [k, v] of this.resultDayCache) {
+      if (now - v.cachedAtMs > RESULT_DAY_LIVE_TTL_MS) this.resultDayCache.delete(k);
+    }
+    this.resultDayCache.set(key, { games, cachedAtMs: now });
+    return { games, cached: false };
+  }
+
+  private async getResultGamesHistory(sportId: number, fromSec: number, toSec: number): Promise<{ games: SwarmResultGame[]; days: number; cachedDays: number }> {
+    const days = splitResultDays(fromSec, toSec);
+    const games: SwarmResultGame[] = [];
+    const seen = new Set<string>();
+    let cachedDays = 0;
+    for (const day of days) {
+      const result = await this.loadResultDay(sportId, day);
+      if (result.cached) cachedDays += 1;
+      for (const g of result.games) {
+        // Day chunks are whole UTC days; the window itself need not be.
+        const date = Number(g.date);
+        if (Number.isFinite(date) && (date < fromSec || date >= toSec)) continue;
+        const id = String(g.game_id ?? '');
+        if (id && seen.has(id)) continue;
+        if (id) seen.add(id);
+        games.push(g);
+      }
+    }
+    return { games, days: days.length, cachedDays };
+  }
+
+  private async armResultsArchive(): Promise<void> {
+    if (this.resultsArchiveArmed) return;
+    this.resultsArchiveArmed = true;
+    if (!this.resultsArchive()) return;
+    await this.state.storage.put(RESULTS_ARCHIVE_ARMED_KEY, true);
+    const alarmAt = await this.state.storage.getAlarm();
+    if (alarmAt == null) {
+      await this.state.storage.setAlarm(Date.now() + 60000);
+    }
+  }
+
+  /**
+   * Archive the last few final days of every sport, then work through the settlements
+   * still missing. Runs from the hourly alarm, so a backlog drains over several runs.
+   */
+  private async ingestResultsArchive(): Promise<void> {
+    const archive = this.resultsArchive();
+    if (!archive) return;
+
+    const sportIds = Array.from(hierarchySports(await this.getHierarchy(false)).keys(), Number).filter((id) => Number.isFinite(id));
+
+    const today = startOfDaySec(nowSec());
+    for (let back = 1; back <= RESULTS_ARCHIVE_BACKFILL_DAYS; back++) {
+      const day = today - back * RESULTS_DAY_SEC;
+      if (!isResultDayFinal(day, nowSec())) continue;
+      for (const sportId of sportIds) {
+        if (isResultDayArchived(archive, sportId, day)) continue;
+        try {
+          archiveResultDay(archive, sportId, day, await this.getResultGames(sportId, day, day + RESULTS_DAY_SEC));
+        } catch (e) {
+          console.error(`Failed to archive results of sport ${sportId} for ${day}:`, e);
+        }
+      }
     }
 
-    const games = (response.data as Record<string, unknown> | undefined)?.games as Record<string, unknown> | undefined;
-    const arr = games?.game;
-    return Array.isArray(arr) ? (arr as unknown[]) : [];
+    const batch = settlementBatchSize(
+      getArchiveStatus(archive).pending_settlements,
+      RESULTS_ARCHIVE_DRAIN_RUNS,
+      RESULTS_ARCHIVE_SETTLEMENTS_PER_RUN,
+      RESULTS_ARCHIVE_MAX_SETTLEMENTS_PER_RUN
+    );
+    let settled = 0;
+    let failed = 0;
+    for (const gameId of pendingSettlementGameIds(archive, batch)) {
+      try {
+        if (archiveSettlement(archive, gameId, await this.getGameResults(gameId))) settled += 1;
+      } catch (e) {
+        failed += 1;
+        console.error(`Failed to archive settlement of game ${gameId}:`, e);
+      }
+    }
+    await this.state.storage.put(RESULTS_ARCHIVE_LAST_RUN_KEY, { at: new Date().toISOString(), batch, settled, failed });
   }
 
-  private async getGameResults(gameId: string): Promise<unknown> {
+  private async getGameResults(gameId: string): Promise<SwarmCommands['get_results']['result'] | undefined> {
     await this.ensureConnection();
 
-    const response = (await this.sendRequest('get_results', {
+    const response = await this.sendRequest('get_results', {
       game_id: String(gameId)
-    })) as Record<string, unknown>;
+    });
 
-    if (response?.code !== undefined && response.code !== 0) {
-      const msg = response?.msg ? `: ${String(response.msg)}` : '';
-      throw new Error(`get_results failed${msg}`);
-    }
+    const error = getSwarmResponseError('get_results', response);
+    if (error) throw error;
 
     return response.data;
   }
 
+  private async findCompetitionSportId(competitionId: string): Promise<string | null> {
+    try {
+      for (const [sportId, sport] of hierarchySports(await this.getHierarchy(false))) {
+        for (const region of swarmCollectionValues(sport.region)) {
+          if (swarmCollectionValues(region.competition).some((c) => String(c.id) === competitionId)) return sportId;
+        }
+      }
+    } catch {
+      // ignore
+    }
+    return null;
+  }
+
+  /**
+   * Pipe another Durable Object's SSE response into `client`. Used for topics owned
+   * by a different SwarmHub shard and for live tracker feeds. `onEnd` runs when the
+   * response ends before the client went away.
+   */
+  private async attachRemoteStreamClient(
+    stub: DurableObjectStub,
+    url: string,
+    extraHeaders: Record<string, string>,
+    client: Client,
+    lastEventId: string | null,
+    onEnd?: () => void
+  ): Promise<() => void> {
+    const controller = new AbortController();
+    const headers = new Headers(extraHeaders);
+    if (lastEventId) headers.set('Last-Event-ID', lastEventId);
+
+    const resp = await stub.fetch(url, { headers, signal: controller.signal });
+    if (!resp.ok || !resp.body) {
+      throw new Error(`Upstream stream unavailable (${resp.status})`);
+    }
+
+    const reader = resp.body.getReader();
+    setTimeout(() => {
+      void (async () => {
+        try {
+          while (!client.abortSignal.aborted) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            if (value) await client.writer.write(value);
+          }
+        } catch {
+          // ignore
+        }
+        if (!client.abortSignal.aborted) onEnd?.();
+      })();
+    }, 0);
+
+    return () => {
+      controller.abort();
+      void reader.cancel().catch(() => null);
+    };
+  }
+
+  private async attachTopicClient(topic: StreamTopic, client: Client, lastEventId: string | null): Promise<() => void> {
+    if (topic.kind === 'competition' && !topic.sportId) {
+      const sportId = await this.findCompetitionSportId(topic.competitionId);
+      if (!sportId) throw new Error('sportId is required for this competition');
+      topic = { ...topic, sportId };
+    }
+
+    const shard = getTopicShardName(topic);
+    const path = getTopicStreamPath(topic);
+    if (shard && path && shard !== this.shardName) {
+      return this.attachRemoteStreamClient(
+        this.swarmShardStub(shard),
+        `https://internal${path}`,
+        { [SWARM_SHARD_HEADER]: shard },
+        client,
+        lastEventId
+      );
+    }
+
+    switch (topic.kind) {
+      case 'counts':
+        this.attachCountsClient(client, lastEventId);
+        return () => this.detachCountsClient(client.id);
+      case 'sport': {
+        const key = await this.attachSportClient(topic.mode, topic.sportId, null, client, lastEventId);
+        return () => this.detachSportClient(topic.mode, key, client.id);
+      }
+      case 'game': {
+        const key = this.attachGameClient(topic.gameId, client, lastEventId);
+        return () => this.detachGameClient(key, client.id);
+      }
+      case 'competition': {
+        const key = await this.attachCompetitionOddsClient(
+          { mode: topic.mode, competitionId: topic.competitionId, sportId: String(topic.sportId), sportName: null },
+          client,
+          lastEventId
+        );
+        return () => this.detachCompetitionOddsClient(key, client.id);
+      }
+      case 'tracker': {
+        const stub = this.env.LIVE_TRACKER.get(this.env.LIVE_TRACKER.idFromName(topic.gameId));
+        const url = `https://internal/api/live-tracker?gameId=${encodeURIComponent(topic.gameId)}`;
+        return this.attachRemoteStreamClient(stub, url, {}, client, lastEventId);
+      }
+    }
+  }
+
+  private createWsSession(id: string, ws: WebSocket): TopicSession {
+    const session: TopicSession = {
+      id,
+      topics: new Map(),
+      send: (message) => {
+        sendWsMessage(ws, message);
+      },
+      createWriter: (topic) => createWsTopicWriter(ws, topic),
+      persist: () => {
+        const attachment: WsAttachment = { sessionId: id, topics: Array.from(session.topics.keys()) };
+        try {
+          ws.serializeAttachment(attachment);
+        } catch {
+          // ignore
+        }
+      }
+    };
+    return session;
+  }
+
+  private createStreamSession(id: string, writer: ClientWriter): TopicSession {
+    return {
+      id,
+      topics: new Map(),
+      send: (message) => {
+        void writer.write(encodeSseEvent(String(message.type), message)).catch(() => null);
+      },
+      createWriter: (topic) => createSseTopicWriter(writer, topic),
+      persist: () => {
+        // stream sessions live only as long as their response
+      }
+    };
+  }
+
+  /**
+   * Sockets outlive hibernation but the stream groups do not, so on wake-up each
+   * session is rebuilt from its attachment and its topics are resubscribed.
+   */
+  private restoreWsSessions(): void {
+    if (this.wsSessionsRestored) return;
+    this.wsSessionsRestored = true;
+
+    for (const ws of this.state.getWebSockets()) {
+      let attachment: WsAttachment | null = null;
+      try {
+        attachment = ws.deserializeAttachment() as WsAttachment | null;
+      } catch {
+        attachment = null;
+      }
+      if (!attachment?.sessionId || this.wsSessions.has(attachment.sessionId)) continue;
+
+      const session = this.createWsSession(attachment.sessionId, ws);
+      this.wsSessions.set(session.id, session);
+      this.subscribeSessionTopics(session, Array.isArray(attachment.topics) ? attachment.topics : [], {});
+    }
+  }
+
+  private getWsSession(ws: WebSocket): TopicSession | null {
+    this.restoreWsSessions();
+    try {
+      const attachment = ws.deserializeAttachment() as WsAttachment | null;
+      return attachment?.sessionId ? this.wsSessions.get(attachment.sessionId) ?? null : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private subscribeSessionTopics(session: TopicSession, rawTopics: unknown[], lastEventIds: Record<string, unknown>): void {
+    for (const raw of rawTopics.slice(0, MAX_TOPICS_PER_SESSION)) {
+      const parsed = parseTopic(raw);
+      if (!parsed) {
+        session.send({ type: 'error', topic: String(raw), error: 'Unknown topic' });
+        continue;
+      }
+
+      const topic = formatTopic(parsed);
+      if (session.topics.has(topic)) {
+        session.send({ type: 'subscribed', topic });
+        continue;
+      }
+      if (session.topics.size >= MAX_TOPICS_PER_SESSION) {
+        session.send({ type: 'error', topic, error: `Too many topics (max ${MAX_TOPICS_PER_SESSION})` });
+        continue;
+      }
+      if (this.totalClientCount() >= MAX_CLIENTS_PER_DO) {
+        session.send({ type: 'error', topic, error: 'Too many concurrent clients' });
+        continue;
+      }
+
+      const entry: TopicEntry = { detach: null, closed: false };
+      session.topics.set(topic, entry);
+      const lastEventId = typeof lastEventIds[topic] === 'string' ? String(lastEventIds[topic]) : null;
+      void this.attachSessionTopic(session, topic, parsed, entry, lastEventId);
+    }
+    session.persist();
+  }
+
+  private async attachSessionTopic(
+    session: TopicSession,
+    topic: string,
+    parsed: StreamTopic,
+    entry: TopicEntry,
+    lastEventId: string | null
+  ): Promise<void> {
+    const controller = new AbortController();
+    const client: Client = {
+      id: crypto.randomUUID(),
+      writer: session.createWriter(topic),
+      abortSignal: controller.signal
+    };
+
+    try {
+      const detach = await this.attachTopicClient(parsed, client, lastEventId);
+      const release = () => {
+        controller.abort();
+        detach();
+      };
+      // Unsubscribed (or connection closed) while the attach was still in flight.
+      if (entry.closed) {
+        release();
+        return;
+      }
+      entry.detach = release;
+      session.send({ type: 'subscribed', topic });
+    } catch (e) {
+      controller.abort();
+      if (session.topics.get(topic) === entry) {
+        session.topics.delete(topic);
+        session.persist();
+      }
+      session.send({ type: 'error', topic, error: e instanceof Error ? e.message : String(e) });
+    }
+  }
+
+  private unsubscribeSessionTopics(session: TopicSession, rawTopics: unknown[]): void {
+    for (const raw of rawTopics.slice(0, MAX_TOPICS_PER_SESSION)) {
+      const parsed = parseTopic(raw);
+      const topic = parsed ? formatTopic(parsed) : String(raw);
+      const entry = session.topics.get(topic);
+      if (entry) {
+        session.topics.delete(topic);
+        entry.closed = true;
+        entry.detach?.();
+      }
+      session.send({ type: 'unsubscribed', topic });
+    }
+    session.persist();
+  }
+
+  private closeTopicSession(session: TopicSession): void {
+    for (const entry of session.topics.values()) {
+      entry.closed = true;
+      entry.detach?.();
+    }
+    session.topics.clear();
+  }
+
+  private handleWebSocketUpgrade(request: Request): Response {
+    if ((request.headers.get('Upgrade') || '').toLowerCase() !== 'websocket') {
+      return json({ error: 'Expected WebSocket upgrade' }, { status: 426 });
+    }
+    if (this.totalClientCount() >= MAX_CLIENTS_PER_DO) {
+      return new Response('Too many concurrent clients', { status: 429 });
+    }
+
+    this.restoreWsSessions();
+
+    const pair = new WebSocketPair();
+    const clientWs = pair[0];
+    const server = pair[1];
+    this.state.acceptWebSocket(server);
+
+    const session = this.createWsSession(crypto.randomUUID(), server);
+    this.wsSessions.set(session.id, session);
+    session.persist();
+    session.send({ type: 'hello', sessionId: session.id, maxTopics: MAX_TOPICS_PER_SESSION });
+
+    const initialTopics = new URL(request.url).searchParams.get('topics');
+    if (initialTopics) {
+      this.subscribeSessionTopics(session, initialTopics.split(',').filter(Boolean), {});
+    }
+
+    return new Response(null, { status: 101, webSocket: clientWs });
+  }
+
+  private handleMultiplexedStream(request: Request): Response {
+    if (this.totalClientCount() >= MAX_CLIENTS_PER_DO) {
+      return new Response('Too many concurrent clients', { status: 429 });
+    }
+
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const writer = writable.getWriter();
+    const session = this.createStreamSession(crypto.randomUUID(), writer);
+    this.streamSessions.set(session.id, session);
+
+    const heartbeatTimer = setInterval(() => {
+      void writer.write(encodeSseComment(`ping ${Date.now()}`)).catch(() => null);
+    }, 15000) as unknown as number;
+
+    const close = () => {
+      clearInterval(heartbeatTimer);
+      this.closeTopicSession(session);
+      this.streamSessions.delete(session.id);
+      try {
+        writer.close();
+      } catch {
+        // ignore
+      }
+    };
+    if (request.signal.aborted) {
+      close();
+    } else {
+      request.signal.addEventListener('abort', close);
+    }
+
+    void writer.write(encodeSseComment(' '.repeat(2048))).catch(() => null);
+    session.send({ type: 'hello', sessionId: session.id, maxTopics: MAX_TOPICS_PER_SESSION });
+
+    const topics = new URL(request.url).searchParams.get('topics');
+    if (topics) {
+      this.subscribeSessionTopics(session, topics.split(',').filter(Boolean), {});
+    }
+
+    return new Response(readable, { status: 200, headers: sseHeaders() });
+  }
+
+  private async handleStreamTopicsUpdate(request: Request, sessionId: string): Promise<Response> {
+    const session = this.streamSessions.get(sessionId);
+    if (!session) return json({ error: 'Unknown stream session' }, { status: 404 });
+
+    let body: any = null;
+    try {
+      body = await request.json();
+    } catch {
+      return json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const add = Array.isArray(body?.add) ? body.add : [];
+    const remove = Array.isArray(body?.remove) ? body.remove : [];
+    if (!add.length && !remove.length) {
+      return json({ error: 'add or remove is required' }, { status: 400 });
+    }
+
+    if (remove.length) this.unsubscribeSessionTopics(session, remove);
+    if (add.length) this.subscribeSessionTopics(session, add, {});
+
+    return json({ sessionId: session.id, topics: Array.from(session.topics.keys()) });
+  }
+
+  async webSocketMessage(ws: WebSocket, message: string | ArrayBuffer): Promise<void> {
+    const session = this.getWsSession(ws);
+    if (!session) {
+      try {
+        ws.close(1011, 'Unknown session');
+      } catch {
+        // ignore
+      }
+      return;
+    }
+
+    let msg: any = null;
+    try {
+      msg = JSON.parse(typeof message === 'string' ? message : new TextDecoder().decode(message));
+    } catch {
+      session.send({ type: 'error', error: 'Invalid JSON' });
+      return;
+    }
+
+    const topics: unknown[] = Array.isArray(msg?.topics) ? msg.topics : msg?.topic != null ? [msg.topic] : [];
+    switch (msg?.op) {
+      case 'subscribe': {
+        const lastEventIds = msg?.lastEventIds && typeof msg.lastEventIds === 'object' ? msg.lastEventIds : {};
+        this.subscribeSessionTopics(session, topics, lastEventIds);
+        return;
+      }
+      case 'unsubscribe':
+        this.unsubscribeSessionTopics(session, topics);
+        return;
+      case 'ping':
+        session.send({ type: 'pong', ts: Date.now() });
+        return;
+      default:
+        session.send({ type: 'error', error: 'Unknown op' });
+    }
+  }
+
+  async webSocketClose(ws: WebSocket, code: number, reason: string, _wasClean: boolean): Promise<void> {
+    const session = this.getWsSession(ws);
+    if (session) {
+      this.closeTopicSession(session);
+      this.wsSessions.delete(session.id);
+    }
+    try {
+      ws.close(code, reason);
+    } catch {
+      // ignore
+    }
+  }
+
+  async webSocketError(ws: WebSocket, _error: unknown): Promise<void> {
+    const session = this.getWsSession(ws);
+    if (session) {
+      this.closeTopicSession(session);
+      this.wsSessions.delete(session.id);
+    }
+  }
+
+  private trackOddsMovement(gameId: string, prevOdds: OddsArrEntry[] | null | undefined, oddsArr: OddsArrEntry[] | null, now: number): OddsMovement[] | null {
+    this.queueOddsHistory(gameId, diffSelectionPrices(pricesFromOddsArr(prevOdds), pricesFromOddsArr(oddsArr), now));
+    return annotateOddsMovement(prevOdds, oddsArr);
+  }
+
+  private queueOddsHistory(gameId: string, changes: Record<string, OddsChange>): void {
+    const entries = Object.entries(changes);
+    if (!entries.length) return;
+
+    const pending = this.pendingOddsHistory.get(gameId) ?? {};
+    for (const [eventId, change] of entries) {
+      (pending[eventId] ??= []).push(change);
+    }
+    this.pendingOddsHistory.set(gameId, pending);
+
+    if (this.oddsHistoryFlushTimer == null) {
+      this.oddsHistoryFlushTimer = setTimeout(() => {
+        this.oddsHistoryFlushTimer = null;
+        void this.flushOddsHistory();
+      }, ODDS_HISTORY_FLUSH_MS) as unknown as number;
+    }
+  }
+
+  // Each game's history is kept on its game shard, whichever shard saw the movement.
+  private async flushOddsHistory(): Promise<void> {
+    const byShard = new Map<string, Record<string, Record<string, OddsChange[]>>>();
+    for (const [gameId, changes] of this.pendingOddsHistory) {
+      const shard = gameShardName(gameId);
+      const batch = byShard.get(shard) ?? {};
+      batch[gameId] = changes;
+      byShard.set(shard, batch);
+    }
+    this.pendingOddsHistory.clear();
+
+    for (const [shard, batch] of byShard) {
+      if (shard === this.shardName) {
+        await this.storeOddsHistory(batch);
+        continue;
+      }
+      try {
+        await this.swarmShardStub(shard).fetch('https://internal/internal/odds-history', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', [SWARM_SHARD_HEADER]: shard },
+          body: JSON.stringify(batch)
+        });
+      } catch {
+        // history is best effort
+      }
+    }
+  }
+
+  private storeOddsHistory(batch: Record<string, Record<string, OddsChange[]>>): Promise<void> {
+    // Chained so concurrent batches never interleave their read-modify-write of a bucket.
+    this.oddsHistoryWrites = this.oddsHistoryWrites
+      .then(async () => {
+        const now = Date.now();
+        for (const [gameId, changes] of Object.entries(batch)) {
+          if (!changes || typeof changes !== 'object') continue;
+          const key = `odds_history:${gameId}`;
+          const bucket = await this.state.storage.get<OddsHistoryBucket>(key);
+          await this.state.storage.put(key, appendOddsHistory(bucket, changes, now));
+
+          const touched = this.oddsHistoryTouched.get(gameId);
+          if (touched === undefined || now - touched >= ODDS_HISTORY_PURGE_INTERVAL_MS) {
+            await this.state.storage.put(`${ODDS_HISTORY_TOUCHED_PREFIX}${gameId}`, now);
+            this.oddsHistoryTouched.set(gameId, now);
+          }
+        }
+
+        const alarmAt = await this.state.storage.getAlarm();
+        if (alarmAt == null) {
+          await this.state.storage.setAlarm(now + ODDS_HISTORY_PURGE_INTERVAL_MS);
+        }
+      })
+      .catch((e) => {
+        console.error('Failed to store odds history:', e);
+      });
+    return this.oddsHistoryWrites;
+  }
+
+  private async purgeOddsHistory(): Promise<void> {
+    const now = Date.now();
+    const legacy = await this.state.storage.get<Record<string, number>>(LEGACY_ODDS_HISTORY_INDEX_KEY);
+    if (legacy) {
+      for (const [gameId, updatedAtMs] of Object.entries(legacy)) {
+        await this.state.storage.put(`${ODDS_HISTORY_TOUCHED_PREFIX}${gameId}`, Number(updatedAtMs));
+      }
+      await this.state.storage.delete([LEGACY_ODDS_HISTORY_INDEX_KEY]);
+    }
+
+    // A touch can trail the last write by up to one purge interval.
+    const touched = await this.state.storage.list<number>({ prefix: ODDS_HISTORY_TOUCHED_PREFIX });
+    const stale = [...touched]
+      .filter(([, touchedAtMs]) => now - Number(touchedAtMs) > ODDS_HISTORY_RETENTION_MS + ODDS_HISTORY_PURGE_INTERVAL_MS)
+      .map(([key]) => key.slice(ODDS_HISTORY_TOUCHED_PREFIX.length));
+
+    if (stale.length) {
+      await this.state.storage.delete(stale.flatMap((gameId) => [`odds_history:${gameId}`, `${ODDS_HISTORY_TOUCHED_PREFIX}${gameId}`]));
+      for (const gameId of stale) this.oddsHistoryTouched.delete(gameId);
+    }
+    if (touched.size > stale.length) {
+      await this.state.storage.setAlarm(now + ODDS_HISTORY_PURGE_INTERVAL_MS);
+    }
+  }
+
+  private recordSettlementCatalog(game: unknown, book: MarketBook): void {
+    const now = Date.now();
+    const catalog = buildSettlementCatalog(game, book, now);
+    const fp = getSettlementCatalogFp(catalog);
+    const last = this.settlementCatalogSaves.get(catalog.gameId);
+    if (last && (last.fp === fp || now - last.savedAtMs < SETTLEMENT_CATALOG_SAVE_MS)) return;
+    this.settlementCatalogSaves.set(catalog.gameId, { fp, savedAtMs: now });
+
+    // Storage values are capped, so the least important (last listed) markets give way first.
+    while (catalog.markets.length && JSON.stringify(catalog).length > SETTLEMENT_CATALOG_MAX_BYTES) {
+      catalog.markets.length = Math.floor(catalog.markets.length * 0.8);
+    }
+
+    this.settlementCatalogWrites = this.settlementCatalogWrites
+      .then(async () => {
+        const index = (await this.state.storage.get<Record<string, number>>(SETTLEMENT_CATALOG_INDEX_KEY)) ?? {};
+        await this.state.storage.put(`settlement_catalog:${catalog.gameId}`, catalog);
+        index[catalog.gameId] = now;
+        await this.state.storage.put(SETTLEMENT_CATALOG_INDEX_KEY, index);
+
+        const alarmAt = await this.state.storage.getAlarm();
+        if (alarmAt == null) {
+          await this.state.storage.setAlarm(now + ODDS_HISTORY_PURGE_INTERVAL_MS);
+        }
+      })
+      .catch((e) => {
+        console.error('Failed to store settlement catalog:', e);
+      });
+  }
+
+  private async purgeSettlementCatalogs(): Promise<void> {
+    const now = Date.now();
+    const index = (await this.state.storage.get<Record<string, number>>(SETTLEMENT_CATALOG_INDEX_KEY)) ?? {};
+    const stale = Object.entries(index)
+      .filter(([, savedAtMs]) => now - Number(savedAtMs) > SETTLEMENT_CATALOG_RETENTION_MS)
+      .map(([gameId]) => gameId);
+
+    if (stale.length) {
+      await this.state.storage.delete(stale.map((gameId) => `settlement_catalog:${gameId}`));
+      for (const gameId of stale) {
+        delete index[gameId];
+        this.settlementCatalogSaves.delete(gameId);
+      }
+      await this.state.storage.put(SETTLEMENT_CATALOG_INDEX_KEY, index);
+    }
+    if (Object.keys(index).length) {
+      await this.state.storage.setAlarm(now + ODDS_HISTORY_PURGE_INTERVAL_MS);
+    }
+  }
+
+  /** The catalog lives on the shard that streamed the game; missing or unreachable means none. */
+  private async loadSettlementCatalog(gameId: string): Promise<SettlementCatalog | null> {
+    const shard = gameShardName(gameId);
+    if (shard === this.shardName) {
+      return (await this.state.storage.get<SettlementCatalog>(`settlement_catalog:${gameId}`)) ?? null;
+    }
+    try {
+      const resp = await this.swarmShardStub(shard).fetch(`https://internal/internal/settlement-catalog/${encodeURIComponent(gameId)}`, {
+        headers: { [SWARM_SHARD_HEADER]: shard }
+      });
+      if (!resp.ok) return null;
+      return (await resp.json()) as SettlementCatalog;
+    } catch {
+      return null;
+    }
+  }
+
+  private async getOddsHistory(gameId: string, eventId: string | null): Promise<Record<string, unknown>> {
+    const bucket = await this.state.storage.get<OddsHistoryBucket>(`odds_history:${gameId}`);
+    const events = bucket ? pruneOddsHistory(bucket, Date.now()).events : {};
+    if (eventId) {
+      return { gameId, eventId, retention_ms: ODDS_HISTORY_RETENTION_MS, history: events[eventId] ?? [] };
+    }
+    return { gameId, retention_ms: ODDS_HISTORY_RETENTION_MS, events };
+  }
+
+  private async ensureCaptureLoaded(): Promise<void> {
+    if (this.captureLoaded) return;
+    this.captureLoaded = true;
+    const meta = await this.state.storage.get<CaptureMeta>(CAPTURE_META_KEY);
+    if (!meta) return;
+    if (meta.stoppedAtMs === null) {
+      // The open segment written before eviction is kept as is; new frames start the next one.
+      const tail = await this.state.storage.get<string>(captureSegmentKey(meta.id, meta.segments));
+      if (tail) meta.segments += 1;
+    }
+    this.capture = meta;
+  }
+
+  private writeCapture(key: string, value: unknown): void {
+    this.captureWrites = this.captureWrites
+      .then(() => this.state.storage.put(key, value))
+      .catch((e) => {
+        console.error('Failed to store Swarm capture:', e);
+      });
+  }
+
+  private captureFrame(dir: CaptureDirection, frame: string): void {
+    const capture = this.capture;
+    if (!capture || capture.stoppedAtMs !== null) return;
+
+    const now = Date.now();
+    if (now >= capture.endsAtMs) {
+      void this.stopCapture('expired');
+      return;
+    }
+
+    const line = encodeCaptureLine({ ts: now, dir, frame });
+    const { sealed, open } = appendCaptureLine(this.captureOpenSegment, line);
+    capture.frames += 1;
+    capture.chars += line.length;
+    for (const segment of sealed) {
+      // Keep one slot for the open segment so a capture never exceeds CAPTURE_MAX_SEGMENTS.
+      if (capture.segments >= CAPTURE_MAX_SEGMENTS - 1) {
+        this.captureOpenSegment = '';
+        void this.stopCapture('full');
+        return;
+      }
+      this.writeCapture(captureSegmentKey(capture.id, capture.segments), segment);
+      capture.segments += 1;
+    }
+    this.captureOpenSegment = open;
+
+    if (this.captureFlushTimer == null) {
+      this.captureFlushTimer = setTimeout(() => {
+        this.captureFlushTimer = null;
+        void this.flushCapture();
+      }, CAPTURE_FLUSH_MS) as unknown as number;
+    }
+  }
+
+  private flushCapture(): Promise<void> {
+    const capture = this.capture;
+    if (capture) {
+      if (this.captureOpenSegment) {
+        this.writeCapture(captureSegmentKey(capture.id, capture.segments), this.captureOpenSegment);
+      }
+      this.writeCapture(CAPTURE_META_KEY, { ...capture });
+    }
+    return this.captureWrites;
+  }
+
+  private async stopCapture(reason: CaptureStopReason): Promise<CaptureMeta | null> {
+    const capture = this.capture;
+    if (!capture || capture.stoppedAtMs !== null) return capture;
+
+    if (this.captureFlushTimer != null) {
+      clearTimeout(this.captureFlushTimer);
+      this.captureFlushTimer = null;
+    }
+    capture.stoppedAtMs = Date.now();
+    capture.stopReason = reason;
+    if (this.captureOpenSegment) {
+      this.writeCapture(captureSegmentKey(capture.id, capture.segments), this.captureOpenSegment);
+      capture.segments += 1;
+      this.captureOpenSegment = '';
+    }
+    await this.flushCapture();
+    return capture;
+  }
+
+  private async startCapture(durationMs: number): Promise<CaptureMeta> {
+    await this.stopCapture('stopped');
+
+    const previous = this.capture;
+    if (previous) {
+      const keys = Array.from({ length: previous.segments + 1 }, (_, i) => captureSegmentKey(previous.id, i));
+      for (let i = 0; i < keys.length; i += 128) {
+        await this.state.storage.delete(keys.slice(i, i + 128));
+      }
+    }
+
+    const now = Date.now();
+    const capture: CaptureMeta = {
+      id: crypto.randomUUID(),
+      startedAtMs: now,
+      endsAtMs: now + durationMs,
+      stoppedAtMs: null,
+      stopReason: null,
+      segments: 0,
+      frames: 0,
+      chars: 0
+    };
+    this.capture = capture;
+    this.captureOpenSegment = '';
+    await this.flushCapture();
+    return capture;
+  }
+
+  private async getCaptureStatus(): Promise<CaptureMeta | null> {
+    if (this.capture && this.capture.stoppedAtMs === null && Date.now() >= this.capture.endsAtMs) {
+      await this.stopCapture('expired');
+    }
+    return this.capture;
+  }
+
+  private async handleCaptureDownload(): Promise<Response> {
+    const capture = await this.getCaptureStatus();
+    if (!capture) return json({ error: 'No capture recorded' }, { status: 404 });
+    await this.flushCapture();
+
+    // A running capture also has its open segment at index `segments`.
+    const last = capture.stoppedAtMs === null ? capture.segments : capture.segments - 1;
+    let index = 0;
+    const body = new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        while (index <= last) {
+          const segment = await this.state.storage.get<string>(captureSegmentKey(capture.id, index++));
+          if (segment) {
+            controller.enqueue(encoder.encode(segment));
+            return;
+          }
+        }
+        controller.close();
+      }
+    });
+
+    return new Response(body, {
+      headers: {
+        'Content-Type': 'application/x-ndjson; charset=utf-8',
+        'Content-Disposition': `attachment; filename="swarm-capture-${this.shardName}-${capture.id}.ndjson"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+  }
+
+  /**
+   * The stream writer for `?format=` / `?profile=`: the plain writer for decimal
+   * prices without a profile, a rewriting adapter otherwise, or a 400 response.
+   */
+  private async createOddsWriter(url: URL, writer: ClientWriter, sportId: string | null): Promise<ClientWriter | Response> {
+    const format = parseOddsFormat(url.searchParams.get('format'));
+    if (!format) return json({ error: 'format must be decimal, fractional, american or hongkong' }, { status: 400 });
+
+    const profileId = url.searchParams.get('profile');
+    if (!profileId) return format === 'decimal' ? writer : createOddsPresentationWriter(writer, { format, profile: () => null, sportId });
+
+    const profile = isMarginProfileId(profileId) ? await this.loadMarginProfile(profileId) : null;
+    if (!profile) return json({ error: 'Unknown margin profile' }, { status: 400 });
+
+    let resolveSportAlias: OddsWriterOptions['resolveSportAlias'];
+    if (!sportId) {
+      void this.ensureHierarchyNameMaps().catch(() => null);
+      resolveSportAlias = (alias) => {
+        const match = Object.entries(this.hierarchySportAliasById).find(([, a]) => a.toLowerCase() === alias.toLowerCase());
+        return match ? match[0] : null;
+      };
+    }
+    return createOddsPresentationWriter(writer, {
+      format,
+      profile: () => this.cachedMarginProfile(profileId),
+      sportId,
+      resolveSportAlias
+    });
+  }
+
+  // Profiles apply to open streams too: a stale entry is served while it is refreshed.
+  private cachedMarginProfile(id: string): MarginProfile | null {
+    const entry = this.marginProfiles.get(id);
+    if (entry && Date.now() - entry.loadedAtMs > MARGIN_PROFILE_TTL_MS) {
+      entry.loadedAtMs = Date.now();
+      void this.loadMarginProfile(id, true);
+    }
+    return entry?.profile ?? null;
+  }
+
+  private async loadMarginProfile(id: string, refresh = false): Promise<MarginProfile | null> {
+    const cached = this.marginProfiles.get(id);
+    if (cached && !refresh && Date.now() - cached.loadedAtMs <= MARGIN_PROFILE_TTL_MS) return cached.profile;
+
+    let profile: MarginProfile | null = null;
+    try {
+      if (this.shardName === COORDINATOR_SHARD) {
+        profile = (await this.state.storage.get<MarginProfile>(marginProfileKey(id))) ?? null;
+      } else {
+        const resp = await this.swarmShardStub(COORDINATOR_SHARD).fetch(
+          `https://internal/internal/margin-profiles/${encodeURIComponent(id)}`,
+          { headers: { [SWARM_SHARD_HEADER]: COORDINATOR_SHARD } }
+        );
+        if (resp.ok) profile = (await resp.json()) as MarginProfile;
+        else if (resp.status !== 404) throw new Error(`margin profile lookup failed with ${resp.status}`);
+      }
+    } catch (e) {
+      console.error('Failed to load margin profile:', e);
+      // Keep serving the last known profile rather than dropping the margin.
+      if (cached) return cached.profile;
+    }
+    this.marginProfiles.set(id, { profile, loadedAtMs: Date.now() });
+    return profile;
+  }
+
+  private async listMarginProfiles(): Promise<MarginProfile[]> {
+    const ids = (await this.state.storage.get<string[]>(MARGIN_PROFILE_IDS_KEY)) ?? [];
+    const profiles: MarginProfile[] = [];
+    for (const id of ids) {
+      const profile = await this.state.storage.get<MarginProfile>(marginProfileKey(id));
+      if (profile) profiles.push(profile);
+    }
+    return profiles;
+  }
+
+  private async handleMarginProfileAdmin(request: Request, id: string | null): Promise<Response> {
+    if (!id) {
+      if (request.method !== 'GET') return json({ error: 'Method not allowed' }, { status: 405 });
+      return json({ profiles: (await this.listMarginProfiles()) as unknown as JsonValue });
+    }
+    if (!isMarginProfileId(id)) return json({ error: 'Invalid profile id' }, { status: 400 });
+
+    const ids = (await this.state.storage.get<string[]>(MARGIN_PROFILE_IDS_KEY)) ?? [];
+    const key = marginProfileKey(id);
+
+    if (request.method === 'GET') {
+      const profile = await this.state.storage.get<MarginProfile>(key);
+      if (!profile) return json({ error: 'Margin profile not found' }, { status: 404 });
+      return json(profile as unknown as JsonValue);
+    }
+
+    if (request.method === 'PUT') {
+      let body: unknown = null;
+      try {
+        body = await request.json();
+      } catch {
+        return json({ error: 'Invalid JSON body' }, { status: 400 });
+      }
+      const profile = parseMarginProfile(id, body);
+      if (!profile) return json({ error: 'Invalid margin profile' }, { status: 400 });
+      if (!ids.includes(id)) {
+        if (ids.length >= MAX_MARGIN_PROFILES) return json({ error: 'Too many margin profiles' }, { status: 409 });
+        await this.state.storage.put(MARGIN_PROFILE_IDS_KEY, [...ids, id]);
+      }
+      await this.state.storage.put(key, profile);
+      this.marginProfiles.set(id, { profile, loadedAtMs: Date.now() });
+      return json(profile as unknown as JsonValue);
+    }
+
+    if (request.method === 'DELETE') {
+      if (!ids.includes(id)) return json({ error: 'Margin profile not found' }, { status: 404 });
+      await this.state.storage.put(MARGIN_PROFILE_IDS_KEY, ids.filter((x) => x !== id));
+      await this.state.storage.delete([key]);
+      this.marginProfiles.set(id, { profile: null, loadedAtMs: Date.now() });
+      return json({ ok: true });
+    }
+
+    return json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  private async getFeaturedTrackersConfig(): Promise<FeaturedTrackersConfig> {
+    return (await this.state.storage.get<FeaturedTrackersConfig>(FEATURED_TRACKERS_KEY)) ?? DEFAULT_FEATURED_TRACKERS_CONFIG;
+  }
+
+  /** Renew the warm lease of every featured game's tracker. */
+  private async refreshFeaturedTrackers(config: FeaturedTrackersConfig): Promise<FeaturedTrackerGame[]> {
+    const activeGames = config.topLive > 0 ? this.activeTeamGames() : [];
+    const games = selectFeaturedTrackerGames(config, activeGames);
+    await Promise.all(
+      games.map(async ({ gameId }) => {
+        try {
+          const stub = this.env.LIVE_TRACKER.get(this.env.LIVE_TRACKER.idFromName(gameId));
+          const resp = await stub.fetch(
+            `https://internal/internal/warm?gameId=${encodeURIComponent(gameId)}&leaseMs=${FEATURED_TRACKER_LEASE_MS}`,
+            { method: 'POST' }
+          );
+          if (!resp.ok) console.error(`Featured tracker ${gameId} refused its lease: ${resp.status}`);
+        } catch (e) {
+          console.error(`Featured tracker ${gameId} unavailable:`, e);
+        }
+      })
+    );
+    this.featuredTrackers = { games, refreshedAtMs: Date.now() };
+    return games;
+  }
+
+  private async handleFeaturedTrackersAdmin(request: Request): Promise<Response> {
+    const status = async () => {
+      const config = await this.getFeaturedTrackersConfig();
+      const last = this.featuredTrackers;
+      return json({
+        config,
+        featured: last ? last.games : null,
+        refreshed_at: last ? new Date(last.refreshedAtMs).toISOString() : null
+      } as unknown as JsonValue);
+    };
+
+    if (request.method === 'GET') return status();
+
+    if (request.method === 'PUT') {
+      let body: unknown = null;
+      try {
+        body = await request.json();
+      } catch {
+        return json({ error: 'Invalid JSON body' }, { status: 400 });
+      }
+      const config = parseFeaturedTrackersConfig(body);
+      if (!config) return json({ error: 'Invalid featured trackers config' }, { status: 400 });
+      await this.state.storage.put(FEATURED_TRACKERS_KEY, config);
+      if (isFeaturedTrackersEnabled(config)) {
+        await this.refreshFeaturedTrackers(config);
+        const next = Date.now() + FEATURED_TRACKERS_INTERVAL_MS;
+        const alarmAt = await this.state.storage.getAlarm();
+        if (alarmAt == null || alarmAt > next) await this.state.storage.setAlarm(next);
+      } else {
+        this.featuredTrackers = null;
+      }
+      return status();
+    }
+
+    if (request.method === 'DELETE') {
+      // Leases already handed out run out by themselves.
+      await this.state.storage.delete([FEATURED_TRACKERS_KEY]);
+      this.featuredTrackers = null;
+      return json({ ok: true });
+    }
+
+    return json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  async alarm(): Promise<void> {
+    await this.purgeOddsHistory();
+    await this.purgeSettlementCatalogs();
+
+    const due: number[] = [];
+
+    if (await this.state.storage.get<boolean>(RESULTS_ARCHIVE_ARMED_KEY)) {
+      // Only the coordinator arms the archive; alarms run without a request to name the shard.
+      this.shardName = COORDINATOR_SHARD;
+      // Featured trackers wake this alarm every minute; the archive still runs hourly.
+      let nextRun = (await this.state.storage.get<number>(RESULTS_ARCHIVE_NEXT_RUN_KEY)) ?? 0;
+      if (nextRun <= Date.now()) {
+        try {
+          await this.ingestResultsArchive();
+        } catch (e) {
+          console.error('Results archive ingestion failed:', e);
+        }
+        nextRun = Date.now() + RESULTS_ARCHIVE_INTERVAL_MS;
+        await this.state.storage.put(RESULTS_ARCHIVE_NEXT_RUN_KEY, nextRun);
+      }
+      due.push(nextRun);
+    }
+
+    const featured = await this.getFeaturedTrackersConfig();
+    if (isFeaturedTrackersEnabled(featured)) {
+      this.shardName = COORDINATOR_SHARD;
+      try {
+        await this.refreshFeaturedTrackers(featured);
+      } catch (e) {
+        console.error('Featured trackers refresh failed:', e);
+      }
+      due.push(Date.now() + FEATURED_TRACKERS_INTERVAL_MS);
+    }
+
+    if (due.length) await this.state.storage.setAlarm(Math.min(...due));
+  }
+
+  private swarmShardStub(shard: string): DurableObjectStub {
+    return this.env.SWARM_HUB.get(this.env.SWARM_HUB.idFromName(shard));
+  }
+
   async fetch(request: Request): Promise<Response> {
     const url = new URL(request.url);
+    const shard = request.headers.get(SWARM_SHARD_HEADER);
+    if (shard) this.shardName = shard;
+    await this.ensureCaptureLoaded();
+    if (this.shardName === COORDINATOR_SHARD) await this.armResultsArchive();
 
     if (request.method === 'GET' && url.pathname === '/internal/metrics') {
       return json({
@@ -2517,14 +4802,71 @@ export class SwarmHubDO {
         ws_url: this.wsUrl,
         ws_messages_total: this.wsMessagesTotal,
         ws_messages_last_60s: this.getWsMessagesLast60s(),
-        ws_parse_errors_total: this.wsMessageParseErrorsTotal
+        ws_parse_errors_total: this.wsMessageParseErrorsTotal,
+        schema_drift_total: this.schemaDriftTotal,
+        schema_drift: Object.fromEntries(this.schemaDriftByKey),
+        last_schema_drift_at: this.lastSchemaDriftAtIso,
+        active_subscriptions: this.subscriptions.size,
+        reconnects_total: this.reconnectsTotal,
+        reconnect_pending: this.reconnectTimer != null || this.reconnecting,
+        last_resync_at: this.lastResyncAtIso,
+        ws_sessions: this.wsSessions.size,
+        stream_sessions: this.streamSessions.size,
+        capture_running: Boolean(this.capture && this.capture.stoppedAtMs === null),
+        shard: this.shardName
       });
     }
 
+    if (url.pathname === '/api/admin/featured-trackers') {
+      return this.handleFeaturedTrackersAdmin(request);
+    }
+
+    const marginProfilesMatch = url.pathname.match(/^\/api\/admin\/margin-profiles(?:\/([^/]+))?$/);
+    if (marginProfilesMatch) {
+      return this.handleMarginProfileAdmin(request, marginProfilesMatch[1] ? decodeURIComponent(marginProfilesMatch[1]) : null);
+    }
+
+    const internalProfileMatch = url.pathname.match(/^\/internal\/margin-profiles\/([^/]+)$/);
+    if (request.method === 'GET' && internalProfileMatch) {
+      const id = decodeURIComponent(internalProfileMatch[1]);
+      const profile = isMarginProfileId(id) ? await this.state.storage.get<MarginProfile>(marginProfileKey(id)) : undefined;
+      if (!profile) return json({ error: 'Margin profile not found' }, { status: 404 });
+      return json(profile as unknown as JsonValue);
+    }
+
+    if (request.method === 'GET' && url.pathname === '/api/admin/capture') {
+      const capture = await this.getCaptureStatus();
+      return json({ shard: this.shardName, running: Boolean(capture && capture.stoppedAtMs === null), capture });
+    }
+
+    if (request.method === 'POST' && url.pathname === '/api/admin/capture/start') {
+      const durationSec = Number(url.searchParams.get('durationSec'));
+      const durationMs = Number.isFinite(durationSec) && durationSec > 0
+        ? Math.min(durationSec * 1000, CAPTURE_MAX_DURATION_MS)
+        : CAPTURE_DEFAULT_DURATION_MS;
+      const capture = await this.startCapture(durationMs);
+      return json({ shard: this.shardName, running: true, capture });
+    }
+
+    if (request.method === 'POST' && url.pathname === '/api/admin/capture/stop') {
+      const capture = await this.stopCapture('stopped');
+      if (!capture) return json({ error: 'No capture recorded' }, { status: 404 });
+      return json({ shard: this.shardName, running: false, capture });
+    }
+
+    if (request.method === 'GET' && url.pathname === '/api/admin/capture/download') {
+      return this.handleCaptureDownload();
+    }
+
     if (request.method === 'GET' && url.pathname === '/api/hierarchy') {
       const forceRefresh = url.searchParams.get('refresh') === 'true';
+      const withCounts = url.searchParams.get('withCounts') === '1' || url.searchParams.get('withCounts') === 'true';
       try {
         const hierarchy = await this.getHierarchy(forceRefresh);
+        if (withCounts) {
+          // Counts move constantly, so unlike the plain hierarchy this is not cacheable.
+          return json(annotateHierarchyCounts(hierarchy, await this.getCountsTree()) as JsonValue);
+        }
         const resp = json(hierarchy as JsonValue);
         if (forceRefresh) return resp;
 
@@ -2536,6 +4878,10 @@ export class SwarmHubDO {
       }
     }
 
+    if (request.method === 'GET' && url.pathname === '/api/search') {
+      return this.handleSearch(url);
+    }
+
     if (request.method === 'GET' && url.pathname === '/api/counts-stream') {
       return this.handleCountsStream(request);
     }
@@ -2552,10 +4898,97 @@ export class SwarmHubDO {
       return this.handleLiveGameStream(request);
     }
 
+    if (request.method === 'GET' && url.pathname === '/api/match-center') {
+      return this.handleMatchCenter(request);
+    }
+
     if (request.method === 'GET' && url.pathname === '/api/competition-odds-stream') {
       return this.handleCompetitionOddsStream(request);
     }
 
+    if (request.method === 'POST' && url.pathname === '/internal/odds-history') {
+      let batch: unknown = null;
+      try {
+        batch = await request.json();
+      } catch {
+        return json({ error: 'Invalid JSON body' }, { status: 400 });
+      }
+      if (!batch || typeof batch !== 'object' || Array.isArray(batch)) {
+        return json({ error: 'Invalid odds history batch' }, { status: 400 });
+      }
+      await this.storeOddsHistory(batch as Record<string, Record<string, OddsChange[]>>);
+      return json({ ok: true });
+    }
+
+    if (request.method === 'POST' && url.pathname === '/internal/active-games') {
+      let body: { shard?: unknown; games?: unknown } | null = null;
+      try {
+        body = await request.json();
+      } catch {
+        return json({ error: 'Invalid JSON body' }, { status: 400 });
+      }
+      if (!body || typeof body.shard !== 'string' || !Array.isArray(body.games)) {
+        return json({ error: 'Invalid active games' }, { status: 400 });
+      }
+      this.receiveActiveGames(body.shard, body.games as ActiveTeamGame[]);
+      return json({ ok: true });
+    }
+
+    const settlementCatalogMatch = url.pathname.match(/^\/internal\/settlement-catalog\/([^/]+)$/);
+    if (request.method === 'GET' && settlementCatalogMatch) {
+      const catalog = await this.state.storage.get<SettlementCatalog>(`settlement_catalog:${decodeURIComponent(settlementCatalogMatch[1])}`);
+      if (!catalog) return json({ error: 'Settlement catalog not found' }, { status: 404 });
+      return json(catalog as unknown as JsonValue);
+    }
+
+    const oddsHistoryMatch = url.pathname.match(/^\/api\/games\/([^/]+)\/odds-history$/);
+    if (request.method === 'GET' && oddsHistoryMatch) {
+      const history = await this.getOddsHistory(decodeURIComponent(oddsHistoryMatch[1]), url.searchParams.get('eventId'));
+      return json(history as JsonValue);
+    }
+
+    if (request.method === 'GET' && url.pathname === '/api/game-stats') {
+      const gameId = url.searchParams.get('gameId');
+      if (!gameId) return json({ error: 'gameId is required' }, { status: 400 });
+      try {
+        const stats = await this.getGameStats(gameId);
+        if (!stats) return json({ error: 'Game not found' }, { status: 404 });
+        const resp = json(stats as unknown as JsonValue);
+        resp.headers.set('Cache-Control', `public, max-age=${stats.is_live ? 5 : 60}`);
+        return resp;
+      } catch (e) {
+        return json({ error: e instanceof Error ? e.message : String(e) }, { status: 500 });
+      }
+    }
+
+    if (request.method === 'GET' && url.pathname === '/api/fetch-all-sports') {
+      return this.handleFetchAllSports(url);
+    }
+
+    const gameMarketsMatch = url.pathname.match(/^\/api\/games\/([^/]+)\/markets$/);
+    if (request.method === 'GET' && gameMarketsMatch) {
+      try {
+        const book = await this.getGameMarketBook(decodeURIComponent(gameMarketsMatch[1]));
+        if (!book) return json({ error: 'Game not found' }, { status: 404 });
+        return json(book as JsonValue);
+      } catch (e) {
+        return json({ error: e instanceof Error ? e.message : String(e) }, { status: 500 });
+      }
+    }
+
+    if (request.method === 'GET' && url.pathname === '/api/ws') {
+      return this.handleWebSocketUpgrade(request);
+    }
+
+    if (request.method === 'GET' && url.pathname === '/api/stream') {
+      return this.handleMultiplexedStream(request);
+    }
+
+    const streamTopicsMatch = url.pathname.match(/^\/api\/stream\/([^/]+)\/topics$/);
+    if (request.method === 'POST' && streamTopicsMatch) {
+      return this.handleStreamTopicsUpdate(request, decodeURIComponent(streamTopicsMatch[1]));
+    }
+
     if (request.method === 'GET' && url.pathname === '/api/results/competitions') {
       try {
         const from = url.searchParams.get('from');
@@ -2567,19 +5000,127 @@ export class SwarmHubDO {
       }
     }
 
+    if (request.method === 'GET' && url.pathname === '/api/results/archive/status') {
+      const archive = this.resultsArchive();
+      if (!archive) return json({ success: false, error: 'Results archive unavailable' }, { status: 503 });
+      const lastRun = (await this.state.storage.get<JsonValue>(RESULTS_ARCHIVE_LAST_RUN_KEY)) ?? null;
+      return json({ success: true, ...getArchiveStatus(archive), last_run: lastRun, timestamp: new Date().toISOString() } as JsonValue);
+    }
+
+    if (request.method === 'GET' && url.pathname === '/api/results/archive/games') {
+      const archive = this.resultsArchive();
+      if (!archive) return json({ success: false, error: 'Results archive unavailable' }, { status: 503 });
+
+      const num = (name: string): number | null | undefined => {
+        const raw = url.searchParams.get(name);
+        if (!raw) return null;
+        return /^\d+$/.test(raw) ? Number(raw) : undefined;
+      };
+      const sportId = num('sportId');
+      const from = num('from');
+      const to = num('to');
+      if (sportId === undefined || from === undefined || to === undefined) {
+        return json({ success: false, error: 'sportId, from and to must be numeric' }, { status: 400 });
+      }
+      const scoreRaw = url.searchParams.get('score');
+      const score = parseScoreFilter(scoreRaw);
+      if (scoreRaw && !score) return json({ success: false, error: 'score must look like 2:1' }, { status: 400 });
+      const limit = parseResultsLimit(url.searchParams.get('limit'));
+      if (limit === null) return json({ success: false, error: 'limit must be a positive integer' }, { status: 400 });
+      const cursorRaw = url.searchParams.get('cursor');
+      const cursor = parseResultsCursor(cursorRaw);
+      if (cursorRaw && !cursor) return json({ success: false, error: 'Invalid cursor' }, { status: 400 });
+
+      const competitionId = url.searchParams.get('competitionId') || null;
+      const regionId = url.searchParams.get('regionId') || null;
+      if (competitionId || regionId) {
+        try {
+          await this.getHierarchy(false);
+          await this.ensureHierarchyNameMaps();
+        } catch {
+          // filter by id only
+        }
+      }
+
+      try {
+        const page = queryArchivedGames(archive, {
+          sportId,
+          from,
+          to,
+          competitionId,
+          competitionName: competitionId ? this.hierarchyCompetitionNameById[competitionId] ?? null : null,
+          regionId,
+          regionName: regionId ? this.hierarchyRegionNameById[regionId] ?? null : null,
+          team: url.searchParams.get('team'),
+          score,
+          cursor,
+          limit
+        });
+        return json({
+          success: true,
+          count: page.games.length,
+          games: page.games,
+          next_cursor: page.next_cursor,
+          timestamp: new Date().toISOString()
+        } as JsonValue);
+      } catch (e) {
+        return json({ success: false, error: e instanceof Error ? e.message : String(e) }, { status: 500 });
+      }
+    }
+
     if (request.method === 'GET' && url.pathname.startsWith('/api/results/games/')) {
       try {
         const sportIdRaw = url.pathname.split('/').pop() || '';
         const sportId = Number(sportIdRaw);
         if (!Number.isFinite(sportId)) return json({ success: false, error: 'Invalid sportId' }, { status: 400 });
-        const from = url.searchParams.get('from');
-        const to = url.searchParams.get('to');
-        const games = await this.getResultGames(sportId, from ? Number(from) : undefined, to ? Number(to) : undefined);
+
+        const fromRaw = url.searchParams.get('from');
+        const toRaw = url.searchParams.get('to');
+        const from = fromRaw ? Number(fromRaw) : startOfDaySec(nowSec());
+        const to = toRaw ? Number(toRaw) : from + RESULTS_DAY_SEC;
+        if (!Number.isFinite(from) || !Number.isFinite(to) || to <= from) {
+          return json({ success: false, error: 'from and to must be unix seconds with from < to' }, { status: 400 });
+        }
+        if (splitResultDays(from, to).length > RESULTS_MAX_DAYS) {
+          return json({ success: false, error: `At most ${RESULTS_MAX_DAYS} days per request` }, { status: 400 });
+        }
+        const limit = parseResultsLimit(url.searchParams.get('limit'));
+        if (limit === null) return json({ success: false, error: 'limit must be a positive integer' }, { status: 400 });
+        const cursorRaw = url.searchParams.get('cursor');
+        const cursor = parseResultsCursor(cursorRaw);
+        if (cursorRaw && !cursor) return json({ success: false, error: 'Invalid cursor' }, { status: 400 });
+
+        const competitionId = url.searchParams.get('competitionId') || null;
+        const regionId = url.searchParams.get('regionId') || null;
+        if (competitionId || regionId) {
+          // Names are the fallback for result games that carry no ids.
+          try {
+            await this.getHierarchy(false);
+            await this.ensureHierarchyNameMaps();
+          } catch {
+            // filter by id only
+          }
+        }
+        const history = await this.getResultGamesHistory(sportId, from, to);
+        const filtered = filterResultGames(history.games, {
+          competitionId,
+          competitionName: competitionId ? this.hierarchyCompetitionNameById[competitionId] ?? null : null,
+          regionId,
+          regionName: regionId ? this.hierarchyRegionNameById[regionId] ?? null : null,
+          team: url.searchParams.get('team')
+        });
+        const page = pageResultGames(filtered, cursor, limit);
         return json({
           success: true,
           sportId,
-          count: games.length,
-          games,
+          from,
+          to,
+          count: page.games.length,
+          total: page.total,
+          games: page.games,
+          next_cursor: page.next_cursor,
+          days: history.days,
+          cached_days: history.cachedDays,
           timestamp: new Date().toISOString()
         } as JsonValue);
       } catch (e) {
@@ -2591,24 +5132,25 @@ export class SwarmHubDO {
       try {
         const gameId = url.pathname.split('/').pop() || '';
         if (!gameId) return json({ success: false, error: 'gameId is required' }, { status: 400 });
-        const raw = await this.getGameResults(gameId);
-
-        const settlements: { market: unknown; winners: unknown }[] = [];
-        const lines = (raw as Record<string, unknown> | undefined)?.lines as Record<string, unknown> | undefined;
-        const line = lines?.line;
-        if (Array.isArray(line)) {
-          for (const l of line) {
-            const lo = l as Record<string, unknown>;
-            const events = lo.events as Record<string, unknown> | undefined;
-            const winners = events?.event_name ?? [];
-            settlements.push({ market: lo.line_name, winners });
-          }
-        }
+        const archive = this.resultsArchive();
+        const archivedRaw = archive
+          ? (readArchivedSettlement(archive, gameId) as SwarmCommands['get_results']['result'] | null)
+          : null;
+        const [raw, catalog] = await Promise.all([
+          archivedRaw !== null ? archivedRaw : this.getGameResults(gameId),
+          this.loadSettlementCatalog(gameId)
+        ]);
+        if (archive && archivedRaw === null) archiveSettlement(archive, gameId, raw);
+        const score = resolveFinalScore(raw, catalog);
+        const settlements = normalizeSettlements(raw, catalog, score.final);
 
         return json({
           success: true,
           gameId,
+          score,
           settlements,
+          archived: archivedRaw !== null,
+          catalog_updated_at: catalog?.updated_at ?? null,
           raw,
           timestamp: new Date().toISOString()
         } as JsonValue);
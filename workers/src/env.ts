@@ -9,4 +9,6 @@ export interface Env {
   LIVE_TRACKER_WS_URL?: string;
   LIVE_TRACKER_PARTNER_ID?: string;
   LIVE_TRACKER_SITE_REF?: string;
+
+  ADMIN_TOKEN?: string;
 }
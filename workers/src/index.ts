@@ -2,6 +2,8 @@ import { HealthMetricsDO } from './durable/HealthMetricsDO.js';
 import { LiveTrackerDO } from './durable/LiveTrackerDO.js';
 import { SwarmHubDO } from './durable/SwarmHubDO.js';
 import type { Env } from './env.js';
+import { isAdminAuthorized } from './lib/admin.js';
+import { COORDINATOR_SHARD, getStreamShardName, isSwarmShardName, SWARM_SHARD_HEADER } from './lib/sharding.js';
 
 type JsonValue = string | number | boolean | null | { [key: string]: JsonValue } | JsonValue[];
 
@@ -30,8 +32,8 @@ function withCors(request: Request, response: Response): Response {
   } else {
     headers.set('Access-Control-Allow-Origin', '*');
   }
-  headers.set('Access-Control-Allow-Methods', 'GET,POST,OPTIONS');
-  headers.set('Access-Control-Allow-Headers', 'Content-Type');
+  headers.set('Access-Control-Allow-Methods', 'GET,POST,PUT,DELETE,OPTIONS');
+  headers.set('Access-Control-Allow-Headers', 'Content-Type, Authorization');
   headers.set('Access-Control-Max-Age', '86400');
 
   return new Response(response.body, {
@@ -41,6 +43,14 @@ function withCors(request: Request, response: Response): Response {
   });
 }
 
+// Forward to a SwarmHub shard, stamping the shard name so the instance knows its role.
+function fetchSwarmHub(env: Env, shard: string, request: Request): Promise<Response> {
+  const stub = env.SWARM_HUB.get(env.SWARM_HUB.idFromName(shard));
+  const headers = new Headers(request.headers);
+  headers.set(SWARM_SHARD_HEADER, shard);
+  return stub.fetch(new Request(request, { headers }));
+}
+
 function badRequest(message: string): Response {
   return json({ error: message }, { status: 400 });
 }
@@ -57,7 +67,33 @@ export default {
       return withCors(request, new Response('Not found', { status: 404 }));
     }
 
-    if (url.pathname === '/api/live-tracker') {
+    if (url.pathname.startsWith('/api/admin/')) {
+      if (!env.ADMIN_TOKEN) return withCors(request, json({ error: 'Admin API is disabled' }, { status: 404 }));
+      if (!isAdminAuthorized(request, env.ADMIN_TOKEN)) {
+        return withCors(request, json({ error: 'Unauthorized' }, { status: 401 }));
+      }
+
+      if (url.pathname === '/api/admin/capture' || url.pathname.startsWith('/api/admin/capture/')) {
+        const shard = url.searchParams.get('shard') || COORDINATOR_SHARD;
+        if (!isSwarmShardName(shard)) return withCors(request, badRequest('Unknown shard'));
+        const resp = await fetchSwarmHub(env, shard, request);
+        return withCors(request, resp);
+      }
+
+      if (url.pathname === '/api/admin/featured-trackers') {
+        const resp = await fetchSwarmHub(env, COORDINATOR_SHARD, request);
+        return withCors(request, resp);
+      }
+
+      if (url.pathname === '/api/admin/margin-profiles' || url.pathname.startsWith('/api/admin/margin-profiles/')) {
+        const resp = await fetchSwarmHub(env, COORDINATOR_SHARD, request);
+        return withCors(request, resp);
+      }
+
+      return withCors(request, json({ error: 'Not found' }, { status: 404 }));
+    }
+
+    if (url.pathname === '/api/live-tracker' || url.pathname === '/api/live-tracker/replay') {
       const gameId = url.searchParams.get('gameId');
       if (!gameId) return withCors(request, badRequest('gameId is required'));
 
@@ -113,11 +149,16 @@ export default {
     }
 
     if (url.pathname === '/api/game-stats') {
-      return withCors(request, json({ error: 'No stats available' }));
+      const gameId = url.searchParams.get('gameId');
+      if (!gameId) return withCors(request, badRequest('gameId is required'));
+      if (!/^\d+$/.test(gameId)) return withCors(request, badRequest('gameId must be numeric'));
+      const resp = await fetchSwarmHub(env, getStreamShardName(url), request);
+      return withCors(request, resp);
     }
 
     if (url.pathname === '/api/fetch-all-sports') {
-      return withCors(request, json({ count: 0, errors: ['Not supported'] }));
+      const resp = await fetchSwarmHub(env, COORDINATOR_SHARD, request);
+      return withCors(request, resp);
     }
 
     if (
@@ -125,25 +166,37 @@ export default {
       url.pathname === '/api/live-stream' ||
       url.pathname === '/api/prematch-stream' ||
       url.pathname === '/api/live-game-stream' ||
-      url.pathname === '/api/competition-odds-stream'
+      url.pathname === '/api/match-center' ||
+      url.pathname === '/api/competition-odds-stream' ||
+      url.pathname === '/api/stream' ||
+      url.pathname.startsWith('/api/stream/')
     ) {
-      const swarmId = env.SWARM_HUB.idFromName('global');
-      const swarmStub = env.SWARM_HUB.get(swarmId);
-      const resp = await swarmStub.fetch(request);
+      const resp = await fetchSwarmHub(env, getStreamShardName(url), request);
+      return withCors(request, resp);
+    }
+
+    if (url.pathname.startsWith('/api/games/')) {
+      const resp = await fetchSwarmHub(env, getStreamShardName(url), request);
       return withCors(request, resp);
     }
 
+    if (url.pathname === '/api/ws') {
+      // The 101 upgrade response carries the socket and must be returned as-is.
+      return fetchSwarmHub(env, COORDINATOR_SHARD, request);
+    }
+
     if (url.pathname.startsWith('/api/results/')) {
-      const swarmId = env.SWARM_HUB.idFromName('global');
-      const swarmStub = env.SWARM_HUB.get(swarmId);
-      const resp = await swarmStub.fetch(request);
+      const resp = await fetchSwarmHub(env, COORDINATOR_SHARD, request);
+      return withCors(request, resp);
+    }
+
+    if (url.pathname === '/api/search') {
+      const resp = await fetchSwarmHub(env, COORDINATOR_SHARD, request);
       return withCors(request, resp);
     }
 
     if (url.pathname === '/api/hierarchy') {
-      const swarmId = env.SWARM_HUB.idFromName('global');
-      const swarmStub = env.SWARM_HUB.get(swarmId);
-      const resp = await swarmStub.fetch(request);
+      const resp = await fetchSwarmHub(env, COORDINATOR_SHARD, request);
       return withCors(request, resp);
     }
 
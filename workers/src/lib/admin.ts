@@ -0,0 +1,14 @@
+function timingSafeEqual(a: string, b: string): boolean {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return diff === 0;
+}
+
+/** `/api/admin/*` requires `Authorization: Bearer <ADMIN_TOKEN>`; without a token configured it is off. */
+export function isAdminAuthorized(request: Request, adminToken: string | undefined): boolean {
+  if (!adminToken) return false;
+  const match = (request.headers.get('Authorization') ?? '').match(/^Bearer\s+(.+)$/i);
+  return Boolean(match) && timingSafeEqual(match![1].trim(), adminToken);
+}
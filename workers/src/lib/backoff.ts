@@ -0,0 +1,18 @@
+export const RECONNECT_BASE_DELAY_MS = 1000;
+export const RECONNECT_MAX_DELAY_MS = 30000;
+
+/**
+ * Jittered exponential backoff: the delay doubles per attempt up to the cap, and
+ * is then drawn uniformly from its upper half so DO instances that lost the same
+ * upstream do not reconnect in lockstep.
+ */
+export function getReconnectDelayMs(
+  attempt: number,
+  baseMs = RECONNECT_BASE_DELAY_MS,
+  maxMs = RECONNECT_MAX_DELAY_MS,
+  random: () => number = Math.random
+): number {
+  const n = Number.isFinite(attempt) ? Math.max(0, Math.floor(attempt)) : 0;
+  const exp = Math.min(maxMs, baseMs * 2 ** Math.min(n, 30));
+  return Math.floor(exp / 2 + random() * (exp / 2));
+}
@@ -0,0 +1,134 @@
+import type { MarketProbabilities, OddsArrEntry } from './odds.js';
+
+export const BULK_PAGE_DEFAULT_LIMIT = 500;
+export const BULK_PAGE_MAX_LIMIT = 2000;
+
+export type BulkSnapshotGame = {
+  id: string;
+  mode: 'live' | 'prematch';
+  sportId: string;
+  sport: string;
+  region: string;
+  competition: string;
+  type: number | null;
+  start_ts: number | null;
+  team1_name: string | null;
+  team2_name: string | null;
+  is_blocked: boolean;
+  markets_count: number | null;
+  info: unknown;
+  market_type: string | null;
+  odds: OddsArrEntry[];
+  probabilities: MarketProbabilities | null;
+};
+
+/** A sport/mode whose games could not be fetched; the rest of the snapshot is still served. */
+export type BulkSnapshotError = {
+  sportId: string;
+  sport: string;
+  mode: 'live' | 'prematch' | 'odds';
+  error: string;
+};
+
+/**
+ * Every live and prematch game across all sports, taken once and kept for a short
+ * while so that paging through it (or streaming it) sees one consistent view.
+ */
+export type BulkSnapshot = {
+  id: string;
+  generated_at: string;
+  sports: number;
+  games: BulkSnapshotGame[];
+  errors: BulkSnapshotError[];
+};
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function toText(value: unknown): string | null {
+  return typeof value === 'string' && value ? value : null;
+}
+
+/** Flatten a parsed Swarm game into the export row; embedded markets are dropped in favour of `odds`. */
+export function toBulkSnapshotGame(
+  game: Record<string, unknown>,
+  mode: 'live' | 'prematch',
+  sportId: string,
+  main: { marketType: string | null; odds: OddsArrEntry[]; probabilities: MarketProbabilities | null } | null
+): BulkSnapshotGame | null {
+  if (game.id === null || game.id === undefined || game.id === '') return null;
+  return {
+    id: String(game.id),
+    mode,
+    sportId,
+    sport: String(game.sport ?? ''),
+    region: String(game.region ?? ''),
+    competition: String(game.competition ?? ''),
+    type: toNumber(game.type),
+    start_ts: toNumber(game.start_ts),
+    team1_name: toText(game.team1_name),
+    team2_name: toText(game.team2_name),
+    is_blocked: Boolean(game.is_blocked),
+    markets_count: toNumber(game.markets_count),
+    info: mode === 'live' && game.info && typeof game.info === 'object' ? game.info : null,
+    market_type: main?.marketType ?? null,
+    odds: main?.odds ?? [],
+    probabilities: main?.probabilities ?? null
+  };
+}
+
+/** Cursors pin the snapshot they were issued for: `<snapshotId>.<offset>`. */
+export function encodeBulkCursor(snapshotId: string, offset: number): string {
+  return `${snapshotId}.${offset}`;
+}
+
+export function parseBulkCursor(raw: string | null): { snapshotId: string; offset: number } | null {
+  if (!raw) return null;
+  const match = raw.match(/^([A-Za-z0-9-]+)\.(\d+)$/);
+  if (!match) return null;
+  return { snapshotId: match[1], offset: Number(match[2]) };
+}
+
+/** `null` for a limit that is not a positive integer; a missing one means the default. */
+export function parseBulkLimit(raw: string | null): number | null {
+  if (raw === null || raw === '') return BULK_PAGE_DEFAULT_LIMIT;
+  if (!/^\d+$/.test(raw)) return null;
+  const n = Number(raw);
+  if (n < 1) return null;
+  return Math.min(n, BULK_PAGE_MAX_LIMIT);
+}
+
+export function pageBulkSnapshot(snapshot: BulkSnapshot, offset: number, limit: number) {
+  const games = snapshot.games.slice(offset, offset + limit);
+  const end = offset + games.length;
+  return {
+    snapshot_id: snapshot.id,
+    generated_at: snapshot.generated_at,
+    sports: snapshot.sports,
+    total: snapshot.games.length,
+    count: games.length,
+    offset,
+    next_cursor: end < snapshot.games.length ? encodeBulkCursor(snapshot.id, end) : null,
+    games,
+    errors: snapshot.errors
+  };
+}
+
+/** One game per line, then a closing summary line carrying the per-sport errors. */
+export function* bulkSnapshotNdjsonLines(snapshot: BulkSnapshot): Generator<string> {
+  for (const game of snapshot.games) {
+    yield `${JSON.stringify({ game })}\n`;
+  }
+  yield `${JSON.stringify({
+    summary: {
+      snapshot_id: snapshot.id,
+      generated_at: snapshot.generated_at,
+      sports: snapshot.sports,
+      count: snapshot.games.length,
+      errors: snapshot.errors
+    }
+  })}\n`;
+}
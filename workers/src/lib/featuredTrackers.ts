@@ -0,0 +1,64 @@
+import type { ActiveTeamGame } from './search.js';
+
+export const FEATURED_TRACKERS_MAX_GAMES = 50;
+export const FEATURED_TRACKERS_MAX_TOP_LIVE = 20;
+
+/**
+ * Games whose live trackers are kept connected without viewers: the ones listed by an
+ * admin, plus the `topLive` live games with the most markets.
+ */
+export type FeaturedTrackersConfig = {
+  gameIds: string[];
+  topLive: number;
+};
+
+export type FeaturedTrackerGame = {
+  gameId: string;
+  source: 'manual' | 'top_live';
+};
+
+export const DEFAULT_FEATURED_TRACKERS_CONFIG: FeaturedTrackersConfig = { gameIds: [], topLive: 0 };
+
+export function isFeaturedTrackersEnabled(config: FeaturedTrackersConfig): boolean {
+  return config.gameIds.length > 0 || config.topLive > 0;
+}
+
+/** `null` unless `gameIds` are numeric game ids and `topLive` is a small non-negative integer. */
+export function parseFeaturedTrackersConfig(body: unknown): FeaturedTrackersConfig | null {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return null;
+  const raw = body as Record<string, unknown>;
+
+  const ids = raw.gameIds ?? [];
+  if (!Array.isArray(ids) || ids.length > FEATURED_TRACKERS_MAX_GAMES) return null;
+  const gameIds: string[] = [];
+  for (const id of ids) {
+    const s = String(id ?? '').trim();
+    if (!/^\d+$/.test(s)) return null;
+    if (!gameIds.includes(s)) gameIds.push(s);
+  }
+
+  const topLive = raw.topLive ?? 0;
+  if (typeof topLive !== 'number' || !Number.isInteger(topLive) || topLive < 0 || topLive > FEATURED_TRACKERS_MAX_TOP_LIVE) return null;
+
+  return { gameIds, topLive };
+}
+
+/** Listed games first, then the top live games not already listed; a game is featured once. */
+export function selectFeaturedTrackerGames(config: FeaturedTrackersConfig, activeGames: ActiveTeamGame[]): FeaturedTrackerGame[] {
+  const out: FeaturedTrackerGame[] = config.gameIds.map((gameId) => ({ gameId, source: 'manual' }));
+  if (config.topLive <= 0) return out;
+
+  const seen = new Set(config.gameIds);
+  const live = new Map<string, ActiveTeamGame>();
+  for (const g of activeGames) {
+    if (g.mode === 'live' && !seen.has(g.gameId) && !live.has(g.gameId)) live.set(g.gameId, g);
+  }
+  const ranked = [...live.values()].sort(
+    (a, b) =>
+      (b.markets_count ?? 0) - (a.markets_count ?? 0) ||
+      (a.start_ts ?? Infinity) - (b.start_ts ?? Infinity) ||
+      a.gameId.localeCompare(b.gameId, undefined, { numeric: true })
+  );
+  for (const g of ranked.slice(0, config.topLive)) out.push({ gameId: g.gameId, source: 'top_live' });
+  return out;
+}
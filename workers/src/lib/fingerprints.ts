@@ -40,19 +40,21 @@ export function getCountsFp(sports: unknown): string {
     .join('|');
 }
 
+export function getGameRowFp(gRaw: any): string {
+  const id = gRaw?.id ?? gRaw?.gameId ?? '';
+  const info = gRaw?.info && typeof gRaw.info === 'object' ? gRaw.info : {};
+  const textInfo = gRaw?.text_info ?? '';
+  const score = info.score ?? info.ss ?? info.score_str ?? info.scoreString ?? info.current_score ?? '';
+  const clock = info.current_game_time ?? info.time ?? info.timer ?? info.match_time ?? info.minute ?? info.min ?? '';
+  const phase = info.current_game_state ?? info.period ?? info.period_name ?? info.stage ?? info.phase ?? '';
+  const add = info.add_minutes ?? info.added_minutes ?? info.addMinutes ?? info.addedMinutes ?? '';
+  const mc = gRaw?.markets_count ?? '';
+  return `${String(id)}|${String(mc)}|${String(textInfo)}|${String(score)}|${String(phase)}|${String(clock)}|${String(add)}`;
+}
+
 export function getSportFp(games: unknown): string {
   return (Array.isArray(games) ? games : [])
-    .map((gRaw: any) => {
-      const id = gRaw?.id ?? gRaw?.gameId ?? '';
-      const info = gRaw?.info && typeof gRaw.info === 'object' ? gRaw.info : {};
-      const textInfo = gRaw?.text_info ?? '';
-      const score = info.score ?? info.ss ?? info.score_str ?? info.scoreString ?? info.current_score ?? '';
-      const clock = info.current_game_time ?? info.time ?? info.timer ?? info.match_time ?? info.minute ?? info.min ?? '';
-      const phase = info.current_game_state ?? info.period ?? info.period_name ?? info.stage ?? info.phase ?? '';
-      const add = info.add_minutes ?? info.added_minutes ?? info.addMinutes ?? info.addedMinutes ?? '';
-      const mc = gRaw?.markets_count ?? '';
-      return `${String(id)}|${String(mc)}|${String(textInfo)}|${String(score)}|${String(phase)}|${String(clock)}|${String(add)}`;
-    })
+    .map((gRaw: any) => getGameRowFp(gRaw))
     .sort()
     .join('~');
 }
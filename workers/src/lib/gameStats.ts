@@ -0,0 +1,161 @@
+export type StatPair = {
+  team1: number | null;
+  team2: number | null;
+};
+
+export type PeriodScore = StatPair & {
+  period: number;
+  label: string;
+};
+
+/**
+ * Sport-independent view of a game's Swarm `stats` and `info`. Fields a sport does
+ * not report are `null`; stats without a dedicated field are kept in `other`.
+ */
+export type GameStats = {
+  gameId: string;
+  sport: string | null;
+  is_live: boolean;
+  stats_available: boolean;
+  state: string | null;
+  minute: number | null;
+  score: StatPair;
+  periods: PeriodScore[];
+  possession: StatPair | null;
+  shots: {
+    on_target: StatPair | null;
+    off_target: StatPair | null;
+    blocked: StatPair | null;
+  };
+  cards: {
+    yellow: StatPair | null;
+    red: StatPair | null;
+  };
+  corners: StatPair | null;
+  attacks: {
+    total: StatPair | null;
+    dangerous: StatPair | null;
+  };
+  fouls: StatPair | null;
+  offsides: StatPair | null;
+  other: Record<string, StatPair>;
+  updated_at: string;
+};
+
+const PERIOD_KEY_RE = /^score_set(\d+)$/;
+
+// Swarm stat keys folded into the dedicated fields; everything else goes to `other`.
+const DEDICATED_KEYS = new Set([
+  'possession',
+  'ball_possession',
+  'shot_on_target',
+  'shot_off_target',
+  'shot_blocked',
+  'yellow_card',
+  'red_card',
+  'corner',
+  'attack',
+  'dangerous_attack',
+  'foul',
+  'offside'
+]);
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function readPair(node: unknown): StatPair | null {
+  if (!node || typeof node !== 'object') return null;
+  const n = node as Record<string, unknown>;
+  const team1 = toNumber(n.team1_value);
+  const team2 = toNumber(n.team2_value);
+  if (team1 === null && team2 === null) return null;
+  return { team1, team2 };
+}
+
+/** `H1`, `Q3`, `S2`, ... for the sport's period naming; `P<n>` when unknown. */
+export function periodLabel(sport: string | null, period: number): string {
+  switch ((sport ?? '').toLowerCase()) {
+    case 'soccer':
+    case 'football':
+    case 'handball':
+    case 'futsal':
+      return period <= 2 ? `H${period}` : `ET${period - 2}`;
+    case 'basketball':
+    case 'americanfootball':
+      return period <= 4 ? `Q${period}` : `OT${period - 4}`;
+    case 'icehockey':
+      return period <= 3 ? `P${period}` : `OT${period - 3}`;
+    case 'tennis':
+    case 'tabletennis':
+    case 'volleyball':
+    case 'beachvolleyball':
+    case 'badminton':
+      return `S${period}`;
+    case 'baseball':
+      return `I${period}`;
+    default:
+      return `P${period}`;
+  }
+}
+
+/** Normalize a Swarm game (with `stats`, `info` and `sport_alias` when requested). */
+export function normalizeGameStats(game: unknown, now = Date.now()): GameStats | null {
+  if (!game || typeof game !== 'object') return null;
+  const g = game as Record<string, unknown>;
+  if (g.id === null || g.id === undefined || g.id === '') return null;
+
+  const stats = g.stats && typeof g.stats === 'object' ? (g.stats as Record<string, unknown>) : {};
+  const info = g.info && typeof g.info === 'object' ? (g.info as Record<string, unknown>) : {};
+  const sport = typeof g.sport_alias === 'string' && g.sport_alias ? g.sport_alias : null;
+
+  const periods: PeriodScore[] = [];
+  const other: Record<string, StatPair> = {};
+  for (const [key, value] of Object.entries(stats)) {
+    const periodMatch = key.match(PERIOD_KEY_RE);
+    const pair = readPair(value);
+    if (!pair) continue;
+    if (periodMatch) {
+      const period = Number(periodMatch[1]);
+      periods.push({ period, label: periodLabel(sport, period), ...pair });
+    } else if (!DEDICATED_KEYS.has(key)) {
+      other[key] = pair;
+    }
+  }
+  periods.sort((a, b) => a.period - b.period);
+
+  const rawState = info.current_game_state;
+  const state = typeof rawState === 'string' && rawState ? rawState : null;
+
+  return {
+    gameId: String(g.id),
+    sport,
+    is_live: g.type === 1 || g.type === '1',
+    stats_available: Boolean(g.is_stat_available) || Object.keys(stats).length > 0,
+    state,
+    minute: toNumber(info.current_game_time),
+    score: { team1: toNumber(info.score1), team2: toNumber(info.score2) },
+    periods,
+    possession: readPair(stats.possession) ?? readPair(stats.ball_possession),
+    shots: {
+      on_target: readPair(stats.shot_on_target),
+      off_target: readPair(stats.shot_off_target),
+      blocked: readPair(stats.shot_blocked)
+    },
+    cards: {
+      yellow: readPair(stats.yellow_card),
+      red: readPair(stats.red_card)
+    },
+    corners: readPair(stats.corner),
+    attacks: {
+      total: readPair(stats.attack),
+      dangerous: readPair(stats.dangerous_attack)
+    },
+    fouls: readPair(stats.foul),
+    offsides: readPair(stats.offside),
+    other,
+    updated_at: new Date(now).toISOString()
+  };
+}
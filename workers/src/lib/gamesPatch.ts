@@ -0,0 +1,84 @@
+import { getGameRowFp } from './fingerprints.js';
+
+/**
+ * Last broadcast state of one game row: the row fingerprint plus each top-level
+ * field serialized, since subscription state is merged in place and the previous
+ * object cannot be compared by reference.
+ */
+export type GameRowState = {
+  fp: string;
+  fields: Record<string, string>;
+};
+
+export type GamesPatch = {
+  added: unknown[];
+  removed: string[];
+  changed: Array<{ id: string; fields: Record<string, unknown> }>;
+};
+
+function gameIdOf(game: any): string | null {
+  const gid = game?.id ?? game?.gameId;
+  if (gid === null || gid === undefined || gid === '') return null;
+  return String(gid);
+}
+
+function serializeFields(game: Record<string, unknown>): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const [k, v] of Object.entries(game)) {
+    if (v === undefined) continue;
+    out[k] = JSON.stringify(v);
+  }
+  return out;
+}
+
+/**
+ * Diff the next games list against the previously broadcast rows.
+ * Only games whose row fingerprint (score, clock, phase, markets_count, text_info)
+ * moved are inspected; for those every changed top-level field is reported, with
+ * null marking a field that disappeared. `rows` is updated in place.
+ */
+export function diffGameRows(rows: Map<string, GameRowState>, games: unknown[]): GamesPatch {
+  const patch: GamesPatch = { added: [], removed: [], changed: [] };
+  const seen = new Set<string>();
+
+  for (const g of Array.isArray(games) ? games : []) {
+    if (!g || typeof g !== 'object') continue;
+    const id = gameIdOf(g);
+    if (!id || seen.has(id)) continue;
+    seen.add(id);
+
+    const fp = getGameRowFp(g);
+    const prev = rows.get(id);
+    if (!prev) {
+      rows.set(id, { fp, fields: serializeFields(g as Record<string, unknown>) });
+      patch.added.push(g);
+      continue;
+    }
+    if (prev.fp === fp) continue;
+
+    const fields = serializeFields(g as Record<string, unknown>);
+    const changed: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(fields)) {
+      if (prev.fields[k] !== v) changed[k] = (g as Record<string, unknown>)[k];
+    }
+    for (const k of Object.keys(prev.fields)) {
+      if (!(k in fields)) changed[k] = null;
+    }
+
+    rows.set(id, { fp, fields });
+    if (Object.keys(changed).length) patch.changed.push({ id, fields: changed });
+  }
+
+  for (const id of Array.from(rows.keys())) {
+    if (!seen.has(id)) {
+      rows.delete(id);
+      patch.removed.push(id);
+    }
+  }
+
+  return patch;
+}
+
+export function isEmptyGamesPatch(patch: GamesPatch): boolean {
+  return patch.added.length === 0 && patch.removed.length === 0 && patch.changed.length === 0;
+}
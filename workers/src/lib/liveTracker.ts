@@ -0,0 +1,106 @@
+export const TRACKER_TIMELINE_MAX_EVENTS = 2000;
+export const TRACKER_TIMELINE_STORAGE_MAX_BYTES = 120 * 1024;
+
+/** One upstream message as it was broadcast, with the SSE id it went out with. */
+export type TrackerEntry = {
+  id: string;
+  ts: number;
+  payload: unknown;
+};
+
+/**
+ * What a client needs to catch up on a game: the latest upstream snapshot and every
+ * message since. `truncated` is set once older messages had to be dropped, so a
+ * catch-up no longer starts right at the snapshot.
+ */
+export type TrackerTimeline = {
+  gameId: string;
+  snapshot: TrackerEntry | null;
+  events: TrackerEntry[];
+  truncated: boolean;
+  updatedAtMs: number;
+};
+
+/**
+ * A timeline as stored: the head (the snapshot, with `events` left empty) in one value
+ * and the events after it in chunks appended as they arrive, so a persist writes only
+ * what is new. `chunkSeq` is the first chunk sequence of the head's snapshot.
+ */
+export type StoredTrackerTimeline = TrackerTimeline & { chunkSeq?: number };
+
+export type TrackerTimelineChunk = { seq: number; entries: TrackerEntry[] };
+
+export function createTrackerTimeline(gameId: string, now = Date.now()): TrackerTimeline {
+  return { gameId, snapshot: null, events: [], truncated: false, updatedAtMs: now };
+}
+
+/** A snapshot replaces the timeline; anything else is appended to it. */
+export function recordTrackerEntry(
+  timeline: TrackerTimeline,
+  entry: TrackerEntry,
+  isSnapshot: boolean,
+  maxEvents = TRACKER_TIMELINE_MAX_EVENTS
+): void {
+  timeline.updatedAtMs = entry.ts;
+  if (isSnapshot) {
+    timeline.snapshot = entry;
+    timeline.events = [];
+    timeline.truncated = false;
+    return;
+  }
+  timeline.events.push(entry);
+  if (timeline.events.length > maxEvents) {
+    timeline.events.splice(0, timeline.events.length - maxEvents);
+    timeline.truncated = true;
+  }
+}
+
+/** Snapshot first, then the events in the order they arrived. */
+export function trackerCatchUpEntries(timeline: TrackerTimeline): TrackerEntry[] {
+  return timeline.snapshot ? [timeline.snapshot, ...timeline.events] : [...timeline.events];
+}
+
+function jsonBytes(value: unknown): number {
+  return new TextEncoder().encode(JSON.stringify(value)).byteLength;
+}
+
+/**
+ * A copy of the timeline that fits one storage value, dropping the oldest events
+ * first. `null` when even the snapshot alone is too large to store.
+ */
+export function fitTrackerTimeline(timeline: TrackerTimeline, maxBytes = TRACKER_TIMELINE_STORAGE_MAX_BYTES): TrackerTimeline | null {
+  const base = { ...timeline, events: [] as TrackerEntry[] };
+  let bytes = jsonBytes(base);
+  if (bytes > maxBytes) return null;
+
+  const kept: TrackerEntry[] = [];
+  for (let i = timeline.events.length - 1; i >= 0; i--) {
+    const size = jsonBytes(timeline.events[i]) + 1;
+    if (bytes + size > maxBytes) break;
+    bytes += size;
+    kept.push(timeline.events[i]);
+  }
+  kept.reverse();
+  return { ...base, events: kept, truncated: timeline.truncated || kept.length < timeline.events.length };
+}
+
+/**
+ * Rebuild a timeline from its stored head and chunks. Chunks of an earlier snapshot are
+ * ignored; leading chunks that were dropped mark it truncated.
+ */
+export function restoreTrackerTimeline(
+  head: StoredTrackerTimeline,
+  chunks: TrackerTimelineChunk[],
+  maxEvents = TRACKER_TIMELINE_MAX_EVENTS
+): TrackerTimeline {
+  const firstSeq = head.chunkSeq ?? 0;
+  const own = chunks.filter((c) => c.seq >= firstSeq).sort((a, b) => a.seq - b.seq);
+  const events = [...head.events, ...own.flatMap((c) => c.entries)];
+  let truncated = head.truncated || (own.length > 0 && own[0].seq > firstSeq);
+  if (events.length > maxEvents) {
+    events.splice(0, events.length - maxEvents);
+    truncated = true;
+  }
+  const updatedAtMs = Math.max(head.updatedAtMs, events.length ? events[events.length - 1].ts : 0);
+  return { gameId: head.gameId, snapshot: head.snapshot, events, truncated, updatedAtMs };
+}
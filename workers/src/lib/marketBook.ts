@@ -0,0 +1,251 @@
+export type MarketKind = 'handicap' | 'total' | 'standard';
+
+export type MarketSide = 'home' | 'away' | 'draw' | 'over' | 'under';
+
+export type MarketSelection = {
+  id: string;
+  name: string;
+  type: string | null;
+  price: number | null;
+  blocked: boolean;
+  order: number;
+  column: number | null;
+  // Handicap: the signed handicap for this side. Total: the total line.
+  line: number | null;
+  side: MarketSide | null;
+};
+
+export type MarketLine = {
+  line: number;
+  selections: MarketSelection[];
+};
+
+export type BookMarket = {
+  id: string;
+  name: string;
+  type: string | null;
+  kind: MarketKind;
+  displayKey: string | null;
+  displaySubKey: string | null;
+  base: number | null;
+  order: number;
+  colCount: number | null;
+  blocked: boolean;
+  selections: MarketSelection[];
+  // Present for handicap and total markets: selections paired per line.
+  lines?: MarketLine[];
+};
+
+export type MarketGroup = {
+  id: string;
+  name: string;
+  order: number;
+  markets: BookMarket[];
+};
+
+export type MarketBook = {
+  gameId: string;
+  markets_count: number;
+  groups: MarketGroup[];
+};
+
+type TemplateContext = {
+  base: number | null;
+  team1: string;
+  team2: string;
+};
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function toOrder(value: unknown): number {
+  const n = toNumber(value);
+  return n === null ? Number.MAX_SAFE_INTEGER : n;
+}
+
+function isBlocked(value: unknown): boolean {
+  return value === true || value === 1;
+}
+
+function str(value: unknown): string | null {
+  if (value === null || value === undefined || value === '') return null;
+  return String(value);
+}
+
+function formatSigned(n: number): string {
+  return n > 0 ? `+${n}` : String(n);
+}
+
+/**
+ * Fill a Swarm `name_template`. Known placeholders: `{base}`, `{sw}` / `{h}` (signed
+ * base), `{team1}`, `{team2}`; the literal "Team 1" / "Team 2" become team names.
+ */
+export function resolveNameTemplate(template: string, ctx: TemplateContext): string {
+  const base = ctx.base === null ? '' : String(ctx.base);
+  const signed = ctx.base === null ? '' : formatSigned(ctx.base);
+  return template
+    .replace(/\{base\}/gi, base)
+    .replace(/\{(sw|h)\}/gi, signed)
+    .replace(/\{team1\}|\bTeam 1\b/gi, ctx.team1 || 'Team 1')
+    .replace(/\{team2\}|\bTeam 2\b/gi, ctx.team2 || 'Team 2')
+    .replace(/\(\s*\)/g, '')
+    .replace(/\s{2,}/g, ' ')
+    .trim();
+}
+
+function getMarketKind(m: Record<string, unknown>): MarketKind {
+  const key = String(m.display_key ?? '').toUpperCase();
+  if (key === 'HANDICAP') return 'handicap';
+  if (key === 'TOTALS') return 'total';
+
+  const text = `${String(m.type ?? '')} ${String(m.name ?? '')}`.toLowerCase();
+  if (text.includes('handicap')) return 'handicap';
+  if (text.includes('total') || text.includes('over/under')) return 'total';
+  return 'standard';
+}
+
+function getSide(kind: MarketKind, e: Record<string, unknown>): MarketSide | null {
+  const tokens = [e.type_1, e.type, e.name].map((v) => String(v ?? '').trim().toLowerCase());
+
+  if (kind === 'total') {
+    if (tokens.some((t) => t === 'over' || t.startsWith('over '))) return 'over';
+    if (tokens.some((t) => t === 'under' || t.startsWith('under '))) return 'under';
+    return null;
+  }
+
+  for (const t of tokens) {
+    if (['p1', 'w1', 'h1', '1', 'home', 'team1'].includes(t)) return 'home';
+    if (['p2', 'w2', 'h2', '2', 'away', 'team2'].includes(t)) return 'away';
+    if (['x', 'draw'].includes(t)) return 'draw';
+  }
+  return null;
+}
+
+function getSelectionLine(kind: MarketKind, side: MarketSide | null, e: Record<string, unknown>, marketBase: number | null): number | null {
+  const eventBase = toNumber(e.base);
+  if (kind === 'total') return eventBase ?? marketBase;
+  if (kind !== 'handicap') return null;
+  if (eventBase !== null) return eventBase;
+  if (marketBase === null) return null;
+  // The market base is quoted for the home side.
+  return side === 'away' ? -marketBase : marketBase;
+}
+
+function bySortKey(a: { order: number; id: string }, b: { order: number; id: string }): number {
+  if (a.order !== b.order) return a.order - b.order;
+  return a.id.localeCompare(b.id, undefined, { numeric: true });
+}
+
+function buildLines(kind: MarketKind, selections: MarketSelection[]): MarketLine[] {
+  const byLine = new Map<string, MarketLine>();
+  for (const s of selections) {
+    if (s.line === null) continue;
+    // Handicap sides share a line by magnitude (-1.5 home pairs with +1.5 away).
+    const line = kind === 'handicap' ? (s.side === 'away' ? -s.line : s.line) : s.line;
+    const key = String(line);
+    let entry = byLine.get(key);
+    if (!entry) {
+      entry = { line, selections: [] };
+      byLine.set(key, entry);
+    }
+    entry.selections.push(s);
+  }
+
+  const sideOrder: Record<string, number> = { home: 0, over: 0, draw: 1, away: 2, under: 2 };
+  const lines = Array.from(byLine.values());
+  for (const l of lines) {
+    l.selections.sort((a, b) => (sideOrder[a.side ?? ''] ?? 3) - (sideOrder[b.side ?? ''] ?? 3) || bySortKey(a, b));
+  }
+  return lines.sort((a, b) => a.line - b.line);
+}
+
+function buildMarket(m: Record<string, unknown>, mid: string, teams: { team1: string; team2: string }): BookMarket {
+  const kind = getMarketKind(m);
+  const base = toNumber(m.base);
+  const blocked = isBlocked(m.is_blocked);
+
+  const template = str(m.name_template);
+  const rawName = str(m.name) ?? str(m.type) ?? mid;
+  const name = template ? resolveNameTemplate(template, { base, ...teams }) || rawName : resolveNameTemplate(rawName, { base, ...teams });
+
+  const evMap = m.event && typeof m.event === 'object' && !Array.isArray(m.event) ? (m.event as Record<string, unknown>) : {};
+  const selections: MarketSelection[] = [];
+  for (const [eid, eRaw] of Object.entries(evMap)) {
+    if (!eRaw || typeof eRaw !== 'object' || Array.isArray(eRaw)) continue;
+    const e = eRaw as Record<string, unknown>;
+    const side = getSide(kind, e);
+    const eventBase = toNumber(e.base);
+    selections.push({
+      id: String(e.id ?? eid),
+      name: resolveNameTemplate(str(e.name) ?? str(e.type) ?? '', { base: eventBase ?? base, ...teams }),
+      type: str(e.type_1) ?? str(e.type),
+      price: toNumber(e.price),
+      blocked: blocked || isBlocked(e.is_blocked),
+      order: toOrder(e.order),
+      column: toNumber(e.display_column),
+      line: getSelectionLine(kind, side, e, base),
+      side
+    });
+  }
+  selections.sort(bySortKey);
+
+  const market: BookMarket = {
+    id: String(m.id ?? mid),
+    name,
+    type: str(m.type),
+    kind,
+    displayKey: str(m.display_key),
+    displaySubKey: str(m.display_sub_key),
+    base,
+    order: toOrder(m.order),
+    colCount: toNumber(m.col_count),
+    blocked,
+    selections
+  };
+  if (kind !== 'standard') market.lines = buildLines(kind, selections);
+  return market;
+}
+
+/**
+ * Normalize a game's embedded `market` map into display groups.
+ * Groups follow `group_order`; markets follow `order` and then `col_count`
+ * (narrow markets first so they can share a row).
+ */
+export function buildMarketBook(game: unknown): MarketBook | null {
+  if (!game || typeof game !== 'object') return null;
+  const g = game as Record<string, unknown>;
+  const teams = { team1: String(g.team1_name ?? ''), team2: String(g.team2_name ?? '') };
+
+  const marketMap = g.market && typeof g.market === 'object' && !Array.isArray(g.market) ? (g.market as Record<string, unknown>) : {};
+  const groups = new Map<string, MarketGroup>();
+
+  for (const [mid, mRaw] of Object.entries(marketMap)) {
+    if (!mRaw || typeof mRaw !== 'object' || Array.isArray(mRaw)) continue;
+    const m = mRaw as Record<string, unknown>;
+
+    const groupId = str(m.group_id) ?? 'other';
+    let group = groups.get(groupId);
+    if (!group) {
+      group = { id: groupId, name: str(m.group_name) ?? 'Other', order: toOrder(m.group_order), markets: [] };
+      groups.set(groupId, group);
+    }
+    group.markets.push(buildMarket(m, mid, teams));
+  }
+
+  const sorted = Array.from(groups.values()).sort(bySortKey);
+  for (const group of sorted) {
+    group.markets.sort((a, b) => {
+      if (a.order !== b.order) return a.order - b.order;
+      const ac = a.colCount ?? Number.MAX_SAFE_INTEGER;
+      const bc = b.colCount ?? Number.MAX_SAFE_INTEGER;
+      if (ac !== bc) return ac - bc;
+      return a.id.localeCompare(b.id, undefined, { numeric: true });
+    });
+  }
+
+  const marketsCount = toNumber(g.markets_count) ?? Object.keys(marketMap).length;
+  return { gameId: String(g.id ?? ''), markets_count: marketsCount, groups: sorted };
+}
@@ -0,0 +1,164 @@
+import { normalizeGameStats } from './gameStats.js';
+import type { TrackerSide } from './trackerEvents.js';
+
+export const MATCH_CENTER_DEFAULT_WINDOW_MS = 60000;
+export const MATCH_CENTER_MIN_WINDOW_MS = 5000;
+export const MATCH_CENTER_MAX_WINDOW_MS = 10 * 60 * 1000;
+
+export type MatchScore = { team1: number | null; team2: number | null };
+
+/** Score and clock of a game as Swarm's `info` has them. */
+export type MatchState = {
+  score: MatchScore;
+  state: string | null;
+  minute: number | null;
+};
+
+export function extractMatchState(game: unknown): MatchState | null {
+  const stats = normalizeGameStats(game);
+  return stats ? { score: stats.score, state: stats.state, minute: stats.minute } : null;
+}
+
+export function sameMatchState(a: MatchState | null, b: MatchState | null): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+type TeamSide = 'team1' | 'team2';
+
+/**
+ * A goal seen by one feed and still waiting for the other. `side` is `null` for a
+ * tracker goal without a side, which any score change confirms.
+ */
+type PendingGoal = { side: TeamSide | null; ts: number };
+
+/**
+ * Reconciles tracker goals with Swarm score changes: each has `windowMs` to be
+ * confirmed by the other feed. A goal that is not is reported once and dropped. Only
+ * sports where a goal adds one to the score are checked; `sport` is the folded alias.
+ */
+export type ConsistencyState = {
+  windowMs: number;
+  sport: string | null;
+  score: MatchScore | null;
+  trackerGoals: PendingGoal[];
+  swarmGoals: PendingGoal[];
+};
+
+export type ConsistencyEvent =
+  | {
+      status: 'matched';
+      side: TeamSide | null;
+      // The feed that reported the goal first.
+      lead: 'tracker' | 'swarm';
+      delay_ms: number;
+      score: MatchScore | null;
+    }
+  | {
+      status: 'mismatch';
+      reason: 'tracker_goal_without_score' | 'score_without_tracker_goal';
+      side: TeamSide | null;
+      since_ts: number;
+      window_ms: number;
+      score: MatchScore | null;
+    };
+
+// Folded sport aliases where every goal adds exactly one to the score.
+const ONE_POINT_GOAL_SPORTS = new Set(['soccer', 'football', 'futsal', 'handball', 'icehockey', 'fieldhockey', 'waterpolo']);
+
+export function createConsistencyState(windowMs = MATCH_CENTER_DEFAULT_WINDOW_MS, sport: string | null = null): ConsistencyState {
+  const state: ConsistencyState = { windowMs, sport: null, score: null, trackerGoals: [], swarmGoals: [] };
+  setConsistencySport(state, sport);
+  return state;
+}
+
+/** Record the game's sport (a Swarm alias or the tracker's) once either feed names it. */
+export function setConsistencySport(state: ConsistencyState, sport: unknown): void {
+  const folded = typeof sport === 'string' ? sport.toLowerCase().replace(/[^a-z0-9]/g, '') : '';
+  if (folded) state.sport = folded;
+}
+
+function checksGoals(state: ConsistencyState): boolean {
+  return state.sport !== null && ONE_POINT_GOAL_SPORTS.has(state.sport);
+}
+
+/** `null` for a window that is not a whole number of seconds in range; a missing one means the default. */
+export function parseConsistencyWindowMs(raw: string | null): number | null {
+  if (raw === null || raw === '') return MATCH_CENTER_DEFAULT_WINDOW_MS;
+  if (!/^\d+$/.test(raw)) return null;
+  const ms = Number(raw) * 1000;
+  return ms >= MATCH_CENTER_MIN_WINDOW_MS && ms <= MATCH_CENTER_MAX_WINDOW_MS ? ms : null;
+}
+
+function teamSide(side: TrackerSide | null): TeamSide | null {
+  if (side === 'home') return 'team1';
+  if (side === 'away') return 'team2';
+  return null;
+}
+
+function sidesMatch(a: TeamSide | null, b: TeamSide | null): boolean {
+  return a === null || b === null || a === b;
+}
+
+export function observeTrackerGoal(state: ConsistencyState, side: TrackerSide | null, ts: number): ConsistencyEvent[] {
+  if (!checksGoals(state)) return [];
+  const goal: PendingGoal = { side: teamSide(side), ts };
+  const idx = state.swarmGoals.findIndex((g) => sidesMatch(g.side, goal.side));
+  if (idx >= 0) {
+    const [swarm] = state.swarmGoals.splice(idx, 1);
+    return [{ status: 'matched', side: swarm.side, lead: 'swarm', delay_ms: Math.max(0, ts - swarm.ts), score: state.score }];
+  }
+  state.trackerGoals.push(goal);
+  return [];
+}
+
+/**
+ * The first score only sets the baseline. Each goal added since the last score is
+ * matched against the tracker; a score going down (a goal taken back) withdraws as
+ * many of that side's goals still waiting for the tracker, newest first.
+ */
+export function observeSwarmScore(state: ConsistencyState, score: MatchScore, ts: number): ConsistencyEvent[] {
+  const prev = state.score;
+  state.score = score;
+  if (!prev || !checksGoals(state)) return [];
+
+  const events: ConsistencyEvent[] = [];
+  for (const side of ['team1', 'team2'] as TeamSide[]) {
+    const before = prev[side];
+    const after = score[side];
+    if (before === null || after === null || after === before) continue;
+    if (after < before) {
+      let withdrawn = before - after;
+      for (let i = state.swarmGoals.length - 1; i >= 0 && withdrawn > 0; i--) {
+        if (state.swarmGoals[i].side !== side) continue;
+        state.swarmGoals.splice(i, 1);
+        withdrawn -= 1;
+      }
+      continue;
+    }
+    for (let n = before; n < after; n++) {
+      const idx = state.trackerGoals.findIndex((g) => sidesMatch(g.side, side));
+      if (idx >= 0) {
+        const [tracker] = state.trackerGoals.splice(idx, 1);
+        events.push({ status: 'matched', side, lead: 'tracker', delay_ms: Math.max(0, ts - tracker.ts), score });
+      } else {
+        state.swarmGoals.push({ side, ts });
+      }
+    }
+  }
+  return events;
+}
+
+/** Report and drop the goals the other feed did not confirm within the window. */
+export function expireConsistency(state: ConsistencyState, now: number): ConsistencyEvent[] {
+  const events: ConsistencyEvent[] = [];
+  const expired = (g: PendingGoal) => now - g.ts >= state.windowMs;
+  for (const g of state.trackerGoals.filter(expired)) {
+    events.push({ status: 'mismatch', reason: 'tracker_goal_without_score', side: g.side, since_ts: g.ts, window_ms: state.windowMs, score: state.score });
+  }
+  for (const g of state.swarmGoals.filter(expired)) {
+    events.push({ status: 'mismatch', reason: 'score_without_tracker_goal', side: g.side, since_ts: g.ts, window_ms: state.windowMs, score: state.score });
+  }
+  state.trackerGoals = state.trackerGoals.filter((g) => !expired(g));
+  state.swarmGoals = state.swarmGoals.filter((g) => !expired(g));
+  return events;
+}
@@ -36,11 +36,20 @@ function mapEventLabel(e: Record<string, unknown>): string {
   return '';
 }
 
-export function buildOddsArrFromMarket(market: unknown): Array<{ label: string; price: unknown; blocked: boolean }> | null {
+export type OddsArrEntry = {
+  label: string;
+  price: unknown;
+  blocked: boolean;
+  eventId: string | null;
+  marketType: string | null;
+};
+
+export function buildOddsArrFromMarket(market: unknown): OddsArrEntry[] | null {
   if (!market || typeof market !== 'object') return null;
   const m = market as Record<string, unknown>;
 
   const marketBlocked = (m as any)?.is_blocked === true || (m as any)?.is_blocked === 1;
+  const marketType = m.type === null || m.type === undefined || m.type === '' ? null : String(m.type);
   const evMap = m.event && typeof m.event === 'object' ? (m.event as Record<string, unknown>) : {};
   const events = Object.values(evMap);
 
@@ -67,7 +76,9 @@ export function buildOddsArrFromMarket(market: unknown): Array<{ label: string;
     return {
       label,
       price: e?.price,
-      blocked: Boolean(marketBlocked || eventBlocked)
+      blocked: Boolean(marketBlocked || eventBlocked),
+      eventId: e?.id === null || e?.id === undefined || e?.id === '' ? null : String(e.id),
+      marketType
     };
   });
 
@@ -75,3 +86,78 @@ export function buildOddsArrFromMarket(market: unknown): Array<{ label: string;
   if (odds.length === 3) return odds;
   return null;
 }
+
+/**
+ * Margin-free probabilities of one market, in the order of its `odds` entries.
+ * `overround` is the sum of the raw implied probabilities (1.05 = 5% margin);
+ * `shin_z` is the insider-trading share estimated by Shin's method.
+ */
+/** Per-selection arrays follow the order of the odds; blocked selections are `null`. */
+export type MarketProbabilities = {
+  overround: number;
+  proportional: Array<number | null>;
+  shin: Array<number | null>;
+  shin_z: number;
+};
+
+const PROBABILITY_DIGITS = 4;
+
+function roundProbability(value: number): number {
+  const f = 10 ** PROBABILITY_DIGITS;
+  return Math.round(value * f) / f;
+}
+
+function shinProbabilities(implied: number[], booksum: number, z: number): number[] {
+  return implied.map((pi) => (Math.sqrt(z * z + (4 * (1 - z) * pi * pi) / booksum) - z) / (2 * (1 - z)));
+}
+
+/**
+ * Blocked selections are left out of the book. Null unless at least two open selections
+ * remain and every one of them has a decimal price above 1.
+ */
+export function computeMarketProbabilities(odds: unknown): MarketProbabilities | null {
+  if (!Array.isArray(odds)) return null;
+  const open: number[] = [];
+  const implied: number[] = [];
+  odds.forEach((o, i) => {
+    const entry = o && typeof o === 'object' ? (o as { price?: unknown; blocked?: unknown }) : {};
+    if (entry.blocked === true) return;
+    const price = Number(entry.price ?? NaN);
+    open.push(i);
+    implied.push(Number.isFinite(price) && price > 1 ? 1 / price : NaN);
+  });
+  if (implied.length < 2 || implied.some(Number.isNaN)) return null;
+
+  const booksum = implied.reduce((sum, p) => sum + p, 0);
+  const proportional = implied.map((p) => p / booksum);
+
+  let z = 0;
+  let shin = proportional;
+  if (booksum > 1) {
+    // The Shin probabilities sum to more than 1 at z = 0 and decrease in z: bisect for a sum of 1.
+    let lo = 0;
+    let hi = 0.999;
+    for (let i = 0; i < 60; i++) {
+      const mid = (lo + hi) / 2;
+      const sum = shinProbabilities(implied, booksum, mid).reduce((acc, p) => acc + p, 0);
+      if (sum > 1) lo = mid;
+      else hi = mid;
+    }
+    z = (lo + hi) / 2;
+    const raw = shinProbabilities(implied, booksum, z);
+    const total = raw.reduce((acc, p) => acc + p, 0);
+    shin = raw.map((p) => p / total);
+  }
+
+  const bySelection = (values: number[]) => {
+    const out: Array<number | null> = odds.map(() => null);
+    open.forEach((i, k) => (out[i] = roundProbability(values[k])));
+    return out;
+  };
+  return {
+    overround: roundProbability(booksum),
+    proportional: bySelection(proportional),
+    shin: bySelection(shin),
+    shin_z: roundProbability(z)
+  };
+}
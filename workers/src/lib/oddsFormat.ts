@@ -0,0 +1,284 @@
+import { computeMarketProbabilities } from './odds.js';
+import { createSseFrameDecoder, encodeSseEvent, type ClientWriter, type EncodedSseEvent } from './sseFrames.js';
+
+export type OddsFormat = 'decimal' | 'fractional' | 'american' | 'hongkong';
+
+export const ODDS_FORMATS: readonly OddsFormat[] = ['decimal', 'fractional', 'american', 'hongkong'];
+
+export const MARGIN_PCT_MIN = -20;
+export const MARGIN_PCT_MAX = 50;
+export const MAX_MARGIN_RULES = 200;
+export const MAX_MARGIN_PROFILES = 100;
+
+const PROFILE_ID_RE = /^[A-Za-z0-9_-]{1,40}$/;
+const FRACTION_MAX_DENOMINATOR = 100;
+const MIN_ADJUSTED_PRICE = 1.01;
+
+/** Margin for one sport and/or market type; the most specific matching rule wins. */
+export type MarginRule = {
+  sportId?: string;
+  marketType?: string;
+  marginPct: number;
+};
+
+/**
+ * A margin adjustment applied to outbound prices: each selection's implied
+ * probability is scaled by `1 + marginPct / 100` (negative values boost prices).
+ */
+export type MarginProfile = {
+  id: string;
+  name: string;
+  defaultMarginPct: number;
+  rules: MarginRule[];
+  updated_at: string;
+};
+
+/** How a stream client wants its prices: the format and the margin profile, with the sport it concerns. */
+export type OddsPresentation = {
+  format: OddsFormat;
+  profile: MarginProfile | null;
+  sportId: string | null;
+};
+
+function round(value: number, digits: number): number {
+  const f = 10 ** digits;
+  return Math.round(value * f) / f;
+}
+
+function toPrice(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+/** `null` for an unknown format; a missing parameter means decimal. */
+export function parseOddsFormat(raw: string | null | undefined): OddsFormat | null {
+  if (raw === null || raw === undefined || raw === '') return 'decimal';
+  const value = raw.trim().toLowerCase();
+  return (ODDS_FORMATS as readonly string[]).includes(value) ? (value as OddsFormat) : null;
+}
+
+export function isMarginProfileId(raw: unknown): raw is string {
+  return typeof raw === 'string' && PROFILE_ID_RE.test(raw);
+}
+
+function parseMarginPct(value: unknown): number | null {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return null;
+  if (value < MARGIN_PCT_MIN || value > MARGIN_PCT_MAX) return null;
+  return value;
+}
+
+/** Validate an admin-supplied profile body; `null` when any field is out of shape or range. */
+export function parseMarginProfile(id: string, input: unknown, now = Date.now()): MarginProfile | null {
+  if (!isMarginProfileId(id) || !input || typeof input !== 'object' || Array.isArray(input)) return null;
+  const body = input as Record<string, unknown>;
+
+  const defaultMarginPct = body.defaultMarginPct === undefined ? 0 : parseMarginPct(body.defaultMarginPct);
+  if (defaultMarginPct === null) return null;
+  if (body.name !== undefined && typeof body.name !== 'string') return null;
+
+  const rawRules = body.rules === undefined ? [] : body.rules;
+  if (!Array.isArray(rawRules) || rawRules.length > MAX_MARGIN_RULES) return null;
+
+  const rules: MarginRule[] = [];
+  for (const raw of rawRules) {
+    if (!raw || typeof raw !== 'object') return null;
+    const r = raw as Record<string, unknown>;
+    const marginPct = parseMarginPct(r.marginPct);
+    if (marginPct === null) return null;
+    const rule: MarginRule = { marginPct };
+    if (r.sportId !== undefined) {
+      if (typeof r.sportId !== 'string' && typeof r.sportId !== 'number') return null;
+      rule.sportId = String(r.sportId);
+    }
+    if (r.marketType !== undefined) {
+      if (typeof r.marketType !== 'string' || !r.marketType) return null;
+      rule.marketType = r.marketType.toUpperCase();
+    }
+    if (rule.sportId === undefined && rule.marketType === undefined) return null;
+    rules.push(rule);
+  }
+
+  return {
+    id,
+    name: typeof body.name === 'string' && body.name.trim() ? body.name.trim().slice(0, 100) : id,
+    defaultMarginPct,
+    rules,
+    updated_at: new Date(now).toISOString()
+  };
+}
+
+export function resolveMarginPct(profile: MarginProfile | null, sportId: string | null, marketType: string | null): number {
+  if (!profile) return 0;
+  const type = marketType ? marketType.toUpperCase() : null;
+  let best: MarginRule | null = null;
+  let bestScore = 0;
+  for (const rule of profile.rules) {
+    if (rule.sportId !== undefined && rule.sportId !== sportId) continue;
+    if (rule.marketType !== undefined && rule.marketType !== type) continue;
+    // A market type rule is more specific than a sport rule; both together beat either.
+    const score = (rule.sportId !== undefined ? 1 : 0) + (rule.marketType !== undefined ? 2 : 0);
+    if (score > bestScore) {
+      best = rule;
+      bestScore = score;
+    }
+  }
+  return best ? best.marginPct : profile.defaultMarginPct;
+}
+
+export function applyMargin(price: number, marginPct: number): number {
+  if (!marginPct || price <= 1) return price;
+  return Math.max(MIN_ADJUSTED_PRICE, round(price / (1 + marginPct / 100), 2));
+}
+
+/** Profit-to-stake as the closest fraction with a denominator up to 100, e.g. 2.5 -> `3/2`. */
+export function toFractionalOdds(decimal: number): string | null {
+  if (!Number.isFinite(decimal) || decimal <= 1) return null;
+  const target = decimal - 1;
+  // Continued-fraction convergents h/k, stopping before the denominator gets too large.
+  let [h0, h1, k0, k1] = [0, 1, 1, 0];
+  let x = target;
+  for (let i = 0; i < 32; i++) {
+    const a = Math.floor(x);
+    const h2 = a * h1 + h0;
+    const k2 = a * k1 + k0;
+    if (k2 > FRACTION_MAX_DENOMINATOR) break;
+    [h0, h1, k0, k1] = [h1, h2, k1, k2];
+    const frac = x - a;
+    if (frac < 1e-9 || Math.abs(h1 / k1 - target) < 1e-9) break;
+    x = 1 / frac;
+  }
+  if (h1 === 0) return `1/${FRACTION_MAX_DENOMINATOR}`;
+  return `${h1}/${k1}`;
+}
+
+export function toAmericanOdds(decimal: number): number | null {
+  if (!Number.isFinite(decimal) || decimal <= 1) return null;
+  return decimal >= 2 ? Math.round((decimal - 1) * 100) : -Math.round(100 / (decimal - 1));
+}
+
+export function toHongKongOdds(decimal: number): number | null {
+  if (!Number.isFinite(decimal) || decimal <= 1) return null;
+  return round(decimal - 1, 2);
+}
+
+/** Apply the margin, then convert. Missing or non-numeric prices stay `null`. */
+export function presentPrice(value: unknown, format: OddsFormat, marginPct: number): number | string | null {
+  const price = toPrice(value);
+  if (price === null) return null;
+  const adjusted = applyMargin(price, marginPct);
+  switch (format) {
+    case 'decimal':
+      return adjusted;
+    case 'fractional':
+      return toFractionalOdds(adjusted);
+    case 'american':
+      return toAmericanOdds(adjusted);
+    case 'hongkong':
+      return toHongKongOdds(adjusted);
+  }
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+}
+
+function asList(value: unknown): Record<string, unknown>[] {
+  if (!value || typeof value !== 'object') return [];
+  return Object.values(value).map(asRecord).filter(Boolean) as Record<string, unknown>[];
+}
+
+function presentSelections(selections: unknown, p: OddsPresentation, marginPct: number): void {
+  for (const s of asList(selections)) {
+    if ('price' in s) s.price = presentPrice(s.price, p.format, marginPct);
+    if ('prev_price' in s) s.prev_price = presentPrice(s.prev_price, p.format, marginPct);
+  }
+}
+
+/**
+ * Rewrite the prices of a stream event payload (`odds`, `markets` or `game`) for one
+ * client; other events and fields are returned untouched. `data` is modified in place.
+ */
+export function presentOddsEvent(event: string, data: unknown, p: OddsPresentation): unknown {
+  const root = asRecord(data);
+  if (!root) return data;
+  const sportId = root.sportId !== undefined && root.sportId !== null ? String(root.sportId) : p.sportId;
+
+  if (event === 'odds') {
+    for (const update of asList(root.updates)) {
+      const odds = Array.isArray(update.odds) ? update.odds : [];
+      const margined: Array<{ price: unknown; blocked: unknown }> = [];
+      for (const entry of asList(odds)) {
+        const marketType = typeof entry.marketType === 'string' ? entry.marketType : null;
+        const marginPct = resolveMarginPct(p.profile, sportId, marketType);
+        margined.push({ price: presentPrice(entry.price, 'decimal', marginPct), blocked: entry.blocked });
+        presentSelections([entry], p, marginPct);
+      }
+      // The probabilities describe the book this client is quoted, margin included.
+      if ('probabilities' in update) update.probabilities = computeMarketProbabilities(margined);
+    }
+  } else if (event === 'markets') {
+    for (const group of asList(root.groups)) {
+      for (const market of asList(group.markets)) {
+        const marginPct = resolveMarginPct(p.profile, sportId, typeof market.type === 'string' ? market.type : null);
+        presentSelections(market.selections, p, marginPct);
+        for (const line of asList(market.lines)) presentSelections(line.selections, p, marginPct);
+      }
+    }
+  } else if (event === 'game') {
+    const game = asRecord(root.data);
+    for (const market of asList(game?.market)) {
+      const marginPct = resolveMarginPct(p.profile, sportId, market.type == null ? null : String(market.type));
+      presentSelections(market.event, p, marginPct);
+    }
+  }
+  return data;
+}
+
+const PRICED_EVENTS = new Set(['odds', 'markets', 'game']);
+const SSE_COMMENTS_RE = /^(:[^\n]*\n\n)+$/;
+
+export type OddsWriterOptions = {
+  format: OddsFormat;
+  profile: () => MarginProfile | null;
+  sportId: string | null;
+  // Game streams may not know their sport up front; it is looked up from the game's alias.
+  resolveSportAlias?: (alias: string) => string | null;
+};
+
+/**
+ * Rewrites prices in odds, markets and game events for one client; groups keep
+ * broadcasting (and logging for replay) canonical decimal prices, so each event is
+ * presented from a copy.
+ */
+export function createOddsPresentationWriter(writer: ClientWriter, options: OddsWriterOptions): ClientWriter {
+  const decode = createSseFrameDecoder();
+  const decoder = new TextDecoder();
+  let sportId = options.sportId;
+  const present = (event: string, data: unknown): unknown => {
+    if (!sportId && event === 'game' && options.resolveSportAlias) {
+      const game = data && typeof data === 'object' ? (data as { data?: unknown }).data : null;
+      const alias = game && typeof game === 'object' ? (game as { sport_alias?: unknown }).sport_alias : null;
+      if (typeof alias === 'string' && alias) sportId = options.resolveSportAlias(alias);
+    }
+    return presentOddsEvent(event, structuredClone(data), { format: options.format, profile: options.profile(), sportId });
+  };
+  return {
+    async write(chunk: EncodedSseEvent): Promise<void> {
+      const { frame } = chunk;
+      if (frame) {
+        if (!PRICED_EVENTS.has(frame.event)) return writer.write(chunk);
+        return writer.write(encodeSseEvent(frame.event, present(frame.event, frame.data), frame.id));
+      }
+      // Bytes piped in from another shard: whole frames are re-encoded, heartbeats pass through
+      const frames = decode(chunk);
+      if (!frames.length && SSE_COMMENTS_RE.test(decoder.decode(chunk))) return writer.write(chunk);
+      for (const f of frames) {
+        await writer.write(encodeSseEvent(f.event, PRICED_EVENTS.has(f.event) ? present(f.event, f.data) : f.data, f.id));
+      }
+    },
+    close(): unknown {
+      return writer.close();
+    }
+  };
+}
@@ -0,0 +1,131 @@
+import type { MarketBook } from './marketBook.js';
+import type { OddsArrEntry } from './odds.js';
+
+export const ODDS_HISTORY_RETENTION_MS = 6 * 60 * 60 * 1000;
+export const ODDS_HISTORY_MAX_POINTS = 200;
+
+export type OddsChange = {
+  ts: number;
+  old: number | null;
+  new: number | null;
+  blocked: boolean;
+};
+
+/** Per-game history stored under one storage key, keyed by Swarm event (selection) id. */
+export type OddsHistoryBucket = {
+  updatedAtMs: number;
+  events: Record<string, OddsChange[]>;
+};
+
+export type SelectionPrice = {
+  price: number | null;
+  blocked: boolean;
+};
+
+export type OddsMovement = OddsArrEntry & {
+  prev_price: number | null;
+  direction: 'up' | 'down' | null;
+};
+
+function toPrice(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+export function pricesFromOddsArr(odds: OddsArrEntry[] | null | undefined): Map<string, SelectionPrice> {
+  const out = new Map<string, SelectionPrice>();
+  for (const o of odds ?? []) {
+    if (!o.eventId) continue;
+    out.set(o.eventId, { price: toPrice(o.price), blocked: o.blocked });
+  }
+  return out;
+}
+
+export function pricesFromMarketBook(book: MarketBook | null): Map<string, SelectionPrice> {
+  const out = new Map<string, SelectionPrice>();
+  for (const group of book?.groups ?? []) {
+    for (const market of group.markets) {
+      for (const s of market.selections) {
+        out.set(s.id, { price: s.price, blocked: s.blocked });
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * Selections whose price or blocked flag changed. Selections seen for the first
+ * time are not changes: history starts at the first movement.
+ */
+export function diffSelectionPrices(
+  prev: Map<string, SelectionPrice>,
+  next: Map<string, SelectionPrice>,
+  ts: number
+): Record<string, OddsChange> {
+  const changes: Record<string, OddsChange> = {};
+  for (const [eventId, cur] of next) {
+    const before = prev.get(eventId);
+    if (!before) continue;
+    if (before.price === cur.price && before.blocked === cur.blocked) continue;
+    changes[eventId] = { ts, old: before.price, new: cur.price, blocked: cur.blocked };
+  }
+  return changes;
+}
+
+/** Annotate a fresh odds array with the previous price of each selection. */
+export function annotateOddsMovement(prevOdds: OddsArrEntry[] | null | undefined, odds: OddsArrEntry[] | null): OddsMovement[] | null {
+  if (!Array.isArray(odds)) return null;
+  const prev = prevOdds ?? [];
+
+  return odds.map((o) => {
+    const match = prev.find((p) => (o.eventId ? p.eventId === o.eventId : p.label === o.label));
+    const before = toPrice(match?.price);
+    const after = toPrice(o.price);
+    if (before === null || after === null || before === after) {
+      return { ...o, prev_price: null, direction: null };
+    }
+    return { ...o, prev_price: before, direction: after > before ? 'up' : 'down' };
+  });
+}
+
+/**
+ * Merge new points into the bucket in time order. Every group tracking a game reports
+ * the same movement, each at its own time, so a point that leaves the price and blocked
+ * flag where the previous point already had them is a repeat and is dropped.
+ */
+export function appendOddsHistory(
+  bucket: OddsHistoryBucket | undefined,
+  changes: Record<string, OddsChange[]>,
+  now: number,
+  retentionMs = ODDS_HISTORY_RETENTION_MS,
+  maxPoints = ODDS_HISTORY_MAX_POINTS
+): OddsHistoryBucket {
+  const events: Record<string, OddsChange[]> = { ...(bucket?.events ?? {}) };
+  for (const [eventId, points] of Object.entries(changes)) {
+    const merged = [...(events[eventId] ?? []), ...points].sort((a, b) => a.ts - b.ts);
+    const kept: OddsChange[] = [];
+    for (const point of merged) {
+      const last = kept[kept.length - 1];
+      if (last && last.new === point.new && last.blocked === point.blocked) continue;
+      kept.push(point);
+    }
+    events[eventId] = kept;
+  }
+  return pruneOddsHistory({ updatedAtMs: now, events }, now, retentionMs, maxPoints);
+}
+
+export function pruneOddsHistory(
+  bucket: OddsHistoryBucket,
+  now: number,
+  retentionMs = ODDS_HISTORY_RETENTION_MS,
+  maxPoints = ODDS_HISTORY_MAX_POINTS
+): OddsHistoryBucket {
+  const cutoff = now - retentionMs;
+  const events: Record<string, OddsChange[]> = {};
+  for (const [eventId, points] of Object.entries(bucket.events)) {
+    const kept = points.filter((p) => p.ts >= cutoff).slice(-maxPoints);
+    if (kept.length) events[eventId] = kept;
+  }
+  return { updatedAtMs: bucket.updatedAtMs, events };
+}
@@ -1,238 +1,148 @@
-type AnyObj = Record<string, any>;
+import {
+  unwrapSwarmData,
+  type SwarmCollection,
+  type SwarmCompetition,
+  type SwarmData,
+  type SwarmGame,
+  type SwarmMarket,
+  type SwarmRegion,
+  type SwarmSport
+} from './swarmProtocol.js';
+
+export type ParsedGame = SwarmGame & {
+  sport: string;
+  region: string;
+  competition: string;
+  market: Record<string, SwarmMarket>;
+};
+
+type EntityMap<T> = SwarmCollection<T> | null | undefined;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
 
-export function parseGamesFromData(rawData: any, sportName = 'Unknown', sportId: string | number | null = null): any[] {
-  let data: any = rawData;
+function lookup<T>(map: EntityMap<T>, id: unknown): T | null {
+  if (!map) return null;
+  return (map as Record<string, T | null | undefined>)[String(id)] || null;
+}
 
-  if (rawData && rawData.data) {
-    data = rawData.data;
-    if (data && data.data) {
-      data = data.data;
-    }
+/**
+ * An entity given inline, by id, or by its key in a collection; the tree may
+ * reference entities from the top-level maps of the response.
+ */
+function resolveFromMap<T>(value: unknown, key: string | null, map: EntityMap<T>): T | null {
+  if (!map) return null;
+  if (typeof value === 'string' || typeof value === 'number') return lookup(map, value);
+  if (isRecord(value)) {
+    const looksLikeEntity = Boolean(value.name || value.game || value.competition || value.market || value.event);
+    if (looksLikeEntity) return value as T;
+    if (value.id !== null && value.id !== undefined && lookup(map, value.id)) return lookup(map, value.id);
   }
+  if (key !== null && lookup(map, key)) return lookup(map, key);
+  return null;
+}
 
-  const allGames: any[] = [];
-
-  const pushGame = (game: AnyObj, regionName: string, competitionName: string, resolvedSportName: string = sportName) => {
-    const markets: AnyObj = {};
-    if (game.market) {
-      for (const mId in game.market) {
-        const market = game.market[mId];
-        const events: AnyObj = {};
-        if (market.event) {
-          for (const eId in market.event) {
-            events[eId] = market.event[eId];
-          }
-        }
-        markets[mId] = { ...market, event: events };
-      }
-    }
+function resolveCollection<T>(refs: unknown, map: EntityMap<T>): T[] {
+  if (!refs || typeof refs !== 'object') return [];
+  if (Array.isArray(refs)) {
+    return refs
+      .map((v): T | null => (isRecord(v) ? (v as T) : lookup(map, v)))
+      .filter((v): v is T => Boolean(v));
+  }
+  return Object.entries(refs)
+    .map(([k, v]): T | null => resolveFromMap(v, k, map) || (v && typeof v === 'object' ? (v as T) : null))
+    .filter((v): v is T => Boolean(v));
+}
 
-    allGames.push({
-      ...game,
-      sport: resolvedSportName,
-      region: regionName,
-      competition: competitionName,
-      market: markets
-    });
-  };
+/** Name of the entity `ref` points to, else the reference itself. */
+function refName<T extends { name?: string }>(ref: unknown, map: EntityMap<T>, fallback: string): string {
+  if (ref === null || ref === undefined || ref === '') return fallback;
+  return String(resolveFromMap(ref, null, map)?.name || ref);
+}
 
-  const resolveFromMap = (value: any, key: any, map: AnyObj | null) => {
-    if (!map) return null;
-    if (value !== null && value !== undefined && (typeof value === 'string' || typeof value === 'number')) {
-      return map[String(value)] || null;
-    }
-    if (value && typeof value === 'object' && !Array.isArray(value)) {
-      const looksLikeEntity = Boolean(value.name || value.game || value.competition || value.market || value.event);
-      if (looksLikeEntity) return value;
-      if (value.id !== null && value.id !== undefined && map[String(value.id)]) return map[String(value.id)];
+export function parseGamesFromData(rawData: unknown, sportName = 'Unknown', sportId: string | number | null = null): ParsedGame[] {
+  const data: SwarmData | null = unwrapSwarmData(rawData);
+  if (!data) return [];
+
+  const allGames: ParsedGame[] = [];
+
+  const pushGame = (game: SwarmGame, regionName: string, competitionName: string, resolvedSportName: string = sportName) => {
+    const markets: Record<string, SwarmMarket> = {};
+    for (const [mId, market] of Object.entries(game.market ?? {})) {
+      if (!market) continue;
+      markets[mId] = { ...market, event: { ...(market.event ?? {}) } };
     }
-    if (key !== null && key !== undefined && map[String(key)]) return map[String(key)];
-    return null;
+    allGames.push({ ...game, sport: resolvedSportName, region: regionName, competition: competitionName, market: markets });
   };
 
-  const resolveCollection = (refs: any, map: AnyObj | null) => {
-    if (!refs) return [];
-    if (Array.isArray(refs)) {
-      return refs
-        .map((v) => {
-          if (v && typeof v === 'object' && !Array.isArray(v)) return v;
-          if (map) return map[String(v)] || null;
-          return null;
-        })
-        .filter(Boolean);
-    }
-    if (typeof refs === 'object') {
-      return Object.entries(refs)
-        .map(([k, v]) => resolveFromMap(v, k, map) || (v && typeof v === 'object' ? v : null))
-        .filter(Boolean);
-    }
-    return [];
+  // A game listed without its region and competition names them by reference.
+  const looseGameNames = (game: SwarmGame, fallbackRegion: string) => {
+    const regionName = refName(game.region ?? game.region_id ?? game.regionId, data.region, fallbackRegion);
+    const competitionName = refName(game.competition ?? game.competition_id ?? game.competitionId, data.competition, 'Unknown');
+    return { regionName, competitionName };
   };
 
-  const targetSportId = sportId === null || sportId === undefined || sportId === '' ? null : String(sportId);
-  if (targetSportId && data && data.sport) {
-    let sport: any = null;
-    if ((data as any).sport && typeof (data as any).sport === 'object' && !Array.isArray((data as any).sport)) {
-      sport = (data as any).sport[targetSportId] || (data as any).sport[String(Number(targetSportId))] || null;
-    } else if (Array.isArray((data as any).sport)) {
-      sport = ((data as any).sport as any[]).find((s) => s && String((s as any).id) === String(targetSportId)) || null;
-    }
-    if (!sport) {
-      // fall through
-    } else {
-    const resolvedSportName = String(sport?.name || sportName);
-
-    if (sport?.region) {
-      const regions = resolveCollection(sport.region, data.region);
-      for (const region of regions) {
-        const competitions = resolveCollection((region as any)?.competition, sport.competition || data.competition);
-        for (const competition of competitions) {
-          const games = resolveCollection((competition as any)?.game, sport.game || data.game);
-          for (const game of games) {
-            pushGame(game as AnyObj, (region as any)?.name, (competition as any)?.name, resolvedSportName);
+  const walkSport = (sport: SwarmSport, resolvedSportName: string) => {
+    if (sport.region) {
+      for (const region of resolveCollection<SwarmRegion>(sport.region, data.region)) {
+        for (const competition of resolveCollection<SwarmCompetition>(region.competition, sport.competition || data.competition)) {
+          for (const game of resolveCollection<SwarmGame>(competition.game, sport.game || data.game)) {
+            pushGame(game, String(region.name ?? ''), String(competition.name ?? ''), resolvedSportName);
           }
         }
       }
-    } else if (sport?.competition) {
-      const competitions = resolveCollection(sport.competition, data.competition);
-      for (const competition of competitions) {
-        const games = resolveCollection((competition as any)?.game, sport.game || data.game);
-        for (const game of games) {
-          pushGame(game as AnyObj, resolvedSportName, (competition as any)?.name, resolvedSportName);
+    } else if (sport.competition) {
+      for (const competition of resolveCollection<SwarmCompetition>(sport.competition, data.competition)) {
+        for (const game of resolveCollection<SwarmGame>(competition.game, sport.game || data.game)) {
+          pushGame(game, resolvedSportName, String(competition.name ?? ''), resolvedSportName);
         }
       }
-    } else if (sport?.game) {
-      const games = resolveCollection(sport.game, data.game || null);
-      for (const game of games) {
-        let regionName = resolvedSportName;
-        const regionRef = (game as any)?.region ?? (game as any)?.region_id ?? (game as any)?.regionId;
-        if (regionRef !== null && regionRef !== undefined && regionRef !== '') {
-          const region = resolveFromMap(regionRef, null, (data as any)?.region || null) as AnyObj | null;
-          regionName = String(region?.name || regionRef);
-        }
-
-        let competitionName = 'Unknown';
-        const compRef = (game as any)?.competition ?? (game as any)?.competition_id ?? (game as any)?.competitionId;
-        if (compRef !== null && compRef !== undefined && compRef !== '') {
-          const comp = resolveFromMap(compRef, null, (data as any)?.competition || null) as AnyObj | null;
-          competitionName = String(comp?.name || compRef);
-        }
-
-        pushGame(game as AnyObj, regionName, competitionName, resolvedSportName);
+    } else if (sport.game) {
+      for (const game of resolveCollection<SwarmGame>(sport.game, data.game || null)) {
+        const { regionName, competitionName } = looseGameNames(game, resolvedSportName);
+        pushGame(game, regionName, competitionName, resolvedSportName);
       }
     }
-    }
+  };
+
+  const targetSportId = sportId === null || sportId === undefined || sportId === '' ? null : String(sportId);
+  if (targetSportId && data.sport) {
+    const sport = Array.isArray(data.sport)
+      ? data.sport.find((s) => s && String(s.id) === targetSportId) || null
+      : data.sport[targetSportId] || data.sport[String(Number(targetSportId))] || null;
+    if (sport) walkSport(sport, String(sport.name || sportName));
   }
 
   if (targetSportId && allGames.length > 0) return allGames;
 
-  if (!targetSportId && data && data.region) {
-    for (const regionId in data.region) {
-      const region = data.region[regionId];
-      const competitions = resolveCollection(region?.competition, data.competition);
-      for (const competition of competitions) {
-        const games = resolveCollection((competition as any)?.game, data.game);
-        for (const game of games) {
-          pushGame(game as AnyObj, region?.name || regionId, (competition as any)?.name);
+  if (!targetSportId && data.region) {
+    for (const [regionId, region] of Object.entries(data.region)) {
+      for (const competition of resolveCollection<SwarmCompetition>(region?.competition, data.competition)) {
+        for (const game of resolveCollection<SwarmGame>(competition.game, data.game)) {
+          pushGame(game, String(region?.name || regionId), String(competition.name ?? ''));
         }
       }
     }
   }
 
-  if (allGames.length === 0 && data && data.sport) {
-    const entries = targetSportId ? [[targetSportId, data.sport[targetSportId]]] : Object.entries(data.sport);
-    for (const [sId, sport] of entries) {
-      if (!sport) continue;
-      const resolvedSportName = String((sport as any)?.name || sportName);
-
-      if (sport?.region) {
-        const regions = resolveCollection(sport.region, data.region);
-        for (const region of regions) {
-          const competitions = resolveCollection((region as any)?.competition, sport.competition || data.competition);
-          for (const competition of competitions) {
-            const games = resolveCollection((competition as any)?.game, sport.game || data.game);
-            for (const game of games) {
-              pushGame(game as AnyObj, (region as any)?.name, (competition as any)?.name, resolvedSportName);
-            }
-          }
-        }
-      } else if (sport?.competition) {
-        const competitions = resolveCollection(sport.competition, data.competition);
-        for (const competition of competitions) {
-          const games = resolveCollection((competition as any)?.game, sport.game || data.game);
-          for (const game of games) {
-            pushGame(game as AnyObj, resolvedSportName, (competition as any)?.name, resolvedSportName);
-          }
-        }
-      } else if ((sport as any)?.game) {
-        const games = resolveCollection((sport as any).game, (data as any).game || null);
-        for (const game of games) {
-          let regionName = resolvedSportName;
-          const regionRef = (game as any)?.region ?? (game as any)?.region_id ?? (game as any)?.regionId;
-          if (regionRef !== null && regionRef !== undefined && regionRef !== '') {
-            const region = resolveFromMap(regionRef, null, (data as any)?.region || null) as AnyObj | null;
-            regionName = String(region?.name || regionRef);
-          }
-
-          let competitionName = 'Unknown';
-          const compRef = (game as any)?.competition ?? (game as any)?.competition_id ?? (game as any)?.competitionId;
-          if (compRef !== null && compRef !== undefined && compRef !== '') {
-            const comp = resolveFromMap(compRef, null, (data as any)?.competition || null) as AnyObj | null;
-            competitionName = String(comp?.name || compRef);
-          }
-
-          pushGame(game as AnyObj, regionName, competitionName, resolvedSportName);
-        }
-      }
+  if (allGames.length === 0 && data.sport) {
+    const entries: Array<[string, SwarmSport | null | undefined]> = targetSportId
+      ? [[targetSportId, lookup(data.sport, targetSportId)]]
+      : Object.entries(data.sport);
+    for (const [, sport] of entries) {
+      if (sport) walkSport(sport, String(sport.name || sportName));
     }
   }
 
-  if (allGames.length === 0 && data && data.game && typeof data.game === 'object') {
+  if (allGames.length === 0 && data.game && typeof data.game === 'object') {
     for (const [k, v] of Object.entries(data.game)) {
-      if (!v || typeof v !== 'object' || Array.isArray(v)) continue;
-      const game = v as AnyObj;
-
-      let regionName = 'Unknown';
-      const regionRef = (game as any)?.region ?? (game as any)?.region_id ?? (game as any)?.regionId;
-      if (regionRef !== null && regionRef !== undefined && regionRef !== '') {
-        const region = resolveFromMap(regionRef, null, data.region || null) as AnyObj | null;
-        regionName = String(region?.name || regionRef);
-      }
-
-      let competitionName = 'Unknown';
-      const compRef = (game as any)?.competition ?? (game as any)?.competition_id ?? (game as any)?.competitionId;
-      if (compRef !== null && compRef !== undefined && compRef !== '') {
-        const comp = resolveFromMap(compRef, null, data.competition || null) as AnyObj | null;
-        competitionName = String(comp?.name || compRef);
-      }
-
+      if (!isRecord(v)) continue;
+      const game: SwarmGame = v;
+      const { regionName, competitionName } = looseGameNames(game, 'Unknown');
       if (game.id === null || game.id === undefined || game.id === '') {
         game.id = k;
       }
-
-      pushGame(game, regionName, competitionName);
-    }
-  }
-
-  if (allGames.length === 0 && data && Array.isArray((data as any).game)) {
-    for (const raw of (data as any).game) {
-      if (!raw || typeof raw !== 'object' || Array.isArray(raw)) continue;
-      const game = raw as AnyObj;
-
-      let regionName = 'Unknown';
-      const regionRef = (game as any)?.region ?? (game as any)?.region_id ?? (game as any)?.regionId;
-      if (regionRef !== null && regionRef !== undefined && regionRef !== '') {
-        const region = resolveFromMap(regionRef, null, (data as any)?.region || null) as AnyObj | null;
-        regionName = String(region?.name || regionRef);
-      }
-
-      let competitionName = 'Unknown';
-      const compRef = (game as any)?.competition ?? (game as any)?.competition_id ?? (game as any)?.competitionId;
-      if (compRef !== null && compRef !== undefined && compRef !== '') {
-        const comp = resolveFromMap(compRef, null, (data as any)?.competition || null) as AnyObj | null;
-        competitionName = String(comp?.name || compRef);
-      }
-
       pushGame(game, regionName, competitionName);
     }
   }
@@ -0,0 +1,259 @@
+import { foldText, type ResultGamesCursor } from './resultsHistory.js';
+import { parseResultScore } from './settlement.js';
+import type { SwarmResultGame } from './swarmProtocol.js';
+
+/**
+ * Finished games and their `get_results` settlements, kept in the coordinator's SQLite
+ * storage. A day is archived per sport once it is final, so a day row means "complete".
+ */
+const SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS result_days (
+    sport_id INTEGER NOT NULL,
+    day INTEGER NOT NULL,
+    games INTEGER NOT NULL,
+    archived_at INTEGER NOT NULL,
+    PRIMARY KEY (sport_id, day)
+  )`,
+  `CREATE TABLE IF NOT EXISTS result_games (
+    game_id TEXT PRIMARY KEY,
+    sport_id INTEGER NOT NULL,
+    day INTEGER NOT NULL,
+    date INTEGER NOT NULL,
+    team1_name TEXT,
+    team2_name TEXT,
+    team1_fold TEXT NOT NULL,
+    team2_fold TEXT NOT NULL,
+    competition_id TEXT,
+    competition_fold TEXT NOT NULL,
+    region_id TEXT,
+    region_fold TEXT NOT NULL,
+    scores TEXT,
+    score1 INTEGER,
+    score2 INTEGER,
+    raw TEXT NOT NULL
+  )`,
+  'CREATE INDEX IF NOT EXISTS result_games_by_sport ON result_games (sport_id, date DESC)',
+  'CREATE INDEX IF NOT EXISTS result_games_by_competition ON result_games (competition_id, date DESC)',
+  'CREATE INDEX IF NOT EXISTS result_games_by_day ON result_games (sport_id, day)',
+  `CREATE TABLE IF NOT EXISTS result_settlements (
+    game_id TEXT PRIMARY KEY,
+    raw TEXT NOT NULL,
+    fetched_at INTEGER NOT NULL
+  )`,
+  // Empty responses used to be stored as "null" and kept their games from ever settling.
+  `DELETE FROM result_settlements WHERE raw = 'null'`
+];
+
+export type ArchiveGamesQuery = {
+  sportId: number | null;
+  from: number | null;
+  to: number | null;
+  competitionId: string | null;
+  competitionName: string | null;
+  regionId: string | null;
+  regionName: string | null;
+  team: string | null;
+  score: { team1: number; team2: number } | null;
+  cursor: ResultGamesCursor | null;
+  limit: number;
+};
+
+export type ArchiveStatus = {
+  days: number;
+  games: number;
+  settlements: number;
+  pending_settlements: number;
+  oldest_pending_date: number | null;
+  oldest_day: number | null;
+  newest_day: number | null;
+};
+
+export function ensureResultsArchiveSchema(sql: SqlStorage): void {
+  for (const statement of SCHEMA) sql.exec(statement);
+}
+
+function refOrNull(value: unknown): string | null {
+  return value === null || value === undefined || value === '' ? null : String(value);
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+/** `2:1` or `2-1`; `null` when absent or malformed. */
+export function parseScoreFilter(raw: string | null): { team1: number; team2: number } | null {
+  if (!raw) return null;
+  const match = raw.trim().match(/^(\d+)\s*[:-]\s*(\d+)$/);
+  return match ? { team1: Number(match[1]), team2: Number(match[2]) } : null;
+}
+
+// Numeric ids compare by length first, so `999` sorts before `1000` as a number would.
+const ORDER_BY = 'ORDER BY date DESC, length(game_id) DESC, game_id DESC';
+
+/** The SQL and bindings for a page of archived games, newest first. */
+export function buildArchiveGamesQuery(q: ArchiveGamesQuery): { sql: string; params: unknown[] } {
+  const where: string[] = [];
+  const params: unknown[] = [];
+
+  if (q.sportId !== null) {
+    where.push('sport_id = ?');
+    params.push(q.sportId);
+  }
+  if (q.from !== null) {
+    where.push('date >= ?');
+    params.push(q.from);
+  }
+  if (q.to !== null) {
+    where.push('date < ?');
+    params.push(q.to);
+  }
+  if (q.competitionId !== null) {
+    where.push('(competition_id = ? OR (competition_id IS NULL AND competition_fold = ?))');
+    params.push(q.competitionId, foldText(q.competitionName ?? ''));
+  }
+  if (q.regionId !== null) {
+    where.push('(region_id = ? OR (region_id IS NULL AND region_fold = ?))');
+    params.push(q.regionId, foldText(q.regionName ?? ''));
+  }
+  if (q.team) {
+    const like = `%${escapeLike(foldText(q.team))}%`;
+    where.push("(team1_fold LIKE ? ESCAPE '\\' OR team2_fold LIKE ? ESCAPE '\\')");
+    params.push(like, like);
+  }
+  if (q.score) {
+    where.push('score1 = ? AND score2 = ?');
+    params.push(q.score.team1, q.score.team2);
+  }
+  if (q.cursor) {
+    where.push(
+      '(date < ? OR (date = ? AND (length(game_id) < length(?) OR (length(game_id) = length(?) AND game_id < ?))))'
+    );
+    const id = q.cursor.gameId;
+    params.push(q.cursor.date, q.cursor.date, id, id, id);
+  }
+
+  const clause = where.length ? `WHERE ${where.join(' AND ')} ` : '';
+  // One extra row tells whether there is a next page.
+  params.push(q.limit + 1);
+  return { sql: `SELECT raw, date, game_id FROM result_games ${clause}${ORDER_BY} LIMIT ?`, params };
+}
+
+export function queryArchivedGames(sql: SqlStorage, q: ArchiveGamesQuery): { games: SwarmResultGame[]; next_cursor: string | null } {
+  const { sql: query, params } = buildArchiveGamesQuery(q);
+  const rows = sql.exec<{ raw: string; date: number; game_id: string }>(query, ...params).toArray();
+  const page = rows.slice(0, q.limit);
+  const last = page[page.length - 1];
+  return {
+    games: page.map((r) => JSON.parse(r.raw) as SwarmResultGame),
+    next_cursor: rows.length > q.limit && last ? `${last.date}_${last.game_id}` : null
+  };
+}
+
+/** Archived games of one sport and day, or `null` when the day has not been archived. */
+export function readArchivedResultDay(sql: SqlStorage, sportId: number, day: number): SwarmResultGame[] | null {
+  const known = sql.exec<{ games: number }>('SELECT games FROM result_days WHERE sport_id = ? AND day = ?', sportId, day).toArray();
+  if (!known.length) return null;
+  return sql
+    .exec<{ raw: string }>(`SELECT raw FROM result_games WHERE sport_id = ? AND day = ? ${ORDER_BY}`, sportId, day)
+    .toArray()
+    .map((r) => JSON.parse(r.raw) as SwarmResultGame);
+}
+
+export function archiveResultDay(sql: SqlStorage, sportId: number, day: number, games: SwarmResultGame[], now = Date.now()): void {
+  let stored = 0;
+  for (const g of games) {
+    const gameId = refOrNull(g.game_id);
+    const date = Number(g.date);
+    if (!gameId || !Number.isFinite(date)) continue;
+    const score = parseResultScore(g.scores);
+    sql.exec(
+      `INSERT OR REPLACE INTO result_games
+        (game_id, sport_id, day, date, team1_name, team2_name, team1_fold, team2_fold,
+         competition_id, competition_fold, region_id, region_fold, scores, score1, score2, raw)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      gameId,
+      sportId,
+      day,
+      date,
+      refOrNull(g.team1_name),
+      refOrNull(g.team2_name),
+      foldText(g.team1_name),
+      foldText(g.team2_name),
+      refOrNull(g.competition_id),
+      foldText(g.competition_name),
+      refOrNull(g.region_id),
+      foldText(g.region_name),
+      refOrNull(g.scores),
+      score?.final?.team1 ?? null,
+      score?.final?.team2 ?? null,
+      JSON.stringify(g)
+    );
+    stored += 1;
+  }
+  sql.exec('INSERT OR REPLACE INTO result_days (sport_id, day, games, archived_at) VALUES (?, ?, ?, ?)', sportId, day, stored, now);
+}
+
+export function isResultDayArchived(sql: SqlStorage, sportId: number, day: number): boolean {
+  return sql.exec('SELECT 1 AS found FROM result_days WHERE sport_id = ? AND day = ?', sportId, day).toArray().length > 0;
+}
+
+export function readArchivedSettlement(sql: SqlStorage, gameId: string): unknown | null {
+  const rows = sql.exec<{ raw: string }>('SELECT raw FROM result_settlements WHERE game_id = ?', gameId).toArray();
+  return rows.length ? JSON.parse(rows[0].raw) : null;
+}
+
+/**
+ * Settlements are only kept for archived games; others may still change. An empty
+ * response is not stored, so the game stays pending and is fetched again next run.
+ */
+export function archiveSettlement(sql: SqlStorage, gameId: string, raw: unknown, now = Date.now()): boolean {
+  if (raw === null || typeof raw !== 'object' || Object.keys(raw).length === 0) return false;
+  const known = sql.exec('SELECT 1 AS found FROM result_games WHERE game_id = ?', gameId).toArray().length > 0;
+  if (!known) return false;
+  sql.exec('INSERT OR REPLACE INTO result_settlements (game_id, raw, fetched_at) VALUES (?, ?, ?)', gameId, JSON.stringify(raw), now);
+  return true;
+}
+
+/** Archived games still waiting for their settlement, oldest first so none is left behind. */
+export function pendingSettlementGameIds(sql: SqlStorage, limit: number): string[] {
+  return sql
+    .exec<{ game_id: string }>(
+      `SELECT g.game_id FROM result_games g
+       LEFT JOIN result_settlements s ON s.game_id = g.game_id
+       WHERE s.game_id IS NULL
+       ORDER BY g.date ASC LIMIT ?`,
+      limit
+    )
+    .toArray()
+    .map((r) => r.game_id);
+}
+
+/**
+ * Settlements to fetch in one run: enough to clear `pending` within `runs` runs, but
+ * no fewer than `min` and no more than `max`.
+ */
+export function settlementBatchSize(pending: number, runs: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, Math.ceil(pending / runs)));
+}
+
+export function getArchiveStatus(sql: SqlStorage): ArchiveStatus {
+  const days = sql.exec<{ n: number; oldest: number | null; newest: number | null }>(
+    'SELECT COUNT(*) AS n, MIN(day) AS oldest, MAX(day) AS newest FROM result_days'
+  ).one();
+  const games = sql.exec<{ n: number }>('SELECT COUNT(*) AS n FROM result_games').one();
+  const settlements = sql.exec<{ n: number }>('SELECT COUNT(*) AS n FROM result_settlements').one();
+  const pending = sql.exec<{ n: number; oldest: number | null }>(
+    `SELECT COUNT(*) AS n, MIN(g.date) AS oldest FROM result_games g
+     LEFT JOIN result_settlements s ON s.game_id = g.game_id
+     WHERE s.game_id IS NULL`
+  ).one();
+  return {
+    days: days.n,
+    games: games.n,
+    settlements: settlements.n,
+    pending_settlements: pending.n,
+    oldest_pending_date: pending.oldest,
+    oldest_day: days.oldest,
+    newest_day: days.newest
+  };
+}
@@ -0,0 +1,108 @@
+import type { SwarmResultGame } from './swarmProtocol.js';
+
+export const RESULTS_DAY_SEC = 86400;
+export const RESULTS_MAX_DAYS = 31;
+export const RESULTS_PAGE_DEFAULT_LIMIT = 200;
+export const RESULTS_PAGE_MAX_LIMIT = 1000;
+
+// Results keep trickling in for a while after a day ends; until then the day is not final.
+export const RESULTS_DAY_SETTLE_SEC = 6 * 3600;
+
+export type ResultGamesFilter = {
+  competitionId: string | null;
+  // Used when the result games carry only a competition name.
+  competitionName: string | null;
+  regionId: string | null;
+  regionName: string | null;
+  team: string | null;
+};
+
+export type ResultGamesCursor = { date: number; gameId: string };
+
+/** UTC day starts covering `[fromSec, toSec)`. */
+export function splitResultDays(fromSec: number, toSec: number): number[] {
+  const days: number[] = [];
+  for (let day = fromSec - (fromSec % RESULTS_DAY_SEC); day < toSec; day += RESULTS_DAY_SEC) {
+    days.push(day);
+  }
+  return days;
+}
+
+export function isResultDayFinal(daySec: number, nowSec: number): boolean {
+  return daySec + RESULTS_DAY_SEC + RESULTS_DAY_SETTLE_SEC <= nowSec;
+}
+
+/** Lower-case and strip accents, so `Atlético` matches `atletico`. */
+export function foldText(value: unknown): string {
+  return String(value ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim();
+}
+
+function matchesRef(id: unknown, name: unknown, wantId: string | null, wantName: string | null): boolean {
+  if (wantId === null) return true;
+  if (id !== null && id !== undefined && id !== '') return String(id) === wantId;
+  return wantName !== null && foldText(name) === foldText(wantName);
+}
+
+export function filterResultGames(games: SwarmResultGame[], filter: ResultGamesFilter): SwarmResultGame[] {
+  const team = filter.team ? foldText(filter.team) : null;
+  return games.filter((g) => {
+    if (!matchesRef(g.competition_id, g.competition_name, filter.competitionId, filter.competitionName)) return false;
+    if (!matchesRef(g.region_id, g.region_name, filter.regionId, filter.regionName)) return false;
+    if (team && !foldText(g.team1_name).includes(team) && !foldText(g.team2_name).includes(team)) return false;
+    return true;
+  });
+}
+
+function gameDate(g: SwarmResultGame): number {
+  const n = Number(g.date);
+  return Number.isFinite(n) ? n : 0;
+}
+
+function compareResultGames(a: { date: number; gameId: string }, b: { date: number; gameId: string }): number {
+  // Newest first; the game id breaks ties so pages never overlap.
+  if (a.date !== b.date) return b.date - a.date;
+  return b.gameId.localeCompare(a.gameId, undefined, { numeric: true });
+}
+
+function sortKey(g: SwarmResultGame): ResultGamesCursor {
+  return { date: gameDate(g), gameId: String(g.game_id ?? '') };
+}
+
+export function encodeResultsCursor(cursor: ResultGamesCursor): string {
+  return `${cursor.date}_${cursor.gameId}`;
+}
+
+export function parseResultsCursor(raw: string | null): ResultGamesCursor | null {
+  if (!raw) return null;
+  const match = raw.match(/^(\d+)_([A-Za-z0-9-]+)$/);
+  if (!match) return null;
+  return { date: Number(match[1]), gameId: match[2] };
+}
+
+/** `null` for a limit that is not a positive integer; a missing one means the default. */
+export function parseResultsLimit(raw: string | null): number | null {
+  if (raw === null || raw === '') return RESULTS_PAGE_DEFAULT_LIMIT;
+  if (!/^\d+$/.test(raw) || Number(raw) < 1) return null;
+  return Math.min(Number(raw), RESULTS_PAGE_MAX_LIMIT);
+}
+
+/**
+ * Sort newest first and cut the page after `cursor`. The cursor is the last game of the
+ * previous page rather than an offset, so games arriving for today do not shift pages.
+ */
+export function pageResultGames(games: SwarmResultGame[], cursor: ResultGamesCursor | null, limit: number) {
+  const sorted = [...games].sort((a, b) => compareResultGames(sortKey(a), sortKey(b)));
+  const start = cursor ? sorted.findIndex((g) => compareResultGames(sortKey(g), cursor) > 0) : 0;
+  const page = start < 0 ? [] : sorted.slice(start, start + limit);
+  const last = page[page.length - 1];
+  const hasMore = start >= 0 && start + page.length < sorted.length;
+  return {
+    total: sorted.length,
+    games: page,
+    next_cursor: hasMore && last ? encodeResultsCursor(sortKey(last)) : null
+  };
+}
@@ -0,0 +1,282 @@
+import { foldText } from './resultsHistory.js';
+import { unwrapSwarmData, type SwarmCollection } from './swarmProtocol.js';
+
+export type SearchHitType = 'sport' | 'region' | 'competition' | 'team';
+
+export const SEARCH_HIT_TYPES: SearchHitType[] = ['sport', 'region', 'competition', 'team'];
+export const SEARCH_MIN_QUERY_LENGTH = 2;
+export const SEARCH_DEFAULT_LIMIT = 20;
+export const SEARCH_MAX_LIMIT = 100;
+
+/** A team currently listed by a live or prematch sport stream. */
+export type ActiveTeamGame = {
+  gameId: string;
+  mode: 'live' | 'prematch';
+  sportId: string;
+  sportName: string;
+  regionId: string | null;
+  region: string | null;
+  competitionId: string | null;
+  competition: string | null;
+  team1: string;
+  team2: string | null;
+  start_ts: number | null;
+  // How many markets the game offers, which ranks live games for featured trackers.
+  markets_count: number | null;
+};
+
+/**
+ * One searchable name. The ids are the ones the stream endpoints take, and `streams`
+ * lists the endpoints that can be opened for the hit as they are.
+ */
+export type SearchEntry = {
+  type: SearchHitType;
+  id: string;
+  name: string;
+  sportId: string | null;
+  sportName: string | null;
+  regionId: string | null;
+  regionName: string | null;
+  competitionId: string | null;
+  competitionName: string | null;
+  gameId: string | null;
+  mode: 'live' | 'prematch' | null;
+  opponent: string | null;
+  start_ts: number | null;
+  streams: string[];
+};
+
+export type SearchHit = SearchEntry & { score: number };
+
+type IndexedEntry = { entry: SearchEntry; folded: string; words: string[] };
+
+export type SearchIndex = IndexedEntry[];
+
+function refOrNull(value: unknown): string | null {
+  return value === null || value === undefined || value === '' ? null : String(value);
+}
+
+function collectionEntries<T extends object>(node: SwarmCollection<T> | null | undefined): Array<[string, T]> {
+  if (!node || typeof node !== 'object') return [];
+  return Object.entries(node).filter((e): e is [string, T] => Boolean(e[1]) && typeof e[1] === 'object');
+}
+
+function entry(partial: Partial<SearchEntry> & Pick<SearchEntry, 'type' | 'id' | 'name'>): SearchEntry {
+  return {
+    sportId: null,
+    sportName: null,
+    regionId: null,
+    regionName: null,
+    competitionId: null,
+    competitionName: null,
+    gameId: null,
+    mode: null,
+    opponent: null,
+    start_ts: null,
+    streams: [],
+    ...partial
+  };
+}
+
+function sportStreams(sportId: string): string[] {
+  return [`/api/live-stream?sportId=${sportId}`, `/api/prematch-stream?sportId=${sportId}`];
+}
+
+/**
+ * Sports, regions and competitions of the hierarchy tree. Regions and competitions are
+ * listed per sport, since the streams that take them are per sport as well.
+ */
+export function collectHierarchyEntries(hierarchy: unknown): SearchEntry[] {
+  const out: SearchEntry[] = [];
+
+  for (const [sid, sport] of collectionEntries(unwrapSwarmData(hierarchy)?.sport)) {
+    const sportId = String(sport.id ?? sid);
+    const sportName = refOrNull(sport.name);
+    if (sportName) out.push(entry({ type: 'sport', id: sportId, name: sportName, sportId, sportName, streams: sportStreams(sportId) }));
+
+    for (const [rid, region] of collectionEntries(sport.region)) {
+      const regionId = String(region.id ?? rid);
+      const regionName = refOrNull(region.name);
+      if (regionName) {
+        out.push(entry({ type: 'region', id: regionId, name: regionName, sportId, sportName, regionId, regionName, streams: sportStreams(sportId) }));
+      }
+
+      for (const [cid, competition] of collectionEntries(region.competition)) {
+        const competitionId = String(competition.id ?? cid);
+        const competitionName = refOrNull(competition.name);
+        if (!competitionName) continue;
+        out.push(
+          entry({
+            type: 'competition',
+            id: competitionId,
+            name: competitionName,
+            sportId,
+            sportName,
+            regionId,
+            regionName,
+            competitionId,
+            competitionName,
+            streams: ['live', 'prematch'].map(
+              (mode) => `/api/competition-odds-stream?sportId=${sportId}&competitionId=${competitionId}&mode=${mode}`
+            )
+          })
+        );
+      }
+    }
+  }
+  return out;
+}
+
+/** Both teams of every active game; a game listed live and prematch keeps its live row. */
+export function collectTeamEntries(games: ActiveTeamGame[]): SearchEntry[] {
+  const byGame = new Map<string, ActiveTeamGame>();
+  for (const g of games) {
+    const seen = byGame.get(g.gameId);
+    if (!seen || (seen.mode === 'prematch' && g.mode === 'live')) byGame.set(g.gameId, g);
+  }
+
+  const out: SearchEntry[] = [];
+  for (const g of byGame.values()) {
+    const sides: Array<[string | null, string | null]> = [
+      [g.team1, g.team2],
+      [g.team2, g.team1]
+    ];
+    for (const [name, opponent] of sides) {
+      if (!name) continue;
+      out.push(
+        entry({
+          type: 'team',
+          id: g.gameId,
+          name,
+          sportId: g.sportId,
+          sportName: g.sportName,
+          regionId: g.regionId,
+          regionName: g.region,
+          competitionId: g.competitionId,
+          competitionName: g.competition,
+          gameId: g.gameId,
+          mode: g.mode,
+          opponent,
+          start_ts: g.start_ts,
+          streams: [`/api/live-game-stream?gameId=${g.gameId}`]
+        })
+      );
+    }
+  }
+  return out;
+}
+
+function splitWords(folded: string): string[] {
+  return folded.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+export function buildSearchIndex(entries: SearchEntry[]): SearchIndex {
+  return entries.map((e) => {
+    const folded = foldText(e.name);
+    return { entry: e, folded, words: splitWords(folded) };
+  });
+}
+
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let best = i;
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      best = Math.min(best, row[j]);
+    }
+    if (best > max) return max + 1;
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+/** Typos allowed in one query word: none below 4 letters, two from 8. */
+function allowedTypos(token: string): number {
+  if (token.length >= 8) return 2;
+  return token.length >= 4 ? 1 : 0;
+}
+
+/** Distance between `token` and the closest prefix of `word`, or `null` when too far. */
+function fuzzyPrefixDistance(token: string, word: string): number | null {
+  const max = allowedTypos(token);
+  if (max === 0) return null;
+  let best = max + 1;
+  for (let len = token.length - max; len <= token.length + max; len++) {
+    if (len < 1 || len > word.length) continue;
+    best = Math.min(best, editDistance(token, word.slice(0, len), max));
+  }
+  return best <= max ? best : null;
+}
+
+/**
+ * Score one name against the query words: the whole name, or the name starting with the
+ * query, ranks first, then every query word prefixing a word of the name, then
+ * substrings, then prefixes within a typo or two. `0` is no match.
+ */
+function scoreEntry(indexed: IndexedEntry, query: string, tokens: string[]): number {
+  if (indexed.folded === query) return 100;
+  if (indexed.folded.startsWith(query)) return 90;
+
+  let prefixWords = 0;
+  let typos = 0;
+  for (const token of tokens) {
+    if (indexed.words.some((w) => w.startsWith(token))) {
+      prefixWords += 1;
+      continue;
+    }
+    let closest: number | null = null;
+    for (const w of indexed.words) {
+      const d = fuzzyPrefixDistance(token, w);
+      if (d !== null && (closest === null || d < closest)) closest = d;
+    }
+    if (closest === null) return indexed.folded.includes(query) ? 50 : 0;
+    typos += closest;
+  }
+  if (prefixWords === tokens.length) return 80;
+  if (indexed.folded.includes(query)) return 50;
+  return Math.max(10, 40 - typos * 10);
+}
+
+export type SearchOptions = { types: SearchHitType[] | null; limit: number };
+
+/** Best hits first; within a score, shorter names and then sports before competitions and teams. */
+export function searchIndex(index: SearchIndex, q: string, options: SearchOptions): SearchHit[] {
+  const query = foldText(q);
+  const tokens = splitWords(query);
+  if (!tokens.length) return [];
+
+  const hits: SearchHit[] = [];
+  for (const indexed of index) {
+    if (options.types && !options.types.includes(indexed.entry.type)) continue;
+    const score = scoreEntry(indexed, query, tokens);
+    if (score > 0) hits.push({ ...indexed.entry, score });
+  }
+
+  const typeOrder = (t: SearchHitType) => SEARCH_HIT_TYPES.indexOf(t);
+  hits.sort(
+    (a, b) =>
+      b.score - a.score ||
+      a.name.length - b.name.length ||
+      typeOrder(a.type) - typeOrder(b.type) ||
+      a.name.localeCompare(b.name)
+  );
+  return hits.slice(0, options.limit);
+}
+
+/** `undefined` for an unknown type; a missing list (`null`) means every type. */
+export function parseSearchTypes(raw: string | null): SearchHitType[] | null | undefined {
+  if (!raw) return null;
+  const types = raw.split(',').map((t) => t.trim()).filter(Boolean);
+  if (!types.every((t): t is SearchHitType => (SEARCH_HIT_TYPES as string[]).includes(t))) return undefined;
+  return types;
+}
+
+/** `null` for a limit that is not a positive integer; a missing one means the default. */
+export function parseSearchLimit(raw: string | null): number | null {
+  if (raw === null || raw === '') return SEARCH_DEFAULT_LIMIT;
+  if (!/^\d+$/.test(raw) || Number(raw) < 1) return null;
+  return Math.min(Number(raw), SEARCH_MAX_LIMIT);
+}
@@ -0,0 +1,249 @@
+import { normalizeGameStats, periodLabel, type PeriodScore, type StatPair } from './gameStats.js';
+import type { MarketBook, MarketKind, MarketSide } from './marketBook.js';
+
+export type SettlementOutcome = 'won' | 'lost' | 'void' | 'half-won' | 'half-lost';
+
+export type CatalogSelection = {
+  id: string;
+  name: string;
+  type: string | null;
+  side: MarketSide | null;
+  line: number | null;
+};
+
+export type CatalogMarket = {
+  id: string;
+  name: string;
+  type: string | null;
+  kind: MarketKind;
+  base: number | null;
+  selections: CatalogSelection[];
+};
+
+/**
+ * The markets and selections a game was offered with, as last seen by its game shard,
+ * plus the score at that moment. Results only name the winners; this links them back
+ * to the Swarm market and event ids.
+ */
+export type SettlementCatalog = {
+  gameId: string;
+  sport: string | null;
+  team1: string;
+  team2: string;
+  score: StatPair | null;
+  periods: PeriodScore[];
+  markets: CatalogMarket[];
+  updated_at: string;
+};
+
+export type FinalScore = {
+  final: StatPair | null;
+  periods: PeriodScore[];
+};
+
+export type SettledSelection = {
+  event_id: string | null;
+  name: string;
+  type: string | null;
+  side: MarketSide | null;
+  line: number | null;
+  outcome: SettlementOutcome;
+};
+
+export type GameSettlement = {
+  market: string;
+  market_id: string | null;
+  market_type: string | null;
+  kind: MarketKind | null;
+  winners: string[];
+  selections: SettledSelection[];
+};
+
+export function buildSettlementCatalog(game: unknown, book: MarketBook, now = Date.now()): SettlementCatalog {
+  const g = (game && typeof game === 'object' ? game : {}) as Record<string, unknown>;
+  const stats = normalizeGameStats(game, now);
+  const hasScore = stats !== null && (stats.score.team1 !== null || stats.score.team2 !== null);
+  return {
+    gameId: book.gameId,
+    sport: stats?.sport ?? null,
+    team1: String(g.team1_name ?? ''),
+    team2: String(g.team2_name ?? ''),
+    score: hasScore ? stats!.score : null,
+    periods: stats?.periods ?? [],
+    markets: book.groups.flatMap((group) =>
+      group.markets.map((m) => ({
+        id: m.id,
+        name: m.name,
+        type: m.type,
+        kind: m.kind,
+        base: m.base,
+        selections: m.selections.map((s) => ({ id: s.id, name: s.name, type: s.type, side: s.side, line: s.line }))
+      }))
+    ),
+    updated_at: new Date(now).toISOString()
+  };
+}
+
+/** Changes when a market or selection appears or goes, or the score moves. */
+export function getSettlementCatalogFp(catalog: SettlementCatalog): string {
+  const ids = catalog.markets.map((m) => `${m.id}:${m.selections.map((s) => s.id).join(',')}`).join('|');
+  return `${catalog.score?.team1 ?? ''}-${catalog.score?.team2 ?? ''}/${catalog.periods.length}/${ids}`;
+}
+
+const SCORE_RE = /(\d+)\s*[:-]\s*(\d+)/;
+
+/** Parse a results score such as `2:1 (1:0, 1:1)` into the final score and its periods. */
+export function parseResultScore(text: unknown, sport: string | null = null): FinalScore | null {
+  if (typeof text !== 'string' || !text.trim()) return null;
+  const [head, ...rest] = text.split('(');
+  const final = head.match(SCORE_RE);
+  if (!final) return null;
+
+  const periods: PeriodScore[] = [];
+  const inner = rest.join('(').replace(/\).*$/, '');
+  for (const part of inner.split(/[,;]/)) {
+    const m = part.match(SCORE_RE);
+    if (!m) continue;
+    const period = periods.length + 1;
+    periods.push({ period, label: periodLabel(sport, period), team1: Number(m[1]), team2: Number(m[2]) });
+  }
+  return { final: { team1: Number(final[1]), team2: Number(final[2]) }, periods };
+}
+
+function settleMargin(margin: number): SettlementOutcome {
+  if (margin > 0) return 'won';
+  if (margin < 0) return 'lost';
+  return 'void';
+}
+
+/**
+ * Settle one handicap or total selection against the final score. Quarter lines
+ * (e.g. -0.75) are half a stake on each neighbouring line, which is where
+ * `half-won` and `half-lost` come from.
+ */
+export function settleLineSelection(kind: MarketKind, side: MarketSide | null, line: number, score: StatPair): SettlementOutcome | null {
+  if (score.team1 === null || score.team2 === null) return null;
+  const { team1, team2 } = score;
+
+  let marginAt: (l: number) => number;
+  if (kind === 'total' && side === 'over') marginAt = (l) => team1 + team2 - l;
+  else if (kind === 'total' && side === 'under') marginAt = (l) => l - (team1 + team2);
+  else if (kind === 'handicap' && side === 'home') marginAt = (l) => team1 + l - team2;
+  else if (kind === 'handicap' && side === 'away') marginAt = (l) => team2 + l - team1;
+  else return null;
+
+  const isQuarter = Math.abs((line * 4) % 2) === 1;
+  if (!isQuarter) return settleMargin(marginAt(line));
+
+  const halves = [settleMargin(marginAt(line - 0.25)), settleMargin(marginAt(line + 0.25))];
+  // The two halves are half a goal apart, so at most one of them can be void.
+  if (halves[0] === halves[1]) return halves[0];
+  return halves.includes('won') ? 'half-won' : 'half-lost';
+}
+
+// Handicap and total markets on the full-match goals or points, by Swarm type and by name.
+// Only these are settled from the final score.
+const FULL_MATCH_SCORE_TYPES = new Set(['overunder', 'total', 'totals', 'matchtotal', 'totalgoals', 'totalpoints', 'asianhandicap', 'matchhandicap', 'pointspread']);
+const FULL_MATCH_SCORE_NAMES = new Set(['total', 'total goals', 'total points', 'match total', 'over/under', 'goals over/under', 'asian handicap', 'match handicap', 'point spread']);
+
+// Anything scoped to part of the match, another statistic or one team is not the final
+// score. Names are matched by word; folded types have no word boundaries.
+const NOT_FULL_MATCH_WORDS = ['half', 'period', 'quarter', 'set', 'inning', 'corner', 'card', 'booking', 'foul', 'offside', 'shot', 'team', 'player'];
+const NOT_FULL_MATCH_NAME_RE = new RegExp(`\\b(${NOT_FULL_MATCH_WORDS.join('|')})|\\b[hqps]\\d\\b|\\d(st|nd|rd|th)\\b`);
+
+function foldType(value: string | null): string {
+  return (value ?? '').toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Whether the final score settles the market: a two-way handicap or total known to
+ * be on the full-match goals or points. A three-way handicap (with a draw) loses on a
+ * tie rather than voiding, so it is left to the named winners too.
+ */
+export function isFullMatchScoreMarket(market: CatalogMarket): boolean {
+  if (market.kind === 'standard') return false;
+  const type = foldType(market.type);
+  const name = normalizeName(market.name);
+  if (NOT_FULL_MATCH_WORDS.some((w) => type.includes(w)) || NOT_FULL_MATCH_NAME_RE.test(name)) return false;
+  if (market.selections.some((s) => s.side === 'draw')) return false;
+  return FULL_MATCH_SCORE_TYPES.has(type) || FULL_MATCH_SCORE_NAMES.has(name);
+}
+
+function normalizeName(value: unknown): string {
+  return String(value ?? '').trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function readWinners(line: Record<string, unknown>): string[] {
+  const events = line.events && typeof line.events === 'object' ? (line.events as Record<string, unknown>) : {};
+  const names = events.event_name;
+  if (Array.isArray(names)) return names.map((n) => String(n ?? '')).filter(Boolean);
+  if (typeof names === 'string' && names) return [names];
+  return [];
+}
+
+function isWinner(selection: CatalogSelection, winners: Set<string>): boolean {
+  return winners.has(normalizeName(selection.name)) || (selection.type !== null && winners.has(normalizeName(selection.type)));
+}
+
+function findMarket(catalog: SettlementCatalog | null, name: string, winners: Set<string>): CatalogMarket | null {
+  if (!catalog) return null;
+  const candidates = catalog.markets.filter((m) => normalizeName(m.name) === normalizeName(name));
+  // Several markets can share a name across lines; prefer the one that names a winner.
+  return candidates.find((m) => m.selections.some((s) => isWinner(s, winners))) ?? candidates[0] ?? null;
+}
+
+/**
+ * Turn `get_results` lines into per-selection outcomes. Selections of a matched
+ * full-match handicap or total market are settled from the final score when there is
+ * one; otherwise a selection wins when the results name it, and a line without any
+ * winner is void.
+ */
+export function normalizeSettlements(raw: unknown, catalog: SettlementCatalog | null, final: StatPair | null): GameSettlement[] {
+  const lines = (raw as { lines?: { line?: unknown } } | null | undefined)?.lines?.line;
+  if (!Array.isArray(lines)) return [];
+
+  const settlements: GameSettlement[] = [];
+  for (const l of lines) {
+    if (!l || typeof l !== 'object') continue;
+    const line = l as Record<string, unknown>;
+    const name = String(line.line_name ?? '');
+    const winners = readWinners(line);
+    const winnerSet = new Set(winners.map(normalizeName));
+    const market = findMarket(catalog, name, winnerSet);
+
+    if (!market) {
+      settlements.push({
+        market: name,
+        market_id: null,
+        market_type: null,
+        kind: null,
+        winners,
+        selections: winners.map((w) => ({ event_id: null, name: w, type: null, side: null, line: null, outcome: 'won' as const }))
+      });
+      continue;
+    }
+
+    const fromFinalScore = isFullMatchScoreMarket(market);
+    settlements.push({
+      market: name,
+      market_id: market.id,
+      market_type: market.type,
+      kind: market.kind,
+      winners,
+      selections: market.selections.map((s) => {
+        const fromScore = final && s.line !== null && fromFinalScore ? settleLineSelection(market.kind, s.side, s.line, final) : null;
+        const outcome: SettlementOutcome = fromScore ?? (winners.length === 0 ? 'void' : isWinner(s, winnerSet) ? 'won' : 'lost');
+        return { event_id: s.id, name: s.name, type: s.type, side: s.side, line: s.line, outcome };
+      })
+    });
+  }
+  return settlements;
+}
+
+/** The results' own score wins over the last one the catalog saw live. */
+export function resolveFinalScore(raw: unknown, catalog: SettlementCatalog | null): FinalScore {
+  const r = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+  const parsed = parseResultScore(r.scores ?? r.score, catalog?.sport ?? null);
+  if (parsed) return parsed;
+  return { final: catalog?.score ?? null, periods: catalog?.periods ?? [] };
+}
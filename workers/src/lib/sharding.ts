@@ -0,0 +1,85 @@
+import type { StreamTopic } from './topics.js';
+
+export const SWARM_SHARD_HEADER = 'X-Swarm-Shard';
+export const COORDINATOR_SHARD = 'global';
+export const GAME_SHARD_COUNT = 16;
+
+// FNV-1a, 32-bit: stable across isolates so a game always lands on the same shard.
+export function hashShardKey(key: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function sportShardName(sportId: string): string {
+  return `sport-${sportId}`;
+}
+
+export function gameShardName(gameId: string): string {
+  return `game-${hashShardKey(String(gameId)) % GAME_SHARD_COUNT}`;
+}
+
+/** Whether `name` is a shard this deployment can route to (guards admin `?shard=`). */
+export function isSwarmShardName(name: string): boolean {
+  if (name === COORDINATOR_SHARD) return true;
+  if (/^sport-\d+$/.test(name)) return true;
+  const game = name.match(/^game-(\d+)$/);
+  return Boolean(game) && Number(game![1]) < GAME_SHARD_COUNT;
+}
+
+/**
+ * SwarmHub instance that owns a client-facing stream. Sport, competition and game
+ * streams (and `/api/games/{id}/*`, `/api/game-stats`, `/api/match-center`) are sharded; everything else (counts, hierarchy, results, multiplexed
+ * sessions) stays on the coordinator. A missing id falls back to the coordinator,
+ * which answers with the usual 400.
+ */
+export function getStreamShardName(url: URL): string {
+  switch (url.pathname) {
+    case '/api/live-stream':
+    case '/api/prematch-stream':
+    case '/api/competition-odds-stream': {
+      const sportId = url.searchParams.get('sportId');
+      return sportId ? sportShardName(sportId) : COORDINATOR_SHARD;
+    }
+    case '/api/live-game-stream':
+    case '/api/game-stats':
+    case '/api/match-center': {
+      const gameId = url.searchParams.get('gameId');
+      return gameId ? gameShardName(gameId) : COORDINATOR_SHARD;
+    }
+    default: {
+      const gameMatch = url.pathname.match(/^\/api\/games\/([^/]+)\//);
+      return gameMatch ? gameShardName(decodeURIComponent(gameMatch[1])) : COORDINATOR_SHARD;
+    }
+  }
+}
+
+export function getTopicShardName(topic: StreamTopic): string | null {
+  switch (topic.kind) {
+    case 'sport':
+      return sportShardName(topic.sportId);
+    case 'game':
+      return gameShardName(topic.gameId);
+    case 'competition':
+      return topic.sportId ? sportShardName(topic.sportId) : null;
+    default:
+      return null;
+  }
+}
+
+export function getTopicStreamPath(topic: StreamTopic): string | null {
+  switch (topic.kind) {
+    case 'sport':
+      return `/api/${topic.mode}-stream?sportId=${encodeURIComponent(topic.sportId)}`;
+    case 'game':
+      return `/api/live-game-stream?gameId=${encodeURIComponent(topic.gameId)}`;
+    case 'competition':
+      if (!topic.sportId) return null;
+      return `/api/competition-odds-stream?mode=${topic.mode}&competitionId=${encodeURIComponent(topic.competitionId)}&sportId=${encodeURIComponent(topic.sportId)}`;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,76 @@
+export type SseFrame = {
+  event: string;
+  id: string | null;
+  data: unknown;
+};
+
+// An encoded event keeps what it encodes, so the WebSocket and topic transports pass
+// it on without parsing the SSE bytes back. Only bytes piped in from another shard's
+// stream, and comments, come without a `frame`.
+export type EncodedSseEvent = Uint8Array & { frame?: SseFrame };
+
+export type ClientWriter = {
+  write(chunk: EncodedSseEvent): Promise<void>;
+  close(): unknown;
+};
+
+const encoder = new TextEncoder();
+
+export function encodeSseEvent(event: string | null, data: unknown, id: string | null = null): EncodedSseEvent {
+  const json = JSON.stringify(data);
+  const idLine = id ? `id: ${id}\n` : '';
+  const text = event ? `${idLine}event: ${event}\ndata: ${json}\n\n` : `${idLine}data: ${json}\n\n`;
+  return Object.assign(encoder.encode(text), { frame: { event: event ?? 'message', id, data } });
+}
+
+function parseFrame(block: string): SseFrame | null {
+  let event = 'message';
+  let id: string | null = null;
+  const dataLines: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (!line || line.startsWith(':')) continue;
+    const idx = line.indexOf(':');
+    const field = idx === -1 ? line : line.slice(0, idx);
+    let value = idx === -1 ? '' : line.slice(idx + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    if (field === 'event') event = value;
+    else if (field === 'id') id = value;
+    else if (field === 'data') dataLines.push(value);
+  }
+
+  if (!dataLines.length) return null;
+  const raw = dataLines.join('\n');
+  let data: unknown = raw;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    // keep raw text
+  }
+  return { event, id, data };
+}
+
+/**
+ * Incremental decoder for `text/event-stream` bytes. Comment-only blocks (padding,
+ * heartbeats) are dropped; a frame split across chunks is held until it completes.
+ */
+export function createSseFrameDecoder(): (chunk: Uint8Array | string) => SseFrame[] {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  return (chunk) => {
+    buffer += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+    buffer = buffer.replace(/\r\n/g, '\n');
+
+    const frames: SseFrame[] = [];
+    let idx = buffer.indexOf('\n\n');
+    while (idx !== -1) {
+      const frame = parseFrame(buffer.slice(0, idx));
+      if (frame) frames.push(frame);
+      buffer = buffer.slice(idx + 2);
+      idx = buffer.indexOf('\n\n');
+    }
+    return frames;
+  };
+}
@@ -0,0 +1,96 @@
+export const SSE_REPLAY_MAX_EVENTS = 256;
+export const SSE_REPLAY_MAX_BYTES = 1024 * 1024;
+
+export type SseReplayEntry = {
+  seq: number;
+  bytes: Uint8Array;
+};
+
+/**
+ * Per-stream event log used for Last-Event-ID resume.
+ * Ids have the form `<epoch>-<seq>`: the epoch changes whenever the owning group
+ * is recreated, so ids from a previous incarnation never resolve to a replay.
+ */
+export type SseReplayLog = {
+  epoch: string;
+  seq: number;
+  entries: SseReplayEntry[];
+  bytes: number;
+};
+
+export function createReplayLog(): SseReplayLog {
+  const epoch = `${Date.now().toString(36)}${Math.floor(Math.random() * 1296).toString(36).padStart(2, '0')}`;
+  return { epoch, seq: 0, entries: [], bytes: 0 };
+}
+
+export function formatEventId(log: SseReplayLog, seq: number): string {
+  return `${log.epoch}-${seq}`;
+}
+
+export function nextEventId(log: SseReplayLog): string {
+  log.seq += 1;
+  return formatEventId(log, log.seq);
+}
+
+export function currentEventId(log: SseReplayLog): string | null {
+  return log.seq > 0 ? formatEventId(log, log.seq) : null;
+}
+
+export function parseEventId(raw: string | null | undefined): { epoch: string; seq: number } | null {
+  if (!raw) return null;
+  const s = String(raw).trim();
+  const idx = s.lastIndexOf('-');
+  if (idx <= 0) return null;
+  const seq = Number(s.slice(idx + 1));
+  if (!Number.isInteger(seq) || seq < 0) return null;
+  return { epoch: s.slice(0, idx), seq };
+}
+
+export function recordReplayEntry(
+  log: SseReplayLog,
+  bytes: Uint8Array,
+  maxEvents = SSE_REPLAY_MAX_EVENTS,
+  maxBytes = SSE_REPLAY_MAX_BYTES
+): void {
+  log.entries.push({ seq: log.seq, bytes });
+  log.bytes += bytes.byteLength;
+
+  while (log.entries.length > 0 && (log.entries.length > maxEvents || log.bytes > maxBytes)) {
+    const dropped = log.entries.shift();
+    if (dropped) log.bytes -= dropped.bytes.byteLength;
+  }
+}
+
+/**
+ * Mark that the stream skipped events (e.g. while it had no clients) so that any
+ * previously issued id falls back to a snapshot instead of an incomplete replay.
+ */
+export function invalidateReplayLog(log: SseReplayLog): void {
+  log.seq += 1;
+  log.entries = [];
+  log.bytes = 0;
+}
+
+/**
+ * Events a client missed since `lastEventId`.
+ * Returns null when the id is unknown or the gap is no longer covered by the log,
+ * in which case the caller should fall back to a full snapshot.
+ */
+export function getReplayEntries(log: SseReplayLog, lastEventId: string | null | undefined): Uint8Array[] | null {
+  const parsed = parseEventId(lastEventId);
+  if (!parsed || parsed.epoch !== log.epoch) return null;
+  if (parsed.seq > log.seq) return null;
+  if (parsed.seq === log.seq) return [];
+
+  const oldest = log.entries.length ? log.entries[0].seq : null;
+  if (oldest === null || oldest > parsed.seq + 1) return null;
+
+  return log.entries.filter((e) => e.seq > parsed.seq).map((e) => e.bytes);
+}
+
+export function getLastEventId(request: Request): string | null {
+  const header = request.headers.get('Last-Event-ID');
+  if (header) return header;
+  const url = new URL(request.url);
+  return url.searchParams.get('lastEventId');
+}
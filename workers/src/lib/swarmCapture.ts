@@ -0,0 +1,77 @@
+export const CAPTURE_META_KEY = 'capture_meta';
+
+// Storage values are capped at 128 KiB; 32k UTF-16 code units stay under it even as 4-byte UTF-8.
+export const CAPTURE_SEGMENT_MAX_CHARS = 32_000;
+export const CAPTURE_MAX_SEGMENTS = 1000;
+export const CAPTURE_DEFAULT_DURATION_MS = 10 * 60 * 1000;
+export const CAPTURE_MAX_DURATION_MS = 60 * 60 * 1000;
+
+export type CaptureDirection = 'in' | 'out';
+
+/** One raw WebSocket frame: `out` frames are our requests, `in` frames are responses and `rid: 0` deltas. */
+export type CaptureFrame = {
+  ts: number;
+  dir: CaptureDirection;
+  frame: string;
+};
+
+export type CaptureStopReason = 'stopped' | 'expired' | 'full';
+
+export type CaptureMeta = {
+  id: string;
+  startedAtMs: number;
+  endsAtMs: number;
+  stoppedAtMs: number | null;
+  stopReason: CaptureStopReason | null;
+  // Segments written so far, including the one still being filled.
+  segments: number;
+  frames: number;
+  chars: number;
+};
+
+export function captureSegmentKey(captureId: string, index: number): string {
+  return `capture_seg:${captureId}:${String(index).padStart(5, '0')}`;
+}
+
+export function encodeCaptureLine(frame: CaptureFrame): string {
+  return `${JSON.stringify(frame)}\n`;
+}
+
+/**
+ * Append an NDJSON line to the open segment, sealing segments as they fill. A line
+ * longer than a segment is split across several; concatenating every segment in
+ * order always yields the original NDJSON text.
+ */
+export function appendCaptureLine(
+  open: string,
+  line: string,
+  maxChars = CAPTURE_SEGMENT_MAX_CHARS
+): { sealed: string[]; open: string } {
+  const sealed: string[] = [];
+  let buffer = open;
+  let rest = line;
+  while (buffer.length + rest.length > maxChars) {
+    const take = maxChars - buffer.length;
+    sealed.push(buffer + rest.slice(0, take));
+    buffer = '';
+    rest = rest.slice(take);
+  }
+  return { sealed, open: buffer + rest };
+}
+
+/** Parse a downloaded capture; malformed lines are skipped. */
+export function parseCaptureNdjson(text: string): CaptureFrame[] {
+  const frames: CaptureFrame[] = [];
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const parsed = JSON.parse(line) as Partial<CaptureFrame>;
+      if (typeof parsed.ts !== 'number' || typeof parsed.frame !== 'string') continue;
+      if (parsed.dir !== 'in' && parsed.dir !== 'out') continue;
+      frames.push({ ts: parsed.ts, dir: parsed.dir, frame: parsed.frame });
+    } catch {
+      continue;
+    }
+  }
+  return frames;
+}
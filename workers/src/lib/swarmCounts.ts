@@ -1,33 +1,162 @@
-function unwrapSwarmData(raw: any): any {
-  if (!raw || typeof raw !== 'object') return raw;
-  const data = raw.data;
-  if (data && typeof data === 'object') {
-    const d: any = data;
-    if (d.data && typeof d.data === 'object') return d.data;
-    return data;
+import { unwrapSwarmData } from './swarmProtocol.js';
+
+type CountsNode = Record<string, unknown>;
+
+function isNode(value: unknown): value is CountsNode {
+  return Boolean(value) && typeof value === 'object';
+}
+
+function countOwnGames(node: CountsNode): number {
+  if (typeof node.game === 'number') return Number(node.game) || 0;
+  if (node.game && typeof node.game === 'object') return Object.values(node.game).filter((g) => g != null).length;
+  return 0;
+}
+
+function children(node: unknown, key: string): Array<[string, CountsNode]> {
+  const map = isNode(node) ? node[key] : null;
+  if (!map || typeof map !== 'object') return [];
+  return Object.entries(map).filter((entry): entry is [string, CountsNode] => isNode(entry[1]));
+}
+
+/** Games directly under a sport plus those nested under its regions and competitions. */
+function countSportGames(sport: CountsNode): number {
+  let count = countOwnGames(sport);
+  for (const [, region] of children(sport, 'region')) {
+    count += countOwnGames(region);
+    for (const [, competition] of children(region, 'competition')) count += countOwnGames(competition);
   }
-  return raw;
+  return count;
 }
 
 export function extractSportsCountsFromSwarm(rawData: unknown): { sports: Array<{ name: string; count: number }>; totalGames: number } {
-  const data: any = unwrapSwarmData(rawData);
   const sports: Array<{ name: string; count: number }> = [];
+  for (const [, s] of children(unwrapSwarmData(rawData), 'sport')) {
+    const count = countSportGames(s);
+    if (s.name && count > 0) sports.push({ name: String(s.name), count });
+  }
+
+  const totalGames = sports.reduce((sum, s) => sum + s.count, 0);
+  return { sports, totalGames };
+}
 
-  if (data && data.sport && typeof data.sport === 'object') {
-    for (const s of Object.values<any>(data.sport)) {
-      const name = s?.name;
-      let count = 0;
-      if (typeof s?.game === 'number') {
-        count = Number(s.game) || 0;
-      } else if (s?.game && typeof s.game === 'object') {
-        count = Object.keys(s.game).length;
+export type CountsTreeCompetition = { id: string; name: string; live: number; prematch: number };
+export type CountsTreeRegion = CountsTreeCompetition & { competitions: CountsTreeCompetition[] };
+export type CountsTreeSport = CountsTreeCompetition & { regions: CountsTreeRegion[] };
+export type CountsTree = { sports: CountsTreeSport[]; total: { live: number; prematch: number } };
+
+type GameCount = { name: string; count: number };
+type RegionGameCounts = GameCount & { competitions: Map<string, GameCount> };
+export type ModeGameCounts = Map<string, GameCount & { regions: Map<string, RegionGameCounts> }>;
+
+/** Game counts of one mode per sport, region and competition, from the counts subscription tree. */
+export function extractCountsTreeFromSwarm(rawData: unknown): ModeGameCounts {
+  const out: ModeGameCounts = new Map();
+  for (const [sid, sport] of children(unwrapSwarmData(rawData), 'sport')) {
+    const regions = new Map<string, RegionGameCounts>();
+    for (const [rid, region] of children(sport, 'region')) {
+      const competitions = new Map<string, GameCount>();
+      for (const [cid, competition] of children(region, 'competition')) {
+        const count = countOwnGames(competition);
+        if (count > 0) competitions.set(String(competition.id ?? cid), { name: String(competition.name ?? ''), count });
       }
-      if (name && count > 0) {
-        sports.push({ name: String(name), count: Number(count) || 0 });
+      const count = countOwnGames(region) + [...competitions.values()].reduce((sum, c) => sum + c.count, 0);
+      if (count > 0) regions.set(String(region.id ?? rid), { name: String(region.name ?? ''), count, competitions });
+    }
+    const count = countSportGames(sport);
+    if (count > 0) out.set(String(sport.id ?? sid), { name: String(sport.name ?? ''), count, regions });
+  }
+  return out;
+}
+
+function mergeLevel<T extends GameCount, R>(
+  live: Map<string, T>,
+  prematch: Map<string, T>,
+  build: (id: string, name: string, liveNode: T | undefined, prematchNode: T | undefined) => R
+): R[] {
+  const ids = new Set([...live.keys(), ...prematch.keys()]);
+  return [...ids].map((id) => {
+    const l = live.get(id);
+    const p = prematch.get(id);
+    return build(id, l?.name || p?.name || '', l, p);
+  });
+}
+
+const byName = <T extends { name: string; id: string }>(a: T, b: T) => a.name.localeCompare(b.name) || a.id.localeCompare(b.id);
+
+/** Live and prematch counts side by side at every level, sorted by name. */
+export function mergeCountsTree(live: ModeGameCounts, prematch: ModeGameCounts): CountsTree {
+  const sports = mergeLevel(live, prematch, (id, name, ls, ps) => ({
+    id,
+    name,
+    live: ls?.count ?? 0,
+    prematch: ps?.count ?? 0,
+    regions: mergeLevel(ls?.regions ?? new Map(), ps?.regions ?? new Map(), (rid, rname, lr, pr) => ({
+      id: rid,
+      name: rname,
+      live: lr?.count ?? 0,
+      prematch: pr?.count ?? 0,
+      competitions: mergeLevel(lr?.competitions ?? new Map(), pr?.competitions ?? new Map(), (cid, cname, lc, pc) => ({
+        id: cid,
+        name: cname,
+        live: lc?.count ?? 0,
+        prematch: pc?.count ?? 0
+      })).sort(byName)
+    })).sort(byName)
+  })).sort(byName);
+
+  return {
+    sports,
+    total: {
+      live: sports.reduce((sum, s) => sum + s.live, 0),
+      prematch: sports.reduce((sum, s) => sum + s.prematch, 0)
+    }
+  };
+}
+
+export function getCountsTreeFp(tree: CountsTree): string {
+  const node = (n: CountsTreeCompetition) => `${n.id}:${n.live}/${n.prematch}`;
+  return tree.sports
+    .map((s) => `${node(s)}[${s.regions.map((r) => `${node(r)}(${r.competitions.map(node).join(',')})`).join(';')}]`)
+    .join('|');
+}
+
+/**
+ * A copy of the hierarchy with `live` and `prematch` game counts on every sport, region
+ * and competition of its nested tree; ones without games get zeros.
+ */
+export function annotateHierarchyCounts(hierarchy: unknown, tree: CountsTree): unknown {
+  if (!isNode(hierarchy)) return hierarchy;
+  const wrapped = isNode(hierarchy.data) && Boolean(hierarchy.data.sport);
+  const h = wrapped ? (hierarchy.data as CountsNode) : hierarchy;
+  if (!isNode(h.sport)) return hierarchy;
+
+  const sportsById = new Map(tree.sports.map((s) => [s.id, s]));
+  const sport: CountsNode = {};
+  for (const [sid, sp] of children(h, 'sport')) {
+    const counts = sportsById.get(String(sp.id ?? sid));
+    const regionsById = new Map((counts?.regions ?? []).map((r) => [r.id, r]));
+    let region = sp.region;
+    if (isNode(region)) {
+      const annotatedRegions: CountsNode = {};
+      for (const [rid, r] of children(sp, 'region')) {
+        const rc = regionsById.get(String(r.id ?? rid));
+        const competitionsById = new Map((rc?.competitions ?? []).map((c) => [c.id, c]));
+        let competition = r.competition;
+        if (isNode(competition)) {
+          const annotatedCompetitions: CountsNode = {};
+          for (const [cid, c] of children(r, 'competition')) {
+            const cc = competitionsById.get(String(c.id ?? cid));
+            annotatedCompetitions[cid] = { ...c, live: cc?.live ?? 0, prematch: cc?.prematch ?? 0 };
+          }
+          competition = annotatedCompetitions;
+        }
+        annotatedRegions[rid] = { ...r, competition, live: rc?.live ?? 0, prematch: rc?.prematch ?? 0 };
       }
+      region = annotatedRegions;
     }
+    sport[sid] = { ...sp, region, live: counts?.live ?? 0, prematch: counts?.prematch ?? 0 };
   }
 
-  const totalGames = sports.reduce((sum, s) => sum + (Number(s?.count) || 0), 0);
-  return { sports, totalGames };
+  const annotated = { ...h, sport, counts_total: tree.total };
+  return wrapped ? { ...hierarchy, data: annotated } : annotated;
 }
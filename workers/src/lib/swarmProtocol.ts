@@ -0,0 +1,411 @@
+export type SwarmId = number | string;
+
+// Swarm nests entities as maps keyed by id; a few responses flatten them into arrays.
+export type SwarmCollection<T> = Record<string, T> | T[];
+
+export type SwarmEvent = {
+  id?: SwarmId;
+  market_id?: SwarmId;
+  type?: string;
+  type_1?: string;
+  name?: string;
+  price?: number | string;
+  base?: number | string;
+  order?: number;
+  is_blocked?: boolean | number;
+  display_column?: number;
+  [key: string]: unknown;
+};
+
+export type SwarmMarket = {
+  id?: SwarmId;
+  game_id?: SwarmId;
+  group_id?: SwarmId;
+  group_name?: string;
+  group_order?: number;
+  type?: string;
+  name?: string;
+  name_template?: string;
+  order?: number;
+  col_count?: number;
+  display_key?: string;
+  display_sub_key?: string;
+  main_order?: number;
+  base?: number | string;
+  is_blocked?: boolean | number;
+  express_id?: number;
+  event?: Record<string, SwarmEvent>;
+  [key: string]: unknown;
+};
+
+export type SwarmGame = {
+  id?: SwarmId;
+  type?: number;
+  start_ts?: number;
+  team1_id?: SwarmId;
+  team1_name?: string;
+  team2_id?: SwarmId;
+  team2_name?: string;
+  markets_count?: number;
+  is_blocked?: boolean | number;
+  visible_in_prematch?: number;
+  text_info?: string;
+  info?: Record<string, unknown>;
+  stats?: Record<string, unknown>;
+  market?: Record<string, SwarmMarket>;
+  [key: string]: unknown;
+};
+
+export type SwarmCompetition = {
+  id?: SwarmId;
+  name?: string;
+  alias?: string;
+  order?: number;
+  game?: SwarmCollection<SwarmGame>;
+  [key: string]: unknown;
+};
+
+export type SwarmRegion = {
+  id?: SwarmId;
+  name?: string;
+  alias?: string;
+  order?: number;
+  competition?: SwarmCollection<SwarmCompetition>;
+  [key: string]: unknown;
+};
+
+export type SwarmSport = {
+  id?: SwarmId;
+  name?: string;
+  alias?: string;
+  order?: number;
+  type?: number;
+  region?: SwarmCollection<SwarmRegion>;
+  competition?: SwarmCollection<SwarmCompetition>;
+  game?: SwarmCollection<SwarmGame>;
+  [key: string]: unknown;
+};
+
+/** The entity tree of a `get` response or a subscription delta (null values delete). */
+export type SwarmData = {
+  sport?: SwarmCollection<SwarmSport>;
+  region?: SwarmCollection<SwarmRegion>;
+  competition?: SwarmCollection<SwarmCompetition>;
+  game?: SwarmCollection<SwarmGame>;
+  market?: SwarmCollection<SwarmMarket>;
+  event?: SwarmCollection<SwarmEvent>;
+  [key: string]: unknown;
+};
+
+export type SwarmGetParams = {
+  source: string;
+  // Field lists may also be nested one level, e.g. `game: [[...]]`.
+  what: Record<string, string[] | string[][]>;
+  where?: Record<string, unknown>;
+  subscribe?: boolean;
+};
+
+export type SwarmResultGame = {
+  game_id?: SwarmId;
+  team1_name?: string;
+  team2_name?: string;
+  date?: number;
+  scores?: string;
+  [key: string]: unknown;
+};
+
+export type SwarmMarketTypeDetail = {
+  BasaltKind?: string;
+  Order?: number;
+  [key: string]: unknown;
+};
+
+export type SwarmCommands = {
+  request_session: {
+    params: { site_id: number; language: string };
+    result: { sid?: string };
+  };
+  get: {
+    params: SwarmGetParams;
+    result: { subid?: SwarmId; data?: SwarmData };
+  };
+  unsubscribe: {
+    params: { subid: string };
+    result: unknown;
+  };
+  get_market_type: {
+    params: { sport_alias: string };
+    result: { details?: SwarmMarketTypeDetail[] };
+  };
+  get_active_competitions: {
+    params: { from_date: number; to_date: number };
+    result: unknown;
+  };
+  get_result_games: {
+    params: { is_date_ts: number; from_date: number; to_date: number; live: number; sport_id: number };
+    result: { games?: { game?: SwarmResultGame[] } };
+  };
+  get_results: {
+    params: { game_id: string };
+    result: { lines?: { line?: unknown[] }; [key: string]: unknown };
+  };
+};
+
+export type SwarmCommand = keyof SwarmCommands;
+
+export type SwarmRequest<C extends SwarmCommand> = {
+  command: C;
+  params: SwarmCommands[C]['params'];
+  rid: string;
+};
+
+export type SwarmResponse<C extends SwarmCommand> = {
+  rid?: SwarmId;
+  code?: number;
+  msg?: string;
+  data?: SwarmCommands[C]['result'];
+};
+
+export type SwarmEntityKind = 'sport' | 'region' | 'competition' | 'game' | 'market' | 'event';
+
+export type SchemaIssue = {
+  entity: SwarmEntityKind | 'response';
+  field: string;
+  expected: string;
+  actual: string;
+};
+
+type FieldType = 'id' | 'number' | 'numeric' | 'string' | 'flag' | 'object' | 'array' | 'collection';
+
+const ENTITY_FIELDS: Record<SwarmEntityKind, Record<string, FieldType>> = {
+  sport: { id: 'id', name: 'string', alias: 'string', order: 'number', type: 'number' },
+  region: { id: 'id', name: 'string', alias: 'string', order: 'number' },
+  competition: { id: 'id', name: 'string', alias: 'string', order: 'number' },
+  game: {
+    id: 'id',
+    type: 'number',
+    start_ts: 'number',
+    team1_id: 'id',
+    team1_name: 'string',
+    team2_id: 'id',
+    team2_name: 'string',
+    markets_count: 'number',
+    is_blocked: 'flag',
+    visible_in_prematch: 'flag',
+    text_info: 'string',
+    info: 'object',
+    stats: 'object'
+  },
+  market: {
+    id: 'id',
+    game_id: 'id',
+    group_id: 'id',
+    group_name: 'string',
+    group_order: 'number',
+    type: 'string',
+    name: 'string',
+    name_template: 'string',
+    order: 'number',
+    col_count: 'number',
+    display_key: 'string',
+    display_sub_key: 'string',
+    base: 'numeric',
+    is_blocked: 'flag'
+  },
+  event: {
+    id: 'id',
+    market_id: 'id',
+    type: 'string',
+    type_1: 'string',
+    name: 'string',
+    price: 'numeric',
+    base: 'numeric',
+    order: 'number',
+    is_blocked: 'flag',
+    display_column: 'number'
+  }
+};
+
+const ENTITY_CHILDREN: Record<SwarmEntityKind, SwarmEntityKind[]> = {
+  sport: ['region', 'competition', 'game'],
+  region: ['competition'],
+  competition: ['game'],
+  game: ['market'],
+  market: ['event'],
+  event: []
+};
+
+const TOP_LEVEL_KINDS: SwarmEntityKind[] = ['sport', 'region', 'competition', 'game', 'market', 'event'];
+
+/** Validation stops collecting after this many issues so one broken snapshot stays cheap. */
+export const MAX_SCHEMA_ISSUES = 50;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function matchesField(type: FieldType, value: unknown): boolean {
+  switch (type) {
+    case 'id':
+      return (typeof value === 'number' && Number.isFinite(value)) || (typeof value === 'string' && value !== '');
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'numeric':
+      return (typeof value === 'number' && Number.isFinite(value)) || (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value)));
+    case 'string':
+      return typeof value === 'string';
+    case 'flag':
+      return typeof value === 'boolean' || value === 0 || value === 1;
+    case 'object':
+      return isPlainObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'collection':
+      return value !== null && typeof value === 'object';
+  }
+}
+
+export function schemaIssueKey(issue: SchemaIssue): string {
+  return `${issue.entity}.${issue.field}:${issue.actual}`;
+}
+
+function pushIssue(issues: SchemaIssue[], issue: SchemaIssue): void {
+  if (issues.length < MAX_SCHEMA_ISSUES) issues.push(issue);
+}
+
+function validateCollection(kind: SwarmEntityKind, node: unknown, issues: SchemaIssue[], owner: SchemaIssue['entity']): void {
+  // null removes the whole collection in a delta
+  if (node === null || node === undefined) return;
+  if (!matchesField('collection', node)) {
+    pushIssue(issues, { entity: owner, field: kind, expected: 'collection', actual: describeType(node) });
+    return;
+  }
+  const items = Array.isArray(node) ? node : Object.values(node as Record<string, unknown>);
+  for (const item of items) {
+    if (issues.length >= MAX_SCHEMA_ISSUES) return;
+    validateEntity(kind, item, issues);
+  }
+}
+
+function validateEntity(kind: SwarmEntityKind, value: unknown, issues: SchemaIssue[]): void {
+  if (value === null) return;
+  if (!isPlainObject(value)) {
+    pushIssue(issues, { entity: kind, field: '*', expected: 'object', actual: describeType(value) });
+    return;
+  }
+
+  for (const [field, type] of Object.entries(ENTITY_FIELDS[kind])) {
+    const v = value[field];
+    // Deltas omit unchanged fields and null clears one
+    if (v === undefined || v === null) continue;
+    if (!matchesField(type, v)) {
+      pushIssue(issues, { entity: kind, field, expected: type, actual: describeType(v) });
+    }
+  }
+
+  for (const child of ENTITY_CHILDREN[kind]) {
+    if (child in value) validateCollection(child, value[child], issues, kind);
+  }
+}
+
+/**
+ * Check an entity tree against the known field types. Fields Swarm adds are
+ * ignored; known fields with an unexpected type are reported. The data itself
+ * is never modified or filtered.
+ */
+export function validateSwarmData(data: unknown): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  if (data === null || data === undefined) return issues;
+  if (!isPlainObject(data)) {
+    pushIssue(issues, { entity: 'response', field: 'data', expected: 'object', actual: describeType(data) });
+    return issues;
+  }
+  for (const kind of TOP_LEVEL_KINDS) {
+    if (kind in data) validateCollection(kind, data[kind], issues, 'response');
+  }
+  return issues;
+}
+
+/** Check a response envelope and the command-specific payload it carries. */
+export function validateSwarmResponse(command: string, message: unknown): SchemaIssue[] {
+  if (!isPlainObject(message)) {
+    return [{ entity: 'response', field: command, expected: 'object', actual: describeType(message) }];
+  }
+
+  const issues: SchemaIssue[] = [];
+  if (message.code !== undefined && !matchesField('number', message.code)) {
+    pushIssue(issues, { entity: 'response', field: `${command}.code`, expected: 'number', actual: describeType(message.code) });
+  }
+  if (message.code !== undefined && message.code !== 0) return issues;
+
+  const data = message.data;
+  switch (command) {
+    case 'request_session': {
+      const sid = isPlainObject(data) ? data.sid : undefined;
+      if (typeof sid !== 'string') {
+        pushIssue(issues, { entity: 'response', field: 'request_session.sid', expected: 'string', actual: describeType(sid) });
+      }
+      break;
+    }
+    case 'get': {
+      if (!isPlainObject(data)) {
+        pushIssue(issues, { entity: 'response', field: 'get.data', expected: 'object', actual: describeType(data) });
+        break;
+      }
+      if (data.subid !== undefined && !matchesField('id', data.subid)) {
+        pushIssue(issues, { entity: 'response', field: 'get.subid', expected: 'id', actual: describeType(data.subid) });
+      }
+      for (const issue of validateSwarmData(data.data)) pushIssue(issues, issue);
+      break;
+    }
+    case 'get_result_games': {
+      const games = isPlainObject(data) ? data.games : undefined;
+      const list = isPlainObject(games) ? games.game : undefined;
+      if (list !== undefined && !Array.isArray(list)) {
+        pushIssue(issues, { entity: 'response', field: 'get_result_games.games.game', expected: 'array', actual: describeType(list) });
+      }
+      break;
+    }
+    case 'get_results': {
+      const lines = isPlainObject(data) ? data.lines : undefined;
+      const line = isPlainObject(lines) ? lines.line : undefined;
+      if (line !== undefined && !Array.isArray(line)) {
+        pushIssue(issues, { entity: 'response', field: 'get_results.lines.line', expected: 'array', actual: describeType(line) });
+      }
+      break;
+    }
+  }
+  return issues;
+}
+
+/** The failure of a response with a non-zero `code`, or null when it succeeded. */
+export function getSwarmResponseError(command: SwarmCommand, response: SwarmResponse<SwarmCommand> | null | undefined): Error | null {
+  if (response?.code === undefined || response.code === 0) return null;
+  const msg = response.msg ? `: ${String(response.msg)}` : '';
+  return new Error(`${command} failed${msg}`);
+}
+
+/** Entity tree of a `get` response: `data.data`, falling back to `data`. */
+export function unwrapSwarmData(raw: unknown): SwarmData | null {
+  if (!isPlainObject(raw)) return null;
+  const data = raw.data;
+  if (data && typeof data === 'object') {
+    const d = data as Record<string, unknown>;
+    if (d.data && typeof d.data === 'object') return d.data as SwarmData;
+    return data as SwarmData;
+  }
+  return raw as SwarmData;
+}
+
+/** Entities of a collection node, skipping removed (null) and malformed entries. */
+export function swarmCollectionValues<T extends object>(node: SwarmCollection<T> | null | undefined): T[] {
+  if (!node || typeof node !== 'object') return [];
+  const values: unknown[] = Array.isArray(node) ? node : Object.values(node);
+  return values.filter((v): v is T => isPlainObject(v));
+}
@@ -0,0 +1,73 @@
+export type StreamMode = 'live' | 'prematch';
+
+export type StreamTopic =
+  | { kind: 'counts' }
+  | { kind: 'sport'; mode: StreamMode; sportId: string }
+  | { kind: 'game'; gameId: string }
+  | { kind: 'competition'; mode: StreamMode; competitionId: string; sportId: string | null }
+  | { kind: 'tracker'; gameId: string };
+
+export const MAX_TOPICS_PER_SESSION = 50;
+
+const ID_RE = /^\d{1,20}$/;
+
+function isMode(value: string | undefined): value is StreamMode {
+  return value === 'live' || value === 'prematch';
+}
+
+function isId(value: string | undefined): value is string {
+  return typeof value === 'string' && ID_RE.test(value);
+}
+
+/**
+ * Parse a multiplexed stream topic name:
+ * `counts`, `sport:<mode>:<sportId>` (or the short `<mode>:<sportId>`), `game:<gameId>`,
+ * `competition:<mode>:<competitionId>[:<sportId>]`, `tracker:<gameId>`.
+ */
+export function parseTopic(raw: unknown): StreamTopic | null {
+  if (typeof raw !== 'string') return null;
+  const parts = raw.trim().split(':');
+
+  switch (parts[0]) {
+    case 'counts':
+      return parts.length === 1 ? { kind: 'counts' } : null;
+    case 'sport':
+      if (parts.length !== 3 || !isMode(parts[1]) || !isId(parts[2])) return null;
+      return { kind: 'sport', mode: parts[1], sportId: parts[2] };
+    case 'live':
+    case 'prematch':
+      if (parts.length !== 2 || !isId(parts[1])) return null;
+      return { kind: 'sport', mode: parts[0], sportId: parts[1] };
+    case 'game':
+      if (parts.length !== 2 || !isId(parts[1])) return null;
+      return { kind: 'game', gameId: parts[1] };
+    case 'competition': {
+      if (parts.length !== 3 && parts.length !== 4) return null;
+      if (!isMode(parts[1]) || !isId(parts[2])) return null;
+      if (parts.length === 4 && !isId(parts[3])) return null;
+      return { kind: 'competition', mode: parts[1], competitionId: parts[2], sportId: parts[3] ?? null };
+    }
+    case 'tracker':
+      if (parts.length !== 2 || !isId(parts[1])) return null;
+      return { kind: 'tracker', gameId: parts[1] };
+    default:
+      return null;
+  }
+}
+
+export function formatTopic(topic: StreamTopic): string {
+  switch (topic.kind) {
+    case 'counts':
+      return 'counts';
+    case 'sport':
+      return `sport:${topic.mode}:${topic.sportId}`;
+    case 'game':
+      return `game:${topic.gameId}`;
+    case 'competition':
+      return topic.sportId
+        ? `competition:${topic.mode}:${topic.competitionId}:${topic.sportId}`
+        : `competition:${topic.mode}:${topic.competitionId}`;
+    case 'tracker':
+      return `tracker:${topic.gameId}`;
+  }
+}
@@ -0,0 +1,130 @@
+import type { TrackerEvent } from './trackerEvents.js';
+
+export const TRACKER_ARCHIVE_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+export const TRACKER_REPLAY_DEFAULT_SPEED = 1;
+export const TRACKER_REPLAY_MAX_SPEED = 100;
+
+/**
+ * The normalized events of a game, kept in its tracker's SQLite storage so a match can
+ * be replayed after the feed is gone. `seq` orders events and doubles as the replay's
+ * SSE id.
+ */
+const SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS tracker_events (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    game_id TEXT NOT NULL,
+    ts INTEGER NOT NULL,
+    kind TEXT NOT NULL,
+    sport TEXT,
+    data TEXT NOT NULL
+  )`,
+  'CREATE INDEX IF NOT EXISTS tracker_events_by_game ON tracker_events (game_id, seq)',
+  'CREATE INDEX IF NOT EXISTS tracker_events_by_kind ON tracker_events (game_id, kind)',
+  'CREATE INDEX IF NOT EXISTS tracker_events_by_ts ON tracker_events (ts)'
+];
+
+export type ArchivedTrackerEvent = {
+  seq: number;
+  ts: number;
+  sport: string | null;
+  event: TrackerEvent;
+};
+
+export type TrackerArchiveSummary = {
+  events: number;
+  from_ts: number | null;
+  to_ts: number | null;
+};
+
+export function ensureTrackerArchiveSchema(sql: SqlStorage): void {
+  for (const statement of SCHEMA) sql.exec(statement);
+}
+
+/**
+ * The events of a snapshot not archived yet. A snapshot repeats the match so far, so
+ * each stored incident or period row accounts for one identical snapshot event;
+ * identical events beyond the stored count (a second corner from the same side, say)
+ * are new. Its ball position is only where the ball is now and is never kept.
+ */
+export function unarchivedSnapshotEvents(stored: Array<{ kind: string; data: string }>, events: TrackerEvent[]): TrackerEvent[] {
+  const counts = new Map<string, number>();
+  for (const { kind, data } of stored) {
+    const key = `${kind}\n${data}`;
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return events.filter(({ kind, ...rest }) => {
+    if (kind === 'ball') return false;
+    const key = `${kind}\n${JSON.stringify(rest)}`;
+    const left = counts.get(key) ?? 0;
+    if (left === 0) return true;
+    counts.set(key, left - 1);
+    return false;
+  });
+}
+
+/**
+ * Store one frame's events. A snapshot (`isSnapshot`) repeats what the feed already
+ * sent, so only the part not stored yet is kept, which still fills a gap left while
+ * the feed was down. It is checked against the game's incident and period rows only,
+ * not the far more numerous ball positions.
+ */
+export function archiveTrackerEvents(
+  sql: SqlStorage,
+  gameId: string,
+  ts: number,
+  sport: string | null,
+  events: TrackerEvent[],
+  isSnapshot = false
+): number {
+  const stored = () =>
+    sql
+      .exec<{ kind: string; data: string }>("SELECT kind, data FROM tracker_events WHERE game_id = ? AND kind IN ('incident', 'period')", gameId)
+      .toArray();
+  const fresh = isSnapshot ? unarchivedSnapshotEvents(stored(), events) : events;
+  for (const { kind, ...rest } of fresh) {
+    sql.exec('INSERT INTO tracker_events (game_id, ts, kind, sport, data) VALUES (?, ?, ?, ?, ?)', gameId, ts, kind, sport, JSON.stringify(rest));
+  }
+  return fresh.length;
+}
+
+/** Events after `afterSeq`, oldest first. */
+export function readTrackerArchive(sql: SqlStorage, gameId: string, afterSeq: number, limit: number): ArchivedTrackerEvent[] {
+  return sql
+    .exec<{ seq: number; ts: number; kind: string; sport: string | null; data: string }>(
+      'SELECT seq, ts, kind, sport, data FROM tracker_events WHERE game_id = ? AND seq > ? ORDER BY seq LIMIT ?',
+      gameId,
+      afterSeq,
+      limit
+    )
+    .toArray()
+    .map((r) => ({ seq: r.seq, ts: r.ts, sport: r.sport, event: { kind: r.kind, ...JSON.parse(r.data) } as TrackerEvent }));
+}
+
+export function summarizeTrackerArchive(sql: SqlStorage, gameId: string): TrackerArchiveSummary {
+  const row = sql
+    .exec<{ n: number; oldest: number | null; newest: number | null }>(
+      'SELECT COUNT(*) AS n, MIN(ts) AS oldest, MAX(ts) AS newest FROM tracker_events WHERE game_id = ?',
+      gameId
+    )
+    .one();
+  return { events: row.n, from_ts: row.oldest, to_ts: row.newest };
+}
+
+/** Drop events received before `beforeTs`; returns the oldest remaining `ts`, if any. */
+export function pruneTrackerArchive(sql: SqlStorage, beforeTs: number): number | null {
+  sql.exec('DELETE FROM tracker_events WHERE ts < ?', beforeTs);
+  return sql.exec<{ oldest: number | null }>('SELECT MIN(ts) AS oldest FROM tracker_events').one().oldest;
+}
+
+/** `null` for a speed that is not a positive number; a missing one means real time. */
+export function parseReplaySpeed(raw: string | null): number | null {
+  if (raw === null || raw === '') return TRACKER_REPLAY_DEFAULT_SPEED;
+  if (!/^\d+(\.\d+)?$/.test(raw) || Number(raw) <= 0) return null;
+  return Math.min(Number(raw), TRACKER_REPLAY_MAX_SPEED);
+}
+
+/** How long to wait before replaying an event received `ts - prevTs` after the previous one. */
+export function replayDelayMs(prevTs: number | null, ts: number, speed: number): number {
+  if (prevTs === null) return 0;
+  return Math.max(0, Math.round((ts - prevTs) / speed));
+}
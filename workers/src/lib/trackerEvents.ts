@@ -0,0 +1,225 @@
+/**
+ * Typed match events out of the `animation_json_v2` tracker feed. A frame carries its
+ * events under `events`/`gameevents` (or is one event itself), optionally wrapped in
+ * `data`; each event is recognised by its type name (`type`/`event`/`name`). Numeric
+ * provider codes (`type_id`) are not mapped until checked against a recorded feed, so
+ * they are skipped like anything else unrecognised and a frame may normalize to nothing.
+ */
+
+export type TrackerSide = 'home' | 'away';
+
+export type TrackerIncidentType = 'goal' | 'penalty' | 'card' | 'corner' | 'substitution' | 'attack' | 'dangerous_attack';
+
+export type TrackerIncident = {
+  kind: 'incident';
+  type: TrackerIncidentType;
+  card: 'yellow' | 'red' | null;
+  side: TrackerSide | null;
+  minute: number | null;
+  period: number | null;
+  label: string;
+};
+
+export type TrackerBall = {
+  kind: 'ball';
+  x: number;
+  y: number;
+  side: TrackerSide | null;
+};
+
+export type TrackerPeriod = {
+  kind: 'period';
+  phase: 'start' | 'end';
+  period: number | null;
+  final: boolean;
+  label: string;
+};
+
+export type TrackerEvent = TrackerIncident | TrackerBall | TrackerPeriod;
+
+/** What earlier frames told about the game; the sport usually comes with the snapshot only. */
+export type TrackerFeedContext = {
+  sport: string | null;
+  period: number | null;
+};
+
+export function createTrackerFeedContext(): TrackerFeedContext {
+  return { sport: null, period: null };
+}
+
+type Kind =
+  | { kind: 'incident'; type: TrackerIncidentType; card?: 'yellow' | 'red' }
+  | { kind: 'ball' }
+  | { kind: 'period'; phase: 'start' | 'end'; final?: boolean };
+
+// Type names with separators and case removed.
+const TYPE_NAMES: Record<string, Kind> = {
+  goal: { kind: 'incident', type: 'goal' },
+  score: { kind: 'incident', type: 'goal' },
+  penalty: { kind: 'incident', type: 'penalty' },
+  yellowcard: { kind: 'incident', type: 'card', card: 'yellow' },
+  redcard: { kind: 'incident', type: 'card', card: 'red' },
+  yellowredcard: { kind: 'incident', type: 'card', card: 'red' },
+  corner: { kind: 'incident', type: 'corner' },
+  cornerkick: { kind: 'incident', type: 'corner' },
+  substitution: { kind: 'incident', type: 'substitution' },
+  attack: { kind: 'incident', type: 'attack' },
+  dangerousattack: { kind: 'incident', type: 'dangerous_attack' },
+  ballposition: { kind: 'ball' },
+  ball: { kind: 'ball' },
+  periodstart: { kind: 'period', phase: 'start' },
+  kickoff: { kind: 'period', phase: 'start' },
+  periodend: { kind: 'period', phase: 'end' },
+  halftime: { kind: 'period', phase: 'end' },
+  fulltime: { kind: 'period', phase: 'end', final: true },
+  matchend: { kind: 'period', phase: 'end', final: true },
+  gameend: { kind: 'period', phase: 'end', final: true }
+};
+
+type SportProfile = {
+  period: (n: number) => string;
+  incidents?: Partial<Record<TrackerIncidentType, string>>;
+};
+
+const INCIDENT_LABELS: Record<TrackerIncidentType, string> = {
+  goal: 'Goal',
+  penalty: 'Penalty',
+  card: 'Card',
+  corner: 'Corner',
+  substitution: 'Substitution',
+  attack: 'Attack',
+  dangerous_attack: 'Dangerous attack'
+};
+
+const ordinal = (n: number) => `${n}${n === 1 ? 'st' : n === 2 ? 'nd' : n === 3 ? 'rd' : 'th'}`;
+
+const halves: SportProfile = { period: (n) => (n <= 2 ? `${ordinal(n)} half` : n <= 4 ? `Extra time ${ordinal(n - 2)} half` : 'Penalties') };
+const sets: SportProfile = { period: (n) => `Set ${n}`, incidents: { goal: 'Point' } };
+
+// Keyed by the folded Swarm sport alias.
+const SPORT_PROFILES: Record<string, SportProfile> = {
+  soccer: halves,
+  football: halves,
+  handball: halves,
+  basketball: { period: (n) => (n <= 4 ? `Q${n}` : `Overtime ${n - 4}`), incidents: { goal: 'Score' } },
+  icehockey: { period: (n) => (n <= 3 ? `${ordinal(n)} period` : 'Overtime') },
+  tennis: sets,
+  volleyball: sets,
+  tabletennis: sets
+};
+
+const DEFAULT_PROFILE: SportProfile = { period: (n) => `Period ${n}` };
+
+function foldKey(value: unknown): string {
+  return String(value ?? '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function toSide(value: unknown): TrackerSide | null {
+  const key = foldKey(value);
+  if (key === '1' || key === 'home' || key === 'team1') return 'home';
+  if (key === '2' || key === 'away' || key === 'team2') return 'away';
+  return null;
+}
+
+function sportProfile(sport: string | null): SportProfile {
+  return (sport && SPORT_PROFILES[sport]) || DEFAULT_PROFILE;
+}
+
+/** Label of a period as the sport calls it, e.g. `2nd half`, `Q3` or `Set 2`. */
+export function trackerPeriodLabel(sport: string | null, period: number | null, final = false): string {
+  if (final) return 'Full time';
+  return period === null ? 'Period' : sportProfile(sport).period(period);
+}
+
+export function trackerIncidentLabel(sport: string | null, type: TrackerIncidentType, card: 'yellow' | 'red' | null = null): string {
+  if (type === 'card' && card) return card === 'yellow' ? 'Yellow card' : 'Red card';
+  return sportProfile(sport).incidents?.[type] ?? INCIDENT_LABELS[type];
+}
+
+type RawEvent = Record<string, unknown>;
+
+function asObject(value: unknown): RawEvent | null {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as RawEvent) : null;
+}
+
+function eventKind(raw: RawEvent): Kind | null {
+  for (const field of ['type', 'event', 'name']) {
+    const kind = TYPE_NAMES[foldKey(raw[field])];
+    if (kind) return kind;
+  }
+  return null;
+}
+
+function frameEvents(body: RawEvent): RawEvent[] {
+  for (const field of ['events', 'gameevents', 'game_events']) {
+    const list = body[field];
+    if (Array.isArray(list)) return list.map(asObject).filter((e): e is RawEvent => e !== null);
+  }
+  return [body];
+}
+
+function normalizeEvent(raw: RawEvent, context: TrackerFeedContext): TrackerEvent | null {
+  const kind = eventKind(raw);
+  if (!kind) return null;
+  const side = toSide(raw.side ?? raw.team);
+  const period = toNumber(raw.period ?? raw.set) ?? context.period;
+
+  if (kind.kind === 'ball') {
+    const x = toNumber(raw.x ?? raw.ball_x);
+    const y = toNumber(raw.y ?? raw.ball_y);
+    return x === null || y === null ? null : { kind: 'ball', x, y, side };
+  }
+
+  if (kind.kind === 'period') {
+    const final = Boolean(kind.final);
+    if (kind.phase === 'start' && period !== null) context.period = period;
+    return { kind: 'period', phase: kind.phase, period, final, label: trackerPeriodLabel(context.sport, period, final) };
+  }
+
+  const card = kind.card ?? null;
+  return {
+    kind: 'incident',
+    type: kind.type,
+    card,
+    side,
+    minute: toNumber(raw.current_minute ?? raw.minute),
+    period,
+    label: trackerIncidentLabel(context.sport, kind.type, card)
+  };
+}
+
+/**
+ * The typed events of one frame, in feed order. `context` is updated with the sport
+ * and current period the frame announces, so frames must be passed in arrival order.
+ */
+export function normalizeTrackerFrame(payload: unknown, context: TrackerFeedContext): TrackerEvent[] {
+  const frame = asObject(payload);
+  if (!frame) return [];
+  const body = asObject(frame.data) ?? frame;
+
+  const sport = foldKey(body.sport_alias ?? body.sport);
+  if (sport) context.sport = sport;
+  const period = toNumber(body.period);
+  if (period !== null) context.period = period;
+
+  const events: TrackerEvent[] = [];
+  for (const raw of frameEvents(body)) {
+    const event = normalizeEvent(raw, context);
+    if (event) events.push(event);
+  }
+  // A ball position may also ride along on the frame itself.
+  const ball = asObject(body.ball ?? body.ball_position);
+  if (ball) {
+    const event = normalizeEvent({ ...ball, type: 'ball' }, context);
+    if (event) events.push(event);
+  }
+  return events;
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { parseFeaturedTrackersConfig, selectFeaturedTrackerGames } from '../lib/featuredTrackers.js';
+import type { ActiveTeamGame } from '../lib/search.js';
+
+function game(gameId: string, mode: 'live' | 'prematch', marketsCount: number | null, startTs = 1700000000): ActiveTeamGame {
+  return {
+    gameId,
+    mode,
+    sportId: '1',
+    sportName: 'Football',
+    regionId: null,
+    region: null,
+    competitionId: null,
+    competition: null,
+    team1: 'A',
+    team2: 'B',
+    start_ts: startTs,
+    markets_count: marketsCount
+  };
+}
+
+describe('featuredTrackers', () => {
+  it('validates the admin config', () => {
+    expect(parseFeaturedTrackersConfig({ gameIds: ['77', 78, '77'], topLive: 3 })).toEqual({ gameIds: ['77', '78'], topLive: 3 });
+    expect(parseFeaturedTrackersConfig({})).toEqual({ gameIds: [], topLive: 0 });
+    expect(parseFeaturedTrackersConfig({ gameIds: ['abc'] })).toBeNull();
+    expect(parseFeaturedTrackersConfig({ gameIds: '77' })).toBeNull();
+    expect(parseFeaturedTrackersConfig({ topLive: 1.5 })).toBeNull();
+    expect(parseFeaturedTrackersConfig({ topLive: 500 })).toBeNull();
+    expect(parseFeaturedTrackersConfig([])).toBeNull();
+  });
+
+  it('adds the live games with the most markets after the listed ones', () => {
+    const active = [
+      game('1', 'live', 40),
+      game('2', 'live', 120),
+      game('3', 'prematch', 500),
+      game('4', 'live', 120, 1600000000),
+      game('5', 'live', null),
+      game('2', 'live', 120)
+    ];
+    expect(selectFeaturedTrackerGames({ gameIds: ['4'], topLive: 2 }, active)).toEqual([
+      { gameId: '4', source: 'manual' },
+      { gameId: '2', source: 'top_live' },
+      { gameId: '1', source: 'top_live' }
+    ]);
+    expect(selectFeaturedTrackerGames({ gameIds: [], topLive: 3 }, active).map((g) => g.gameId)).toEqual(['4', '2', '1']);
+    expect(selectFeaturedTrackerGames({ gameIds: ['9'], topLive: 0 }, active)).toEqual([{ gameId: '9', source: 'manual' }]);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeGameStats } from '../lib/gameStats.js';
+
+describe('game stats normalization', () => {
+  it('maps football stats into the stable schema', () => {
+    const stats = normalizeGameStats(
+      {
+        id: 1000,
+        type: 1,
+        sport_alias: 'Soccer',
+        is_stat_available: true,
+        info: { current_game_state: 'set2', current_game_time: '67', score1: '2', score2: '1' },
+        stats: {
+          score_set2: { team1_value: 1, team2_value: 1 },
+          score_set1: { team1_value: '1', team2_value: '0' },
+          possession: { team1_value: 58, team2_value: 42 },
+          shot_on_target: { team1_value: 6, team2_value: 3 },
+          yellow_card: { team1_value: 1, team2_value: null },
+          corner: { team1_value: 5, team2_value: 2 },
+          dangerous_attack: { team1_value: 40, team2_value: 31 },
+          penalty: { team1_value: 0, team2_value: 1 },
+          red_card: {}
+        }
+      },
+      0
+    );
+
+    expect(stats).toEqual({
+      gameId: '1000',
+      sport: 'Soccer',
+      is_live: true,
+      stats_available: true,
+      state: 'set2',
+      minute: 67,
+      score: { team1: 2, team2: 1 },
+      periods: [
+        { period: 1, label: 'H1', team1: 1, team2: 0 },
+        { period: 2, label: 'H2', team1: 1, team2: 1 }
+      ],
+      possession: { team1: 58, team2: 42 },
+      shots: { on_target: { team1: 6, team2: 3 }, off_target: null, blocked: null },
+      cards: { yellow: { team1: 1, team2: null }, red: null },
+      corners: { team1: 5, team2: 2 },
+      attacks: { total: null, dangerous: { team1: 40, team2: 31 } },
+      fouls: null,
+      offsides: null,
+      other: { penalty: { team1: 0, team2: 1 } },
+      updated_at: '1970-01-01T00:00:00.000Z'
+    });
+  });
+
+  it('labels periods per sport', () => {
+    const periods = (sport: string, count: number) =>
+      normalizeGameStats({
+        id: 1,
+        sport_alias: sport,
+        stats: Object.fromEntries(Array.from({ length: count }, (_, i) => [`score_set${i + 1}`, { team1_value: 1, team2_value: 0 }]))
+      })!.periods.map((p) => p.label);
+
+    expect(periods('Basketball', 5)).toEqual(['Q1', 'Q2', 'Q3', 'Q4', 'OT1']);
+    expect(periods('Tennis', 3)).toEqual(['S1', 'S2', 'S3']);
+    expect(periods('IceHockey', 3)).toEqual(['P1', 'P2', 'P3']);
+    expect(periods('Darts', 2)).toEqual(['P1', 'P2']);
+  });
+
+  it('handles games without stats', () => {
+    expect(normalizeGameStats({ id: 5, type: 0 })).toMatchObject({ stats_available: false, periods: [], possession: null, other: {} });
+    expect(normalizeGameStats(null)).toBeNull();
+    expect(normalizeGameStats({ stats: {} })).toBeNull();
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { diffGameRows, isEmptyGamesPatch, type GameRowState } from '../lib/gamesPatch.js';
+
+function game(id: number, score: string, extra: Record<string, unknown> = {}) {
+  return { id, team1_name: `Home ${id}`, team2_name: `Away ${id}`, info: { score, current_game_time: '10' }, markets_count: 20, ...extra };
+}
+
+describe('games_patch diffing', () => {
+  it('reports every game as added on the first pass', () => {
+    const rows = new Map<string, GameRowState>();
+    const patch = diffGameRows(rows, [game(1, '0:0'), game(2, '1:0')]);
+    expect(patch.added).toHaveLength(2);
+    expect(patch.removed).toEqual([]);
+    expect(patch.changed).toEqual([]);
+    expect(rows.size).toBe(2);
+  });
+
+  it('reports only the fields that changed for a ticking game', () => {
+    const rows = new Map<string, GameRowState>();
+    diffGameRows(rows, [game(1, '0:0'), game(2, '1:0')]);
+
+    const patch = diffGameRows(rows, [game(1, '1:0'), game(2, '1:0')]);
+    expect(patch.added).toEqual([]);
+    expect(patch.changed).toEqual([{ id: '1', fields: { info: { score: '1:0', current_game_time: '10' } } }]);
+  });
+
+  it('detects changes when subscription state is mutated in place', () => {
+    const rows = new Map<string, GameRowState>();
+    const g = game(1, '0:0');
+    diffGameRows(rows, [g]);
+
+    (g.info as Record<string, unknown>).score = '0:1';
+    g.markets_count = 18;
+    const patch = diffGameRows(rows, [g]);
+    expect(patch.changed).toHaveLength(1);
+    expect(Object.keys(patch.changed[0].fields).sort()).toEqual(['info', 'markets_count']);
+  });
+
+  it('reports removed games and dropped fields', () => {
+    const rows = new Map<string, GameRowState>();
+    diffGameRows(rows, [game(1, '0:0', { text_info: 'Break' }), game(2, '0:0')]);
+
+    const next = game(1, '0:0');
+    (next.info as Record<string, unknown>).current_game_time = '46';
+    const patch = diffGameRows(rows, [next]);
+    expect(patch.removed).toEqual(['2']);
+    expect(patch.changed[0].fields).toMatchObject({ text_info: null });
+    expect(rows.has('2')).toBe(false);
+  });
+
+  it('yields an empty patch when nothing moved', () => {
+    const rows = new Map<string, GameRowState>();
+    diffGameRows(rows, [game(1, '0:0')]);
+    expect(isEmptyGamesPatch(diffGameRows(rows, [game(1, '0:0')]))).toBe(true);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { createTrackerTimeline, fitTrackerTimeline, recordTrackerEntry, restoreTrackerTimeline, trackerCatchUpEntries } from '../lib/liveTracker.js';
+
+const entry = (n: number, payload: unknown = { n }) => ({ id: `e-${n}`, ts: n, payload });
+
+describe('liveTracker timeline', () => {
+  it('restarts at every snapshot and caps the events', () => {
+    const timeline = createTrackerTimeline('42', 0);
+    recordTrackerEntry(timeline, entry(1), false);
+    recordTrackerEntry(timeline, entry(2), true);
+    recordTrackerEntry(timeline, entry(3), false);
+    expect(trackerCatchUpEntries(timeline).map((e) => e.id)).toEqual(['e-2', 'e-3']);
+
+    for (let n = 4; n <= 6; n++) recordTrackerEntry(timeline, entry(n), false, 2);
+    expect(trackerCatchUpEntries(timeline).map((e) => e.id)).toEqual(['e-2', 'e-5', 'e-6']);
+    expect(timeline).toMatchObject({ truncated: true, updatedAtMs: 6 });
+
+    recordTrackerEntry(timeline, entry(7), true);
+    expect(timeline).toMatchObject({ events: [], truncated: false });
+  });
+
+  it('keeps the newest events that fit one storage value', () => {
+    const timeline = createTrackerTimeline('42', 0);
+    recordTrackerEntry(timeline, entry(1, { big: 'x'.repeat(100) }), true);
+    for (let n = 2; n <= 11; n++) recordTrackerEntry(timeline, entry(n, { text: 'y'.repeat(50) }), false);
+
+    const fitted = fitTrackerTimeline(timeline, 600)!;
+    expect(fitted.snapshot?.id).toBe('e-1');
+    expect(fitted.events.length).toBeGreaterThan(0);
+    expect(fitted.events.length).toBeLessThan(10);
+    expect(fitted.events[fitted.events.length - 1].id).toBe('e-11');
+    expect(fitted.truncated).toBe(true);
+    expect(timeline.events).toHaveLength(10);
+
+    expect(fitTrackerTimeline(timeline, 50)).toBeNull();
+  });
+
+  it('restores a stored head and its chunks', () => {
+    const head = { ...createTrackerTimeline('42', 1), snapshot: entry(1), chunkSeq: 3 };
+    const chunks = [
+      { seq: 5, entries: [entry(4), entry(5)] },
+      { seq: 2, entries: [entry(0)] },
+      { seq: 3, entries: [entry(2), entry(3)] }
+    ];
+    const restored = restoreTrackerTimeline(head, chunks);
+    expect(trackerCatchUpEntries(restored).map((e) => e.id)).toEqual(['e-1', 'e-2', 'e-3', 'e-4', 'e-5']);
+    expect(restored).toMatchObject({ truncated: false, updatedAtMs: 5 });
+
+    // A dropped leading chunk, or the event cap, leaves a truncated timeline.
+    expect(restoreTrackerTimeline(head, chunks.slice(0, 1)).truncated).toBe(true);
+    expect(restoreTrackerTimeline(head, chunks, 3).events.map((e) => e.id)).toEqual(['e-3', 'e-4', 'e-5']);
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createWebSocketRouter, FakeSwarmServer, whereAt } from './support/fakeSwarmServer.js';
+import { FakeTrackerServer } from './support/fakeTrackerServer.js';
+import { SwarmHubHarness, TRACKER_WS_URL } from './support/swarmHubHarness.js';
+import type { TrackerTimeline } from '../lib/liveTracker.js';
+import { gameShardName } from '../lib/sharding.js';
+
+describe('LiveTrackerDO against a fake tracker feed', () => {
+  let swarm: FakeSwarmServer;
+  let tracker: FakeTrackerServer;
+  let harness: SwarmHubHarness;
+
+  beforeEach(() => {
+    swarm = new FakeSwarmServer([
+      {
+        name: 'game-detail',
+        match: (p) => whereAt(p, 'game.id') === 77,
+        data: { game: { 77: { id: 77, type: 1, info: { score1: '0', score2: '0', current_game_state: 'set1', current_game_time: '10' } } } }
+      }
+    ]);
+    tracker = new FakeTrackerServer();
+    tracker.setSnapshot('77', { data: { sport_alias: 'Soccer', period: 1, score: '0:0' } });
+    vi.stubGlobal('WebSocket', createWebSocketRouter({ 'wss://fake-swarm.test': swarm, [TRACKER_WS_URL]: tracker }));
+    harness = new SwarmHubHarness(swarm);
+  });
+
+  afterEach(() => {
+    harness.dispose();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('catches late joiners up on the snapshot and the events since', async () => {
+    const first = await harness.openSse('/api/live-tracker?gameId=77&debug=1');
+    expect((await first.next('ready')).data).toMatchObject({ gameId: '77', catch_up: { snapshot: false, events: 0 } });
+    expect((await first.next('frame')).data).toMatchObject({ data: { score: '0:0' } });
+
+    tracker.send('77', { data: { events: [{ type: 'dangerous_attack', side: '1', current_minute: 11 }] } });
+    tracker.send('77', { data: { events: [{ type: 'goal', side: '2', current_minute: 12 }, { type: 'ball_position', x: 0.5, y: 0.5 }] } });
+    expect((await first.next('incident')).data).toMatchObject({ gameId: '77', sport: 'soccer', type: 'dangerous_attack', side: 'home' });
+    const goal = await first.next('incident');
+    expect(goal.data).toMatchObject({ type: 'goal', side: 'away', minute: 12, period: 1, label: 'Goal' });
+    const ball = await first.next('ball');
+    expect(ball.data).toMatchObject({ x: 0.5, y: 0.5 });
+    expect(ball.id).toBe(goal.id);
+
+    const late = await harness.openSse('/api/live-tracker?gameId=77');
+    expect((await late.next('ready')).data).toMatchObject({ upstream_connected: true, catch_up: { snapshot: true, events: 2, truncated: false } });
+    const caughtUp = [await late.next('incident'), await late.next('incident')];
+    // The sport announced by the snapshot still labels the caught-up events.
+    expect(caughtUp.map((f) => f.data)).toMatchObject([{ type: 'dangerous_attack', sport: 'soccer' }, { type: 'goal' }]);
+    expect(caughtUp[1].id).toBe(goal.id);
+    expect(tracker.subscriptions).toHaveLength(1);
+
+    // A client that saw everything resumes without a catch-up.
+    const resumed = await harness.openSse('/api/live-tracker?gameId=77', { headers: { 'Last-Event-ID': goal.id! } });
+    expect((await resumed.next('ready')).data).toMatchObject({ catch_up: null });
+    tracker.send('77', { data: { sport_alias: 'Soccer' } });
+    tracker.send('77', { data: { type: 'halftime' } });
+    expect((await resumed.next('period')).data).toMatchObject({ phase: 'end', period: 1, final: false, label: '1st half' });
+
+    // Resuming from a frame without typed events still replays what followed.
+    const debugResume = await harness.openSse('/api/live-tracker?gameId=77&debug=1', { headers: { 'Last-Event-ID': goal.id! } });
+    const quiet = await debugResume.next('frame');
+    expect(quiet.data).toEqual({ data: { sport_alias: 'Soccer' } });
+    const replayed = await harness.openSse('/api/live-tracker?gameId=77', { headers: { 'Last-Event-ID': quiet.id! } });
+    expect((await replayed.next('ready')).data).toMatchObject({ catch_up: null });
+    expect((await replayed.next('period')).data).toMatchObject({ phase: 'end' });
+  });
+
+  it('sends the raw frames to debug clients only', async () => {
+    const debug = await harness.openSse('/api/live-tracker?gameId=77&debug=1');
+    const plain = await harness.openSse('/api/live-tracker?gameId=77');
+    expect((await debug.next('frame')).data).toEqual({ data: { sport_alias: 'Soccer', period: 1, score: '0:0' } });
+
+    tracker.send('77', { data: { events: [{ type: 'yellow_card', team: 'away', minute: 30 }] } });
+    const frame = await debug.next('frame');
+    expect(frame.data).toEqual({ data: { events: [{ type: 'yellow_card', team: 'away', minute: 30 }] } });
+    expect((await debug.next('incident')).id).toBe(frame.id);
+    expect((await plain.next('incident')).data).toMatchObject({ type: 'card', card: 'yellow', label: 'Yellow card', side: 'away', minute: 30 });
+    await expect(plain.next('frame', 200)).rejects.toThrow();
+  });
+
+  it('reconnects with backoff and resubscribes for a fresh snapshot', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const sse = await harness.openSse('/api/live-tracker?gameId=77&debug=1');
+    await sse.next('frame');
+    tracker.send('77', { data: { type: 'attack' } });
+    await sse.next('frame');
+
+    tracker.setSnapshot('77', { snapshot: { score: '1:0' } });
+    tracker.disconnectAll();
+    expect((await sse.next('reconnecting')).data).toEqual({ gameId: '77', attempt: 1, delay_ms: 500 });
+    expect((await sse.next('frame', 3000)).data).toEqual({ snapshot: { score: '1:0' } });
+    expect(tracker.subscriptions.map((s) => s.snapshot)).toEqual([true, true]);
+
+    // The new snapshot replaces the timeline, including the copy kept in storage.
+    const late = await harness.openSse('/api/live-tracker?gameId=77');
+    expect((await late.next('ready')).data).toMatchObject({ catch_up: { snapshot: true, events: 0 } });
+    await vi.waitFor(
+      () => expect((harness.trackerStates.get('77')!.storage.data.get('tracker_timeline') as TrackerTimeline)?.snapshot?.payload).toEqual({ snapshot: { score: '1:0' } }),
+      { timeout: 3000 }
+    );
+
+    // Later events are stored on their own, without writing the snapshot again.
+    const storage = harness.trackerStates.get('77')!.storage;
+    const headWrites = vi.spyOn(storage, 'put');
+    tracker.send('77', { data: { type: 'corner', side: 'home' } });
+    await vi.waitFor(() => expect(Array.from(storage.data.keys()).filter((k) => k.startsWith('tracker_timeline_chunk:'))).toHaveLength(1), {
+      timeout: 3000
+    });
+    expect(headWrites.mock.calls.map(([key]) => key)).not.toContain('tracker_timeline');
+    expect((storage.data.get('tracker_timeline') as TrackerTimeline).events).toEqual([]);
+
+    // After an eviction the stored timeline still serves the catch-up.
+    harness.evictTracker('77');
+    tracker.setRefuseConnections(true);
+    const afterEviction = await harness.openSse('/api/live-tracker?gameId=77&debug=1');
+    expect((await afterEviction.next('ready')).data).toMatchObject({ upstream_connected: false, catch_up: { snapshot: true, events: 1 } });
+    expect((await afterEviction.next('frame')).data).toEqual({ snapshot: { score: '1:0' } });
+    expect((await afterEviction.next('frame')).data).toEqual({ data: { type: 'corner', side: 'home' } });
+    expect((await afterEviction.next('reconnecting')).data).toMatchObject({ attempt: 1 });
+  });
+
+  it('refuses replays where storage has no SQL', async () => {
+    const resp = await harness.fetch('/api/live-tracker/replay?gameId=77');
+    expect(resp.status).toBe(503);
+    expect(await resp.json()).toEqual({ error: 'Tracker archive is not available' });
+    expect(tracker.subscriptions).toHaveLength(0);
+  });
+
+  it('keeps featured trackers connected without clients until their lease runs out', async () => {
+    const put = await harness.fetch('/api/admin/featured-trackers', { method: 'PUT', body: JSON.stringify({ gameIds: ['77'] }) });
+    expect(await put.json()).toMatchObject({ config: { gameIds: ['77'], topLive: 0 }, featured: [{ gameId: '77', source: 'manual' }] });
+    expect(harness.states.get('global')!.storage.alarm).not.toBeNull();
+    await tracker.waitForSubscriptions(1);
+    expect(harness.trackerStates.get('77')!.storage.alarm).not.toBeNull();
+    tracker.send('77', { data: { type: 'goal', side: 'home' } });
+
+    // The first viewer finds the tracker connected and already caught up.
+    const sse = await harness.openSse('/api/live-tracker?gameId=77');
+    expect((await sse.next('ready')).data).toMatchObject({ upstream_connected: true, catch_up: { snapshot: true, events: 1 } });
+    expect((await sse.next('incident')).data).toMatchObject({ type: 'goal', sport: 'soccer' });
+    sse.close();
+
+    // Renewals come from the coordinator's alarm; without them the lease runs out.
+    const now = Date.now();
+    vi.spyOn(Date, 'now').mockReturnValue(now + 4 * 60 * 1000);
+    await harness.tracker('77').alarm();
+    await vi.waitFor(() => expect(tracker.sockets.size).toBe(0));
+    expect(harness.trackerStates.get('77')!.storage.data.has('tracker_warm')).toBe(false);
+    expect(tracker.subscriptions).toHaveLength(1);
+  });
+
+  it('merges the Swarm score with tracker incidents and checks they agree', async () => {
+    const sse = await harness.openSse('/api/match-center?gameId=77&windowSec=30', { shard: gameShardName('77') });
+    expect((await sse.next('ready')).data).toEqual({ gameId: '77', window_ms: 30000 });
+    expect((await sse.next('state')).data).toMatchObject({ gameId: '77', score: { team1: 0, team2: 0 }, minute: 10 });
+    await tracker.waitForSubscriptions(1);
+    await vi.waitFor(() => expect(swarm.subscriptionIds('game-detail')).toHaveLength(1));
+
+    tracker.send('77', { data: { events: [{ type: 'goal', side: '1', current_minute: 12 }] } });
+    expect((await sse.next('incident')).data).toMatchObject({ gameId: '77', type: 'goal', side: 'home', minute: 12 });
+
+    swarm.push('game-detail', { game: { 77: { info: { score1: '1', current_game_time: '12' } } } });
+    expect((await sse.next('state')).data).toMatchObject({ score: { team1: 1, team2: 0 }, minute: 12 });
+    expect((await sse.next('consistency')).data).toMatchObject({ gameId: '77', status: 'matched', side: 'team1', lead: 'tracker' });
+
+    const resp = await harness.fetch('/api/match-center?gameId=77&windowSec=1', { shard: gameShardName('77') });
+    expect(resp.status).toBe(400);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { buildMarketBook, resolveNameTemplate } from '../lib/marketBook.js';
+
+function game() {
+  return {
+    id: 987,
+    team1_name: 'Lions',
+    team2_name: 'Tigers',
+    markets_count: 3,
+    market: {
+      10: {
+        id: 10, group_id: 2, group_name: 'Totals', group_order: 2, type: 'OverUnder', display_key: 'TOTALS',
+        name_template: 'Total Goals ({base})', base: 2.5, order: 1, col_count: 2,
+        event: {
+          101: { id: 101, type_1: 'Over', name: 'Over', price: '1.85', base: 2.5, order: 0 },
+          102: { id: 102, type_1: 'Under', name: 'Under', price: 1.95, base: 2.5, order: 1 }
+        }
+      },
+      11: {
+        id: 11, group_id: 1, group_name: 'Main', group_order: 1, type: 'HandicapAsian', display_key: 'HANDICAP',
+        name_template: 'Asian Handicap', order: 2, col_count: 2,
+        event: {
+          111: { id: 111, type_1: 'Home', name: 'Team 1', price: 1.9, base: -1.5, order: 0 },
+          112: { id: 112, type_1: 'Away', name: 'Team 2', price: 1.9, base: 1.5, order: 1, is_blocked: 1 }
+        }
+      },
+      12: {
+        id: 12, group_id: 1, group_name: 'Main', group_order: 1, type: 'P1XP2', name: 'Match Result', order: 1, col_count: 3,
+        event: {
+          121: { id: 121, type: 'P1', name: 'W1', price: 2.1, order: 0 },
+          122: { id: 122, type: 'X', name: 'Draw', price: 3.2, order: 1 },
+          123: { id: 123, type: 'P2', name: 'W2', price: 3.4, order: 2 }
+        }
+      }
+    }
+  };
+}
+
+describe('market book', () => {
+  it('groups markets by group_id in group order and sorts markets by order', () => {
+    const book = buildMarketBook(game())!;
+    expect(book.gameId).toBe('987');
+    expect(book.groups.map((g) => g.name)).toEqual(['Main', 'Totals']);
+    expect(book.groups[0].markets.map((m) => m.id)).toEqual(['12', '11']);
+    expect(book.groups[0].markets[0].selections.map((s) => s.side)).toEqual(['home', 'draw', 'away']);
+  });
+
+  it('resolves name templates with base and team names', () => {
+    const book = buildMarketBook(game())!;
+    expect(book.groups[1].markets[0].name).toBe('Total Goals (2.5)');
+    expect(book.groups[0].markets[1].selections.map((s) => s.name)).toEqual(['Lions', 'Tigers']);
+    expect(resolveNameTemplate('Handicap {sw}', { base: 1, team1: 'A', team2: 'B' })).toBe('Handicap +1');
+    expect(resolveNameTemplate('Total ({base})', { base: null, team1: 'A', team2: 'B' })).toBe('Total');
+  });
+
+  it('pairs handicap and total selections into structured lines', () => {
+    const book = buildMarketBook(game())!;
+    const handicap = book.groups[0].markets[1];
+    expect(handicap.kind).toBe('handicap');
+    expect(handicap.lines).toHaveLength(1);
+    expect(handicap.lines![0].line).toBe(-1.5);
+    expect(handicap.lines![0].selections.map((s) => [s.side, s.line, s.blocked])).toEqual([
+      ['home', -1.5, false],
+      ['away', 1.5, true]
+    ]);
+
+    const total = book.groups[1].markets[0];
+    expect(total.kind).toBe('total');
+    expect(total.lines![0]).toMatchObject({ line: 2.5 });
+    expect(total.lines![0].selections.map((s) => [s.side, s.price])).toEqual([
+      ['over', 1.85],
+      ['under', 1.95]
+    ]);
+  });
+
+  it('derives the away handicap from the market base when events have none', () => {
+    const g = game();
+    const m = g.market[11] as any;
+    m.base = -0.5;
+    delete m.event[111].base;
+    delete m.event[112].base;
+    const handicap = buildMarketBook(g)!.groups[0].markets[1];
+    expect(handicap.selections.map((s) => s.line)).toEqual([-0.5, 0.5]);
+    expect(handicap.lines!.map((l) => l.line)).toEqual([-0.5]);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createConsistencyState,
+  expireConsistency,
+  extractMatchState,
+  observeSwarmScore,
+  observeTrackerGoal,
+  parseConsistencyWindowMs,
+  setConsistencySport
+} from '../lib/matchCenter.js';
+
+describe('matchCenter', () => {
+  it('reads score and clock from Swarm info', () => {
+    expect(extractMatchState({ id: 1, info: { score1: '2', score2: '1', current_game_state: 'set2', current_game_time: '67' } })).toEqual({
+      score: { team1: 2, team2: 1 },
+      state: 'set2',
+      minute: 67
+    });
+  });
+
+  it('matches goals whichever feed reports them first', () => {
+    const state = createConsistencyState(30000, 'Soccer');
+    expect(observeSwarmScore(state, { team1: 0, team2: 0 }, 0)).toEqual([]);
+
+    expect(observeTrackerGoal(state, 'home', 1000)).toEqual([]);
+    expect(observeSwarmScore(state, { team1: 1, team2: 0 }, 4000)).toEqual([
+      { status: 'matched', side: 'team1', lead: 'tracker', delay_ms: 3000, score: { team1: 1, team2: 0 } }
+    ]);
+
+    expect(observeSwarmScore(state, { team1: 1, team2: 1 }, 5000)).toEqual([]);
+    expect(observeTrackerGoal(state, null, 7000)).toEqual([
+      { status: 'matched', side: 'team2', lead: 'swarm', delay_ms: 2000, score: { team1: 1, team2: 1 } }
+    ]);
+    expect(expireConsistency(state, 100000)).toEqual([]);
+  });
+
+  it('reports goals left unconfirmed past the window once', () => {
+    const state = createConsistencyState(30000, 'Soccer');
+    observeSwarmScore(state, { team1: 1, team2: 0 }, 0);
+    observeTrackerGoal(state, 'away', 1000);
+    observeSwarmScore(state, { team1: 3, team2: 0 }, 2000);
+
+    expect(expireConsistency(state, 30000)).toEqual([]);
+    expect(expireConsistency(state, 32000)).toEqual([
+      { status: 'mismatch', reason: 'tracker_goal_without_score', side: 'team2', since_ts: 1000, window_ms: 30000, score: { team1: 3, team2: 0 } },
+      { status: 'mismatch', reason: 'score_without_tracker_goal', side: 'team1', since_ts: 2000, window_ms: 30000, score: { team1: 3, team2: 0 } },
+      { status: 'mismatch', reason: 'score_without_tracker_goal', side: 'team1', since_ts: 2000, window_ms: 30000, score: { team1: 3, team2: 0 } }
+    ]);
+    expect(expireConsistency(state, 60000)).toEqual([]);
+  });
+
+  it('withdraws a goal taken back before the tracker confirmed it', () => {
+    const state = createConsistencyState(30000, 'Soccer');
+    observeSwarmScore(state, { team1: 0, team2: 0 }, 0);
+    observeSwarmScore(state, { team1: 1, team2: 0 }, 1000);
+    expect(observeSwarmScore(state, { team1: 0, team2: 0 }, 2000)).toEqual([]);
+    expect(expireConsistency(state, 40000)).toEqual([]);
+
+    // The next goal counts from the corrected score.
+    expect(observeTrackerGoal(state, 'home', 41000)).toEqual([]);
+    expect(observeSwarmScore(state, { team1: 1, team2: 0 }, 42000)).toMatchObject([{ status: 'matched', side: 'team1', lead: 'tracker' }]);
+  });
+
+  it('only checks sports where a goal adds one to the score', () => {
+    const state = createConsistencyState(30000);
+    observeSwarmScore(state, { team1: 0, team2: 0 }, 0);
+    expect(observeTrackerGoal(state, 'home', 500)).toEqual([]);
+
+    setConsistencySport(state, 'basketball');
+    expect(observeSwarmScore(state, { team1: 3, team2: 0 }, 1000)).toEqual([]);
+    expect(observeTrackerGoal(state, 'home', 1500)).toEqual([]);
+    expect(expireConsistency(state, 60000)).toEqual([]);
+
+    setConsistencySport(state, 'IceHockey');
+    observeTrackerGoal(state, 'away', 61000);
+    expect(observeSwarmScore(state, { team1: 3, team2: 1 }, 62000)).toMatchObject([{ status: 'matched', side: 'team2' }]);
+  });
+
+  it('parses the window in seconds', () => {
+    expect(parseConsistencyWindowMs(null)).toBe(60000);
+    expect(parseConsistencyWindowMs('20')).toBe(20000);
+    expect(parseConsistencyWindowMs('1')).toBeNull();
+    expect(parseConsistencyWindowMs('601')).toBeNull();
+    expect(parseConsistencyWindowMs('1.5')).toBeNull();
+  });
+});
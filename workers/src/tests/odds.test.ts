@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { computeMarketProbabilities } from '../lib/odds.js';
+
+describe('market probabilities', () => {
+  it('removes the margin proportionally and with Shin', () => {
+    const probs = computeMarketProbabilities([{ price: 2.1 }, { price: 3.2 }, { price: 3.4 }]);
+    expect(probs).toEqual({
+      overround: 1.0828,
+      proportional: [0.4398, 0.2886, 0.2716],
+      shin: [0.4463, 0.2859, 0.2679],
+      shin_z: 0.0415
+    });
+    // Shin moves probability from the longshots to the favourite
+    expect(probs!.shin[0]!).toBeGreaterThan(probs!.proportional[0]!);
+    expect(probs!.shin[2]!).toBeLessThan(probs!.proportional[2]!);
+  });
+
+  it('solves the two-way case exactly', () => {
+    expect(computeMarketProbabilities([{ price: 1.9 }, { price: 1.9 }])).toEqual({
+      overround: 1.0526,
+      proportional: [0.5, 0.5],
+      shin: [0.5, 0.5],
+      shin_z: 0.0526
+    });
+  });
+
+  it('leaves a book without margin as it is', () => {
+    expect(computeMarketProbabilities([{ price: 2 }, { price: 2.1 }])).toMatchObject({ shin_z: 0, shin: [0.5122, 0.4878] });
+  });
+
+  it('leaves blocked selections out of the book', () => {
+    expect(computeMarketProbabilities([{ price: 1.9 }, { price: 5, blocked: true }, { price: 1.9, blocked: false }])).toEqual({
+      overround: 1.0526,
+      proportional: [0.5, null, 0.5],
+      shin: [0.5, null, 0.5],
+      shin_z: 0.0526
+    });
+    expect(computeMarketProbabilities([{ price: 2, blocked: true }, { price: 2 }])).toBeNull();
+  });
+
+  it('needs a valid price for every selection', () => {
+    expect(computeMarketProbabilities([{ price: 2 }, { price: null }])).toBeNull();
+    expect(computeMarketProbabilities([{ price: 2 }, { price: 1 }])).toBeNull();
+    expect(computeMarketProbabilities([{ price: 2 }])).toBeNull();
+    expect(computeMarketProbabilities(null)).toBeNull();
+  });
+});
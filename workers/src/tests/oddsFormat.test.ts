@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyMargin,
+  createOddsPresentationWriter,
+  parseMarginProfile,
+  parseOddsFormat,
+  presentOddsEvent,
+  presentPrice,
+  resolveMarginPct,
+  toAmericanOdds,
+  toFractionalOdds,
+  toHongKongOdds,
+  type MarginProfile
+} from '../lib/oddsFormat.js';
+import { computeMarketProbabilities } from '../lib/odds.js';
+import { encodeSseEvent, type EncodedSseEvent } from '../lib/sseFrames.js';
+
+const profile: MarginProfile = {
+  id: 'partner-a',
+  name: 'Partner A',
+  defaultMarginPct: 2,
+  rules: [
+    { sportId: '1', marginPct: 4 },
+    { marketType: 'P1XP2', marginPct: 5 },
+    { sportId: '1', marketType: 'P1XP2', marginPct: 6 }
+  ],
+  updated_at: '2024-01-01T00:00:00.000Z'
+};
+
+describe('odds formats', () => {
+  it('converts decimal prices', () => {
+    expect(toFractionalOdds(2.5)).toBe('3/2');
+    expect(toFractionalOdds(2.1)).toBe('11/10');
+    expect(toFractionalOdds(1.333)).toBe('1/3');
+    expect(toFractionalOdds(1)).toBeNull();
+    expect(toAmericanOdds(2.1)).toBe(110);
+    expect(toAmericanOdds(1.5)).toBe(-200);
+    expect(toHongKongOdds(3.4)).toBe(2.4);
+    expect(presentPrice('2.1', 'decimal', 0)).toBe(2.1);
+    expect(presentPrice(null, 'american', 0)).toBeNull();
+  });
+
+  it('parses the format parameter', () => {
+    expect(parseOddsFormat(null)).toBe('decimal');
+    expect(parseOddsFormat('American')).toBe('american');
+    expect(parseOddsFormat('moneyline')).toBeNull();
+  });
+});
+
+describe('margin profiles', () => {
+  it('picks the most specific rule', () => {
+    expect(resolveMarginPct(profile, '1', 'P1XP2')).toBe(6);
+    expect(resolveMarginPct(profile, '2', 'P1XP2')).toBe(5);
+    expect(resolveMarginPct(profile, '1', 'OverUnder')).toBe(4);
+    expect(resolveMarginPct(profile, '2', null)).toBe(2);
+    expect(resolveMarginPct(null, '1', 'P1XP2')).toBe(0);
+  });
+
+  it('scales implied probability and never drops to evens or below', () => {
+    expect(applyMargin(2.1, 5)).toBe(2);
+    expect(applyMargin(2.1, 0)).toBe(2.1);
+    expect(applyMargin(1.02, 10)).toBe(1.01);
+  });
+
+  it('validates admin input', () => {
+    const parsed = parseMarginProfile('partner-a', { name: 'A', defaultMarginPct: 3, rules: [{ sportId: 1, marketType: 'p1xp2', marginPct: 5 }] }, 0);
+    expect(parsed).toEqual({
+      id: 'partner-a',
+      name: 'A',
+      defaultMarginPct: 3,
+      rules: [{ sportId: '1', marketType: 'P1XP2', marginPct: 5 }],
+      updated_at: '1970-01-01T00:00:00.000Z'
+    });
+    expect(parseMarginProfile('partner-a', { defaultMarginPct: 80 })).toBeNull();
+    expect(parseMarginProfile('partner-a', { rules: [{ marginPct: 1 }] })).toBeNull();
+    expect(parseMarginProfile('bad id', {})).toBeNull();
+  });
+
+  it('rewrites odds, markets and game payloads', () => {
+    const p = { format: 'american' as const, profile, sportId: null };
+    const odds = presentOddsEvent('odds', {
+      sportId: '1',
+      updates: [{ gameId: 1, odds: [{ price: 2.12, prev_price: 2.0, marketType: 'P1XP2', direction: 'up' }] }]
+    }, p) as any;
+    expect(odds.updates[0].odds[0]).toMatchObject({ price: 100, prev_price: -112, direction: 'up' });
+
+    const book = () => [
+      { price: 2.1, marketType: 'P1XP2', blocked: false },
+      { price: 3.2, marketType: 'P1XP2', blocked: false },
+      { price: 3.4, marketType: 'P1XP2', blocked: true }
+    ];
+    const margined = presentOddsEvent('odds', {
+      sportId: '1',
+      updates: [{ gameId: 1, odds: book(), probabilities: computeMarketProbabilities(book()) }]
+    }, { ...p, format: 'decimal' }) as any;
+    expect(margined.updates[0].probabilities).toEqual(
+      computeMarketProbabilities(book().map((o) => ({ ...o, price: applyMargin(o.price, 6) })))
+    );
+    expect(margined.updates[0].probabilities.overround).toBeGreaterThan(computeMarketProbabilities(book())!.overround);
+    expect(margined.updates[0].probabilities.shin[2]).toBeNull();
+
+    const markets = presentOddsEvent('markets', {
+      groups: [{ markets: [{ type: 'OverUnder', selections: [{ price: 2.08 }], lines: [{ selections: [{ price: 2.08 }] }] }] }]
+    }, { ...p, sportId: '1' }) as any;
+    expect(markets.groups[0].markets[0].selections[0].price).toBe(100);
+    expect(markets.groups[0].markets[0].lines[0].selections[0].price).toBe(100);
+
+    const game = presentOddsEvent('game', { data: { market: { 5: { type: 'X', event: { 7: { price: 3.06 } } } } } }, p) as any;
+    expect(game.data.market[5].event[7].price).toBe(200);
+  });
+
+  it('presents piped odds frames split across chunks', async () => {
+    const written: EncodedSseEvent[] = [];
+    const writer = createOddsPresentationWriter(
+      { write: async (chunk) => void written.push(chunk), close: () => undefined },
+      { format: 'decimal', profile: () => profile, sportId: '1' }
+    );
+    const bytes = new TextEncoder().encode(
+      ': ping\n\nid: e-1\nevent: odds\ndata: {"updates":[{"gameId":1,"odds":[{"price":2.1,"marketType":"P1XP2"}]}],"team":"Atlético"}\n\n'
+    );
+    const split = bytes.indexOf(0xc3) + 1; // inside the two-byte "é"
+
+    await writer.write(bytes.slice(0, 8));
+    await writer.write(bytes.slice(8, split));
+    await writer.write(bytes.slice(split));
+
+    expect(new TextDecoder().decode(written[0])).toBe(': ping\n\n');
+    expect(written).toHaveLength(2);
+    expect(written[1].frame).toMatchObject({ event: 'odds', id: 'e-1', data: { team: 'Atlético' } });
+    expect((written[1].frame!.data as any).updates[0].odds[0].price).toBe(applyMargin(2.1, 6));
+  });
+
+  it('presents emitted frames from a copy', async () => {
+    const written: EncodedSseEvent[] = [];
+    const writer = createOddsPresentationWriter(
+      { write: async (chunk) => void written.push(chunk), close: () => undefined },
+      { format: 'decimal', profile: () => profile, sportId: '1' }
+    );
+    const event = encodeSseEvent('odds', { updates: [{ gameId: 1, odds: [{ price: 2.1, marketType: 'P1XP2' }] }] }, 'e-2');
+
+    await writer.write(event);
+    await writer.write(event);
+
+    expect(written.map((c) => (c.frame!.data as any).updates[0].odds[0].price)).toEqual([applyMargin(2.1, 6), applyMargin(2.1, 6)]);
+    expect((event.frame!.data as any).updates[0].odds[0].price).toBe(2.1);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { buildOddsArrFromMarket } from '../lib/odds.js';
+import {
+  annotateOddsMovement,
+  appendOddsHistory,
+  diffSelectionPrices,
+  pricesFromOddsArr,
+  pruneOddsHistory
+} from '../lib/oddsHistory.js';
+
+function market(p1: number, x: number, p2: number, blocked = 0) {
+  return {
+    id: 1,
+    type: 'P1XP2',
+    is_blocked: blocked,
+    event: {
+      11: { id: 11, type: 'P1', price: p1, order: 0 },
+      12: { id: 12, type: 'X', price: x, order: 1 },
+      13: { id: 13, type: 'P2', price: p2, order: 2 }
+    }
+  };
+}
+
+describe('odds movement history', () => {
+  it('annotates each selection with prev_price and direction', () => {
+    const before = buildOddsArrFromMarket(market(2.1, 3.2, 3.4));
+    const after = buildOddsArrFromMarket(market(2.0, 3.2, 3.6));
+    const annotated = annotateOddsMovement(before, after)!;
+    expect(annotated.map((o) => [o.eventId, o.prev_price, o.direction])).toEqual([
+      ['11', 2.1, 'down'],
+      ['12', null, null],
+      ['13', 3.4, 'up']
+    ]);
+    expect(annotateOddsMovement(undefined, after)!.every((o) => o.direction === null)).toBe(true);
+  });
+
+  it('records price and blocked changes but not first sightings', () => {
+    const before = pricesFromOddsArr(buildOddsArrFromMarket(market(2.1, 3.2, 3.4)));
+    const after = pricesFromOddsArr(buildOddsArrFromMarket(market(2.0, 3.2, 3.4, 1)));
+    const changes = diffSelectionPrices(before, after, 1000);
+    expect(changes['11']).toEqual({ ts: 1000, old: 2.1, new: 2.0, blocked: true });
+    expect(Object.keys(changes).sort()).toEqual(['11', '12', '13']);
+    expect(diffSelectionPrices(new Map(), after, 1000)).toEqual({});
+  });
+
+  it('appends to the bucket and drops points outside retention or over the cap', () => {
+    let bucket = appendOddsHistory(undefined, { 11: [{ ts: 0, old: 2, new: 2.1, blocked: false }] }, 0, 100, 3);
+    for (let ts = 10; ts <= 50; ts += 10) {
+      bucket = appendOddsHistory(bucket, { 11: [{ ts, old: 2, new: 2 + ts / 100, blocked: false }] }, ts, 100, 3);
+    }
+    expect(bucket.events['11'].map((p) => p.ts)).toEqual([30, 40, 50]);
+
+    const pruned = pruneOddsHistory(bucket, 145, 100, 3);
+    expect(pruned.events['11'].map((p) => p.ts)).toEqual([50]);
+    expect(pruneOddsHistory(bucket, 1000, 100, 3).events).toEqual({});
+  });
+
+  it('keeps one point per movement whichever groups reported it, in time order', () => {
+    let bucket = appendOddsHistory(undefined, { 11: [{ ts: 20, old: 2.1, new: 2.2, blocked: false }] }, 20);
+    // The live odds group, a competition group and the market book all saw 2.1 -> 2.2.
+    bucket = appendOddsHistory(
+      bucket,
+      {
+        11: [
+          { ts: 10, old: 2.0, new: 2.1, blocked: false },
+          { ts: 22, old: 2.1, new: 2.2, blocked: false },
+          { ts: 25, old: 2.0, new: 2.2, blocked: false },
+          { ts: 30, old: 2.2, new: 2.2, blocked: true }
+        ]
+      },
+      30
+    );
+    expect(bucket.events['11']).toEqual([
+      { ts: 10, old: 2.0, new: 2.1, blocked: false },
+      { ts: 20, old: 2.1, new: 2.2, blocked: false },
+      { ts: 30, old: 2.2, new: 2.2, blocked: true }
+    ]);
+  });
+});
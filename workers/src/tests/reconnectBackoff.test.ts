@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { getReconnectDelayMs, RECONNECT_BASE_DELAY_MS, RECONNECT_MAX_DELAY_MS } from '../lib/backoff.js';
+
+/**
+ * Property: For any attempt number, the reconnect delay stays within the upper
+ * half of the capped exponential window, so it never exceeds the max delay and
+ * never collapses to zero.
+ */
+
+describe('Swarm reconnect backoff', () => {
+  it('doubles the window per attempt until the cap', () => {
+    const upper = () => 0.999999;
+    expect(getReconnectDelayMs(0, RECONNECT_BASE_DELAY_MS, RECONNECT_MAX_DELAY_MS, upper)).toBe(999);
+    expect(getReconnectDelayMs(1, RECONNECT_BASE_DELAY_MS, RECONNECT_MAX_DELAY_MS, upper)).toBe(1999);
+    expect(getReconnectDelayMs(3, RECONNECT_BASE_DELAY_MS, RECONNECT_MAX_DELAY_MS, upper)).toBe(7999);
+    expect(getReconnectDelayMs(20, RECONNECT_BASE_DELAY_MS, RECONNECT_MAX_DELAY_MS, upper)).toBe(29999);
+  });
+
+  it('treats invalid attempt numbers as the first attempt', () => {
+    const lower = () => 0;
+    expect(getReconnectDelayMs(-5, 1000, 30000, lower)).toBe(500);
+    expect(getReconnectDelayMs(Number.NaN, 1000, 30000, lower)).toBe(500);
+  });
+
+  it('keeps every delay within the jitter window', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 1000 }), fc.double({ min: 0, max: 0.999999, noNaN: true }), (attempt, r) => {
+        const delay = getReconnectDelayMs(attempt, RECONNECT_BASE_DELAY_MS, RECONNECT_MAX_DELAY_MS, () => r);
+        const window = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** Math.min(attempt, 30));
+        return delay >= Math.floor(window / 2) && delay < window;
+      }),
+      { numRuns: 200 }
+    );
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  archiveSettlement,
+  buildArchiveGamesQuery,
+  parseScoreFilter,
+  pendingSettlementGameIds,
+  settlementBatchSize,
+  type ArchiveGamesQuery
+} from '../lib/resultsArchive.js';
+
+const base: ArchiveGamesQuery = {
+  sportId: null,
+  from: null,
+  to: null,
+  competitionId: null,
+  competitionName: null,
+  regionId: null,
+  regionName: null,
+  team: null,
+  score: null,
+  cursor: null,
+  limit: 50
+};
+
+/** Just enough of the settlement tables for archiveSettlement and pendingSettlementGameIds. */
+function createSettlementSql(gameIds: string[]) {
+  const settlements = new Map<string, string>();
+  const cursor = <T>(rows: T[]) => ({ toArray: () => rows, one: () => rows[0], rowsRead: rows.length, rowsWritten: 0 });
+  const sql = {
+    exec(query: string, ...bindings: unknown[]) {
+      if (query.startsWith('SELECT 1 AS found FROM result_games')) {
+        return cursor(gameIds.includes(String(bindings[0])) ? [{ found: 1 }] : []);
+      }
+      if (query.startsWith('INSERT OR REPLACE INTO result_settlements')) {
+        settlements.set(String(bindings[0]), String(bindings[1]));
+        return cursor([]);
+      }
+      if (query.includes('LEFT JOIN result_settlements')) {
+        return cursor(gameIds.filter((id) => !settlements.has(id)).map((game_id) => ({ game_id })));
+      }
+      throw new Error(`Unexpected query: ${query}`);
+    }
+  } as unknown as SqlStorage;
+  return { sql, settlements };
+}
+
+describe('resultsArchive', () => {
+  it('parses score filters', () => {
+    expect(parseScoreFilter('2:1')).toEqual({ team1: 2, team2: 1 });
+    expect(parseScoreFilter(' 0 - 3 ')).toEqual({ team1: 0, team2: 3 });
+    expect(parseScoreFilter('2:1:0')).toBeNull();
+    expect(parseScoreFilter(null)).toBeNull();
+  });
+
+  it('builds an unfiltered query that reads one extra row', () => {
+    const { sql, params } = buildArchiveGamesQuery(base);
+    expect(sql).not.toContain('WHERE');
+    expect(sql).toMatch(/ORDER BY date DESC, length\(game_id\) DESC, game_id DESC LIMIT \?$/);
+    expect(params).toEqual([51]);
+  });
+
+  it('binds every filter in order', () => {
+    const { sql, params } = buildArchiveGamesQuery({
+      ...base,
+      sportId: 1,
+      from: 1000,
+      to: 2000,
+      competitionId: '538',
+      competitionName: 'Premier League',
+      team: 'Atlético_',
+      score: { team1: 2, team2: 1 },
+      cursor: { date: 1500, gameId: '77' }
+    });
+    expect(sql).toContain('sport_id = ? AND date >= ? AND date < ?');
+    expect(sql).toContain('competition_fold = ?');
+    expect(sql).toContain("team1_fold LIKE ? ESCAPE '\\'");
+    expect(sql).toContain('score1 = ? AND score2 = ?');
+    expect(params).toEqual([
+      1,
+      1000,
+      2000,
+      '538',
+      'premier league',
+      '%atletico\\_%',
+      '%atletico\\_%',
+      2,
+      1,
+      1500,
+      1500,
+      '77',
+      '77',
+      '77',
+      51
+    ]);
+  });
+
+  it('sizes settlement runs to drain the backlog within bounds', () => {
+    expect(settlementBatchSize(0, 24, 200, 1000)).toBe(200);
+    expect(settlementBatchSize(12000, 24, 200, 1000)).toBe(500);
+    expect(settlementBatchSize(100000, 24, 200, 1000)).toBe(1000);
+  });
+
+  it('leaves a game pending when its results come back empty', async () => {
+    const { sql, settlements } = createSettlementSql(['101', '102']);
+    const getGameResults = vi.fn(async (gameId: string) => (gameId === '101' ? null : { lines: { line: [] } }));
+
+    for (const gameId of pendingSettlementGameIds(sql, 10)) {
+      archiveSettlement(sql, gameId, await getGameResults(gameId));
+    }
+
+    expect(archiveSettlement(sql, '101', {})).toBe(false);
+    expect([...settlements.keys()]).toEqual(['102']);
+    expect(pendingSettlementGameIds(sql, 10)).toEqual(['101']);
+  });
+});
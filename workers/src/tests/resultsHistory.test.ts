@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import {
+  filterResultGames,
+  foldText,
+  isResultDayFinal,
+  pageResultGames,
+  parseResultsCursor,
+  splitResultDays
+} from '../lib/resultsHistory.js';
+
+const DAY = 86400;
+
+const games = [
+  { game_id: 1, date: 100, team1_name: 'Atlético Madrid', team2_name: 'Sevilla', competition_id: 5, competition_name: 'LaLiga', region_id: 7 },
+  { game_id: 2, date: 300, team1_name: 'Arsenal', team2_name: 'Chelsea', competition_name: 'Premier League', region_name: 'England' },
+  { game_id: 3, date: 300, team1_name: 'Liverpool', team2_name: 'Everton', competition_name: 'Premier League', region_name: 'England' },
+  { game_id: 4, date: 200, team1_name: 'Real Madrid', team2_name: 'Getafe', competition_id: 5, competition_name: 'LaLiga', region_id: 7 }
+];
+
+describe('results history', () => {
+  it('splits a window into UTC days', () => {
+    expect(splitResultDays(DAY + 3600, 3 * DAY + 1)).toEqual([DAY, 2 * DAY, 3 * DAY]);
+    expect(splitResultDays(DAY, 2 * DAY)).toEqual([DAY]);
+    expect(isResultDayFinal(DAY, 2 * DAY)).toBe(false);
+    expect(isResultDayFinal(DAY, 3 * DAY)).toBe(true);
+  });
+
+  it('filters by competition, region and accent-insensitive team name', () => {
+    const filter = { competitionId: null, competitionName: null, regionId: null, regionName: null, team: null };
+    expect(filterResultGames(games, { ...filter, competitionId: '5' }).map((g) => g.game_id)).toEqual([1, 4]);
+    // Games without ids are matched on the hierarchy name instead.
+    expect(filterResultGames(games, { ...filter, competitionId: '9', competitionName: 'premier league' }).map((g) => g.game_id)).toEqual([2, 3]);
+    expect(filterResultGames(games, { ...filter, regionId: '7', team: 'atletico' }).map((g) => g.game_id)).toEqual([1]);
+    expect(filterResultGames(games, { ...filter, team: 'MADRID' }).map((g) => g.game_id)).toEqual([1, 4]);
+    expect(foldText(' Škoda Xanthi ')).toBe('skoda xanthi');
+  });
+
+  it('pages newest first with a keyset cursor', () => {
+    const first = pageResultGames(games, null, 2);
+    expect(first.games.map((g) => g.game_id)).toEqual([3, 2]);
+    expect(first).toMatchObject({ total: 4, next_cursor: '300_2' });
+
+    const second = pageResultGames(games, parseResultsCursor(first.next_cursor), 2);
+    expect(second.games.map((g) => g.game_id)).toEqual([4, 1]);
+    expect(second.next_cursor).toBeNull();
+
+    expect(parseResultsCursor('nope')).toBeNull();
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildSearchIndex,
+  collectHierarchyEntries,
+  collectTeamEntries,
+  parseSearchTypes,
+  searchIndex,
+  type ActiveTeamGame
+} from '../lib/search.js';
+
+const hierarchy = {
+  data: {
+    sport: {
+      1: {
+        id: 1,
+        name: 'Football',
+        region: {
+          10: { id: 10, name: 'England', competition: { 100: { id: 100, name: 'Premier League' }, 101: { id: 101, name: 'Championship' } } },
+          20: { id: 20, name: 'España', competition: { 200: { id: 200, name: 'La Liga' } } }
+        }
+      },
+      3: { id: 3, name: 'Basketball', region: {} }
+    }
+  }
+};
+
+function game(gameId: string, mode: 'live' | 'prematch', team1: string, team2: string): ActiveTeamGame {
+  return {
+    gameId,
+    mode,
+    sportId: '1',
+    sportName: 'Football',
+    regionId: '20',
+    region: 'España',
+    competitionId: '200',
+    competition: 'La Liga',
+    team1,
+    team2,
+    start_ts: 1700000000,
+    markets_count: null
+  };
+}
+
+const index = buildSearchIndex([
+  ...collectHierarchyEntries(hierarchy),
+  ...collectTeamEntries([game('7', 'prematch', 'Real Madrid', 'Atlético Madrid'), game('7', 'live', 'Real Madrid', 'Atlético Madrid')])
+]);
+
+describe('search', () => {
+  it('collects hierarchy entries per sport with their stream ids', () => {
+    const entries = collectHierarchyEntries(hierarchy);
+    expect(entries.map((e) => [e.type, e.id])).toEqual([
+      ['sport', '1'],
+      ['region', '10'],
+      ['competition', '100'],
+      ['competition', '101'],
+      ['region', '20'],
+      ['competition', '200'],
+      ['sport', '3']
+    ]);
+    expect(entries[2]).toMatchObject({ sportId: '1', regionId: '10', regionName: 'England', competitionId: '100' });
+  });
+
+  it('keeps the live row of a game listed twice', () => {
+    const teams = collectTeamEntries([game('7', 'prematch', 'Real Madrid', 'Atlético Madrid'), game('7', 'live', 'Real Madrid', 'Atlético Madrid')]);
+    expect(teams.map((t) => [t.name, t.mode, t.opponent])).toEqual([
+      ['Real Madrid', 'live', 'Atlético Madrid'],
+      ['Atlético Madrid', 'live', 'Real Madrid']
+    ]);
+  });
+
+  it('ranks exact and prefix matches before word prefixes and typos', () => {
+    const names = (q: string) => searchIndex(index, q, { types: null, limit: 10 }).map((h) => h.name);
+    expect(names('madrid')).toEqual(['Real Madrid', 'Atlético Madrid']);
+    expect(names('atletico mad')).toEqual(['Atlético Madrid']);
+    expect(names('espana')).toEqual(['España']);
+    expect(names('chempionship')).toEqual(['Championship']);
+    expect(names('basket')).toEqual(['Basketball']);
+    expect(names('zzz')).toEqual([]);
+  });
+
+  it('filters by type and caps the hits', () => {
+    expect(searchIndex(index, 'li', { types: ['competition'], limit: 10 }).map((h) => h.name)).toEqual(['La Liga']);
+    expect(searchIndex(index, 'madrid', { types: null, limit: 1 })).toHaveLength(1);
+    expect(parseSearchTypes('team,sport')).toEqual(['team', 'sport']);
+    expect(parseSearchTypes('player')).toBeUndefined();
+    expect(parseSearchTypes(null)).toBeNull();
+  });
+});
@@ -0,0 +1,188 @@
+import { describe, it, expect } from 'vitest';
+import { buildMarketBook } from '../lib/marketBook.js';
+import {
+  buildSettlementCatalog,
+  isFullMatchScoreMarket,
+  normalizeSettlements,
+  parseResultScore,
+  resolveFinalScore,
+  settleLineSelection
+} from '../lib/settlement.js';
+
+const game = {
+  id: 42,
+  team1_name: 'Arsenal',
+  team2_name: 'Chelsea',
+  sport_alias: 'Soccer',
+  info: { score1: '1', score2: '1' },
+  market: {
+    1: {
+      id: 1,
+      type: 'P1XP2',
+      name: 'Match Result',
+      event: {
+        11: { id: 11, type: 'P1', name: 'W1', order: 0 },
+        12: { id: 12, type: 'X', name: 'X', order: 1 },
+        13: { id: 13, type: 'P2', name: 'W2', order: 2 }
+      }
+    },
+    2: {
+      id: 2,
+      type: 'AsianHandicap',
+      name: 'Asian Handicap',
+      display_key: 'HANDICAP',
+      event: {
+        21: { id: 21, type: 'Home', name: 'Arsenal', base: -0.25, order: 0 },
+        22: { id: 22, type: 'Away', name: 'Chelsea', base: 0.25, order: 1 }
+      }
+    },
+    3: {
+      id: 3,
+      type: 'OverUnder',
+      name: 'Total Goals',
+      display_key: 'TOTALS',
+      event: {
+        31: { id: 31, type: 'Over', name: 'Over', base: 2.5, order: 0 },
+        32: { id: 32, type: 'Under', name: 'Under', base: 2.5, order: 1 }
+      }
+    }
+  }
+};
+
+describe('settlement', () => {
+  it('settles handicap and total lines, including quarter lines', () => {
+    const score = { team1: 2, team2: 1 };
+    expect(settleLineSelection('handicap', 'home', -1, score)).toBe('void');
+    expect(settleLineSelection('handicap', 'home', -0.75, score)).toBe('half-won');
+    expect(settleLineSelection('handicap', 'away', 0.75, score)).toBe('half-lost');
+    expect(settleLineSelection('handicap', 'away', 1.5, score)).toBe('won');
+    expect(settleLineSelection('total', 'over', 3.25, score)).toBe('half-lost');
+    expect(settleLineSelection('total', 'under', 2.5, score)).toBe('lost');
+    expect(settleLineSelection('total', null, 2.5, score)).toBeNull();
+  });
+
+  it('parses result scores with periods', () => {
+    expect(parseResultScore('2:1 (1:0, 1:1)', 'Soccer')).toEqual({
+      final: { team1: 2, team2: 1 },
+      periods: [
+        { period: 1, label: 'H1', team1: 1, team2: 0 },
+        { period: 2, label: 'H2', team1: 1, team2: 1 }
+      ]
+    });
+    expect(parseResultScore('3-0')).toEqual({ final: { team1: 3, team2: 0 }, periods: [] });
+    expect(parseResultScore('')).toBeNull();
+  });
+
+  it('links results to the catalog and settles every selection', () => {
+    const catalog = buildSettlementCatalog(game, buildMarketBook(game)!, 0);
+    expect(catalog.score).toEqual({ team1: 1, team2: 1 });
+
+    const raw = {
+      scores: '1:2',
+      lines: {
+        line: [
+          { line_name: 'Match Result', events: { event_name: ['W2'] } },
+          { line_name: 'Asian Handicap', events: { event_name: ['Chelsea'] } },
+          { line_name: 'Total Goals', events: { event_name: [] } },
+          { line_name: 'Corners', events: { event_name: 'Over 9.5' } }
+        ]
+      }
+    };
+    const score = resolveFinalScore(raw, catalog);
+    expect(score.final).toEqual({ team1: 1, team2: 2 });
+
+    const settlements = normalizeSettlements(raw, catalog, score.final);
+    expect(settlements.map((s) => [s.market_id, s.selections.map((x) => [x.event_id, x.outcome])])).toEqual([
+      ['1', [['11', 'lost'], ['12', 'lost'], ['13', 'won']]],
+      ['2', [['21', 'lost'], ['22', 'won']]],
+      ['3', [['31', 'won'], ['32', 'lost']]],
+      [null, [[null, 'won']]]
+    ]);
+    expect(settlements[0]).toMatchObject({ market: 'Match Result', market_type: 'P1XP2', kind: 'standard', winners: ['W2'] });
+  });
+
+  it('falls back to the named winners without a score', () => {
+    const catalog = buildSettlementCatalog({ ...game, info: {} }, buildMarketBook(game)!, 0);
+    const raw = { lines: { line: [{ line_name: 'total goals', events: { event_name: [] } }] } };
+    expect(resolveFinalScore(raw, catalog).final).toBeNull();
+    expect(normalizeSettlements(raw, catalog, null)[0].selections.map((s) => s.outcome)).toEqual(['void', 'void']);
+  });
+
+  it('settles half, corner and team totals from the named winners only', () => {
+    const withSideMarkets = {
+      ...game,
+      market: {
+        ...game.market,
+        4: {
+          id: 4,
+          type: 'HalfTimeOverUnder',
+          name: '1st Half Total',
+          display_key: 'TOTALS',
+          event: {
+            41: { id: 41, type: 'Over', name: 'Over', base: 0.5, order: 0 },
+            42: { id: 42, type: 'Under', name: 'Under', base: 0.5, order: 1 }
+          }
+        },
+        5: {
+          id: 5,
+          type: 'CornersOverUnder',
+          name: 'Total Corners',
+          display_key: 'TOTALS',
+          event: {
+            51: { id: 51, type: 'Over', name: 'Over', base: 9.5, order: 0 },
+            52: { id: 52, type: 'Under', name: 'Under', base: 9.5, order: 1 }
+          }
+        },
+        6: {
+          id: 6,
+          type: 'Team1OverUnder',
+          name: 'Team 1 Total',
+          display_key: 'TOTALS',
+          event: {
+            61: { id: 61, type: 'Over', name: 'Over', base: 0.5, order: 0 },
+            62: { id: 62, type: 'Under', name: 'Under', base: 0.5, order: 1 }
+          }
+        },
+        7: {
+          id: 7,
+          type: 'CornersHandicap',
+          name: 'Corners Handicap',
+          display_key: 'HANDICAP',
+          event: {
+            71: { id: 71, type: 'Home', name: 'Arsenal', base: -1.5, order: 0 },
+            72: { id: 72, type: 'Away', name: 'Chelsea', base: 1.5, order: 1 }
+          }
+        }
+      }
+    };
+    const catalog = buildSettlementCatalog(withSideMarkets, buildMarketBook(withSideMarkets)!, 0);
+    expect(catalog.markets.map((m) => [m.id, isFullMatchScoreMarket(m)])).toEqual([
+      ['1', false],
+      ['2', true],
+      ['3', true],
+      ['4', false],
+      ['5', false],
+      ['6', false],
+      ['7', false]
+    ]);
+
+    // A 1:2 full-time score would settle all of these the other way.
+    const raw = {
+      lines: {
+        line: [
+          { line_name: '1st Half Total', events: { event_name: ['Under'] } },
+          { line_name: 'Total Corners', events: { event_name: ['Over'] } },
+          { line_name: 'Arsenal Total', events: { event_name: ['Under'] } },
+          { line_name: 'Corners Handicap', events: { event_name: ['Arsenal'] } }
+        ]
+      }
+    };
+    const settlements = normalizeSettlements(raw, catalog, { team1: 1, team2: 2 });
+    expect(settlements.map((s) => [s.market_id, s.selections.map((x) => [x.event_id, x.outcome])])).toEqual([
+      ['4', [['41', 'lost'], ['42', 'won']]],
+      ['5', [['51', 'won'], ['52', 'lost']]],
+      ['6', [['61', 'lost'], ['62', 'won']]],
+      ['7', [['71', 'won'], ['72', 'lost']]]
+    ]);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  COORDINATOR_SHARD,
+  GAME_SHARD_COUNT,
+  gameShardName,
+  getStreamShardName,
+  getTopicShardName,
+  getTopicStreamPath
+} from '../lib/sharding.js';
+import { parseTopic } from '../lib/topics.js';
+
+describe('SwarmHub sharding', () => {
+  it('routes sport and competition streams by sportId and game streams by hashed gameId', () => {
+    expect(getStreamShardName(new URL('https://x/api/live-stream?sportId=1'))).toBe('sport-1');
+    expect(getStreamShardName(new URL('https://x/api/prematch-stream?sportId=1'))).toBe('sport-1');
+    expect(getStreamShardName(new URL('https://x/api/competition-odds-stream?mode=live&competitionId=5&sportId=3'))).toBe('sport-3');
+    expect(getStreamShardName(new URL('https://x/api/live-game-stream?gameId=987'))).toBe(gameShardName('987'));
+    expect(getStreamShardName(new URL('https://x/api/game-stats?gameId=987'))).toBe(gameShardName('987'));
+    expect(getStreamShardName(new URL('https://x/api/match-center?gameId=987'))).toBe(gameShardName('987'));
+    expect(getStreamShardName(new URL('https://x/api/games/987/markets'))).toBe(gameShardName('987'));
+  });
+
+  it('keeps counts, multiplexed sessions and requests without ids on the coordinator', () => {
+    for (const path of ['/api/counts-stream', '/api/stream?topics=counts', '/api/live-stream', '/api/live-game-stream']) {
+      expect(getStreamShardName(new URL(`https://x${path}`))).toBe(COORDINATOR_SHARD);
+    }
+  });
+
+  it('hashes every game id into a stable bucket', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 1, max: 2 ** 40 }), (id) => {
+        const name = gameShardName(String(id));
+        expect(name).toBe(gameShardName(String(id)));
+        const bucket = Number(name.slice('game-'.length));
+        expect(bucket).toBeGreaterThanOrEqual(0);
+        expect(bucket).toBeLessThan(GAME_SHARD_COUNT);
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  it('maps topics to the shard and stream path that serve them', () => {
+    const sport = parseTopic('sport:prematch:4')!;
+    expect(getTopicShardName(sport)).toBe('sport-4');
+    expect(getTopicStreamPath(sport)).toBe('/api/prematch-stream?sportId=4');
+
+    const game = parseTopic('game:123')!;
+    expect(getTopicShardName(game)).toBe(gameShardName('123'));
+    expect(getStreamShardName(new URL(`https://x${getTopicStreamPath(game)}`))).toBe(getTopicShardName(game));
+
+    expect(getTopicShardName(parseTopic('competition:live:55')!)).toBeNull();
+    expect(getTopicShardName(parseTopic('counts')!)).toBeNull();
+    expect(getTopicShardName(parseTopic('tracker:1')!)).toBeNull();
+  });
+});
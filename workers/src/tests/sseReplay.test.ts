@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createReplayLog,
+  currentEventId,
+  getReplayEntries,
+  invalidateReplayLog,
+  nextEventId,
+  parseEventId,
+  recordReplayEntry
+} from '../lib/sseReplay.js';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function append(log: ReturnType<typeof createReplayLog>, text: string, maxEvents?: number, maxBytes?: number): string {
+  const id = nextEventId(log);
+  recordReplayEntry(log, encoder.encode(text), maxEvents, maxBytes);
+  return id;
+}
+
+describe('SSE Last-Event-ID replay', () => {
+  it('issues monotonically increasing ids within an epoch', () => {
+    const log = createReplayLog();
+    expect(currentEventId(log)).toBeNull();
+    const a = parseEventId(append(log, 'a'));
+    const b = parseEventId(append(log, 'b'));
+    expect(a?.epoch).toBe(log.epoch);
+    expect(b!.seq).toBe(a!.seq + 1);
+    expect(currentEventId(log)).toBe(`${log.epoch}-2`);
+  });
+
+  it('replays only the events after the given id', () => {
+    const log = createReplayLog();
+    const first = append(log, 'a');
+    append(log, 'b');
+    append(log, 'c');
+    const replay = getReplayEntries(log, first);
+    expect(replay?.map((b) => decoder.decode(b))).toEqual(['b', 'c']);
+  });
+
+  it('returns an empty replay for an up-to-date client', () => {
+    const log = createReplayLog();
+    const last = append(log, 'a');
+    expect(getReplayEntries(log, last)).toEqual([]);
+  });
+
+  it('falls back to a snapshot for unknown epochs, future ids and garbage', () => {
+    const log = createReplayLog();
+    append(log, 'a');
+    expect(getReplayEntries(log, null)).toBeNull();
+    expect(getReplayEntries(log, 'not-an-id')).toBeNull();
+    expect(getReplayEntries(log, 'otherepoch-1')).toBeNull();
+    expect(getReplayEntries(log, `${log.epoch}-99`)).toBeNull();
+  });
+
+  it('falls back to a snapshot once the gap is no longer buffered', () => {
+    const log = createReplayLog();
+    const first = append(log, 'a', 2);
+    append(log, 'b', 2);
+    append(log, 'c', 2);
+    append(log, 'd', 2);
+    expect(log.entries.length).toBe(2);
+    expect(getReplayEntries(log, first)).toBeNull();
+  });
+
+  it('bounds the buffer by bytes as well as events', () => {
+    const log = createReplayLog();
+    append(log, 'aaaa', 100, 8);
+    append(log, 'bbbb', 100, 8);
+    append(log, 'cccc', 100, 8);
+    expect(log.entries.length).toBe(2);
+    expect(log.bytes).toBe(8);
+  });
+
+  it('invalidates previously issued ids after skipped events', () => {
+    const log = createReplayLog();
+    const last = append(log, 'a');
+    invalidateReplayLog(log);
+    expect(getReplayEntries(log, last)).toBeNull();
+  });
+});
@@ -0,0 +1,257 @@
+import type { SwarmData, SwarmGetParams } from '../../lib/swarmProtocol.js';
+
+type Listener = (event: any) => void;
+
+/** Data served for every `get` whose params match; the first matching fixture wins. */
+export type SwarmFixture = {
+  name: string;
+  match: (params: SwarmGetParams) => boolean;
+  data: SwarmData | (() => SwarmData);
+  /** Fail matching requests with this Swarm error instead of serving `data`. */
+  error?: { code: number; msg: string };
+};
+
+export type SwarmReply = { code: number; msg?: string; data?: unknown };
+
+export type RecordedRequest = {
+  command: string;
+  params: any;
+  rid: string;
+};
+
+type FakeSubscription = {
+  subid: string;
+  socket: FakeSwarmSocket;
+  fixture: string | null;
+  params: SwarmGetParams;
+};
+
+/** Read a dotted path out of `get` params, e.g. `whereAt(params, 'sport.id')`. */
+export function whereAt(params: SwarmGetParams, path: string): unknown {
+  let cur: unknown = params.where;
+  for (const part of path.split('.')) {
+    if (!cur || typeof cur !== 'object') return undefined;
+    cur = (cur as Record<string, unknown>)[part];
+  }
+  return cur;
+}
+
+/** The server end of a FakeSwarmSocket. */
+export interface SwarmSocketHost {
+  accept(socket: FakeSwarmSocket): void;
+  receive(socket: FakeSwarmSocket, raw: string): void;
+  drop(socket: FakeSwarmSocket): void;
+}
+
+export type FakeWebSocketClass = (new (url: string) => FakeSwarmSocket) &
+  Pick<typeof FakeSwarmSocket, 'CONNECTING' | 'OPEN' | 'CLOSING' | 'CLOSED'>;
+
+/** Build a `WebSocket` constructor whose sockets all connect to `host`. */
+export function createFakeWebSocketClass(host: SwarmSocketHost): FakeWebSocketClass {
+  return class extends FakeSwarmSocket {
+    constructor(url: string) {
+      super(host, url);
+      host.accept(this);
+    }
+  };
+}
+
+/**
+ * A `WebSocket` constructor that connects each socket to the host registered for the
+ * longest matching URL prefix, so Swarm and tracker fakes can run side by side.
+ */
+export function createWebSocketRouter(routes: Record<string, SwarmSocketHost>): FakeWebSocketClass {
+  const hosts = new WeakMap<FakeSwarmSocket, SwarmSocketHost>();
+  const hostFor = (url: string) => {
+    const prefix = Object.keys(routes)
+      .filter((p) => url.startsWith(p))
+      .sort((a, b) => b.length - a.length)[0];
+    if (prefix === undefined) throw new Error(`no fake server for ${url}`);
+    return routes[prefix];
+  };
+  const router: SwarmSocketHost = {
+    accept: (socket) => {
+      const host = hostFor(socket.url);
+      hosts.set(socket, host);
+      host.accept(socket);
+    },
+    receive: (socket, raw) => hosts.get(socket)?.receive(socket, raw),
+    drop: (socket) => hosts.get(socket)?.drop(socket)
+  };
+  return createFakeWebSocketClass(router);
+}
+
+export class FakeSwarmSocket {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSING = 2;
+  static readonly CLOSED = 3;
+
+  readyState = FakeSwarmSocket.CONNECTING;
+  private listeners = new Map<string, Set<Listener>>();
+
+  constructor(
+    private host: SwarmSocketHost,
+    readonly url: string
+  ) {}
+
+  addEventListener(type: string, listener: Listener): void {
+    let set = this.listeners.get(type);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(type, set);
+    }
+    set.add(listener);
+  }
+
+  removeEventListener(type: string, listener: Listener): void {
+    this.listeners.get(type)?.delete(listener);
+  }
+
+  send(data: string): void {
+    if (this.readyState !== FakeSwarmSocket.OPEN) throw new Error('socket is not open');
+    this.host.receive(this, String(data));
+  }
+
+  close(code = 1000, reason = ''): void {
+    if (this.readyState === FakeSwarmSocket.CLOSED) return;
+    this.readyState = FakeSwarmSocket.CLOSED;
+    this.host.drop(this);
+    setTimeout(() => this.dispatch('close', { code, reason, wasClean: true }), 0);
+  }
+
+  dispatch(type: string, event: unknown): void {
+    for (const listener of Array.from(this.listeners.get(type) ?? [])) listener(event);
+  }
+}
+
+/**
+ * In-memory stand-in for the Swarm WebSocket API. Install `server.WebSocket` as the
+ * global `WebSocket`; every socket the code under test opens connects here.
+ */
+export class FakeSwarmServer implements SwarmSocketHost {
+  readonly requests: RecordedRequest[] = [];
+  readonly sockets = new Set<FakeSwarmSocket>();
+  readonly WebSocket: FakeWebSocketClass;
+
+  private fixtures: SwarmFixture[] = [];
+  private handlers = new Map<string, (params: any) => SwarmReply>();
+  private subscriptions = new Map<string, FakeSubscription>();
+  private nextSubid = 1;
+  private nextSession = 1;
+  private refuseConnections = false;
+
+  constructor(fixtures: SwarmFixture[] = []) {
+    this.fixtures = [...fixtures];
+    this.WebSocket = createFakeWebSocketClass(this);
+  }
+
+  addFixture(fixture: SwarmFixture): void {
+    this.fixtures.push(fixture);
+  }
+
+  /** Answer `command` with a scripted reply instead of the built-in behaviour. */
+  on(command: string, handler: (params: any) => SwarmReply): void {
+    this.handlers.set(command, handler);
+  }
+
+  /** New sockets fail with an `error` event until re-enabled. */
+  setRefuseConnections(refuse: boolean): void {
+    this.refuseConnections = refuse;
+  }
+
+  subscriptionIds(fixture: string): string[] {
+    return Array.from(this.subscriptions.values())
+      .filter((s) => s.fixture === fixture)
+      .map((s) => s.subid);
+  }
+
+  get activeSubscriptions(): number {
+    return this.subscriptions.size;
+  }
+
+  /** Send a `rid: 0` delta (null removes an entity) to every live subscription created from `fixture`. */
+  push(fixture: string, delta: Record<string, unknown>): number {
+    const subids = this.subscriptionIds(fixture);
+    for (const subid of subids) this.pushTo(subid, delta);
+    return subids.length;
+  }
+
+  pushTo(subid: string, delta: Record<string, unknown>): void {
+    const sub = this.subscriptions.get(subid);
+    if (!sub) throw new Error(`unknown subscription ${subid}`);
+    this.sendTo(sub.socket, { rid: 0, data: { [subid]: delta } });
+  }
+
+  /** Close every socket from the server side. */
+  disconnectAll(): void {
+    for (const socket of Array.from(this.sockets)) socket.close(1006, 'server gone');
+  }
+
+  async waitForRequest(predicate: (req: RecordedRequest) => boolean, timeoutMs = 2000): Promise<RecordedRequest> {
+    const deadline = performance.now() + timeoutMs;
+    for (;;) {
+      const found = this.requests.find(predicate);
+      if (found) return found;
+      if (performance.now() > deadline) throw new Error('timed out waiting for a Swarm request');
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+  }
+
+  accept(socket: FakeSwarmSocket): void {
+    setTimeout(() => {
+      if (this.refuseConnections) {
+        socket.readyState = FakeSwarmSocket.CLOSED;
+        socket.dispatch('error', new Error('connection refused'));
+        return;
+      }
+      this.sockets.add(socket);
+      socket.readyState = FakeSwarmSocket.OPEN;
+      socket.dispatch('open', {});
+    }, 0);
+  }
+
+  drop(socket: FakeSwarmSocket): void {
+    this.sockets.delete(socket);
+    for (const [subid, sub] of this.subscriptions) {
+      if (sub.socket === socket) this.subscriptions.delete(subid);
+    }
+  }
+
+  receive(socket: FakeSwarmSocket, raw: string): void {
+    const request = JSON.parse(raw) as RecordedRequest;
+    this.requests.push(request);
+    const reply = this.handle(socket, request);
+    setTimeout(() => this.sendTo(socket, { rid: request.rid, ...reply }), 0);
+  }
+
+  private handle(socket: FakeSwarmSocket, request: RecordedRequest): SwarmReply {
+    const handler = this.handlers.get(request.command);
+    if (handler) return handler(request.params);
+
+    switch (request.command) {
+      case 'request_session':
+        return { code: 0, data: { sid: `fake-session-${this.nextSession++}` } };
+      case 'get': {
+        const params = request.params as SwarmGetParams;
+        const fixture = this.fixtures.find((f) => f.match(params)) ?? null;
+        if (fixture?.error) return { ...fixture.error };
+        const data = fixture ? (typeof fixture.data === 'function' ? fixture.data() : fixture.data) : {};
+        if (!params.subscribe) return { code: 0, data: { data: structuredClone(data) } };
+        const subid = `fake-sub-${this.nextSubid++}`;
+        this.subscriptions.set(subid, { subid, socket, fixture: fixture?.name ?? null, params });
+        return { code: 0, data: { subid, data: structuredClone(data) } };
+      }
+      case 'unsubscribe':
+        this.subscriptions.delete(String(request.params?.subid));
+        return { code: 0, data: {} };
+      default:
+        return { code: 12, msg: `unsupported command ${request.command}` };
+    }
+  }
+
+  private sendTo(socket: FakeSwarmSocket, message: unknown): void {
+    if (socket.readyState !== FakeSwarmSocket.OPEN) return;
+    socket.dispatch('message', { data: JSON.stringify(message) });
+  }
+}
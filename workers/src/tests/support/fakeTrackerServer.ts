@@ -0,0 +1,84 @@
+import { createFakeWebSocketClass, FakeSwarmSocket, type FakeWebSocketClass, type SwarmSocketHost } from './fakeSwarmServer.js';
+
+export type TrackerSubscription = {
+  socket: FakeSwarmSocket;
+  gameId: string;
+  snapshot: boolean;
+};
+
+/**
+ * In-memory stand-in for the live tracker animation feed. A subscription that asks
+ * for a snapshot is answered with the one set for its game, if any; `send` pushes
+ * further messages to every socket subscribed to the game.
+ */
+export class FakeTrackerServer implements SwarmSocketHost {
+  readonly sockets = new Set<FakeSwarmSocket>();
+  readonly subscriptions: TrackerSubscription[] = [];
+  readonly WebSocket: FakeWebSocketClass;
+
+  private snapshots = new Map<string, unknown>();
+  private refuseConnections = false;
+
+  constructor() {
+    this.WebSocket = createFakeWebSocketClass(this);
+  }
+
+  setSnapshot(gameId: string, payload: unknown): void {
+    this.snapshots.set(String(gameId), payload);
+  }
+
+  /** New sockets fail with an `error` event until re-enabled. */
+  setRefuseConnections(refuse: boolean): void {
+    this.refuseConnections = refuse;
+  }
+
+  send(gameId: string, payload: unknown): number {
+    const targets = this.subscriptions.filter((s) => s.gameId === String(gameId) && this.sockets.has(s.socket));
+    for (const sub of targets) sub.socket.dispatch('message', { data: JSON.stringify(payload) });
+    return targets.length;
+  }
+
+  /** Close every socket from the server side. */
+  disconnectAll(): void {
+    for (const socket of Array.from(this.sockets)) socket.close(1006, 'server gone');
+  }
+
+  async waitForSubscriptions(count: number, timeoutMs = 2000): Promise<TrackerSubscription[]> {
+    const deadline = performance.now() + timeoutMs;
+    for (;;) {
+      if (this.subscriptions.length >= count) return this.subscriptions;
+      if (performance.now() > deadline) throw new Error(`timed out waiting for ${count} tracker subscriptions`);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+  }
+
+  accept(socket: FakeSwarmSocket): void {
+    setTimeout(() => {
+      if (this.refuseConnections) {
+        socket.readyState = FakeSwarmSocket.CLOSED;
+        socket.dispatch('error', new Error('connection refused'));
+        return;
+      }
+      this.sockets.add(socket);
+      socket.readyState = FakeSwarmSocket.OPEN;
+      socket.dispatch('open', {});
+    }, 0);
+  }
+
+  receive(socket: FakeSwarmSocket, raw: string): void {
+    const submatch = JSON.parse(raw)?.request?.arg?.submatch;
+    if (!submatch) return;
+    const sub = { socket, gameId: String(submatch.id), snapshot: Boolean(submatch.snapshot) };
+    this.subscriptions.push(sub);
+    const snapshot = this.snapshots.get(sub.gameId);
+    if (sub.snapshot && snapshot !== undefined) {
+      setTimeout(() => {
+        if (this.sockets.has(socket)) socket.dispatch('message', { data: JSON.stringify(snapshot) });
+      }, 0);
+    }
+  }
+
+  drop(socket: FakeSwarmSocket): void {
+    this.sockets.delete(socket);
+  }
+}
@@ -0,0 +1,218 @@
+import { LiveTrackerDO } from '../../durable/LiveTrackerDO.js';
+import { SwarmHubDO } from '../../durable/SwarmHubDO.js';
+import type { Env } from '../../env.js';
+import { SWARM_SHARD_HEADER } from '../../lib/sharding.js';
+import { createSseFrameDecoder, type SseFrame } from '../../lib/sseFrames.js';
+import type { SwarmSocketHost } from './fakeSwarmServer.js';
+
+export class FakeStorage implements DurableObjectStorage {
+  readonly data = new Map<string, unknown>();
+  alarm: number | null = null;
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const value = this.data.get(key);
+    return value === undefined ? undefined : (structuredClone(value) as T);
+  }
+
+  async put<T>(key: string, value: T): Promise<void> {
+    this.data.set(key, structuredClone(value));
+  }
+
+  async delete(keys: string[]): Promise<number> {
+    let deleted = 0;
+    for (const key of keys) {
+      if (this.data.delete(key)) deleted += 1;
+    }
+    return deleted;
+  }
+
+  async list<T>(options: { prefix?: string } = {}): Promise<Map<string, T>> {
+    const out = new Map<string, T>();
+    for (const key of [...this.data.keys()].sort()) {
+      if (!options.prefix || key.startsWith(options.prefix)) out.set(key, structuredClone(this.data.get(key)) as T);
+    }
+    return out;
+  }
+
+  async setAlarm(scheduledTime: number): Promise<void> {
+    this.alarm = scheduledTime;
+  }
+
+  async getAlarm(): Promise<number | null> {
+    return this.alarm;
+  }
+}
+
+export type FakeDurableObjectState = DurableObjectState & { storage: FakeStorage };
+
+export function createFakeState(): FakeDurableObjectState {
+  const sockets: WebSocket[] = [];
+  return {
+    storage: new FakeStorage(),
+    acceptWebSocket(ws: WebSocket) {
+      sockets.push(ws);
+    },
+    getWebSockets() {
+      return [...sockets];
+    }
+  };
+}
+
+type FetchTarget = { fetch(request: Request): Promise<Response> };
+
+function createFakeNamespace(resolve: (name: string) => FetchTarget): DurableObjectNamespace {
+  return {
+    idFromName(name: string) {
+      return { toString: () => name };
+    },
+    get(id: DurableObjectId) {
+      return {
+        fetch: (input: RequestInfo, init?: RequestInit) => resolve(id.toString()).fetch(new Request(input, init))
+      };
+    }
+  };
+}
+
+export const TRACKER_WS_URL = 'wss://fake-tracker.test';
+
+const notFound: FetchTarget = { fetch: async () => new Response('Not found', { status: 404 }) };
+
+export type SseClient = {
+  frames: SseFrame[];
+  /** Resolve with the next frame named `event` that has not been returned yet. */
+  next(event: string, timeoutMs?: number): Promise<SseFrame>;
+  close(): void;
+};
+
+/**
+ * Runs SwarmHubDO instances (one per shard name, created on first use) against a
+ * FakeSwarmServer or SwarmReplayServer. The server's WebSocket class must be
+ * installed as the global `WebSocket` before any stream is opened; tests that also
+ * run LiveTrackerDO (`/api/live-tracker`, one per game) route `TRACKER_WS_URL` to a
+ * FakeTrackerServer with `createWebSocketRouter`.
+ */
+export class SwarmHubHarness {
+  readonly env: Env;
+  readonly states = new Map<string, FakeDurableObjectState>();
+
+  readonly trackerStates = new Map<string, FakeDurableObjectState>();
+
+  private hubs = new Map<string, SwarmHubDO>();
+  private trackers = new Map<string, LiveTrackerDO>();
+  private clients: SseClient[] = [];
+
+  constructor(readonly server: SwarmSocketHost) {
+    this.env = {
+      SWARM_HUB: createFakeNamespace((name) => this.hub(name)),
+      LIVE_TRACKER: createFakeNamespace((name) => this.tracker(name)),
+      HEALTH_METRICS: createFakeNamespace(() => notFound),
+      SWARM_WS_URL: 'wss://fake-swarm.test',
+      LIVE_TRACKER_WS_URL: TRACKER_WS_URL
+    };
+  }
+
+  hub(shard = 'global'): SwarmHubDO {
+    let hub = this.hubs.get(shard);
+    if (!hub) {
+      const state = createFakeState();
+      this.states.set(shard, state);
+      hub = new SwarmHubDO(state, this.env);
+      this.hubs.set(shard, hub);
+    }
+    return hub;
+  }
+
+  tracker(gameId: string): LiveTrackerDO {
+    let tracker = this.trackers.get(gameId);
+    if (!tracker) {
+      let state = this.trackerStates.get(gameId);
+      if (!state) {
+        state = createFakeState();
+        this.trackerStates.set(gameId, state);
+      }
+      tracker = new LiveTrackerDO(state, this.env);
+      this.trackers.set(gameId, tracker);
+    }
+    return tracker;
+  }
+
+  /** Drop a tracker instance but keep its storage, as when the runtime evicts it. */
+  evictTracker(gameId: string): void {
+    this.trackers.delete(gameId);
+  }
+
+  fetch(path: string, init: RequestInit & { shard?: string } = {}): Promise<Response> {
+    const { shard = 'global', ...rest } = init;
+    const headers = new Headers(rest.headers);
+    headers.set(SWARM_SHARD_HEADER, shard);
+    const request = new Request(`https://hub.test${path}`, { ...rest, headers });
+    if (rest.signal) {
+      // Node's Request follows the init signal only through a weak reference, so an abort
+      // can be lost once the internal controller is collected; expose the caller's signal.
+      Object.defineProperty(request, 'signal', { value: rest.signal });
+    }
+    if (path.startsWith('/api/live-tracker')) {
+      // Like the Worker, which routes tracker requests by game id.
+      return this.tracker(new URL(request.url).searchParams.get('gameId') ?? '').fetch(request);
+    }
+    return this.hub(shard).fetch(request);
+  }
+
+  async openSse(path: string, init: { shard?: string; headers?: HeadersInit } = {}): Promise<SseClient> {
+    const controller = new AbortController();
+    const response = await this.fetch(path, { ...init, signal: controller.signal });
+    if (!response.ok || !response.body) {
+      throw new Error(`stream ${path} failed with ${response.status}`);
+    }
+
+    const reader = response.body.getReader();
+    const decode = createSseFrameDecoder();
+    const frames: SseFrame[] = [];
+    const delivered = new Set<SseFrame>();
+    let closed = false;
+
+    void (async () => {
+      try {
+        for (;;) {
+          const { value, done } = await reader.read();
+          if (done) return;
+          frames.push(...decode(value));
+        }
+      } catch {
+        // the reader is cancelled on close
+      }
+    })();
+
+    const client: SseClient = {
+      frames,
+      async next(event, timeoutMs = 2000) {
+        const deadline = performance.now() + timeoutMs;
+        for (;;) {
+          const frame = frames.find((f) => f.event === event && !delivered.has(f));
+          if (frame) {
+            delivered.add(frame);
+            return frame;
+          }
+          if (closed) throw new Error(`stream closed before a ${event} event`);
+          if (performance.now() > deadline) {
+            throw new Error(`timed out waiting for ${event}; got ${frames.map((f) => f.event).join(', ') || 'nothing'}`);
+          }
+          await new Promise((resolve) => setTimeout(resolve, 5));
+        }
+      },
+      close() {
+        if (closed) return;
+        closed = true;
+        controller.abort();
+        void reader.cancel().catch(() => null);
+      }
+    };
+    this.clients.push(client);
+    return client;
+  }
+
+  dispose(): void {
+    for (const client of this.clients) client.close();
+    this.clients = [];
+  }
+}
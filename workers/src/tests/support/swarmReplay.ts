@@ -0,0 +1,122 @@
+import { vi } from 'vitest';
+import type { CaptureFrame } from '../../lib/swarmCapture.js';
+import {
+  createFakeWebSocketClass,
+  FakeSwarmSocket,
+  type FakeWebSocketClass,
+  type RecordedRequest,
+  type SwarmSocketHost
+} from './fakeSwarmServer.js';
+
+type CapturedRequest = RecordedRequest & { key: string; liveRid: string | null };
+
+function requestKey(command: string, params: unknown): string {
+  return `${command}:${JSON.stringify(params ?? null)}`;
+}
+
+function settle(ticks = 5): Promise<void> {
+  let chain = Promise.resolve();
+  for (let i = 0; i < ticks; i++) chain = chain.then(() => new Promise((resolve) => setTimeout(resolve, 0)));
+  return chain;
+}
+
+/**
+ * Plays a capture downloaded from `/api/admin/capture/download` back to SwarmHubDO.
+ *
+ * Requests the hub sends are matched to captured `out` frames by command and params
+ * (the rid is ignored); captured `in` frames are then delivered in their original
+ * order, with response rids rewritten to the live ones and subids reused as captured.
+ * While playing, `Date` is pinned to each frame's capture time so the SSE output is
+ * the same on every run. Requests with no captured counterpart are never answered
+ * and are listed in `unmatched`.
+ */
+export class SwarmReplayServer implements SwarmSocketHost {
+  readonly WebSocket: FakeWebSocketClass;
+  readonly unmatched: RecordedRequest[] = [];
+
+  private requests: CapturedRequest[] = [];
+  private inbound: CaptureFrame[] = [];
+  private socket: FakeSwarmSocket | null = null;
+
+  constructor(frames: CaptureFrame[]) {
+    for (const frame of frames) {
+      if (frame.dir === 'in') {
+        this.inbound.push(frame);
+        continue;
+      }
+      const request = JSON.parse(frame.frame) as RecordedRequest;
+      this.requests.push({ ...request, key: requestKey(request.command, request.params), liveRid: null });
+    }
+    this.WebSocket = createFakeWebSocketClass(this);
+  }
+
+  /** Deliver every captured inbound frame; resolves once the last one has been handled. */
+  async play(options: { timeoutMs?: number } = {}): Promise<void> {
+    const timeoutMs = options.timeoutMs ?? 2000;
+    // Callers that already pinned the clock (to open streams at the capture's start) keep control of it.
+    const ownsClock = !vi.isFakeTimers();
+    if (ownsClock) vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      for (const frame of this.inbound) {
+        vi.setSystemTime(frame.ts);
+        const message = JSON.parse(frame.frame) as { rid?: unknown };
+        const rid = String(message.rid ?? '0');
+        if (rid !== '0') {
+          const liveRid = await this.waitForLiveRid(rid, timeoutMs);
+          this.deliver(JSON.stringify({ ...message, rid: liveRid }));
+        } else {
+          await this.waitForSocket(timeoutMs);
+          this.deliver(frame.frame);
+        }
+        await settle();
+      }
+    } finally {
+      if (ownsClock) vi.useRealTimers();
+    }
+  }
+
+  accept(socket: FakeSwarmSocket): void {
+    setTimeout(() => {
+      this.socket = socket;
+      socket.readyState = FakeSwarmSocket.OPEN;
+      socket.dispatch('open', {});
+    }, 0);
+  }
+
+  receive(_socket: FakeSwarmSocket, raw: string): void {
+    const request = JSON.parse(raw) as RecordedRequest;
+    const key = requestKey(request.command, request.params);
+    const captured = this.requests.find((r) => r.liveRid === null && r.key === key);
+    if (captured) captured.liveRid = request.rid;
+    else this.unmatched.push(request);
+  }
+
+  drop(socket: FakeSwarmSocket): void {
+    if (this.socket === socket) this.socket = null;
+  }
+
+  private deliver(raw: string): void {
+    const socket = this.socket;
+    if (!socket || socket.readyState !== FakeSwarmSocket.OPEN) return;
+    socket.dispatch('message', { data: raw });
+  }
+
+  private async waitForSocket(timeoutMs: number): Promise<void> {
+    const deadline = performance.now() + timeoutMs;
+    while (!this.socket) {
+      if (performance.now() > deadline) throw new Error('replay timed out waiting for a connection');
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+  }
+
+  private async waitForLiveRid(capturedRid: string, timeoutMs: number): Promise<string> {
+    const captured = this.requests.find((r) => String(r.rid) === capturedRid);
+    if (!captured) throw new Error(`capture has a response to unknown request ${capturedRid}`);
+    const deadline = performance.now() + timeoutMs;
+    while (captured.liveRid === null) {
+      if (performance.now() > deadline) throw new Error(`replay timed out waiting for ${captured.command} request`);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+    return captured.liveRid;
+  }
+}
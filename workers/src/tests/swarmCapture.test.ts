@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { appendCaptureLine, encodeCaptureLine, parseCaptureNdjson, type CaptureFrame } from '../lib/swarmCapture.js';
+import type { SseFrame } from '../lib/sseFrames.js';
+import { FakeSwarmServer, whereAt, type SwarmFixture } from './support/fakeSwarmServer.js';
+import { SwarmHubHarness } from './support/swarmHubHarness.js';
+import { SwarmReplayServer } from './support/swarmReplay.js';
+
+const CAPTURE_START_MS = Date.UTC(2024, 0, 1, 12);
+
+function market(prices: [number, number, number]) {
+  return {
+    500: {
+      id: 500,
+      game_id: 1000,
+      type: 'P1XP2',
+      name: 'Match Result',
+      order: 0,
+      event: {
+        5001: { id: 5001, type: 'P1', name: 'W1', price: prices[0], order: 0 },
+        5002: { id: 5002, type: 'X', name: 'X', price: prices[1], order: 1 },
+        5003: { id: 5003, type: 'P2', name: 'W2', price: prices[2], order: 2 }
+      }
+    }
+  };
+}
+
+const fixtures: SwarmFixture[] = [
+  {
+    name: 'live-games',
+    match: (p) => whereAt(p, 'sport.id') === 1 && Boolean(p.what.region),
+    data: {
+      sport: {
+        1: {
+          id: 1,
+          name: 'Football',
+          region: {
+            10: {
+              id: 10,
+              name: 'England',
+              competition: {
+                100: {
+                  id: 100,
+                  name: 'Premier League',
+                  game: {
+                    1000: { id: 1000, type: 1, start_ts: 1700000000, team1_name: 'A', team2_name: 'B', text_info: '1st half' },
+                    1001: { id: 1001, type: 1, start_ts: 1700000000, team1_name: 'C', team2_name: 'D', text_info: '1st half' }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  },
+  {
+    name: 'live-odds',
+    match: (p) => whereAt(p, 'sport.id') === 1 && Boolean(p.what.market),
+    data: { game: { 1000: { id: 1000, markets_count: 1, market: market([2.1, 3.2, 3.4]) } } }
+  }
+];
+
+// Event ids embed a random per-group epoch; the sequence number is what must match.
+function normalize(frames: SseFrame[]) {
+  return frames.map((f) => ({ event: f.event, seq: f.id?.split('-').pop() ?? null, data: f.data }));
+}
+
+describe('capture segments', () => {
+  it('splits lines across segments without losing text', () => {
+    let open = '';
+    const sealed: string[] = [];
+    const lines = ['aaaa\n', 'bbbbbbbbbbbb\n', 'cc\n'];
+    for (const line of lines) {
+      const next = appendCaptureLine(open, line, 8);
+      sealed.push(...next.sealed);
+      open = next.open;
+    }
+    expect(sealed.every((s) => s.length === 8)).toBe(true);
+    expect(sealed.join('') + open).toBe(lines.join(''));
+  });
+
+  it('parses NDJSON and skips malformed lines', () => {
+    const frame: CaptureFrame = { ts: 1, dir: 'in', frame: '{"rid":0}' };
+    const text = `${encodeCaptureLine(frame)}not json\n{"ts":2,"dir":"sideways","frame":""}\n\n`;
+    expect(parseCaptureNdjson(text)).toEqual([frame]);
+  });
+});
+
+describe('Swarm capture and replay', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('records raw frames and replays them into identical SSE output', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(CAPTURE_START_MS);
+
+    const server = new FakeSwarmServer(fixtures);
+    vi.stubGlobal('WebSocket', server.WebSocket);
+    const recording = new SwarmHubHarness(server);
+
+    const started = await recording.fetch('/api/admin/capture/start?durationSec=60', { method: 'POST' });
+    expect(await started.json()).toMatchObject({ shard: 'global', running: true, capture: { endsAtMs: CAPTURE_START_MS + 60_000 } });
+
+    const live = await recording.openSse('/api/live-stream?sportId=1&sportName=Football');
+    await live.next('games');
+    await live.next('odds');
+    await vi.waitFor(() => expect(server.subscriptionIds('live-games')).toHaveLength(1));
+    server.push('live-games', { sport: { 1: { region: { 10: { competition: { 100: { game: { 1000: { text_info: '2nd half' } } } } } } } } });
+    await live.next('games_patch');
+    server.push('live-odds', { game: { 1000: { market: { 500: { event: { 5001: { price: 2.3 } } } } } } });
+    await live.next('odds');
+    const recorded = normalize(live.frames);
+    recording.dispose();
+
+    const stopped = await recording.fetch('/api/admin/capture/stop', { method: 'POST' });
+    expect(await stopped.json()).toMatchObject({ running: false, capture: { stopReason: 'stopped' } });
+
+    const download = await recording.fetch('/api/admin/capture/download');
+    expect(download.headers.get('Content-Type')).toContain('application/x-ndjson');
+    const frames = parseCaptureNdjson(await download.text());
+    expect(frames[0]).toMatchObject({ dir: 'out', ts: CAPTURE_START_MS });
+    expect(JSON.parse(frames[0].frame).command).toBe('request_session');
+    expect(frames.filter((f) => f.dir === 'out').length).toBe(server.requests.length);
+
+    const replay = new SwarmReplayServer(frames);
+    vi.stubGlobal('WebSocket', replay.WebSocket);
+    const replaying = new SwarmHubHarness(replay);
+    const again = await replaying.openSse('/api/live-stream?sportId=1&sportName=Football');
+    await replay.play();
+    await vi.waitFor(() => expect(again.frames.length).toBeGreaterThanOrEqual(recorded.length));
+
+    expect(normalize(again.frames)).toEqual(recorded);
+    expect(replay.unmatched).toEqual([]);
+    replaying.dispose();
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { annotateHierarchyCounts, extractCountsTreeFromSwarm, extractSportsCountsFromSwarm, mergeCountsTree } from '../lib/swarmCounts.js';
+
+const live = {
+  data: {
+    sport: {
+      1: {
+        id: 1,
+        name: 'Football',
+        region: {
+          10: { id: 10, name: 'England', competition: { 100: { id: 100, name: 'Premier League', game: { 1: { id: 1 }, 2: { id: 2 } } } } },
+          20: { id: 20, name: 'Spain', competition: { 200: { id: 200, name: 'La Liga', game: {} } } }
+        }
+      }
+    }
+  }
+};
+
+const prematch = {
+  sport: {
+    1: { id: 1, name: 'Football', region: { 20: { id: 20, name: 'Spain', competition: { 200: { id: 200, name: 'La Liga', game: { 3: { id: 3 } } } } } } },
+    5: { id: 5, name: 'Tennis', game: 4 }
+  }
+};
+
+describe('swarmCounts', () => {
+  it('counts sport games nested under regions and competitions', () => {
+    expect(extractSportsCountsFromSwarm(live)).toEqual({ sports: [{ name: 'Football', count: 2 }], totalGames: 2 });
+    expect(extractSportsCountsFromSwarm(prematch).totalGames).toBe(5);
+  });
+
+  it('merges live and prematch counts at every level', () => {
+    const tree = mergeCountsTree(extractCountsTreeFromSwarm(live), extractCountsTreeFromSwarm(prematch));
+    expect(tree.total).toEqual({ live: 2, prematch: 5 });
+    expect(tree.sports.map((s) => [s.name, s.live, s.prematch])).toEqual([
+      ['Football', 2, 1],
+      ['Tennis', 0, 4]
+    ]);
+    expect(tree.sports[0].regions).toEqual([
+      { id: '10', name: 'England', live: 2, prematch: 0, competitions: [{ id: '100', name: 'Premier League', live: 2, prematch: 0 }] },
+      { id: '20', name: 'Spain', live: 0, prematch: 1, competitions: [{ id: '200', name: 'La Liga', live: 0, prematch: 1 }] }
+    ]);
+  });
+
+  it('annotates a copy of the hierarchy', () => {
+    const tree = mergeCountsTree(extractCountsTreeFromSwarm(live), extractCountsTreeFromSwarm(prematch));
+    const hierarchy = { data: { sport: { 1: { id: 1, name: 'Football', region: { 30: { id: 30, name: 'Italy', competition: {} } } } } } };
+    const annotated = annotateHierarchyCounts(hierarchy, tree) as any;
+    expect(annotated.data.sport[1]).toMatchObject({ live: 2, prematch: 1, region: { 30: { live: 0, prematch: 0 } } });
+    expect(annotated.data.counts_total).toEqual({ live: 2, prematch: 5 });
+    expect((hierarchy.data.sport[1] as any).live).toBeUndefined();
+  });
+});
@@ -0,0 +1,428 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { FakeSwarmServer, whereAt, type SwarmFixture } from './support/fakeSwarmServer.js';
+import { SwarmHubHarness } from './support/swarmHubHarness.js';
+import { gameShardName } from '../lib/sharding.js';
+import type { SwarmGame } from '../lib/swarmProtocol.js';
+
+function winnerMarket(id: number, gameId: number, prices: [number, number, number]) {
+  return {
+    id,
+    game_id: gameId,
+    type: 'P1XP2',
+    name: 'Match Result',
+    display_key: 'WINNER',
+    display_sub_key: 'MATCH',
+    order: 0,
+    is_blocked: 0,
+    event: {
+      [id * 10 + 1]: { id: id * 10 + 1, market_id: id, type: 'P1', type_1: 'W1', name: 'W1', price: prices[0], order: 0 },
+      [id * 10 + 2]: { id: id * 10 + 2, market_id: id, type: 'X', type_1: 'X', name: 'X', price: prices[1], order: 1 },
+      [id * 10 + 3]: { id: id * 10 + 3, market_id: id, type: 'P2', type_1: 'W2', name: 'W2', price: prices[2], order: 2 }
+    }
+  };
+}
+
+function liveGame(id: number, team1: string, team2: string) {
+  return { id, sport_id: 1, type: 1, start_ts: 1700000000, team1_name: team1, team2_name: team2, markets_count: 1, text_info: '1st half' };
+}
+
+function prematchGame(id: number) {
+  return { id, sport_id: 1, type: 0, visible_in_prematch: 1, start_ts: 1900000000, team1_name: 'E', team2_name: 'F', markets_count: 1 };
+}
+
+function tree(games: Record<string, SwarmGame>) {
+  return {
+    sport: {
+      1: {
+        id: 1,
+        name: 'Football',
+        region: { 10: { id: 10, name: 'England', competition: { 100: { id: 100, name: 'Premier League', game: games } } } }
+      }
+    }
+  };
+}
+
+const fixtures: SwarmFixture[] = [
+  {
+    name: 'hierarchy',
+    match: (p) => Boolean(p.what.competition) && !p.what.game,
+    data: {
+      sport: {
+        1: { id: 1, name: 'Football', alias: 'Soccer', order: 1, region: { 10: { id: 10, name: 'England', competition: { 100: { id: 100, name: 'Premier League' } } } } },
+        2: { id: 2, name: 'Tennis', alias: 'Tennis', order: 2, region: {} }
+      }
+    }
+  },
+  {
+    name: 'tennis-unavailable',
+    match: (p) => whereAt(p, 'sport.id') === 2,
+    data: {},
+    error: { code: 12, msg: 'sport unavailable' }
+  },
+  {
+    name: 'counts-live',
+    match: (p) => !p.what.market && whereAt(p, 'sport.id') === undefined && whereAt(p, 'game.type') === 1,
+    data: { sport: { 1: { id: 1, name: 'Football', game: { 1000: { id: 1000 }, 1001: { id: 1001 } } } } }
+  },
+  {
+    name: 'counts-prematch',
+    match: (p) => !p.what.market && whereAt(p, 'sport.id') === undefined && whereAt(p, 'game.@or') !== undefined,
+    data: { sport: { 1: { id: 1, name: 'Football', game: { 2000: { id: 2000 } } } } }
+  },
+  {
+    name: 'live-games',
+    match: (p) => whereAt(p, 'sport.id') === 1 && whereAt(p, 'game.type') === 1 && Boolean(p.what.region),
+    data: tree({ 1000: liveGame(1000, 'A', 'B'), 1001: liveGame(1001, 'C', 'D') })
+  },
+  {
+    name: 'live-odds',
+    match: (p) => whereAt(p, 'sport.id') === 1 && whereAt(p, 'game.type') === 1 && Boolean(p.what.market),
+    data: { game: { 1000: { id: 1000, markets_count: 1, market: { 500: winnerMarket(500, 1000, [2.1, 3.2, 3.4]) } } } }
+  },
+  {
+    name: 'prematch-games',
+    match: (p) => whereAt(p, 'sport.id') === 1 && whereAt(p, 'game.@or') !== undefined && Boolean(p.what.region),
+    data: tree({ 2000: prematchGame(2000) })
+  },
+  {
+    name: 'prematch-odds',
+    match: (p) => whereAt(p, 'game.start_ts') !== undefined || whereAt(p, 'game.id.@in') !== undefined,
+    data: { game: { 2000: { id: 2000, markets_count: 1, market: { 700: winnerMarket(700, 2000, [1.5, 4.0, 6.0]) } } } }
+  },
+  {
+    name: 'competition-odds',
+    match: (p) => whereAt(p, 'competition.id') === 100,
+    data: { game: { 1000: { id: 1000, markets_count: 1, market: { 500: winnerMarket(500, 1000, [2.1, 3.2, 3.4]) } } } }
+  },
+  {
+    name: 'game-detail',
+    match: (p) => whereAt(p, 'game.id') === 1000,
+    data: { game: { 1000: { ...liveGame(1000, 'A', 'B'), market: { 500: winnerMarket(500, 1000, [2.1, 3.2, 3.4]) } } } }
+  }
+];
+
+describe('SwarmHubDO against a fake Swarm server', () => {
+  let server: FakeSwarmServer;
+  let harness: SwarmHubHarness;
+
+  beforeEach(() => {
+    server = new FakeSwarmServer(fixtures);
+    server.on('get_market_type', () => ({ code: 0, data: { details: [{ BasaltKind: 'P1XP2', Order: 1 }] } }));
+    vi.stubGlobal('WebSocket', server.WebSocket);
+    harness = new SwarmHubHarness(server);
+  });
+
+  afterEach(() => {
+    harness.dispose();
+    vi.unstubAllGlobals();
+  });
+
+  it('streams counts, follows deltas and unsubscribes when the last client leaves', async () => {
+    const sse = await harness.openSse('/api/counts-stream');
+
+    const live = await sse.next('live_counts');
+    expect(live.data).toEqual({ sports: [{ name: 'Football', count: 2 }], total_games: 2 });
+    const prematch = await sse.next('prematch_counts');
+    expect(prematch.data).toEqual({ sports: [{ name: 'Football', count: 1 }], total_games: 1 });
+    expect(server.requests[0].command).toBe('request_session');
+
+    expect(server.push('counts-live', { sport: { 1: { game: { 1002: { id: 1002 } } } } })).toBe(1);
+    expect((await sse.next('live_counts')).data).toMatchObject({ total_games: 3 });
+
+    server.push('counts-live', { sport: { 1: { game: { 1000: null, 1001: null, 1002: null } } } });
+    expect((await sse.next('live_counts')).data).toEqual({ sports: [], total_games: 0 });
+
+    const subids = [...server.subscriptionIds('counts-live'), ...server.subscriptionIds('counts-prematch')];
+    sse.close();
+    await server.waitForRequest((r) => r.command === 'unsubscribe' && r.params.subid === subids[1]);
+    expect(server.activeSubscriptions).toBe(0);
+  });
+
+  it('keeps live and prematch counts per region and competition', async () => {
+    const sse = await harness.openSse('/api/counts-stream');
+    expect((await sse.next('tree_counts')).data).toMatchObject({
+      sports: [{ id: '1', name: 'Football', live: 2, prematch: 0, regions: [] }],
+      total: { live: 2, prematch: 0 }
+    });
+
+    expect((await sse.next('tree_counts')).data).toMatchObject({ total: { live: 2, prematch: 1 } });
+
+    await vi.waitFor(() => expect(server.subscriptionIds('counts-prematch')).toHaveLength(1));
+    server.push('counts-live', {
+      sport: { 1: { region: { 10: { id: 10, name: 'England', competition: { 100: { id: 100, name: 'Premier League', game: { 1003: { id: 1003 } } } } } } } }
+    });
+    expect(((await sse.next('tree_counts')).data as any).sports[0]).toMatchObject({
+      live: 3,
+      prematch: 1,
+      regions: [{ id: '10', name: 'England', live: 1, prematch: 0, competitions: [{ id: '100', name: 'Premier League', live: 1, prematch: 0 }] }]
+    });
+    expect((await sse.next('live_counts')).data).toMatchObject({ total_games: 2 });
+    expect((await sse.next('live_counts')).data).toMatchObject({ total_games: 3 });
+
+    const hierarchy = (await (await harness.fetch('/api/hierarchy?withCounts=1')).json()) as any;
+    expect(hierarchy.sport[1]).toMatchObject({ live: 3, prematch: 1 });
+    expect(hierarchy.sport[1].region[10]).toMatchObject({ live: 1, competition: { 100: { name: 'Premier League', live: 1, prematch: 0 } } });
+    expect(hierarchy.sport[2]).toMatchObject({ live: 0, prematch: 0 });
+    expect(hierarchy.counts_total).toEqual({ live: 3, prematch: 1 });
+    sse.close();
+  });
+
+  it('passes the coordinator counts on to live sport shards', async () => {
+    const counts = await harness.openSse('/api/counts-stream');
+    await counts.next('live_counts');
+    const sse = await harness.openSse('/api/live-stream?sportId=1&sportName=Football', { shard: 'sport-1' });
+    expect((await sse.next('counts')).data).toEqual({ sports: [{ name: 'Football', count: 2 }], total_games: 2 });
+    expect((await sse.next('prematch_counts')).data).toMatchObject({ total_games: 1 });
+
+    server.push('counts-live', { sport: { 1: { game: { 1002: { id: 1002 } } } } });
+    expect((await sse.next('counts')).data).toMatchObject({ total_games: 3 });
+    // Only the coordinator subscribes to the all-sports counts.
+    expect(server.subscriptionIds('counts-live')).toHaveLength(1);
+    expect(server.subscriptionIds('counts-prematch')).toHaveLength(1);
+  });
+
+  it('keeps the counts tree subscriptions off the sport shards', async () => {
+    const sse = await harness.openSse('/api/counts-stream', { shard: 'sport-1' });
+    expect((await sse.next('error')).data).toEqual({ error: 'Counts are only served by the coordinator' });
+    expect(server.subscriptionIds('counts-live')).toHaveLength(0);
+    expect(server.subscriptionIds('counts-prematch')).toHaveLength(0);
+  });
+
+  it('streams live games as snapshots and patches, with subscribed odds', async () => {
+    const sse = await harness.openSse('/api/live-stream?sportId=1&sportName=Football');
+
+    const games = await sse.next('games');
+    expect((games.data as any).data.map((g: any) => [g.id, g.team1_name, g.competition])).toEqual([
+      [1000, 'A', 'Premier League'],
+      [1001, 'C', 'Premier League']
+    ]);
+    expect(games.id).not.toBeNull();
+
+    const odds = await sse.next('odds');
+    expect((odds.data as any).updates[0]).toMatchObject({ gameId: 1000, markets_count: 1 });
+    expect((odds.data as any).updates[0].odds.map((o: any) => o.price)).toEqual([2.1, 3.2, 3.4]);
+    expect((odds.data as any).updates[0].probabilities).toMatchObject({ overround: 1.0828, shin: [0.4463, 0.2859, 0.2679] });
+
+    await vi.waitFor(() => expect(server.subscriptionIds('live-games')).toHaveLength(1));
+    server.push('live-games', { sport: { 1: { region: { 10: { competition: { 100: { game: { 1000: { text_info: '2nd half' } } } } } } } } });
+    const patch = await sse.next('games_patch');
+    expect((patch.data as any).changed).toEqual([{ id: '1000', fields: { text_info: '2nd half' } }]);
+
+    server.push('live-odds', { game: { 1000: { market: { 500: { event: { 5001: { price: 2.3 } } } } } } });
+    const moved = await sse.next('odds');
+    expect((moved.data as any).updates[0].odds[0]).toMatchObject({ price: 2.3, prev_price: 2.1, direction: 'up' });
+  });
+
+  it('streams prematch games and odds', async () => {
+    const sse = await harness.openSse('/api/prematch-stream?sportId=1&sportName=Football');
+
+    const games = await sse.next('games');
+    expect((games.data as any).data.map((g: any) => g.id)).toEqual([2000]);
+
+    const odds = await sse.next('odds');
+    expect((odds.data as any).updates[0]).toMatchObject({ gameId: 2000, probabilities: { proportional: [0.6154, 0.2308, 0.1538] } });
+    expect((odds.data as any).updates[0].odds.map((o: any) => o.price)).toEqual([1.5, 4, 6]);
+  });
+
+  it('streams competition odds updates', async () => {
+    const sse = await harness.openSse('/api/competition-odds-stream?competitionId=100&sportId=1&mode=live&sportName=Football');
+
+    const odds = await sse.next('odds');
+    expect(odds.data).toMatchObject({ sportId: '1', competitionId: '100', updates: [expect.objectContaining({ gameId: 1000 })] });
+
+    server.push('competition-odds', { game: { 1000: { market: { 500: { event: { 5003: { price: 3.0 } } } } } } });
+    const moved = await sse.next('odds');
+    expect((moved.data as any).updates[0].odds[2]).toMatchObject({ price: 3, prev_price: 3.4, direction: 'down' });
+  });
+
+  it('records a movement seen by several odds groups once', async () => {
+    const shard = { shard: 'sport-1' };
+    const live = await harness.openSse('/api/live-stream?sportId=1&sportName=Football', shard);
+    const competition = await harness.openSse('/api/competition-odds-stream?competitionId=100&sportId=1&mode=live&sportName=Football', shard);
+    await live.next('odds');
+    await competition.next('odds');
+    await vi.waitFor(() => expect(server.subscriptionIds('competition-odds')).toHaveLength(1));
+
+    server.push('live-odds', { game: { 1000: { market: { 500: { event: { 5001: { price: 2.3 } } } } } } });
+    server.push('competition-odds', { game: { 1000: { market: { 500: { event: { 5001: { price: 2.3 } } } } } } });
+    await live.next('odds');
+    await competition.next('odds');
+
+    const history = async () =>
+      (await (await harness.fetch('/api/games/1000/odds-history?eventId=5001', { shard: gameShardName('1000') })).json()) as any;
+    await vi.waitFor(async () => expect((await history()).history).toHaveLength(1), { timeout: 3000 });
+    expect((await history()).history[0]).toMatchObject({ old: 2.1, new: 2.3, blocked: false });
+    expect([...harness.states.get(gameShardName('1000'))!.storage.data.keys()]).toContain('odds_history_touched:1000');
+  });
+
+  it('applies a margin profile and odds format per client', async () => {
+    const put = await harness.fetch('/api/admin/margin-profiles/partner-a', {
+      method: 'PUT',
+      body: JSON.stringify({ defaultMarginPct: 0, rules: [{ sportId: '1', marketType: 'P1XP2', marginPct: 5 }] })
+    });
+    expect(put.status).toBe(200);
+
+    // The sport shard reads the profile from the coordinator.
+    const shard = { shard: 'sport-1' };
+    const plain = await harness.openSse('/api/live-stream?sportId=1&sportName=Football', shard);
+    const partner = await harness.openSse('/api/live-stream?sportId=1&sportName=Football&format=fractional&profile=partner-a', shard);
+
+    expect((await plain.next('odds')).data).toMatchObject({ updates: [{ odds: [{ price: 2.1 }, { price: 3.2 }, { price: 3.4 }] }] });
+    const odds = (await partner.next('odds')).data as any;
+    expect(odds.updates[0].odds.map((o: any) => o.price)).toEqual(['1/1', '41/20', '56/25']);
+
+    expect((await harness.fetch('/api/live-stream?sportId=1&format=decimal&profile=missing', shard)).status).toBe(400);
+    expect((await harness.fetch('/api/live-stream?sportId=1&format=moneyline', shard)).status).toBe(400);
+  });
+
+  it('serves normalized game stats', async () => {
+    const resp = await harness.fetch('/api/game-stats?gameId=1000');
+    expect(resp.status).toBe(200);
+    expect(await resp.json()).toMatchObject({ gameId: '1000', is_live: true, periods: [], possession: null });
+    const before = server.requests.length;
+    await harness.fetch('/api/game-stats?gameId=1000');
+    expect(server.requests.length).toBe(before);
+
+    expect((await harness.fetch('/api/game-stats?gameId=4040')).status).toBe(404);
+  });
+
+  it('exports every game as one paged snapshot', async () => {
+    const resp = await harness.fetch('/api/fetch-all-sports?limit=2');
+    expect(resp.status).toBe(200);
+    const first = (await resp.json()) as any;
+    expect(first).toMatchObject({ sports: 2, total: 3, count: 2, offset: 0 });
+    expect(first.games.map((g: any) => [g.id, g.mode, g.competition])).toEqual([
+      ['1000', 'live', 'Premier League'],
+      ['1001', 'live', 'Premier League']
+    ]);
+    expect(first.errors).toEqual([
+      { sportId: '2', sport: 'Tennis', mode: 'live', error: 'get sport stream failed: sport unavailable' },
+      { sportId: '2', sport: 'Tennis', mode: 'prematch', error: 'get sport stream failed: sport unavailable' }
+    ]);
+
+    const before = server.requests.length;
+    const second = (await (await harness.fetch(`/api/fetch-all-sports?cursor=${first.next_cursor}`)).json()) as any;
+    expect(second).toMatchObject({ snapshot_id: first.snapshot_id, count: 1, offset: 2, next_cursor: null });
+    expect(second.games[0]).toMatchObject({ id: '2000', mode: 'prematch', market_type: 'P1XP2', probabilities: { proportional: [0.6154, 0.2308, 0.1538] } });
+    expect(second.games[0].odds.map((o: any) => o.price)).toEqual([1.5, 4, 6]);
+
+    const ndjson = await (await harness.fetch('/api/fetch-all-sports?format=ndjson')).text();
+    const lines = ndjson.trim().split('\n').map((l) => JSON.parse(l));
+    expect(lines.slice(0, 3).map((l) => l.game.id)).toEqual(['1000', '1001', '2000']);
+    expect(lines[3].summary).toMatchObject({ snapshot_id: first.snapshot_id, count: 3 });
+    expect(server.requests.length).toBe(before);
+
+    expect((await harness.fetch('/api/fetch-all-sports?cursor=gone.0')).status).toBe(410);
+    expect((await harness.fetch('/api/fetch-all-sports?limit=0')).status).toBe(400);
+  });
+
+  it('searches the hierarchy and the teams of active streams', async () => {
+    const sse = await harness.openSse('/api/live-stream?sportId=1&sportName=Football', { shard: 'sport-1' });
+    await sse.next('games');
+    await vi.waitFor(() => expect(server.subscriptionIds('live-games')).toHaveLength(1));
+    server.push('live-games', {
+      sport: { 1: { region: { 10: { competition: { 100: { game: { 1001: { team1_name: 'Atlético Madrid', competition_id: 100, region_id: 10, text_info: 'HT' } } } } } } } }
+    });
+    await sse.next('games_patch');
+
+    const search = async (query: string) => (await (await harness.fetch(`/api/search?${query}`)).json()) as any;
+
+    // The sport shard pushes its teams to the coordinator; search never calls the shards.
+    await vi.waitFor(async () => expect((await search('q=atletico')).hits).toHaveLength(1), { timeout: 5000 });
+    const teams = await search('q=atletico');
+    expect(teams.hits[0]).toMatchObject({
+      type: 'team',
+      name: 'Atlético Madrid',
+      gameId: '1001',
+      mode: 'live',
+      sportId: '1',
+      competitionId: '100',
+      opponent: 'D',
+      streams: ['/api/live-game-stream?gameId=1001']
+    });
+
+    const fuzzy = await search('q=premer');
+    expect(fuzzy.hits.map((h: any) => [h.type, h.id, h.sportId])).toEqual([['competition', '100', '1']]);
+    expect(fuzzy.hits[0].streams[0]).toBe('/api/competition-odds-stream?sportId=1&competitionId=100&mode=live');
+
+    expect((await search('q=ten&types=sport')).hits.map((h: any) => h.name)).toEqual(['Tennis']);
+    expect((await harness.fetch('/api/search?q=a')).status).toBe(400);
+    expect((await harness.fetch('/api/search?q=ab&types=player')).status).toBe(400);
+  });
+
+  it('browses results by day, caching final days in storage', async () => {
+    const day = 1699920000;
+    const byDay: Record<number, unknown[]> = {
+      [day]: [
+        { game_id: 1, date: day + 3600, team1_name: 'Atlético', team2_name: 'Betis', competition_name: 'Premier League' },
+        { game_id: 2, date: day + 7200, team1_name: 'Arsenal', team2_name: 'Chelsea', competition_name: 'Premier League' }
+      ],
+      [day + 86400]: [{ game_id: 3, date: day + 90000, team1_name: 'Everton', team2_name: 'Fulham', competition_name: 'Championship' }]
+    };
+    server.on('get_result_games', (p) => ({ code: 0, data: { games: { game: byDay[p.from_date] ?? [] } } }));
+
+    const base = `/api/results/games/1?from=${day}&to=${day + 2 * 86400}`;
+    const first = (await (await harness.fetch(`${base}&limit=2`)).json()) as any;
+    expect(first).toMatchObject({ success: true, total: 3, count: 2, days: 2, cached_days: 0 });
+    expect(first.games.map((g: any) => g.game_id)).toEqual([3, 2]);
+
+    const calls = server.requests.filter((r) => r.command === 'get_result_games').length;
+    expect(calls).toBe(2);
+    const second = (await (await harness.fetch(`${base}&limit=2&cursor=${first.next_cursor}`)).json()) as any;
+    expect(second).toMatchObject({ cached_days: 2, next_cursor: null });
+    expect(second.games.map((g: any) => g.game_id)).toEqual([1]);
+    expect(server.requests.filter((r) => r.command === 'get_result_games').length).toBe(calls);
+
+    const filtered = (await (await harness.fetch(`${base}&competitionId=100&team=atletico`)).json()) as any;
+    expect(filtered.games.map((g: any) => g.game_id)).toEqual([1]);
+
+    expect((await harness.fetch(`/api/results/games/1?from=${day}&to=${day + 40 * 86400}`)).status).toBe(400);
+    expect((await harness.fetch(`${base}&cursor=bad`)).status).toBe(400);
+  });
+
+  it('streams a game with its market book', async () => {
+    const sse = await harness.openSse('/api/live-game-stream?gameId=1000');
+
+    const game = await sse.next('game');
+    expect((game.data as any).data).toMatchObject({ id: 1000, team1_name: 'A' });
+    const markets = await sse.next('markets');
+    expect((markets.data as any).groups[0].markets[0].selections.map((s: any) => s.price)).toEqual([2.1, 3.2, 3.4]);
+
+    await vi.waitFor(() => expect(server.subscriptionIds('game-detail')).toHaveLength(1));
+    server.push('game-detail', { game: { 1000: { market: { 500: { event: { 5002: { price: 3.5 } } } } } } });
+    await sse.next('game');
+    const updated = await sse.next('markets');
+    expect((updated.data as any).groups[0].markets[0].selections[1].price).toBe(3.5);
+  });
+
+  it('settles results against the markets the game shard streamed', async () => {
+    const sse = await harness.openSse('/api/live-game-stream?gameId=1000', { shard: gameShardName('1000') });
+    await sse.next('markets');
+    sse.close();
+
+    server.on('get_results', () => ({
+      code: 0,
+      data: { lines: { line: [{ line_name: 'Match Result', events: { event_name: ['W2'] } }] } }
+    }));
+    await vi.waitFor(async () => {
+      const body = (await (await harness.fetch('/api/results/game/1000')).json()) as any;
+      expect(body.catalog_updated_at).not.toBeNull();
+    });
+
+    const body = (await (await harness.fetch('/api/results/game/1000')).json()) as any;
+    expect(body.settlements).toEqual([
+      {
+        market: 'Match Result',
+        market_id: '500',
+        market_type: 'P1XP2',
+        kind: 'standard',
+        winners: ['W2'],
+        selections: [
+          { event_id: '5001', name: 'W1', type: 'W1', side: 'home', line: null, outcome: 'lost' },
+          { event_id: '5002', name: 'X', type: 'X', side: 'draw', line: null, outcome: 'lost' },
+          { event_id: '5003', name: 'W2', type: 'W2', side: 'away', line: null, outcome: 'won' }
+        ]
+      }
+    ]);
+  });
+});
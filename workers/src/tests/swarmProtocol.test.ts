@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getSwarmResponseError,
+  MAX_SCHEMA_ISSUES,
+  schemaIssueKey,
+  swarmCollectionValues,
+  unwrapSwarmData,
+  validateSwarmData,
+  validateSwarmResponse
+} from '../lib/swarmProtocol.js';
+
+const tree = {
+  sport: {
+    1: {
+      id: 1,
+      name: 'Football',
+      region: {
+        10: {
+          id: 10,
+          name: 'England',
+          competition: {
+            100: {
+              id: 100,
+              name: 'Premier League',
+              game: {
+                1000: {
+                  id: 1000,
+                  start_ts: 1700000000,
+                  team1_name: 'A',
+                  team2_name: 'B',
+                  is_blocked: 0,
+                  market: {
+                    5: { id: 5, type: 'P1XP2', base: '1.5', event: { 7: { id: 7, type: 'P1', price: 2.1 } } }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+};
+
+describe('swarm protocol validation', () => {
+  it('accepts a well-formed tree, deletions and unknown fields', () => {
+    expect(validateSwarmData(tree)).toEqual([]);
+    expect(validateSwarmData({ game: { 1000: null, 1001: { id: 1001, is_new_field: [1, 2] } } })).toEqual([]);
+    expect(validateSwarmData({ market: { 5: { event: { 7: { price: null } } } } })).toEqual([]);
+  });
+
+  it('reports known fields with an unexpected type without touching the data', () => {
+    const delta = { game: { 1000: { start_ts: '1700000000', market: { 5: { event: { 7: { price: 'n/a' } } } } } } };
+    const before = JSON.stringify(delta);
+    const issues = validateSwarmData(delta);
+    expect(issues.map(schemaIssueKey)).toEqual(['game.start_ts:string', 'event.price:string']);
+    expect(JSON.stringify(delta)).toBe(before);
+  });
+
+  it('reports malformed collections and caps the issue count', () => {
+    expect(validateSwarmData({ sport: { 1: { region: 'x' } } }).map(schemaIssueKey)).toEqual(['sport.region:string']);
+    const game: Record<string, unknown> = {};
+    for (let i = 0; i < MAX_SCHEMA_ISSUES * 2; i++) game[i] = { id: i, team1_name: i };
+    expect(validateSwarmData({ game })).toHaveLength(MAX_SCHEMA_ISSUES);
+  });
+
+  it('checks command responses', () => {
+    expect(validateSwarmResponse('request_session', { code: 0, data: { sid: 'abc' } })).toEqual([]);
+    expect(validateSwarmResponse('request_session', { code: 0, data: {} }).map(schemaIssueKey)).toEqual([
+      'response.request_session.sid:undefined'
+    ]);
+    expect(validateSwarmResponse('get', { code: 0, data: { subid: 'x', data: tree } })).toEqual([]);
+    expect(validateSwarmResponse('get_result_games', { code: 0, data: { games: { game: {} } } }).map(schemaIssueKey)).toEqual([
+      'response.get_result_games.games.game:object'
+    ]);
+    // Failed responses are reported through the error path, not as drift
+    expect(validateSwarmResponse('get', { code: 12, msg: 'bad' })).toEqual([]);
+    expect(getSwarmResponseError('get_results', { code: 12, msg: 'bad' })?.message).toBe('get_results failed: bad');
+    expect(getSwarmResponseError('get_results', { code: 0 })).toBeNull();
+  });
+
+  it('unwraps get responses and reads collections', () => {
+    expect(unwrapSwarmData({ code: 0, data: { subid: 'x', data: tree } })).toBe(tree);
+    expect(unwrapSwarmData('nope')).toBeNull();
+    expect(swarmCollectionValues({ 1: { id: 1 }, 2: null } as never)).toEqual([{ id: 1 }]);
+    expect(swarmCollectionValues([{ id: 1 }, null] as never)).toEqual([{ id: 1 }]);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { parseReplaySpeed, replayDelayMs, TRACKER_REPLAY_MAX_SPEED, unarchivedSnapshotEvents } from '../lib/trackerArchive.js';
+import type { TrackerEvent } from '../lib/trackerEvents.js';
+
+describe('trackerArchive', () => {
+  it('parses replay speeds', () => {
+    expect(parseReplaySpeed(null)).toBe(1);
+    expect(parseReplaySpeed('')).toBe(1);
+    expect(parseReplaySpeed('4')).toBe(4);
+    expect(parseReplaySpeed('0.5')).toBe(0.5);
+    expect(parseReplaySpeed('5000')).toBe(TRACKER_REPLAY_MAX_SPEED);
+    expect(parseReplaySpeed('0')).toBeNull();
+    expect(parseReplaySpeed('-2')).toBeNull();
+    expect(parseReplaySpeed('fast')).toBeNull();
+  });
+
+  it('spaces replayed events by their arrival gap over the speed', () => {
+    expect(replayDelayMs(null, 5000, 1)).toBe(0);
+    expect(replayDelayMs(1000, 5000, 1)).toBe(4000);
+    expect(replayDelayMs(1000, 5000, 8)).toBe(500);
+    expect(replayDelayMs(5000, 5000, 2)).toBe(0);
+    expect(replayDelayMs(6000, 5000, 1)).toBe(0);
+  });
+
+  it('keeps the snapshot events not archived yet, repeats included', () => {
+    const corner: TrackerEvent = { kind: 'incident', type: 'corner', card: null, side: 'home', minute: 12, period: 1, label: 'Corner' };
+    const goal: TrackerEvent = { kind: 'incident', type: 'goal', card: null, side: 'away', minute: 30, period: 1, label: 'Goal' };
+    const row = ({ kind, ...rest }: TrackerEvent) => ({ kind, data: JSON.stringify(rest) });
+
+    expect(unarchivedSnapshotEvents([row(corner), row(goal)], [corner, goal])).toEqual([]);
+    // A second identical corner missed while the feed was down is still archived.
+    expect(unarchivedSnapshotEvents([row(corner)], [corner, corner, goal])).toEqual([corner, goal]);
+    expect(unarchivedSnapshotEvents([], [corner, corner])).toEqual([corner, corner]);
+  });
+
+  it('leaves the ball position of a snapshot out', () => {
+    const ball: TrackerEvent = { kind: 'ball', x: 0.4, y: 0.5, side: 'home' };
+    const kickoff: TrackerEvent = { kind: 'period', phase: 'start', period: 1, final: false, label: '1st half' };
+
+    expect(unarchivedSnapshotEvents([], [kickoff, ball])).toEqual([kickoff]);
+  });
+});
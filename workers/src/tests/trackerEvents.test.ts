@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { createTrackerFeedContext, normalizeTrackerFrame, trackerPeriodLabel } from '../lib/trackerEvents.js';
+
+describe('trackerEvents', () => {
+  it('reads type names and skips numeric provider codes', () => {
+    const context = createTrackerFeedContext();
+    const events = normalizeTrackerFrame(
+      {
+        data: {
+          sport_alias: 'Soccer',
+          period: 2,
+          events: [
+            { type: 'Goal', side: '1', current_minute: '63' },
+            { type: 'red_card', side: '2' },
+            { type: 'Corner Kick', team: 'home', minute: 64 },
+            { type: 'substitution', side: 'away' },
+            { event: 'DangerousAttack', side: '2' },
+            { type_id: 1, side: '1' },
+            { type: 7 },
+            { type: 'ball_position', x: '0.25', y: 0.6, side: '1' },
+            { type: 'ball_position', x: 'left' },
+            'noise'
+          ]
+        }
+      },
+      context
+    );
+
+    expect(events).toEqual([
+      { kind: 'incident', type: 'goal', card: null, side: 'home', minute: 63, period: 2, label: 'Goal' },
+      { kind: 'incident', type: 'card', card: 'red', side: 'away', minute: null, period: 2, label: 'Red card' },
+      { kind: 'incident', type: 'corner', card: null, side: 'home', minute: 64, period: 2, label: 'Corner' },
+      { kind: 'incident', type: 'substitution', card: null, side: 'away', minute: null, period: 2, label: 'Substitution' },
+      { kind: 'incident', type: 'dangerous_attack', card: null, side: 'away', minute: null, period: 2, label: 'Dangerous attack' },
+      { kind: 'ball', x: 0.25, y: 0.6, side: 'home' }
+    ]);
+    expect(context).toEqual({ sport: 'soccer', period: 2 });
+  });
+
+  it('keeps the sport and period of earlier frames', () => {
+    const context = createTrackerFeedContext();
+    expect(normalizeTrackerFrame({ sport: 'Basketball', score: '0:0' }, context)).toEqual([]);
+    expect(normalizeTrackerFrame({ type: 'period_start', period: 3 }, context)).toEqual([
+      { kind: 'period', phase: 'start', period: 3, final: false, label: 'Q3' }
+    ]);
+    expect(normalizeTrackerFrame({ type: 'goal', side: 1, ball: { x: 10, y: 20 } }, context)).toEqual([
+      { kind: 'incident', type: 'goal', card: null, side: 'home', minute: null, period: 3, label: 'Score' },
+      { kind: 'ball', x: 10, y: 20, side: null }
+    ]);
+    expect(normalizeTrackerFrame({ type: 'full_time' }, context)).toMatchObject([{ kind: 'period', phase: 'end', final: true, label: 'Full time' }]);
+    expect(normalizeTrackerFrame({ raw: 'not json' }, context)).toEqual([]);
+    expect(normalizeTrackerFrame(null, context)).toEqual([]);
+  });
+
+  it('labels periods per sport', () => {
+    expect(trackerPeriodLabel('soccer', 2)).toBe('2nd half');
+    expect(trackerPeriodLabel('soccer', 3)).toBe('Extra time 1st half');
+    expect(trackerPeriodLabel('icehockey', 3)).toBe('3rd period');
+    expect(trackerPeriodLabel('tennis', 2)).toBe('Set 2');
+    expect(trackerPeriodLabel(null, 2)).toBe('Period 2');
+    expect(trackerPeriodLabel('basketball', null)).toBe('Period');
+  });
+});
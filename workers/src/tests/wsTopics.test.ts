@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { createSseFrameDecoder } from '../lib/sseFrames.js';
+import { formatTopic, parseTopic } from '../lib/topics.js';
+
+describe('stream topics', () => {
+  it('parses every supported topic and round-trips it', () => {
+    const topics = [
+      'counts',
+      'sport:live:1',
+      'sport:prematch:3',
+      'game:123',
+      'competition:prematch:55',
+      'competition:live:55:1',
+      'tracker:123'
+    ];
+    for (const raw of topics) {
+      const parsed = parseTopic(raw);
+      expect(parsed).not.toBeNull();
+      expect(formatTopic(parsed!)).toBe(raw);
+    }
+    expect(parseTopic('live:1')).toEqual({ kind: 'sport', mode: 'live', sportId: '1' });
+    expect(parseTopic('competition:prematch:55')).toEqual({ kind: 'competition', mode: 'prematch', competitionId: '55', sportId: null });
+  });
+
+  it('rejects malformed topics', () => {
+    for (const raw of ['', 'counts:1', 'sport:1', 'sport:upcoming:1', 'game:abc', 'game:1:2', 'tracker:', 'odds:1', 42, null]) {
+      expect(parseTopic(raw)).toBeNull();
+    }
+  });
+});
+
+describe('SSE frame decoding', () => {
+  const encoder = new TextEncoder();
+
+  it('drops comments and parses id, event and JSON data', () => {
+    const decode = createSseFrameDecoder();
+    const frames = decode(encoder.encode(`: ${' '.repeat(16)}\n\n: ready 1\n\nid: e-1\nevent: games\ndata: {"a":1}\n\ndata: plain\n\n`));
+    expect(frames).toEqual([
+      { event: 'games', id: 'e-1', data: { a: 1 } },
+      { event: 'message', id: null, data: 'plain' }
+    ]);
+  });
+
+  it('holds a frame split across chunks until it completes', () => {
+    const decode = createSseFrameDecoder();
+    expect(decode('event: odds\ndata: {"x"')).toEqual([]);
+    expect(decode(':2}\n')).toEqual([]);
+    expect(decode('\n')).toEqual([{ event: 'odds', id: null, data: { x: 2 } }]);
+  });
+});